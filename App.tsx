@@ -1,17 +1,50 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import SuiteManager from './components/SuiteManager';
 import TestRunner from './components/TestRunner';
 import IssueBoard from './components/IssueBoard';
-import { ViewState, TestSuite, TestRun, Issue, Notification, User } from './types';
-import { Bell, X, Check } from 'lucide-react';
+import RunHistory from './components/RunHistory';
+import TestPlans from './components/TestPlans';
+import MyQueue from './components/MyQueue';
+import AuditLog from './components/AuditLog';
+import LoginScreen from './components/LoginScreen';
+import LlmSettingsModal from './components/LlmSettingsModal';
+import { useI18n } from './components/I18nProvider';
+import { ViewState, TestSuite, TestRun, TestPlan, Issue, Notification, NotificationInput, NotificationLink, NotificationType, User, AuditEntry, CaseVersion, UiLocale } from './types';
+import { createBlobStore, createStorageAdapter, isQuotaExceeded, loadCollection, saveCollection, CollectionKey } from './services/storage';
+import { IssueDraft, nextIssueKey } from './services/issueLinks';
+import { evaluateQualityGates } from './services/qualityGates';
+import { buildPlanRuns, scopeSuiteToRun } from './services/testPlans';
+import { countPlanAssignments, getRunAssignees, getRunCaseIds } from './services/assignments';
+import { getRunStats, formatPassRate } from './services/runStats';
+import { addToInbox } from './services/notifications';
+import { AuditSnapshot, AUDIT_FLUSH_DELAY_MS, buildAuditEntries } from './services/auditLog';
+import { recordCaseVersions, stampCaseVersions } from './services/caseVersions';
+import { LlmSettings, UserLlmSettings, getStoredApiKey, resolveLlmSettings, storeApiKey } from './services/llm';
+import { detectUiLocale, msg } from './services/i18n';
+import {
+  AuthError,
+  LocalRegistration,
+  SignIn,
+  beginOidcLogin,
+  createAuthBackend,
+  getAuthProviders,
+  getOidcConfig,
+  getStoredSessionToken,
+  isOidcCallback,
+  isGlobalAdmin,
+  readOidcCallback,
+  storeSessionToken
+} from './services/auth';
+import { Bell, X, Check, UserPlus, CheckCircle, ShieldAlert, Bug, AtSign, KeyRound, Info } from 'lucide-react';
 
 // Mock Initial Data
+// i18n-ignore-start: sample workspace content, stored as written
 const MOCK_USERS: User[] = [
-  { id: 'admin_1', name: '최고 관리자', email: 'administrator@autotest.ai', avatar: '🛡️' },
-  { id: 'u1', name: '테스터 곰', email: 'bear@autotest.ai', avatar: '🐻' },
-  { id: 'u2', name: '개발자 데이브', email: 'dave@dev.co', avatar: '👨‍💻' }
+  { id: 'admin_1', name: '최고 관리자', email: 'administrator@autotest.ai', avatar: '🛡️', globalRole: 'ADMIN' },
+  { id: 'u1', name: '테스터 곰', email: 'bear@autotest.ai', avatar: '🐻', globalRole: 'USER' },
+  { id: 'u2', name: '개발자 데이브', email: 'dave@dev.co', avatar: '👨‍💻', globalRole: 'USER' }
 ];
 
 const MOCK_SUITES: TestSuite[] = [
@@ -83,123 +116,574 @@ const MOCK_ISSUES: Issue[] = [
     createdAt: new Date().toISOString()
   }
 ];
+// i18n-ignore-end
+
+const storage = createStorageAdapter();
+const blobs = createBlobStore();
+const auth = createAuthBackend(storage);
+
+const NOTIFICATION_ICONS: Record<NotificationType, React.ElementType> = {
+  ASSIGNMENT: UserPlus,
+  RUN_COMPLETED: CheckCircle,
+  GATE_FAILED: ShieldAlert,
+  ISSUE_STATUS_CHANGED: Bug,
+  MENTIONED: AtSign,
+  PERMISSION_GRANTED: KeyRound,
+  SYSTEM: Info
+};
+
+const LINK_VIEWS: Record<NotificationLink['kind'], ViewState> = {
+  SUITE: 'SUITES',
+  RUN: 'HISTORY',
+  ISSUE: 'ISSUES',
+  PLAN: 'PLANS'
+};
 
 const App: React.FC = () => {
+  const { t, localize, setLocale, formatDateTime } = useI18n();
   const [view, setView] = useState<ViewState>('DASHBOARD');
-  const [suites, setSuites] = useState<TestSuite[]>(MOCK_SUITES);
+  const [suites, setStoredSuites] = useState<TestSuite[]>(MOCK_SUITES);
+  const [caseVersions, setCaseVersions] = useState<CaseVersion[]>([]);
   const [runs, setRuns] = useState<TestRun[]>([]);
+  const [plans, setPlans] = useState<TestPlan[]>([]);
   const [issues, setIssues] = useState<Issue[]>(MOCK_ISSUES);
   const [activeRunSuite, setActiveRunSuite] = useState<TestSuite | null>(null);
+  const [resumeRun, setResumeRun] = useState<TestRun | null>(null);
   
-  // User & Notification State
+  // User, Auth & Notification State
   const [users, setUsers] = useState<User[]>(MOCK_USERS);
-  const [currentUser, setCurrentUser] = useState<User>(MOCK_USERS[1]); // Default to Bear
+  // Logins and sessions stay with the auth backend; the app only learns who is signed in
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
+  const [isFirstAccount, setIsFirstAccount] = useState(false);
+  // Shown on the login screen, where there is no inbox to deliver to yet
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [showNotifPanel, setShowNotifPanel] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<UserLlmSettings[]>([]);
+  const [showLlmSettings, setShowLlmSettings] = useState(false);
+  // Item a notification link points at; the target screen opens it on render
+  const [focusLink, setFocusLink] = useState<NotificationLink | null>(null);
 
-  // Load from local storage on mount (simulated persistence)
+  // Persistence
+  const [isLoaded, setIsLoaded] = useState(false);
+  const storageErrorShownRef = useRef(false);
+
+  // Audit trail: the state last written to the log, and what it will be compared against
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const auditBaselineRef = useRef<AuditSnapshot | null>(null);
+  const auditTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const currentUser = users.find(u => u.id === sessionUserId) || null;
+
+  // The interface follows the signed-in user's language, or the browser's when they haven't picked one
   useEffect(() => {
-    const savedSuites = localStorage.getItem('autotest_suites');
-    const savedRuns = localStorage.getItem('autotest_runs');
-    const savedIssues = localStorage.getItem('autotest_issues');
-    const savedUsers = localStorage.getItem('autotest_users');
-    
-    if (savedSuites) setSuites(JSON.parse(savedSuites));
-    if (savedRuns) setRuns(JSON.parse(savedRuns));
-    if (savedIssues) setIssues(JSON.parse(savedIssues));
-    if (savedUsers) {
-      const parsedUsers = JSON.parse(savedUsers);
-      setUsers(parsedUsers);
-      // Ensure Mock Admin exists if data is old
-      if (!parsedUsers.find((u: User) => u.email === 'administrator@autotest.ai')) {
-        setUsers([MOCK_USERS[0], ...parsedUsers]);
-      } else {
-        // Try to keep current user valid
-        const found = parsedUsers.find((u: User) => u.id === currentUser.id);
-        if (found) setCurrentUser(found);
+    setLocale(currentUser?.locale || detectUiLocale());
+  }, [currentUser?.locale]);
+
+  const reportStorageError = (error: unknown) => {
+    console.error('Storage error:', error);
+    // One notice per failure streak is enough; saves fire on every change
+    if (storageErrorShownRef.current) return;
+    storageErrorShownRef.current = true;
+    const message = isQuotaExceeded(error)
+      ? msg('app.storageFull', { name: storage.name })
+      : msg('app.storageError', { name: storage.name });
+    if (currentUser) handleAddNotification({ recipientId: currentUser.id, type: 'SYSTEM', message });
+    else setAuthNotice(localize(message));
+  };
+
+  // Load persisted data on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async <T,>(key: CollectionKey): Promise<T[] | null> => {
+      try {
+        return await loadCollection<T>(storage, key);
+      } catch (error) {
+        reportStorageError(error);
+        return null;
       }
-    }
+    };
+
+    (async () => {
+      const [
+        savedSuites, savedRuns, savedIssues, savedUsers, savedPlans, savedNotifications, savedAudit, savedCaseVersions, savedLlmSettings
+      ] = await Promise.all([
+        load<TestSuite>('suites'),
+        load<TestRun>('runs'),
+        load<Issue>('issues'),
+        load<User>('users'),
+        load<TestPlan>('plans'),
+        load<Notification>('notifications'),
+        load<AuditEntry>('audit'),
+        load<CaseVersion>('caseVersions'),
+        load<UserLlmSettings>('llmSettings'),
+      ]);
+      if (cancelled) return;
+
+      if (savedSuites) setStoredSuites(savedSuites);
+      if (savedRuns) setRuns(savedRuns);
+      if (savedPlans) setPlans(savedPlans);
+      if (savedIssues) setIssues(savedIssues);
+      // Notifications raised before loading finished (e.g. storage errors) stay on top
+      if (savedNotifications) setNotifications(prev => [...prev, ...savedNotifications]);
+      if (savedUsers) setUsers(savedUsers);
+      if (savedAudit) setAuditLog(savedAudit);
+      if (savedCaseVersions) setCaseVersions(savedCaseVersions);
+      if (savedLlmSettings) setLlmSettings(savedLlmSettings);
+
+      const loadedUsers = savedUsers || MOCK_USERS;
+      try {
+        const token = getStoredSessionToken();
+        const userId = token ? await auth.resume(token) : null;
+        if (!userId) storeSessionToken(null);
+        setSessionUserId(userId);
+        setIsFirstAccount(!(await auth.hasAccounts()));
+      } catch (error) {
+        console.error('Could not restore the session:', error);
+        setAuthNotice(error instanceof AuthError ? localize(error.text) : t('login.failed'));
+      }
+      if (cancelled) return;
+      setIsLoaded(true);
+
+      // Coming back from the identity provider
+      const oidcConfig = getOidcConfig();
+      const href = window.location.href;
+      if (oidcConfig && isOidcCallback(href)) {
+        window.history.replaceState(null, '', window.location.pathname);
+        try {
+          applySignIn(await auth.loginWithOidc(readOidcCallback(oidcConfig, href), loadedUsers));
+        } catch (error) {
+          console.error('OIDC sign-in failed:', error);
+          setAuthNotice(error instanceof AuthError ? localize(error.text) : t('app.ssoFailed'));
+        }
+      }
+    })();
+
+    return () => { cancelled = true; };
   }, []);
 
-  // Save to local storage on change
+  const persist = <T,>(key: CollectionKey, data: T[]) => {
+    saveCollection(storage, key, data)
+      .then(() => { storageErrorShownRef.current = false; })
+      .catch(reportStorageError);
+  };
+
+  // Save on change, but never before the stored data has been loaded
+  useEffect(() => {
+    if (isLoaded) persist('suites', suites);
+  }, [suites, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) persist('runs', runs);
+  }, [runs, isLoaded]);
+
   useEffect(() => {
-    localStorage.setItem('autotest_suites', JSON.stringify(suites));
-  }, [suites]);
+    if (isLoaded) persist('issues', issues);
+  }, [issues, isLoaded]);
 
   useEffect(() => {
-    localStorage.setItem('autotest_runs', JSON.stringify(runs));
-  }, [runs]);
+    if (isLoaded) persist('users', users);
+  }, [users, isLoaded]);
 
   useEffect(() => {
-    localStorage.setItem('autotest_issues', JSON.stringify(issues));
-  }, [issues]);
+    if (isLoaded) persist('plans', plans);
+  }, [plans, isLoaded]);
 
   useEffect(() => {
-    localStorage.setItem('autotest_users', JSON.stringify(users));
-  }, [users]);
+    if (isLoaded) persist('notifications', notifications);
+  }, [notifications, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) persist('audit', auditLog);
+  }, [auditLog, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) persist('caseVersions', caseVersions);
+  }, [caseVersions, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) persist('llmSettings', llmSettings);
+  }, [llmSettings, isLoaded]);
+
+  // --- CASE VERSIONS ---
+  // Every suite edit goes through here so changed cases get a new version number
+  const setSuites: React.Dispatch<React.SetStateAction<TestSuite[]>> = (action) => {
+    setStoredSuites(prev => stampCaseVersions(prev, typeof action === 'function' ? action(prev) : action));
+  };
+
+  const caseHistoryStartedRef = useRef(false);
+  useEffect(() => {
+    if (!isLoaded) return;
+    // Content that was already there on load has no known author
+    const authorId = caseHistoryStartedRef.current ? currentUser?.id : undefined;
+    caseHistoryStartedRef.current = true;
+    setCaseVersions(prev => {
+      const recorded = recordCaseVersions(suites, prev, authorId);
+      return recorded.length > 0 ? [...prev, ...recorded] : prev;
+    });
+  }, [suites, isLoaded]);
+
+  // --- AUDIT ---
+  const latestAuditRef = useRef({ snapshot: { suites, runs, issues, plans } as AuditSnapshot, actorId: currentUser?.id, users, log: auditLog });
+  latestAuditRef.current = { snapshot: { suites, runs, issues, plans }, actorId: currentUser?.id, users, log: auditLog };
+
+  // Diffs everything changed since the last flush; changes made while signed out only move the baseline
+  const takePendingAuditEntries = (): AuditEntry[] => {
+    if (auditTimerRef.current) clearTimeout(auditTimerRef.current);
+    auditTimerRef.current = null;
+    const { snapshot, actorId, users: knownUsers } = latestAuditRef.current;
+    const baseline = auditBaselineRef.current;
+    auditBaselineRef.current = snapshot;
+    return baseline && actorId ? buildAuditEntries(baseline, snapshot, actorId, knownUsers) : [];
+  };
+
+  const flushAudit = () => {
+    const entries = takePendingAuditEntries();
+    if (entries.length > 0) setAuditLog(prev => [...prev, ...entries]);
+  };
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    // Loaded data is the starting point, not a change
+    if (!auditBaselineRef.current) {
+      auditBaselineRef.current = latestAuditRef.current.snapshot;
+      return;
+    }
+    if (auditTimerRef.current) clearTimeout(auditTimerRef.current);
+    auditTimerRef.current = setTimeout(flushAudit, AUDIT_FLUSH_DELAY_MS);
+  }, [suites, runs, issues, plans, isLoaded]);
+
+  // Writes the last burst of edits straight to storage when the tab closes
+  useEffect(() => {
+    const onPageHide = () => {
+      const entries = takePendingAuditEntries();
+      if (entries.length > 0) persist('audit', [...latestAuditRef.current.log, ...entries]);
+    };
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  }, []);
+
+  const handleAddNotification = (input: NotificationInput) => {
+    const newNotif: Notification = {
+      ...input,
+      id: crypto.randomUUID(),
+      read: false,
+      timestamp: new Date().toISOString()
+    };
+    setNotifications(prev => addToInbox(prev, newNotif));
+  };
+
+  // --- AUTH ---
+  // The signed-in user is added, or updated when signing in changed them (e.g. the first admin)
+  const applySignIn = ({ user, isNewUser, token }: SignIn) => {
+    setUsers(prev => prev.some(u => u.id === user.id) ? prev.map(u => u.id === user.id ? user : u) : [...prev, user]);
+    storeSessionToken(token);
+    setSessionUserId(user.id);
+    setIsFirstAccount(false);
+    setAuthNotice(null);
+    if (isNewUser) {
+      handleAddNotification({
+        recipientId: user.id,
+        type: 'SYSTEM',
+        message: msg('app.welcome', { name: user.name })
+      });
+    }
+  };
+
+  const handleLogin = async (email: string, password: string) => {
+    applySignIn(await auth.login(email, password, users));
+  };
+
+  const handleRegister = async (registration: LocalRegistration) => {
+    applySignIn(await auth.register(registration, users));
+  };
+
+  const handleOidcLogin = async () => {
+    const config = getOidcConfig();
+    if (config) await beginOidcLogin(config);
+  };
+
+  if (!isLoaded) {
+    return <div className="flex h-screen items-center justify-center bg-slate-900 text-slate-400 text-sm">{t('common.loading')}</div>;
+  }
+
+  if (!currentUser) {
+    return (
+      <LoginScreen
+        providers={getAuthProviders()}
+        isFirstAccount={isFirstAccount}
+        notice={authNotice}
+        onLogin={handleLogin}
+        onRegister={handleRegister}
+        onOidcLogin={handleOidcLogin}
+      />
+    );
+  }
+
+  const handleLogout = () => {
+    // Pending changes still belong to the user who is signing out
+    flushAudit();
+    const token = getStoredSessionToken();
+    if (token) auth.logout(token).catch(error => console.error('Could not end the session:', error));
+    storeSessionToken(null);
+    setSessionUserId(null);
+    setActiveRunSuite(null);
+    setResumeRun(null);
+    setShowNotifPanel(false);
+    setShowLlmSettings(false);
+    setFocusLink(null);
+    setView('DASHBOARD');
+  };
+
+  // --- AI MODEL SETTINGS ---
+  const currentLlm = resolveLlmSettings(llmSettings, currentUser.id, getStoredApiKey(currentUser.id));
+
+  const handleSaveLlmSettings = ({ apiKey, ...settings }: LlmSettings) => {
+    storeApiKey(currentUser.id, settings.provider === 'openai' ? apiKey : undefined);
+    const saved: UserLlmSettings = { ...settings, userId: currentUser.id, updatedAt: new Date().toISOString() };
+    setLlmSettings(prev => [...prev.filter(s => s.userId !== currentUser.id), saved]);
+    setShowLlmSettings(false);
+  };
+
+  // --- INTERFACE LANGUAGE ---
+  const handleChangeLocale = (locale: UiLocale) => {
+    setUsers(prev => prev.map(u => u.id === currentUser.id ? { ...u, locale } : u));
+  };
 
   const handleRunSuite = (suite: TestSuite) => {
+    setResumeRun(null);
     setActiveRunSuite(suite);
     setView('RUNNER');
   };
 
-  const handleRunComplete = (run: TestRun) => {
-    setRuns([run, ...runs]);
+  // Replaces the stored copy of a run, or adds it as the newest run
+  const upsertRun = (run: TestRun) => {
+    setRuns(prev => prev.some(r => r.id === run.id)
+      ? prev.map(r => r.id === run.id ? run : r)
+      : [run, ...prev]);
+  };
+
+  // Queue sessions only cover one tester's cases, so results are merged into the stored run
+  const handleRunProgress = (run: TestRun) => {
+    setRuns(prev => {
+      const stored = prev.find(r => r.id === run.id);
+      if (!stored) return [run, ...prev];
+      return prev.map(r => r.id === run.id ? { ...run, results: { ...stored.results, ...run.results } } : r);
+    });
+  };
+
+  const handleResumeRun = (run: TestRun) => {
+    const suite = suites.find(s => s.id === run.suiteId);
+    if (!suite) {
+      handleAddNotification({
+        recipientId: currentUser.id,
+        type: 'SYSTEM',
+        message: msg('app.resumeSuiteDeleted', { suite: run.suiteName })
+      });
+      return;
+    }
+    // Every case the run covered may have been deleted since; there is nothing left to run then
+    const scoped = scopeSuiteToRun(suite, run);
+    if (scoped.cases.length === 0) {
+      handleAddNotification({
+        recipientId: currentUser.id,
+        type: 'SYSTEM',
+        message: msg('app.resumeNoCases', { suite: run.suiteName })
+      });
+      return;
+    }
+    setResumeRun(run);
+    setActiveRunSuite(scoped);
+    setView('RUNNER');
+  };
+
+  const handleStartQueueCases = (run: TestRun, caseIds: string[]) => {
+    const suite = suites.find(s => s.id === run.suiteId);
+    const cases = suite ? suite.cases.filter(c => caseIds.includes(c.id)) : [];
+    if (!suite || cases.length === 0) {
+      handleAddNotification({
+        recipientId: currentUser.id,
+        type: 'SYSTEM',
+        message: suite
+          ? msg('app.queueNoCases', { suite: run.suiteName })
+          : msg('app.resumeSuiteDeleted', { suite: run.suiteName })
+      });
+      return;
+    }
+    setResumeRun(run);
+    setActiveRunSuite({ ...suite, cases });
+    setView('RUNNER');
+  };
+
+  // Creates one in-progress run per plan entry; testers then pick them up from the plan or dashboard
+  const handleLaunchPlan = (plan: TestPlan) => {
+    const planRuns = buildPlanRuns(plan, suites);
+    if (planRuns.length === 0) {
+      handleAddNotification({
+        recipientId: currentUser.id,
+        type: 'SYSTEM',
+        message: msg('app.planEmpty', { plan: plan.name }),
+        link: { kind: 'PLAN', planId: plan.id }
+      });
+      return;
+    }
+    setRuns(prev => [...planRuns, ...prev]);
+    setPlans(prev => prev.map(p => p.id === plan.id ? { ...p, lastLaunchedAt: new Date().toISOString() } : p));
+    const link: NotificationLink = { kind: 'PLAN', planId: plan.id };
+    handleAddNotification({
+      recipientId: currentUser.id,
+      type: 'SYSTEM',
+      message: msg('app.planLaunched', { plan: plan.name, count: planRuns.length }),
+      link
+    });
+    // Entries whose suite or cases were deleted get no run
+    const skipped = plan.entries.length - planRuns.length;
+    if (skipped > 0) {
+      handleAddNotification({
+        recipientId: currentUser.id,
+        type: 'SYSTEM',
+        message: msg('app.planEntriesSkipped', { plan: plan.name, count: skipped }),
+        link
+      });
+    }
+    countPlanAssignments(plan, suites).forEach((count, userId) => {
+      handleAddNotification({
+        recipientId: userId,
+        type: 'ASSIGNMENT',
+        message: msg('app.planAssigned', { plan: plan.name, count }),
+        link
+      });
+    });
+  };
+
+  const handleAbandonRun = (runId: string) => {
+    setRuns(prev => prev.map(r => r.id === runId
+      ? { ...r, status: 'ABANDONED', endTime: new Date().toISOString() }
+      : r));
+  };
+
+  const handleRunComplete = (finishedRun: TestRun) => {
+    const suite = suites.find(s => s.id === finishedRun.suiteId);
+    const plan = plans.find(p => p.id === finishedRun.planId);
+    const stored = runs.find(r => r.id === finishedRun.id);
+    const results = { ...stored?.results, ...finishedRun.results };
     setActiveRunSuite(null);
+    setResumeRun(null);
+
+    // A tester finishing their own queue doesn't finish the run while colleagues' cases are open
+    const scopeCaseIds = getRunCaseIds(finishedRun, suite);
+    const isQueueSession = !!activeRunSuite && activeRunSuite.cases.length < scopeCaseIds.length;
+    if (isQueueSession && scopeCaseIds.some(id => (results[id]?.status || 'IDLE') === 'IDLE')) {
+      upsertRun({ ...finishedRun, status: 'IN_PROGRESS', endTime: undefined, results });
+      setView('QUEUE');
+      handleAddNotification({
+        recipientId: currentUser.id,
+        type: 'SYSTEM',
+        message: msg('app.queueFinished', { suite: finishedRun.suiteName })
+      });
+      return;
+    }
+
+    const gateVerdict = evaluateQualityGates({ ...finishedRun, results }, suite);
+    const run: TestRun = { ...finishedRun, results, gateVerdict };
+    upsertRun(run);
     setView('DASHBOARD');
     
-    // Pass/Fail Logic based on 90% Threshold
-    const total = Object.keys(run.results).length;
-    const passed = Object.values(run.results).filter(r => r.status === 'PASSED').length;
-    const passRate = total > 0 ? (passed / total) * 100 : 0;
-    const isSuccess = passRate >= 90;
-    const formattedPassRate = passRate % 1 === 0 ? passRate.toFixed(0) : passRate.toFixed(1);
-    
-    const failCount = Object.values(run.results).filter(r => r.status === 'FAILED').length;
-    
-    handleAddNotification(
-      `테스트 실행 "${run.suiteName}" ${isSuccess ? '통과' : '실패'} (${formattedPassRate}%). ${failCount}건 실패.`
-    );
+    const { failed } = getRunStats(run);
+    const gateSummary = gateVerdict.passed
+      ? ''
+      : msg('app.gateUnmet', { failures: gateVerdict.failures.map(f => f.message) });
+    const message = msg('app.runFinished', {
+      suite: run.suiteName,
+      verdict: msg(gateVerdict.passed ? 'status.PASSED' : 'status.FAILED'),
+      rate: formatPassRate(gateVerdict.passRate),
+      failed,
+      gate: gateSummary
+    });
+
+    // Completion goes to the people the run was assigned to, or to the tester when nobody was
+    const assignees = getRunAssignees(run, suite, plan);
+    (assignees.length > 0 ? assignees : [run.executedBy || currentUser.id]).forEach(userId => {
+      handleAddNotification({
+        recipientId: userId,
+        type: gateVerdict.passed ? 'RUN_COMPLETED' : 'GATE_FAILED',
+        message,
+        link: { kind: 'RUN', runId: run.id }
+      });
+    });
+  };
+
+  // CI reports arrive already finished, so they are judged and announced like a completed run
+  const handleImportRun = (importedRun: TestRun) => {
+    const suite = suites.find(s => s.id === importedRun.suiteId);
+    const gateVerdict = evaluateQualityGates(importedRun, suite);
+    upsertRun({ ...importedRun, gateVerdict });
+    const { failed } = getRunStats(importedRun);
+    handleAddNotification({
+      recipientId: currentUser.id,
+      type: gateVerdict.passed ? 'RUN_COMPLETED' : 'GATE_FAILED',
+      message: msg('app.ciImported', { file: importedRun.importedFrom || '', suite: importedRun.suiteName, rate: formatPassRate(gateVerdict.passRate), failed }),
+      link: { kind: 'RUN', runId: importedRun.id }
+    });
   };
 
+  // Progress is already saved; leaving the runner just pauses the run
   const handleRunCancel = () => {
     setActiveRunSuite(null);
+    setResumeRun(null);
     setView('SUITES');
   };
 
-  const handleAddNotification = (message: string) => {
-    const newNotif: Notification = {
-      id: crypto.randomUUID(),
-      message,
-      type: 'ASSIGNMENT',
-      read: false,
-      timestamp: new Date().toISOString()
-    };
-    setNotifications(prev => [newNotif, ...prev]);
+  const handleCreateIssue = (draft: IssueDraft) => {
+    const key = nextIssueKey(issues);
+    const id = crypto.randomUUID();
+    setIssues(prev => [...prev, {
+      ...draft,
+      id,
+      key,
+      status: 'TODO',
+      reporterId: currentUser.id,
+      createdAt: new Date().toISOString()
+    }]);
+
+    const assignee = users.find(u => u.name === draft.assignee);
+    if (assignee && assignee.id !== currentUser.id) {
+      handleAddNotification({
+        recipientId: assignee.id,
+        type: 'ASSIGNMENT',
+        message: msg('app.issueAssigned', { key, title: draft.title }),
+        link: { kind: 'ISSUE', issueId: id }
+      });
+    }
   };
 
   const markRead = (id: string) => {
-    setNotifications(notifications.map(n => n.id === id ? { ...n, read: true } : n));
+    setNotifications(prev => prev.map(n => n.id === id ? { ...n, read: true } : n));
   };
 
-  const clearAll = () => {
-    setNotifications([]);
+  const openNotification = (notif: Notification) => {
+    markRead(notif.id);
+    if (!notif.link) return;
+    setFocusLink(notif.link);
+    setView(LINK_VIEWS[notif.link.kind]);
+    setShowNotifPanel(false);
   };
-  
-  const handleRegisterUser = (name: string, email: string, avatar: string) => {
-    const newUser: User = {
-      id: crypto.randomUUID(),
-      name,
-      email,
-      avatar: avatar 
-    };
-    const updatedUsers = [...users, newUser];
-    setUsers(updatedUsers);
-    setCurrentUser(newUser); // Auto switch to new user
-    handleAddNotification(`환영합니다 ${name}님! 계정이 생성되었습니다.`);
+
+  const handleNavigate = (next: ViewState) => {
+    setFocusLink(null);
+    setView(next);
   };
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  // Only clears the current user's inbox; others keep theirs
+  const clearAll = () => {
+    setNotifications(prev => prev.filter(n => n.recipientId !== currentUser.id));
+  };
+  
+  const visibleNotifications = notifications.filter(n => n.recipientId === currentUser.id);
+  const unreadCount = visibleNotifications.filter(n => !n.read).length;
+  const completedRuns = runs.filter(r => r.status === 'COMPLETED');
+  const activeRuns = runs.filter(r => r.status === 'IN_PROGRESS');
 
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden font-sans text-slate-900">
@@ -207,11 +691,11 @@ const App: React.FC = () => {
       {view !== 'RUNNER' && (
         <Sidebar 
           currentView={view} 
-          onNavigate={setView} 
+          onNavigate={handleNavigate} 
           currentUser={currentUser}
-          users={users}
-          onSwitchUser={setCurrentUser}
-          onRegisterUser={handleRegisterUser}
+          onOpenSettings={() => setShowLlmSettings(true)}
+          onChangeLocale={handleChangeLocale}
+          onLogout={handleLogout}
         />
       )}
 
@@ -235,38 +719,46 @@ const App: React.FC = () => {
               <div className="absolute right-0 mt-3 w-80 bg-white rounded-xl shadow-xl border border-slate-100 animate-fade-in-up origin-top-right overflow-hidden">
                 <div className="p-3 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
                   <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-1">
-                    알림 {currentUser.avatar}
+                    {t('notifications.title')} {currentUser.avatar}
                   </h3>
-                  {notifications.length > 0 && (
-                     <button onClick={clearAll} className="text-xs text-slate-400 hover:text-slate-600">모두 지우기</button>
+                  {visibleNotifications.length > 0 && (
+                     <button onClick={clearAll} className="text-xs text-slate-400 hover:text-slate-600">{t('notifications.clearAll')}</button>
                   )}
                 </div>
                 <div className="max-h-[300px] overflow-y-auto">
-                  {notifications.length === 0 ? (
+                  {visibleNotifications.length === 0 ? (
                     <div className="p-8 text-center text-slate-400 text-sm">
                       <div className="text-2xl mb-2 opacity-50">💤</div>
-                      {currentUser.name}님을 위한 새로운 알림이 없습니다.
+                      {t('notifications.empty', { name: currentUser.name })}
                     </div>
                   ) : (
-                    notifications.map(notif => (
-                      <div 
-                        key={notif.id} 
-                        className={`p-3 border-b border-slate-50 hover:bg-slate-50 transition-colors flex gap-3 ${notif.read ? 'opacity-60' : 'bg-blue-50/30'}`}
-                      >
-                         <div className="mt-1 flex-shrink-0">
-                           <div className="w-2 h-2 rounded-full bg-blue-500" style={{ opacity: notif.read ? 0 : 1 }} />
-                         </div>
-                         <div className="flex-1">
-                           <p className="text-sm text-slate-700 leading-snug">{notif.message}</p>
-                           <p className="text-xs text-slate-400 mt-1">{new Date(notif.timestamp).toLocaleTimeString('ko-KR', {hour: '2-digit', minute:'2-digit'})}</p>
-                         </div>
-                         {!notif.read && (
-                           <button onClick={() => markRead(notif.id)} className="text-slate-300 hover:text-blue-500 self-center">
-                             <Check size={14} />
-                           </button>
-                         )}
-                      </div>
-                    ))
+                    visibleNotifications.map(notif => {
+                      const Icon = NOTIFICATION_ICONS[notif.type] || Info;
+                      return (
+                        <div 
+                          key={notif.id} 
+                          onClick={() => openNotification(notif)}
+                          className={`p-3 border-b border-slate-50 hover:bg-slate-50 transition-colors flex gap-3 ${notif.link ? 'cursor-pointer' : ''} ${notif.read ? 'opacity-60' : 'bg-blue-50/30'}`}
+                        >
+                           <div className="mt-0.5 flex-shrink-0 relative">
+                             <Icon size={16} className={notif.type === 'GATE_FAILED' ? 'text-red-500' : 'text-slate-400'} />
+                             {!notif.read && <div className="absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full bg-blue-500" />}
+                           </div>
+                           <div className="flex-1">
+                             <p className="text-sm text-slate-700 leading-snug">{localize(notif.message)}</p>
+                             <p className="text-xs text-slate-400 mt-1">{formatDateTime(notif.timestamp, {month: 'short', day: 'numeric', hour: '2-digit', minute:'2-digit'})}</p>
+                           </div>
+                           {!notif.read && (
+                             <button
+                               onClick={(e) => { e.stopPropagation(); markRead(notif.id); }}
+                               className="text-slate-300 hover:text-blue-500 self-center"
+                             >
+                               <Check size={14} />
+                             </button>
+                           )}
+                        </div>
+                      );
+                    })
                   )}
                 </div>
               </div>
@@ -278,11 +770,51 @@ const App: React.FC = () => {
           <div className="max-w-7xl mx-auto h-full">
             {view === 'DASHBOARD' && (
               <Dashboard 
-                runs={runs} 
+                runs={completedRuns} 
+                activeRuns={activeRuns}
                 suites={suites}
                 setSuites={setSuites}
                 users={users}
                 currentUser={currentUser}
+                onViewHistory={() => setView('HISTORY')}
+                onResumeRun={handleResumeRun}
+                onAbandonRun={handleAbandonRun}
+                onNotify={handleAddNotification}
+              />
+            )}
+            {view === 'PLANS' && (
+              <TestPlans
+                plans={plans}
+                setPlans={setPlans}
+                suites={suites}
+                runs={runs}
+                issues={issues}
+                users={users}
+                onLaunchPlan={handleLaunchPlan}
+                onResumeRun={handleResumeRun}
+                onNotify={handleAddNotification}
+                focusPlanId={focusLink?.kind === 'PLAN' ? focusLink.planId : undefined}
+              />
+            )}
+            {view === 'QUEUE' && (
+              <MyQueue
+                currentUser={currentUser}
+                plans={plans}
+                suites={suites}
+                runs={runs}
+                onStartCases={handleStartQueueCases}
+              />
+            )}
+            {view === 'HISTORY' && (
+              <RunHistory
+                runs={completedRuns}
+                suites={suites}
+                users={users}
+                caseVersions={caseVersions}
+                currentUser={currentUser}
+                blobs={blobs}
+                onImportRun={handleImportRun}
+                focusRunId={focusLink?.kind === 'RUN' ? focusLink.runId : undefined}
               />
             )}
             {view === 'SUITES' && (
@@ -292,20 +824,42 @@ const App: React.FC = () => {
                 onRunSuite={handleRunSuite} 
                 currentUser={currentUser}
                 allUsers={users}
+                caseVersions={caseVersions}
+                llm={currentLlm}
+                onNotify={handleAddNotification}
+                focusSuiteId={focusLink?.kind === 'SUITE' ? focusLink.suiteId : undefined}
+              />
+            )}
+            {view === 'AUDIT' && isGlobalAdmin(currentUser) && (
+              <AuditLog
+                entries={auditLog}
+                users={users}
+                suites={suites}
               />
             )}
             {view === 'ISSUES' && (
               <IssueBoard 
                 issues={issues} 
                 setIssues={setIssues} 
+                suites={suites}
                 onNotify={handleAddNotification}
                 users={users}
                 currentUser={currentUser}
+                focusIssueId={focusLink?.kind === 'ISSUE' ? focusLink.issueId : undefined}
               />
             )}
             {view === 'RUNNER' && activeRunSuite && (
               <TestRunner 
+                key={resumeRun?.id || activeRunSuite.id}
                 suite={activeRunSuite} 
+                resumeRun={resumeRun || undefined}
+                issues={issues}
+                users={users}
+                currentUser={currentUser}
+                llm={currentLlm}
+                blobs={blobs}
+                onCreateIssue={handleCreateIssue}
+                onProgress={handleRunProgress}
                 onComplete={handleRunComplete}
                 onCancel={handleRunCancel}
               />
@@ -313,6 +867,14 @@ const App: React.FC = () => {
           </div>
         </div>
       </main>
+
+      {showLlmSettings && (
+        <LlmSettingsModal
+          settings={currentLlm}
+          onSave={handleSaveLlmSettings}
+          onClose={() => setShowLlmSettings(false)}
+        />
+      )}
     </div>
   );
 };
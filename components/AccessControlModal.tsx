@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Role, TestSuite, User } from '../types';
+import { Shield, X } from 'lucide-react';
+import { isGlobalAdmin } from '../services/auth';
+import { ROLES, setSuiteRole } from '../services/permissions';
+import { useI18n } from './I18nProvider';
+
+interface AccessControlModalProps {
+  suite: TestSuite;
+  users: User[];
+  currentUser: User;
+  onUpdateSuite: (suite: TestSuite) => void;
+  onRoleGranted?: (userId: string, role: Role) => void;
+  onClose: () => void;
+}
+
+const AccessControlModal: React.FC<AccessControlModalProps> = ({ suite, users, currentUser, onUpdateSuite, onRoleGranted, onClose }) => {
+  const { t } = useI18n();
+  const [userToAdd, setUserToAdd] = useState('');
+  const [roleToAdd, setRoleToAdd] = useState<Role>('MEMBER');
+
+  const grantRole = (userId: string, role: Role) => {
+    onUpdateSuite(setSuiteRole(suite, userId, role));
+    if (userId !== currentUser.id) onRoleGranted?.(userId, role);
+  };
+
+  const handleAdd = () => {
+    if (!userToAdd) return;
+    grantRole(userToAdd, roleToAdd);
+    setUserToAdd('');
+  };
+
+  const handleRemove = (userId: string) => {
+    if (userId === currentUser.id && !isGlobalAdmin(currentUser)) {
+      if (!confirm(t('access.removeSelfConfirm'))) return;
+    }
+    onUpdateSuite(setSuiteRole(suite, userId, null));
+  };
+
+  const permissions = Object.entries(suite.permissions || {});
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+       <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 m-4 flex flex-col max-h-[90vh]">
+          <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
+             <div>
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                  <Shield className="text-indigo-600" size={20} />
+                  {t('access.title')}
+                </h3>
+                <p className="text-xs text-slate-500 mt-1">{suite.name}</p>
+             </div>
+             <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+               <X size={20} />
+             </button>
+          </div>
+
+          <div className="space-y-4 flex-1 overflow-y-auto">
+             <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">{t('access.addUser')}</label>
+                <div className="flex gap-2">
+                   <select
+                     className="flex-1 border border-slate-300 rounded-lg p-2 text-sm outline-none"
+                     value={userToAdd}
+                     onChange={(e) => setUserToAdd(e.target.value)}
+                   >
+                     <option value="">{t('access.selectUser')}</option>
+                     {users
+                       .filter(u => !isGlobalAdmin(u) && !suite.permissions?.[u.id])
+                       .map(u => (
+                         <option key={u.id} value={u.id}>{u.name} ({u.email})</option>
+                       ))
+                     }
+                   </select>
+                   <select
+                     className="w-32 border border-slate-300 rounded-lg p-2 text-sm outline-none"
+                     value={roleToAdd}
+                     onChange={(e) => setRoleToAdd(e.target.value as Role)}
+                   >
+                     {ROLES.map((role: Role) => <option key={role} value={role}>{t(`role.${role}`)}</option>)}
+                   </select>
+                   <button
+                     onClick={handleAdd}
+                     disabled={!userToAdd}
+                     className="bg-indigo-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+                   >
+                     {t('common.add')}
+                   </button>
+                </div>
+             </div>
+
+             <div>
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">{t('access.current')}</label>
+                <div className="space-y-2">
+                   {/* Global admins always have access */}
+                   {users.filter(isGlobalAdmin).map(admin => (
+                     <div key={admin.id} className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-lg shadow-sm">
+                        <div className="flex items-center gap-3">
+                           <div className="w-8 h-8 flex items-center justify-center bg-indigo-50 rounded-full text-lg">{admin.avatar}</div>
+                           <div>
+                             <p className="text-sm font-semibold text-slate-800">{admin.name}</p>
+                             <p className="text-xs text-slate-500">{admin.email}</p>
+                           </div>
+                        </div>
+                        <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-1 rounded font-bold">GLOBAL</span>
+                     </div>
+                   ))}
+
+                   {permissions.map(([userId, role]) => {
+                     const user = users.find(u => u.id === userId);
+                     if (!user) return null;
+                     return (
+                       <div key={userId} className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-lg shadow-sm">
+                          <div className="flex items-center gap-3">
+                             <div className="w-8 h-8 flex items-center justify-center bg-slate-50 rounded-full text-lg">{user.avatar}</div>
+                             <div>
+                               <p className="text-sm font-semibold text-slate-800">{user.name}</p>
+                               <p className="text-xs text-slate-500">{user.email}</p>
+                             </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <select
+                               className="text-xs border border-slate-200 rounded p-1"
+                               value={role}
+                               onChange={(e) => grantRole(userId, e.target.value as Role)}
+                            >
+                               {ROLES.map((r: Role) => <option key={r} value={r}>{t(`role.${r}`)}</option>)}
+                            </select>
+                            <button
+                              onClick={() => handleRemove(userId)}
+                              className="text-slate-400 hover:text-red-500 p-1"
+                            >
+                              <X size={16} />
+                            </button>
+                          </div>
+                       </div>
+                     );
+                   })}
+
+                   {permissions.length === 0 && (
+                     <p className="text-sm text-slate-400 italic text-center py-4">{t('access.empty')}</p>
+                   )}
+                </div>
+             </div>
+          </div>
+          <div className="mt-4 pt-4 border-t border-slate-100 flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-200"
+            >
+              {t('common.close')}
+            </button>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default AccessControlModal;
@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { AuditAction, AuditEntityType, AuditEntry, AuditValue, Role, TestSuite, User } from '../types';
+import { ScrollText, Filter, RotateCcw, Search, Calendar, ArrowRight } from 'lucide-react';
+import { ROLES } from '../services/permissions';
+import { useI18n } from './I18nProvider';
+
+interface AuditLogProps {
+  entries: AuditEntry[];
+  users: User[];
+  suites: TestSuite[];
+}
+
+// Entities, actions and fields are named by the audit.entity.*, audit.action.* and audit.field.* messages
+const ENTITY_TYPES: AuditEntityType[] = ['SUITE', 'CASE', 'PERMISSION', 'RUN', 'ISSUE', 'PLAN'];
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  CREATED: 'bg-green-100 text-green-700',
+  UPDATED: 'bg-blue-100 text-blue-700',
+  DELETED: 'bg-red-100 text-red-700'
+};
+
+// Fields recorded under other names are shown as they are
+const LABELLED_FIELDS = [
+  'name', 'title', 'description', 'priority', 'steps', 'qualityGates', 'aiLanguage', 'status', 'executedBy',
+  'assignedTo', 'assignee', 'gatePassed', 'linkedCases', 'milestone', 'startDate', 'targetDate', 'entries',
+  'assignments', 'role'
+] as const;
+
+type LabelledField = typeof LABELLED_FIELDS[number];
+
+const isLabelledField = (field: string): field is LabelledField => (LABELLED_FIELDS as readonly string[]).includes(field);
+
+const PAGE_SIZE = 100;
+
+const AuditLog: React.FC<AuditLogProps> = ({ entries, users, suites }) => {
+  const { t, formatDateTime } = useI18n();
+  const [actorFilter, setActorFilter] = useState('');
+  const [entityFilter, setEntityFilter] = useState<AuditEntityType | ''>('');
+  const [search, setSearch] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const filteredEntries = useMemo(() => {
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : null;
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : null;
+    const query = search.trim().toLowerCase();
+
+    return entries
+      .filter(entry => {
+        if (actorFilter && entry.actorId !== actorFilter) return false;
+        if (entityFilter && entry.entityType !== entityFilter) return false;
+        const time = new Date(entry.timestamp).getTime();
+        if (from !== null && time < from) return false;
+        if (to !== null && time > to) return false;
+        return !query || entry.entityName.toLowerCase().includes(query);
+      })
+      .reverse(); // The log is append-only, so reversing is enough for newest first
+  }, [entries, actorFilter, entityFilter, search, dateFrom, dateTo]);
+
+  const resetFilters = () => {
+    setActorFilter('');
+    setEntityFilter('');
+    setSearch('');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  const hasFilters = !!(actorFilter || entityFilter || search || dateFrom || dateTo);
+
+  const getUser = (userId: string) => users.find(u => u.id === userId);
+
+  // Run results are keyed by case id; show the case title when the suite still has it
+  const fieldLabel = (field: string, entry: AuditEntry) => {
+    if (field.startsWith('result:')) {
+      const caseId = field.slice('result:'.length);
+      const testCase = suites.find(s => s.id === entry.parentId)?.cases.find(c => c.id === caseId);
+      return t('audit.resultField', { case: testCase?.title || caseId });
+    }
+    return isLabelledField(field) ? t(`audit.field.${field}`) : field;
+  };
+
+  const formatValue = (field: string, value: AuditValue) => {
+    if (value === null) return '—';
+    if (typeof value === 'boolean') return value ? t('common.yes') : t('common.no');
+    if (field === 'role') return ROLES.includes(value as Role) ? t(`role.${value as Role}`) : String(value);
+    if (field === 'executedBy' || field === 'assignedTo') return getUser(String(value))?.name || String(value);
+    return String(value);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-12">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-800">{t('nav.audit')}</h1>
+        <p className="text-slate-500 text-sm mt-1">{t('audit.subtitle')}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+            <Filter size={14} /> {t('runs.filters')}
+          </h2>
+          {hasFilters && (
+            <button onClick={resetFilters} className="text-xs text-slate-400 hover:text-slate-600 flex items-center gap-1">
+              <RotateCcw size={12} /> {t('runs.resetFilters')}
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('audit.user')}</label>
+            <select
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+              value={actorFilter}
+              onChange={(e) => setActorFilter(e.target.value)}
+            >
+              <option value="">{t('runs.allUsers')}</option>
+              {users.map(u => (
+                <option key={u.id} value={u.id}>{u.avatar} {u.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('audit.entity')}</label>
+            <select
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+              value={entityFilter}
+              onChange={(e) => setEntityFilter(e.target.value as AuditEntityType | '')}
+            >
+              <option value="">{t('audit.allEntities')}</option>
+              {ENTITY_TYPES.map((type: AuditEntityType) => (
+                <option key={type} value={type}>{t(`audit.entity.${type}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('audit.search')}</label>
+            <div className="relative">
+              <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                className="w-full border border-slate-300 rounded-lg p-2 pl-8 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t('audit.searchPlaceholder')}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('runs.dateFrom')}</label>
+            <input
+              type="date"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('runs.dateTo')}</label>
+            <input
+              type="date"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b border-slate-50 flex justify-between items-center">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <ScrollText size={18} className="text-blue-500" /> {t('audit.entries')}
+          </h2>
+          <span className="text-xs text-slate-400">{t('runs.count', { shown: filteredEntries.length, total: entries.length })}</span>
+        </div>
+        <div className="divide-y divide-slate-50">
+          {filteredEntries.length === 0 ? (
+            <p className="p-8 text-center text-slate-400 text-sm">
+              {entries.length === 0 ? t('audit.empty') : t('audit.noMatches')}
+            </p>
+          ) : (
+            filteredEntries.slice(0, visibleCount).map(entry => {
+              const actor = getUser(entry.actorId);
+              const action = entry.action as AuditAction;
+              return (
+                <div key={entry.id} className="p-4 flex gap-4">
+                  <div className="w-44 flex-shrink-0 space-y-1">
+                    <p className="text-xs text-slate-500 flex items-center gap-1">
+                      <Calendar size={10} /> {formatDateTime(entry.timestamp)}
+                    </p>
+                    <p className="text-sm text-slate-700">{actor ? `${actor.avatar} ${actor.name}` : t('history.unknownAuthor')}</p>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${ACTION_STYLES[action]}`}>{t(`audit.action.${action}`)}</span>
+                      <span className="text-[10px] font-semibold text-slate-400 uppercase">{t(`audit.entity.${entry.entityType as AuditEntityType}`)}</span>
+                      <span className="text-sm font-medium text-slate-800 truncate">{entry.entityName}</span>
+                    </div>
+                    <ul className="space-y-1">
+                      {entry.changes.map(change => (
+                        <li key={change.field} className="text-xs text-slate-600 flex items-start gap-2">
+                          <span className="w-28 flex-shrink-0 font-semibold text-slate-500 truncate">{fieldLabel(change.field, entry)}</span>
+                          {entry.action !== 'CREATED' && (
+                            <>
+                              <span className="text-red-600 line-through break-all">{formatValue(change.field, change.before)}</span>
+                              {entry.action === 'UPDATED' && <ArrowRight size={12} className="flex-shrink-0 mt-0.5 text-slate-400" />}
+                            </>
+                          )}
+                          {entry.action !== 'DELETED' && (
+                            <span className="text-green-700 break-all">{formatValue(change.field, change.after)}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+        {filteredEntries.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+            className="w-full p-3 text-sm text-blue-600 font-medium hover:bg-slate-50 border-t border-slate-50"
+          >
+            {t('audit.showMore', { count: filteredEntries.length - visibleCount })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
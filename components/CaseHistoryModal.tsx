@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { CaseVersion, TestCase, User } from '../types';
+import { History, X, RotateCcw, ArrowRight } from 'lucide-react';
+import { CaseField, StepDiffStatus, diffCaseVersions, getCaseHistory, getCaseVersion } from '../services/caseVersions';
+import { useI18n } from './I18nProvider';
+
+interface CaseHistoryModalProps {
+  testCase: TestCase;
+  caseVersions: CaseVersion[];
+  users: User[];
+  canRestore: boolean;
+  onRestore: (version: CaseVersion) => void;
+  onClose: () => void;
+}
+
+// Labelled by the history.step.* messages
+const STEP_STYLES: Record<StepDiffStatus, string> = {
+  ADDED: 'border-green-200 bg-green-50',
+  REMOVED: 'border-red-200 bg-red-50',
+  CHANGED: 'border-amber-200 bg-amber-50',
+  UNCHANGED: 'border-slate-200 bg-white'
+};
+
+const CaseHistoryModal: React.FC<CaseHistoryModalProps> = ({ testCase, caseVersions, users, canRestore, onRestore, onClose }) => {
+  const { t, formatDateTime } = useI18n();
+  const history = useMemo(() => getCaseHistory(caseVersions, testCase.id), [caseVersions, testCase.id]);
+  const currentVersion = getCaseVersion(testCase);
+  // Compare the selected version with the one right before it unless another base is picked
+  const [compareVersion, setCompareVersion] = useState(history[0]?.version ?? currentVersion);
+  const [baseVersion, setBaseVersion] = useState(history[1]?.version ?? history[0]?.version ?? currentVersion);
+
+  const base = history.find(v => v.version === baseVersion);
+  const compare = history.find(v => v.version === compareVersion);
+  const diff = base && compare ? diffCaseVersions(base.snapshot, compare.snapshot) : null;
+
+  const selectVersion = (version: number) => {
+    setCompareVersion(version);
+    setBaseVersion(history.find(v => v.version < version)?.version ?? version);
+  };
+
+  const describeAuthor = (version: CaseVersion) => {
+    if (!version.authorId) return t('history.legacy');
+    const author = users.find(u => u.id === version.authorId);
+    return author ? `${author.avatar} ${author.name}` : t('history.unknownAuthor');
+  };
+
+  const handleRestore = () => {
+    if (!compare) return;
+    if (confirm(t('history.confirmRestore', { version: compare.version }))) {
+      onRestore(compare);
+    }
+  };
+
+  const selectClass = 'border border-slate-300 rounded-lg p-1.5 text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col animate-fade-in-up overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <History className="text-blue-600" size={20} />
+              {t('history.title')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{testCase.title} · {t('history.currentVersion', { version: currentVersion })}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Version list */}
+          <div className="w-64 border-r border-slate-100 overflow-y-auto p-2 space-y-1 flex-shrink-0">
+            {history.length === 0 && (
+              <p className="text-sm text-slate-400 text-center py-8">{t('history.empty')}</p>
+            )}
+            {history.map(version => (
+              <button
+                key={version.id}
+                onClick={() => selectVersion(version.version)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  version.version === compareVersion ? 'bg-blue-50 border-blue-200' : 'border-transparent hover:bg-slate-50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-bold text-slate-700">v{version.version}</span>
+                  {version.version === currentVersion && (
+                    <span className="text-[10px] bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded font-bold">{t('history.current')}</span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">{describeAuthor(version)}</p>
+                <p className="text-[10px] text-slate-400">{formatDateTime(version.createdAt)}</p>
+                {version.restoredFrom !== undefined && (
+                  <p className="text-[10px] text-indigo-600 mt-1">{t('history.restoredFrom', { version: version.restoredFrom })}</p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {history.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+                <select className={selectClass} value={baseVersion} onChange={(e) => setBaseVersion(Number(e.target.value))}>
+                  {history.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+                </select>
+                <ArrowRight size={14} className="text-slate-400" />
+                <select className={selectClass} value={compareVersion} onChange={(e) => setCompareVersion(Number(e.target.value))}>
+                  {history.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+                </select>
+                {canRestore && compare && compare.version !== currentVersion && (
+                  <button
+                    onClick={handleRestore}
+                    className="ml-auto px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center gap-1"
+                  >
+                    <RotateCcw size={14} /> {t('history.restore', { version: compare.version })}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {diff && (
+              <>
+                <div>
+                  <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('history.details')}</h4>
+                  {diff.fields.length === 0 ? (
+                    <p className="text-sm text-slate-400">{t('history.noChanges')}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {diff.fields.map(change => (
+                        <div key={change.field} className="text-sm grid grid-cols-[6rem_1fr] gap-2">
+                          <span className="font-semibold text-slate-500">{t(`history.field.${change.field as CaseField}`)}</span>
+                          <div>
+                            <p className="text-red-600 line-through whitespace-pre-wrap">{change.before || '—'}</p>
+                            <p className="text-green-700 whitespace-pre-wrap">{change.after || '—'}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('history.steps')}</h4>
+                  <div className="space-y-2">
+                    {diff.steps.map((step, idx) => {
+                      const status = step.status as StepDiffStatus;
+                      return (
+                        <div key={`${step.before?.id || step.after?.id}-${idx}`} className={`border rounded-lg p-3 text-sm ${STEP_STYLES[status]}`}>
+                          <span className="text-[10px] font-bold text-slate-500 uppercase">{t(`history.step.${status}`)}</span>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-1">
+                            {(['action', 'expectedResult'] as const).map(field => {
+                              const before = step.before?.[field];
+                              const after = step.after?.[field];
+                              return (
+                                <div key={field}>
+                                  <span className="font-semibold text-slate-700 block mb-1">{field === 'action' ? t('suiteExport.action') : t('suiteExport.expected')}</span>
+                                  {step.status === 'CHANGED' && before !== after ? (
+                                    <>
+                                      <p className="text-red-600 line-through">{before}</p>
+                                      <p className="text-green-700">{after}</p>
+                                    </>
+                                  ) : (
+                                    <p className={step.status === 'REMOVED' ? 'text-red-600 line-through' : 'text-slate-600'}>{after ?? before}</p>
+                                  )}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {diff.steps.length === 0 && <p className="text-sm text-slate-400">{t('history.noSteps')}</p>}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaseHistoryModal;
@@ -1,17 +1,30 @@
 import React, { useState } from 'react';
-import { TestRun, TestResult, TestSuite, User, Role } from '../types';
+import { GateFailure, TestRun, TestResult, TestSuite, User, Role, NotificationInput } from '../types';
 import { 
   PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, 
   AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid 
 } from 'recharts';
-import { Activity, CheckCircle, XCircle, AlertCircle, Shield, Users, X, TrendingUp, Zap, Clock, ListFilter, AlertTriangle, Target } from 'lucide-react';
+import { Activity, CheckCircle, XCircle, AlertCircle, Shield, Users, TrendingUp, Zap, Clock, ListFilter, AlertTriangle, Target, Bot, PlayCircle, StopCircle, ShieldAlert } from 'lucide-react';
+import { getRunStats, formatPassRate, isSimulatedResult } from '../services/runStats';
+import { getRunVerdict } from '../services/qualityGates';
+import { buildPermissionGrantedNotification } from '../services/notifications';
+import { isGlobalAdmin as isAdminUser } from '../services/auth';
+import { canOnSuite } from '../services/permissions';
+import ResultSourceBadge from './ResultSourceBadge';
+import AccessControlModal from './AccessControlModal';
+import { useI18n } from './I18nProvider';
 
 interface DashboardProps {
-  runs: TestRun[];
+  runs: TestRun[]; // Completed runs only
+  activeRuns: TestRun[]; // Runs saved while still in progress
   suites: TestSuite[];
   setSuites: React.Dispatch<React.SetStateAction<TestSuite[]>>;
   users: User[];
   currentUser: User;
+  onViewHistory: () => void;
+  onResumeRun: (run: TestRun) => void;
+  onAbandonRun: (runId: string) => void;
+  onNotify?: (notification: NotificationInput) => void;
 }
 
 const COLORS = {
@@ -42,12 +55,17 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, currentUser }) => {
+const Dashboard: React.FC<DashboardProps> = ({ runs, activeRuns, suites, setSuites, users, currentUser, onViewHistory, onResumeRun, onAbandonRun, onNotify }) => {
+  const { t, localize, formatDate, formatDateTime, formatTime, formatNumber } = useI18n();
   // Admin Logic
-  const isGlobalAdmin = currentUser.email === 'administrator@autotest.ai';
+  const isGlobalAdmin = isAdminUser(currentUser);
   const [editingSuite, setEditingSuite] = useState<TestSuite | null>(null);
-  const [permUserToAdd, setPermUserToAdd] = useState('');
-  const [permRoleToAdd, setPermRoleToAdd] = useState<Role>('MEMBER');
+  // AI-simulated outcomes are invented, so they stay out of the numbers unless asked for
+  const [excludeSimulated, setExcludeSimulated] = useState(true);
+
+  // Results that feed the KPIs and charts
+  const countedResults = (run: TestRun) =>
+    (Object.values(run.results) as TestResult[]).filter(r => !(excludeSimulated && isSimulatedResult(r)));
 
   // --- KPI Calculation ---
   const totalRuns = runs.length;
@@ -56,6 +74,7 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
   let totalPassed = 0;
   let totalFailed = 0;
   let totalSkipped = 0;
+  let simulatedCount = 0;
 
   // Lookup map for case priority: CaseID -> Priority
   const casePriorityMap = new Map<string, string>();
@@ -64,7 +83,8 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
   const failuresByPriority = { High: 0, Medium: 0, Low: 0 };
 
   runs.forEach(run => {
-    Object.values(run.results).forEach((result: TestResult) => {
+    simulatedCount += (Object.values(run.results) as TestResult[]).filter(isSimulatedResult).length;
+    countedResults(run).forEach((result: TestResult) => {
       totalTests++;
       if (result.status === 'PASSED') totalPassed++;
       if (result.status === 'FAILED') {
@@ -85,9 +105,9 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
 
   // 1. Overall Status Pie Data
   const pieData = [
-    { name: '통과', value: totalPassed, color: COLORS.PASSED },
-    { name: '실패', value: totalFailed, color: COLORS.FAILED },
-    { name: '건너뜀', value: totalSkipped, color: COLORS.SKIPPED },
+    { name: t('status.PASSED'), value: totalPassed, color: COLORS.PASSED },
+    { name: t('status.FAILED'), value: totalFailed, color: COLORS.FAILED },
+    { name: t('status.SKIPPED'), value: totalSkipped, color: COLORS.SKIPPED },
   ].filter(d => d.value > 0);
 
   // 2. Execution Trend Data (Area Chart)
@@ -98,17 +118,17 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
       let passed = 0;
       let failed = 0;
       let skipped = 0;
-      Object.values(run.results).forEach((r: TestResult) => {
+      countedResults(run).forEach((r: TestResult) => {
         if (r.status === 'PASSED') passed++;
         else if (r.status === 'FAILED') failed++;
         else skipped++;
       });
       return {
-        name: new Date(run.startTime).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' }),
-        fullDate: new Date(run.startTime).toLocaleString('ko-KR'),
-        통과: passed,
-        실패: failed,
-        건너뜀: skipped,
+        name: formatDate(run.startTime, { month: 'short', day: 'numeric' }),
+        fullDate: formatDateTime(run.startTime),
+        passed,
+        failed,
+        skipped,
       };
     });
 
@@ -123,74 +143,120 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
   });
   
   const priorityData = [
-    { name: '높음', value: priorityCounts.High, color: COLORS.HIGH },
-    { name: '중간', value: priorityCounts.Medium, color: COLORS.MEDIUM },
-    { name: '낮음', value: priorityCounts.Low, color: COLORS.LOW },
+    { name: t('priority.High'), value: priorityCounts.High, color: COLORS.HIGH },
+    { name: t('priority.Medium'), value: priorityCounts.Medium, color: COLORS.MEDIUM },
+    { name: t('priority.Low'), value: priorityCounts.Low, color: COLORS.LOW },
   ].filter(d => d.value > 0);
 
   // 4. Failures by Priority Data (New Chart)
   const failurePriorityData = [
-    { name: '높음', value: failuresByPriority.High, color: COLORS.HIGH },
-    { name: '중간', value: failuresByPriority.Medium, color: COLORS.MEDIUM },
-    { name: '낮음', value: failuresByPriority.Low, color: COLORS.LOW },
+    { name: t('priority.High'), value: failuresByPriority.High, color: COLORS.HIGH },
+    { name: t('priority.Medium'), value: failuresByPriority.Medium, color: COLORS.MEDIUM },
+    { name: t('priority.Low'), value: failuresByPriority.Low, color: COLORS.LOW },
   ]; // Keep 0 values to show empty states on axis if needed, or filter if preferred.
 
 
   // --- Access Management Handlers ---
-  const handleAddPermission = () => {
-    if (!editingSuite || !permUserToAdd) return;
-    const updatedSuite = {
-      ...editingSuite,
-      permissions: {
-        ...editingSuite.permissions,
-        [permUserToAdd]: permRoleToAdd
-      }
-    };
-    setSuites(suites.map(s => s.id === editingSuite.id ? updatedSuite : s));
+  const updateSuiteAccess = (updatedSuite: TestSuite) => {
+    setSuites(suites.map(s => s.id === updatedSuite.id ? updatedSuite : s));
     setEditingSuite(updatedSuite);
-    setPermUserToAdd('');
   };
 
-  const handleChangePermission = (userId: string, newRole: Role) => {
-    if (!editingSuite) return;
-    const updatedSuite = {
-      ...editingSuite,
-      permissions: {
-        ...editingSuite.permissions,
-        [userId]: newRole
-      }
-    };
-    setSuites(suites.map(s => s.id === editingSuite.id ? updatedSuite : s));
-    setEditingSuite(updatedSuite);
-  };
-
-  const handleRemovePermission = (userId: string) => {
-    if (!editingSuite) return;
-    const newPerms = { ...editingSuite.permissions };
-    delete newPerms[userId];
-    const updatedSuite = { ...editingSuite, permissions: newPerms };
-    setSuites(suites.map(s => s.id === editingSuite.id ? updatedSuite : s));
-    setEditingSuite(updatedSuite);
+  const notifyRoleGranted = (userId: string, role: Role) => {
+    if (editingSuite) onNotify?.(buildPermissionGrantedNotification(editingSuite, userId, role, currentUser));
   };
 
   return (
     <div className="space-y-6 animate-fade-in pb-12">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div>
-          <h1 className="text-3xl font-bold text-slate-800">대시보드</h1>
-          <p className="text-slate-500 text-sm mt-1">테스트 자동화 지표 개요입니다.</p>
+          <h1 className="text-3xl font-bold text-slate-800">{t('dashboard.title')}</h1>
+          <p className="text-slate-500 text-sm mt-1">{t('dashboard.subtitle')}</p>
         </div>
-        <div className="flex items-center gap-2 text-xs text-slate-400 bg-white px-3 py-1.5 rounded-full border border-slate-100 shadow-sm">
-          <Clock size={14} /> 마지막 업데이트: {new Date().toLocaleTimeString('ko-KR')}
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs text-slate-500 bg-white px-3 py-1.5 rounded-full border border-slate-100 shadow-sm cursor-pointer select-none">
+            <input
+              type="checkbox"
+              className="accent-blue-600"
+              checked={excludeSimulated}
+              onChange={(e) => setExcludeSimulated(e.target.checked)}
+            />
+            <Bot size={14} /> {t('dashboard.excludeSimulated')}
+          </label>
+          <div className="flex items-center gap-2 text-xs text-slate-400 bg-white px-3 py-1.5 rounded-full border border-slate-100 shadow-sm">
+            <Clock size={14} /> {t('dashboard.lastUpdated', { time: formatTime(new Date()) })}
+          </div>
         </div>
       </div>
       
+      {/* In-Progress Runs */}
+      {activeRuns.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-blue-100 overflow-hidden">
+          <div className="p-4 border-b border-slate-50 flex items-center gap-2">
+            <PlayCircle size={18} className="text-blue-600" />
+            <h2 className="font-bold text-slate-800">{t('dashboard.activeRuns')}</h2>
+            <span className="text-xs bg-blue-50 text-blue-600 px-2 py-0.5 rounded-full font-medium">{activeRuns.length}</span>
+          </div>
+          <div className="divide-y divide-slate-50">
+            {activeRuns.map(run => {
+              const suite = suites.find(s => s.id === run.suiteId);
+              const total = run.caseIds?.length ?? (suite ? suite.cases.length : Object.keys(run.results).length);
+              const done = (Object.values(run.results) as TestResult[]).filter(r => r.status !== 'IDLE').length;
+              const executor = users.find(u => u.id === run.executedBy);
+              const canRun = !!suite && canOnSuite(currentUser, suite, 'suite.run');
+              const lastActivity = (Object.values(run.results) as TestResult[])
+                .filter(r => r.status !== 'IDLE')
+                .reduce((latest, r) => r.timestamp > latest ? r.timestamp : latest, run.startTime);
+
+              return (
+                <div key={run.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 hover:bg-slate-50 transition-colors">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-800 text-sm truncate">{run.suiteName}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {executor ? `${executor.avatar} ${executor.name} · ` : ''}
+                      {t('dashboard.runTimes', { start: formatDateTime(run.startTime), last: formatDateTime(lastActivity) })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4 flex-shrink-0">
+                    <div className="w-28">
+                      <div className="w-full bg-slate-100 h-1.5 rounded-full overflow-hidden">
+                        <div className="bg-blue-500 h-full" style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }} />
+                      </div>
+                      <span className="text-[10px] font-bold text-slate-500 mt-1 block text-right">{t('dashboard.caseProgress', { done, total })}</span>
+                    </div>
+                    <button
+                      onClick={() => onResumeRun(run)}
+                      disabled={!canRun}
+                      title={!suite ? t('dashboard.suiteDeleted') : canRun ? undefined : t('dashboard.noRunPermission')}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50 transition-colors"
+                    >
+                      <PlayCircle size={14} /> {t('dashboard.resume')}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(t('dashboard.confirmAbandon', { suite: run.suiteName }))) {
+                          onAbandonRun(run.id);
+                        }
+                      }}
+                      disabled={!!suite && !canRun}
+                      className="flex items-center gap-1 px-3 py-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 text-xs font-medium rounded-lg disabled:opacity-50 transition-colors"
+                    >
+                      <StopCircle size={14} /> {t('dashboard.abandon')}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* KPI Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:shadow-md transition-shadow">
           <div>
-            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">총 실행 횟수</p>
-            <p className="text-3xl font-bold text-slate-800">{totalRuns}</p>
+            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">{t('dashboard.totalRuns')}</p>
+            <p className="text-3xl font-bold text-slate-800">{formatNumber(totalRuns)}</p>
           </div>
           <div className="w-12 h-12 bg-blue-50 text-blue-600 rounded-xl flex items-center justify-center group-hover:scale-110 transition-transform">
             <Activity size={24} />
@@ -199,10 +265,15 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:shadow-md transition-shadow">
           <div>
-            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">통과율</p>
+            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">{t('dashboard.passRate')}</p>
             <p className="text-3xl font-bold text-slate-800 flex items-baseline gap-1">
               {passRate}<span className="text-sm text-slate-400 font-normal">%</span>
             </p>
+            {simulatedCount > 0 && (
+              <p className="text-[10px] text-amber-600 mt-1">
+                {t(excludeSimulated ? 'dashboard.simulatedExcluded' : 'dashboard.simulatedIncluded', { count: simulatedCount })}
+              </p>
+            )}
           </div>
           <div className="w-12 h-12 bg-green-50 text-green-600 rounded-xl flex items-center justify-center group-hover:scale-110 transition-transform">
             <CheckCircle size={24} />
@@ -211,8 +282,8 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:shadow-md transition-shadow">
           <div>
-            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">실패</p>
-            <p className="text-3xl font-bold text-slate-800">{totalFailed}</p>
+            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">{t('status.FAILED')}</p>
+            <p className="text-3xl font-bold text-slate-800">{formatNumber(totalFailed)}</p>
           </div>
           <div className="w-12 h-12 bg-red-50 text-red-600 rounded-xl flex items-center justify-center group-hover:scale-110 transition-transform">
             <XCircle size={24} />
@@ -221,7 +292,7 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
         
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:shadow-md transition-shadow">
           <div>
-            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">효율성</p>
+            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">{t('dashboard.efficiency')}</p>
             <p className="text-3xl font-bold text-slate-800 flex items-baseline gap-1">
               {totalTests > 0 ? Math.round(((totalPassed + totalFailed) / totalTests) * 100) : 0}<span className="text-sm text-slate-400 font-normal">%</span>
             </p>
@@ -238,11 +309,11 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
         <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-100 h-[320px]">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-              <TrendingUp size={20} className="text-blue-500" /> 실행 추세
+              <TrendingUp size={20} className="text-blue-500" /> {t('dashboard.trend')}
             </h2>
             <div className="flex items-center gap-4 text-xs font-medium">
-               <div className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-green-500"></span>통과</div>
-               <div className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-red-500"></span>실패</div>
+               <div className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-green-500"></span>{t('status.PASSED')}</div>
+               <div className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-red-500"></span>{t('status.FAILED')}</div>
             </div>
           </div>
           <ResponsiveContainer width="100%" height="85%">
@@ -261,8 +332,8 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
               <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11}} dy={10} />
               <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11}} />
               <Tooltip content={<CustomTooltip />} />
-              <Area type="monotone" dataKey="통과" stroke={COLORS.PASSED} fillOpacity={1} fill="url(#colorPassed)" strokeWidth={2} />
-              <Area type="monotone" dataKey="실패" stroke={COLORS.FAILED} fillOpacity={1} fill="url(#colorFailed)" strokeWidth={2} />
+              <Area type="monotone" dataKey="passed" name={t('status.PASSED')} stroke={COLORS.PASSED} fillOpacity={1} fill="url(#colorPassed)" strokeWidth={2} />
+              <Area type="monotone" dataKey="failed" name={t('status.FAILED')} stroke={COLORS.FAILED} fillOpacity={1} fill="url(#colorFailed)" strokeWidth={2} />
             </AreaChart>
           </ResponsiveContainer>
         </div>
@@ -270,7 +341,7 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
         {/* Overall Status Pie */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 h-[320px] flex flex-col">
             <h2 className="text-lg font-bold text-slate-800 mb-2 flex items-center gap-2">
-                <Activity size={20} className="text-emerald-500" /> 전체 상태
+                <Activity size={20} className="text-emerald-500" /> {t('dashboard.overallStatus')}
             </h2>
             <div className="flex-1 flex items-center justify-center">
               <ResponsiveContainer width="100%" height="100%">
@@ -307,7 +378,7 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
           {/* Failure by Priority Breakdown */}
           <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 h-[300px]">
              <h2 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
-               <AlertTriangle size={20} className="text-amber-500" /> 실패 영향 분석
+               <AlertTriangle size={20} className="text-amber-500" /> {t('dashboard.failureImpact')}
              </h2>
              <ResponsiveContainer width="100%" height="80%">
                 <BarChart data={failurePriorityData} layout="vertical" margin={{top: 0, right: 30, left: 20, bottom: 0}}>
@@ -327,7 +398,7 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
            {/* Priority Breakdown (Scope) */}
            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 h-[300px]">
              <h2 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
-               <Target size={20} className="text-indigo-500" /> 테스트 스위트 중요도 범위
+               <Target size={20} className="text-indigo-500" /> {t('dashboard.priorityScope')}
              </h2>
              <ResponsiveContainer width="100%" height="80%">
                 <BarChart data={priorityData} layout="vertical" margin={{top: 0, right: 30, left: 20, bottom: 0}}>
@@ -348,22 +419,21 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
       {/* Recent Runs List */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
         <div className="p-6 border-b border-slate-50 flex justify-between items-center">
-           <h2 className="font-bold text-slate-800 text-lg">최근 실행 이력</h2>
-           <button className="text-xs text-blue-600 font-medium hover:underline">모두 보기</button>
+           <h2 className="font-bold text-slate-800 text-lg">{t('dashboard.recentRuns')}</h2>
+           <button onClick={onViewHistory} className="text-xs text-blue-600 font-medium hover:underline">{t('dashboard.viewAll')}</button>
         </div>
         <div className="divide-y divide-slate-50">
            {runs.length === 0 ? (
-             <p className="p-8 text-center text-slate-400 text-sm">아직 실행된 테스트가 없습니다.</p>
+             <p className="p-8 text-center text-slate-400 text-sm">{t('dashboard.noRuns')}</p>
            ) : (
              runs.slice(-5).reverse().map(run => {
-               const totalCases = Object.keys(run.results).length;
-               const passed = Object.values(run.results).filter((r: TestResult) => r.status === 'PASSED').length;
-               const failed = Object.values(run.results).filter((r: TestResult) => r.status === 'FAILED').length;
+               const { passed, failed, passRate } = getRunStats(run, { excludeSimulated });
+               const hasSimulated = (Object.values(run.results) as TestResult[]).some(isSimulatedResult);
                
-               // New Logic: 90% Threshold for PASS
-               const passRate = totalCases > 0 ? (passed / totalCases) * 100 : 0;
-               const isRunPassed = passRate >= 90;
-               const formattedPassRate = passRate % 1 === 0 ? passRate.toFixed(0) : passRate.toFixed(1);
+               // PASS/FAIL comes from the suite's quality gates
+               const verdict = getRunVerdict(run, suites);
+               const isRunPassed = verdict.passed;
+               const formattedPassRate = formatPassRate(passRate);
 
                return (
                  <div key={run.id} className="p-4 flex items-center justify-between hover:bg-slate-50 transition-colors">
@@ -372,17 +442,25 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
                           {isRunPassed ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
                        </div>
                        <div>
-                          <p className="font-medium text-slate-800 text-sm">{run.suiteName}</p>
-                          <p className="text-xs text-slate-500">{new Date(run.startTime).toLocaleString('ko-KR')}</p>
+                          <p className="font-medium text-slate-800 text-sm flex items-center gap-2">
+                            {run.suiteName}
+                            {hasSimulated && <ResultSourceBadge source="AI_SIMULATED" />}
+                          </p>
+                          <p className="text-xs text-slate-500">{formatDateTime(run.startTime)}</p>
+                          {verdict.failures.length > 0 && (
+                            <p className="text-xs text-red-500 mt-0.5 flex items-center gap-1">
+                              <ShieldAlert size={12} /> {verdict.failures.map((f: GateFailure) => localize(f.message)).join(' · ')}
+                            </p>
+                          )}
                        </div>
                     </div>
                     <div className="flex items-center gap-6">
                        <div className="text-right hidden sm:block">
-                          <p className="text-xs text-slate-400 uppercase font-bold tracking-wider">통과</p>
+                          <p className="text-xs text-slate-400 uppercase font-bold tracking-wider">{t('status.PASSED')}</p>
                           <p className="text-sm font-mono text-green-600">{passed}</p>
                        </div>
                        <div className="text-right hidden sm:block">
-                          <p className="text-xs text-slate-400 uppercase font-bold tracking-wider">실패</p>
+                          <p className="text-xs text-slate-400 uppercase font-bold tracking-wider">{t('status.FAILED')}</p>
                           <p className="text-sm font-mono text-red-600">{failed}</p>
                        </div>
                        <div className="w-24 flex flex-col items-end">
@@ -412,8 +490,8 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
                <Shield size={24} />
              </div>
              <div>
-               <h2 className="text-lg font-bold text-slate-800">전체 접근 권한 관리</h2>
-               <p className="text-sm text-slate-500">관리자로서 모든 테스트 스위트의 권한을 관리합니다.</p>
+               <h2 className="text-lg font-bold text-slate-800">{t('dashboard.accessTitle')}</h2>
+               <p className="text-sm text-slate-500">{t('dashboard.accessSubtitle')}</p>
              </div>
            </div>
 
@@ -421,11 +499,11 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
              <table className="w-full text-left border-collapse">
                <thead className="bg-slate-50">
                  <tr className="border-b border-slate-200 text-xs font-bold text-slate-500 uppercase tracking-wider">
-                   <th className="py-3 px-4">테스트 스위트</th>
-                   <th className="py-3 px-4">총 사용자</th>
-                   <th className="py-3 px-4">관리자</th>
-                   <th className="py-3 px-4">생성일</th>
-                   <th className="py-3 px-4 text-right">작업</th>
+                   <th className="py-3 px-4">{t('dashboard.colSuite')}</th>
+                   <th className="py-3 px-4">{t('dashboard.colUsers')}</th>
+                   <th className="py-3 px-4">{t('dashboard.colAdmins')}</th>
+                   <th className="py-3 px-4">{t('dashboard.colCreated')}</th>
+                   <th className="py-3 px-4 text-right">{t('dashboard.colActions')}</th>
                  </tr>
                </thead>
                <tbody className="text-sm divide-y divide-slate-100">
@@ -442,14 +520,14 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
                        </td>
                        <td className="py-3 px-4 text-slate-600">{adminCount}</td>
                        <td className="py-3 px-4 text-slate-500 font-mono text-xs">
-                         {new Date(suite.createdAt).toLocaleDateString('ko-KR')}
+                         {formatDate(suite.createdAt)}
                        </td>
                        <td className="py-3 px-4 text-right">
                          <button 
                            onClick={() => setEditingSuite(suite)}
                            className="text-indigo-600 hover:text-indigo-800 font-medium text-xs px-3 py-1.5 bg-indigo-50 hover:bg-indigo-100 rounded-md transition-colors"
                          >
-                           권한 관리
+                           {t('dashboard.manageAccess')}
                          </button>
                        </td>
                      </tr>
@@ -461,123 +539,16 @@ const Dashboard: React.FC<DashboardProps> = ({ runs, suites, setSuites, users, c
         </div>
       )}
 
-      {/* Permission Management Modal (Duplicate Logic from SuiteManager to be self-contained in Dashboard) */}
+      {/* Permission Management Modal */}
       {editingSuite && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
-           <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 m-4 flex flex-col max-h-[90vh]">
-              <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
-                 <div>
-                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-                      <Shield className="text-indigo-600" size={20} />
-                      프로젝트 접근 권한 관리
-                    </h3>
-                    <p className="text-xs text-slate-500 mt-1">편집 중: {editingSuite.name}</p>
-                 </div>
-                 <button onClick={() => setEditingSuite(null)} className="text-slate-400 hover:text-slate-600">
-                   <X size={20} />
-                 </button>
-              </div>
-
-              <div className="space-y-4 flex-1 overflow-y-auto">
-                 <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
-                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">사용자 추가</label>
-                    <div className="flex gap-2">
-                       <select 
-                         className="flex-1 border border-slate-300 rounded-lg p-2 text-sm outline-none"
-                         value={permUserToAdd}
-                         onChange={(e) => setPermUserToAdd(e.target.value)}
-                       >
-                         <option value="">사용자 선택...</option>
-                         {users
-                           .filter(u => u.email !== 'administrator@autotest.ai' && !editingSuite.permissions?.[u.id])
-                           .map(u => (
-                             <option key={u.id} value={u.id}>{u.name} ({u.email})</option>
-                           ))
-                         }
-                       </select>
-                       <select
-                         className="w-32 border border-slate-300 rounded-lg p-2 text-sm outline-none"
-                         value={permRoleToAdd}
-                         onChange={(e) => setPermRoleToAdd(e.target.value as Role)}
-                       >
-                         <option value="ADMIN">관리자</option>
-                         <option value="MEMBER">멤버</option>
-                         <option value="OBSERVER">옵저버</option>
-                       </select>
-                       <button 
-                         onClick={handleAddPermission}
-                         disabled={!permUserToAdd}
-                         className="bg-indigo-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
-                       >
-                         추가
-                       </button>
-                    </div>
-                 </div>
-
-                 <div>
-                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">현재 권한</label>
-                    <div className="space-y-2">
-                       {/* Super Admin Always Visible */}
-                       <div className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-lg shadow-sm">
-                          <div className="flex items-center gap-3">
-                             <div className="w-8 h-8 flex items-center justify-center bg-indigo-50 rounded-full text-lg">🛡️</div>
-                             <div>
-                               <p className="text-sm font-semibold text-slate-800">슈퍼 관리자</p>
-                               <p className="text-xs text-slate-500">administrator@autotest.ai</p>
-                             </div>
-                          </div>
-                          <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-1 rounded font-bold">GLOBAL</span>
-                       </div>
-
-                       {Object.entries(editingSuite.permissions || {}).map(([userId, role]) => {
-                         const user = users.find(u => u.id === userId);
-                         if (!user) return null;
-                         return (
-                           <div key={userId} className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-lg shadow-sm">
-                              <div className="flex items-center gap-3">
-                                 <div className="w-8 h-8 flex items-center justify-center bg-slate-50 rounded-full text-lg">{user.avatar}</div>
-                                 <div>
-                                   <p className="text-sm font-semibold text-slate-800">{user.name}</p>
-                                   <p className="text-xs text-slate-500">{user.email}</p>
-                                 </div>
-                              </div>
-                              <div className="flex items-center gap-2">
-                                <select 
-                                   className="text-xs border border-slate-200 rounded p-1"
-                                   value={role}
-                                   onChange={(e) => handleChangePermission(userId, e.target.value as Role)}
-                                >
-                                   <option value="ADMIN">관리자</option>
-                                   <option value="MEMBER">멤버</option>
-                                   <option value="OBSERVER">옵저버</option>
-                                </select>
-                                <button 
-                                  onClick={() => handleRemovePermission(userId)}
-                                  className="text-slate-400 hover:text-red-500 p-1"
-                                >
-                                  <X size={16} />
-                                </button>
-                              </div>
-                           </div>
-                         );
-                       })}
-                       
-                       {(!editingSuite.permissions || Object.keys(editingSuite.permissions).length === 0) && (
-                         <p className="text-sm text-slate-400 italic text-center py-4">설정된 권한이 없습니다.</p>
-                       )}
-                    </div>
-                 </div>
-              </div>
-              <div className="mt-4 pt-4 border-t border-slate-100 flex justify-end">
-                <button 
-                  onClick={() => setEditingSuite(null)}
-                  className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-200"
-                >
-                  닫기
-                </button>
-              </div>
-           </div>
-        </div>
+        <AccessControlModal
+          suite={editingSuite}
+          users={users}
+          currentUser={currentUser}
+          onUpdateSuite={updateSuiteAccess}
+          onRoleGranted={notifyRoleGranted}
+          onClose={() => setEditingSuite(null)}
+        />
       )}
     </div>
   );
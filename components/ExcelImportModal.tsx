@@ -0,0 +1,319 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AiLanguage, TestCase } from '../types';
+import { FileSpreadsheet, Upload, Layers, X, AlertCircle, AlertTriangle, Wand2, ClipboardPaste, Loader2 } from 'lucide-react';
+import { parseDelimitedText } from '../services/csv';
+import {
+  ColumnMapping,
+  EMPTY_MAPPING,
+  IMPORT_FIELDS,
+  ImportField,
+  SheetData,
+  buildCasesFromSheet,
+  guessColumnMapping,
+  isStructuredMapping,
+  listSheets,
+  readSheet,
+  sheetToText,
+  toSheetData
+} from '../services/caseImport';
+import { generateTestCases, getAiErrorMessage } from '../services/geminiService';
+import { LlmSettings } from '../services/llm';
+import { useI18n } from './I18nProvider';
+
+interface ExcelImportModalProps {
+  llm: LlmSettings; // Model for the AI conversion fallback
+  language: AiLanguage;
+  onImport: (cases: TestCase[]) => void;
+  onClose: () => void;
+}
+
+type Source = 'FILE' | 'PASTE';
+
+const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ llm, language, onImport, onClose }) => {
+  const { t, localize } = useI18n();
+  const [source, setSource] = useState<Source>('FILE');
+  const [file, setFile] = useState<File | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [pastedText, setPastedText] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [isLoading, setIsLoading] = useState(false);
+  const [aiCases, setAiCases] = useState<TestCase[] | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const aiOpRef = useRef(0);
+
+  const isStructured = isStructuredMapping(mapping);
+  const result = useMemo(
+    () => sheet && isStructured ? buildCasesFromSheet(sheet, mapping) : null,
+    [sheet, mapping, isStructured]
+  );
+  const errorCount = result?.issues.filter(i => i.severity === 'ERROR').length || 0;
+  const previewCases = aiCases || result?.cases.map(c => c.testCase) || [];
+
+  const applySheet = (next: SheetData) => {
+    aiOpRef.current = 0;
+    setSheet(next);
+    setMapping(guessColumnMapping(next.headers));
+    setAiCases(null);
+    setIsConverting(false);
+  };
+
+  const loadSheet = async (target: File, sheetName?: string) => {
+    setIsLoading(true);
+    try {
+      applySheet(await readSheet(target, sheetName));
+    } catch (error) {
+      console.error('Sheet read error:', error);
+      alert(sheetName ? t('excelImport.sheetReadFailed', { sheet: sheetName }) : t('excelImport.fileReadFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!selected) return;
+
+    setFile(selected);
+    setSheet(null);
+    try {
+      const names = await listSheets(selected);
+      setSheetNames(names);
+      await loadSheet(selected, names[0]);
+    } catch (error) {
+      console.error('File read error:', error);
+      alert(t('excelImport.fileReadFailed'));
+    }
+  };
+
+  const handlePasteChange = (text: string) => {
+    setPastedText(text);
+    const next = toSheetData(parseDelimitedText(text));
+    if (next.headers.length > 0) applySheet(next);
+    else setSheet(null);
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setAiCases(null);
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  // Fallback for sheets without recognisable columns; the result is previewed like any other
+  const convertWithAi = async () => {
+    if (!sheet) return;
+    const opId = Date.now();
+    aiOpRef.current = opId;
+    setIsConverting(true);
+    try {
+      const prompt = `I have test suite data (from an Excel file or text) with the following content. Please parse this and convert it into structured test cases: \n\n${sheetToText(sheet)}`;
+      const cases = await generateTestCases(llm, language, prompt, 'Imported Data Conversion');
+      if (aiOpRef.current === opId) setAiCases(cases as TestCase[]);
+    } catch (e) {
+      const reason = getAiErrorMessage(e);
+      if (aiOpRef.current === opId) alert(reason ? localize(reason) : t('excelImport.aiFailed'));
+    } finally {
+      if (aiOpRef.current === opId) setIsConverting(false);
+    }
+  };
+
+  const selectClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-amber-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <FileSpreadsheet className="text-amber-500" />
+              {t('excelImport.title')}
+            </h3>
+            <p className="text-slate-500 text-sm mt-1">
+              {t('excelImport.subtitle')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Source & Mapping */}
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex space-x-2">
+              {(['FILE', 'PASTE'] as Source[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setSource(option)}
+                  className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-md border transition-all ${source === option ? 'bg-white border-amber-500 text-amber-700 shadow-sm ring-1 ring-amber-500' : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
+                >
+                  {option === 'FILE' ? <><Upload size={16} /> {t('excelImport.file')}</> : <><ClipboardPaste size={16} /> {t('excelImport.paste')}</>}
+                </button>
+              ))}
+            </div>
+
+            {source === 'FILE' ? (
+              <>
+                <input
+                  type="file"
+                  accept=".xlsx, .xls, .csv, .tsv, .txt"
+                  ref={fileInputRef}
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isLoading}
+                  className="w-full py-4 border-2 border-dashed border-amber-200 rounded-xl bg-amber-50 text-amber-700 hover:bg-amber-100 transition-colors flex flex-col items-center justify-center gap-2"
+                >
+                  {isLoading ? (
+                    <div className="animate-spin w-6 h-6 border-2 border-amber-600 border-t-transparent rounded-full" />
+                  ) : (
+                    <>
+                      <Upload size={24} />
+                      <span className="font-medium text-sm">{file ? file.name : t('excelImport.upload')}</span>
+                    </>
+                  )}
+                </button>
+
+                {sheetNames.length > 1 && file && (
+                  <div className="bg-slate-50 p-3 rounded-lg border border-slate-200">
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+                      <Layers size={14} />
+                      {t('excelImport.selectSheet')}
+                    </label>
+                    <select className={selectClass} onChange={(e) => loadSheet(file, e.target.value)}>
+                      {sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                  </div>
+                )}
+              </>
+            ) : (
+              <textarea
+                className="w-full border border-slate-300 rounded-lg p-3 focus:ring-2 focus:ring-amber-500 outline-none min-h-[140px] font-mono text-xs bg-slate-50"
+                placeholder={t('excelImport.pastePlaceholder')}
+                value={pastedText}
+                onChange={(e) => handlePasteChange(e.target.value)}
+              />
+            )}
+
+            {sheet && (
+              <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block">{t('excelImport.mapping')}</label>
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.id} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+                    <span className="text-xs text-slate-600">
+                      {t(`caseImport.field.${field.id}`)}{field.required && <span className="text-red-500"> *</span>}
+                    </span>
+                    <select
+                      className={selectClass}
+                      value={mapping[field.id] ?? ''}
+                      onChange={(e) => updateMapping(field.id, e.target.value)}
+                    >
+                      <option value="">{t('excelImport.unused')}</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || t('excelImport.column', { number: index + 1 })}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <p className="text-[11px] text-slate-400 pt-1">
+                  {t('excelImport.mappingHint')}
+                </p>
+              </div>
+            )}
+
+            {sheet && (
+              <div className={`p-3 rounded-lg border text-xs ${isStructured ? 'bg-white border-slate-200 text-slate-500' : 'bg-indigo-50 border-indigo-100 text-indigo-700'}`}>
+                <p className="mb-2">
+                  {isStructured
+                    ? t('excelImport.aiOptional')
+                    : t('excelImport.aiNeeded')}
+                </p>
+                <button
+                  onClick={convertWithAi}
+                  disabled={isConverting}
+                  className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+                >
+                  {isConverting ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+                  {isConverting ? t('excelImport.converting') : t('excelImport.convertWithAi')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="lg:col-span-3 space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                {t('excelImport.preview')} {aiCases && <span className="ml-1 text-indigo-600 normal-case">{t('excelImport.aiResult')}</span>}
+              </h4>
+              <span className="text-xs text-slate-400">{t('excelImport.caseCount', { count: previewCases.length })}</span>
+            </div>
+
+            {!aiCases && result && result.issues.length > 0 && (
+              <div className="border border-slate-200 rounded-lg max-h-40 overflow-y-auto divide-y divide-slate-100">
+                {result.issues.map((issue, index) => (
+                  <p key={index} className={`text-xs p-2 flex items-start gap-2 ${issue.severity === 'ERROR' ? 'text-red-600' : 'text-amber-700'}`}>
+                    {issue.severity === 'ERROR' ? <AlertCircle size={12} className="mt-0.5 flex-shrink-0" /> : <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />}
+                    <span><span className="font-mono font-bold">{t('excelImport.row', { row: issue.row })}</span> · {localize(issue.message)}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {previewCases.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-12 border border-dashed border-slate-200 rounded-lg">
+                {sheet ? t('excelImport.noCases') : t('excelImport.empty')}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {previewCases.map((testCase: TestCase, index: number) => (
+                  <div key={testCase.id} className="border border-slate-200 rounded-lg p-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="bg-slate-100 text-slate-600 text-xs font-mono px-2 py-0.5 rounded">#{index + 1}</span>
+                      <span className="font-medium text-slate-800 flex-1 truncate">{testCase.title}</span>
+                      <span className="text-xs text-slate-500">{t(`priority.${testCase.priority}`)}</span>
+                      {!aiCases && result && (
+                        <span className="text-[10px] text-slate-400 font-mono">{t('excelImport.row', { row: result.cases[index].rows[0] })}</span>
+                      )}
+                    </div>
+                    {testCase.description && <p className="text-xs text-slate-500 mt-1 italic">{testCase.description}</p>}
+                    <ol className="mt-2 space-y-1 text-xs text-slate-600 list-decimal ml-5">
+                      {testCase.steps.map(step => (
+                        <li key={step.id}>
+                          {step.action}
+                          {step.expectedResult && <span className="text-slate-400"> → {step.expectedResult}</span>}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-100">
+          {!aiCases && errorCount > 0 && (
+            <span className="text-xs text-red-600 mr-auto">{t('excelImport.errorRows', { count: errorCount })}</span>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onImport(previewCases)}
+            disabled={previewCases.length === 0 || isConverting}
+            className="px-4 py-2 rounded-lg bg-amber-600 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-sm font-medium shadow-sm text-white"
+          >
+            <FileSpreadsheet size={16} />
+            {t('excelImport.import', { count: previewCases.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExcelImportModal;
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { TestCase, TestStep, TestSuite } from '../types';
+import { Wand2, X, Check, Ban, Pencil, Plus, Trash2, AlertTriangle, CopyCheck, ChevronDown, ChevronUp } from 'lucide-react';
+import { reviewGeneratedCases, ReviewWarning } from '../services/caseReview';
+import { useI18n } from './I18nProvider';
+
+interface GeneratedCasesReviewModalProps {
+  suite: TestSuite;
+  cases: TestCase[];
+  onConfirm: (accepted: TestCase[]) => void;
+  onClose: () => void;
+}
+
+type Decision = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+const GeneratedCasesReviewModal: React.FC<GeneratedCasesReviewModalProps> = ({ suite, cases, onConfirm, onClose }) => {
+  const { t, formatNumber } = useI18n();
+  const [drafts, setDrafts] = useState<TestCase[]>(cases);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const decisionOf = (id: string): Decision => decisions[id] || 'PENDING';
+
+  // Rejected cases drop out of the batch, so they no longer make later cases look like duplicates
+  const warnings = useMemo(
+    () => reviewGeneratedCases(drafts.filter(c => decisionOf(c.id) !== 'REJECTED'), suite.cases),
+    [drafts, decisions, suite.cases]
+  );
+
+  const accepted = drafts.filter(c => decisionOf(c.id) === 'ACCEPTED');
+  const rejectedCount = drafts.filter(c => decisionOf(c.id) === 'REJECTED').length;
+  const pendingCount = drafts.length - accepted.length - rejectedCount;
+
+  const decide = (id: string, decision: Decision) => {
+    setDecisions(prev => ({ ...prev, [id]: decisionOf(id) === decision ? 'PENDING' : decision }));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const acceptRemaining = () => {
+    setDecisions(prev => {
+      const next = { ...prev };
+      drafts.forEach(c => { if (!next[c.id] || next[c.id] === 'PENDING') next[c.id] = 'ACCEPTED'; });
+      return next;
+    });
+  };
+
+  // --- EDITING (applied to the draft directly; nothing reaches the suite before confirming) ---
+  const updateDraft = (id: string, changes: Partial<TestCase>) => {
+    setDrafts(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const updateStep = (caseId: string, stepId: string, changes: Partial<TestStep>) => {
+    setDrafts(prev => prev.map(c => c.id === caseId
+      ? { ...c, steps: c.steps.map(s => s.id === stepId ? { ...s, ...changes } : s) }
+      : c));
+  };
+
+  const addStep = (caseId: string) => {
+    setDrafts(prev => prev.map(c => c.id === caseId
+      ? { ...c, steps: [...c.steps, { id: crypto.randomUUID(), action: '', expectedResult: '' }] }
+      : c));
+  };
+
+  const removeStep = (caseId: string, stepId: string) => {
+    setDrafts(prev => prev.map(c => c.id === caseId ? { ...c, steps: c.steps.filter(s => s.id !== stepId) } : c));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(accepted.map(c => ({ ...c, title: c.title.trim() || t('suites.newCaseTitle') })));
+  };
+
+  const describeWarning = (warning: ReviewWarning) => {
+    switch (warning.kind) {
+      case 'DUPLICATE_IN_SUITE':
+      case 'DUPLICATE_IN_BATCH':
+        return t(warning.kind === 'DUPLICATE_IN_SUITE' ? 'review.duplicateInSuite' : 'review.duplicateInBatch', {
+          title: warning.title,
+          similarity: formatNumber(warning.similarity, { style: 'percent' })
+        });
+      case 'NO_STEPS':
+        return t('review.noSteps');
+      case 'MISSING_EXPECTED':
+        return t('review.missingExpected', { steps: warning.steps.join(', ') });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 m-4 flex flex-col max-h-[90vh] animate-fade-in-up">
+        <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Wand2 className="text-indigo-600" size={20} />
+              {t('review.title')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {t('review.subtitle', { count: drafts.length, suite: suite.name })}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between mb-3 text-xs">
+          <div className="flex gap-3 text-slate-500">
+            <span className="text-green-700 font-medium">{t('review.acceptedCount', { count: accepted.length })}</span>
+            <span className="text-red-600 font-medium">{t('review.rejectedCount', { count: rejectedCount })}</span>
+            <span>{t('review.pendingCount', { count: pendingCount })}</span>
+          </div>
+          <button
+            onClick={acceptRemaining}
+            disabled={pendingCount === 0}
+            className="px-3 py-1.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {t('review.acceptRemaining')}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto pr-2 space-y-3">
+          {drafts.length === 0 && (
+            <div className="text-center py-10 text-slate-400 text-sm">{t('review.empty')}</div>
+          )}
+          {drafts.map((testCase: TestCase, index: number) => {
+            const decision = decisionOf(testCase.id);
+            const caseWarnings = warnings[testCase.id] || [];
+            const isEditing = editingId === testCase.id;
+            const isExpanded = expandedId === testCase.id;
+
+            return (
+              <div
+                key={testCase.id}
+                className={`rounded-lg border overflow-hidden ${
+                  decision === 'ACCEPTED' ? 'border-green-300 bg-green-50/40' :
+                  decision === 'REJECTED' ? 'border-slate-200 bg-slate-50 opacity-60' :
+                  'border-slate-200 bg-white'
+                }`}
+              >
+                <div className="p-3 flex items-start justify-between gap-3">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : testCase.id)}
+                    className="flex items-start gap-3 text-left flex-1 min-w-0"
+                  >
+                    <span className="bg-slate-100 text-slate-600 text-xs font-mono px-2 py-1 rounded shrink-0">
+                      #{index + 1}
+                    </span>
+                    <div className="min-w-0">
+                      <h4 className={`font-medium text-slate-800 truncate ${decision === 'REJECTED' ? 'line-through' : ''}`}>
+                        {testCase.title || t('review.untitled')}
+                      </h4>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                          testCase.priority === 'High' ? 'bg-red-100 text-red-700' :
+                          testCase.priority === 'Medium' ? 'bg-amber-100 text-amber-700' :
+                          'bg-blue-100 text-blue-700'
+                        }`}>
+                          {t(`priority.${testCase.priority}`)}
+                        </span>
+                        <span className="text-xs text-slate-400">{t('suites.stepCount', { count: testCase.steps.length })}</span>
+                        {isExpanded ? <ChevronUp size={14} className="text-slate-400" /> : <ChevronDown size={14} className="text-slate-400" />}
+                      </div>
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => { setEditingId(isEditing ? null : testCase.id); setExpandedId(testCase.id); }}
+                      disabled={decision === 'REJECTED'}
+                      className={`p-1.5 rounded transition-colors disabled:opacity-40 ${isEditing ? 'text-blue-600 bg-blue-50' : 'text-slate-400 hover:text-blue-600 hover:bg-blue-50'}`}
+                      title={t('common.edit')}
+                    >
+                      <Pencil size={15} />
+                    </button>
+                    <button
+                      onClick={() => decide(testCase.id, 'REJECTED')}
+                      className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border transition-colors ${decision === 'REJECTED' ? 'bg-red-600 border-red-600 text-white' : 'border-slate-200 text-slate-600 hover:bg-red-50 hover:text-red-600'}`}
+                    >
+                      <Ban size={13} /> {t('review.reject')}
+                    </button>
+                    <button
+                      onClick={() => decide(testCase.id, 'ACCEPTED')}
+                      className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border transition-colors ${decision === 'ACCEPTED' ? 'bg-green-600 border-green-600 text-white' : 'border-slate-200 text-slate-600 hover:bg-green-50 hover:text-green-700'}`}
+                    >
+                      <Check size={13} /> {t('review.accept')}
+                    </button>
+                  </div>
+                </div>
+
+                {decision !== 'REJECTED' && caseWarnings.length > 0 && (
+                  <div className="px-3 pb-3 flex flex-wrap gap-2">
+                    {caseWarnings.map(warning => (
+                      <span
+                        key={warning.kind}
+                        className={`flex items-center gap-1 text-xs px-2 py-1 rounded border ${
+                          warning.kind.startsWith('DUPLICATE') ? 'bg-purple-50 border-purple-200 text-purple-700' : 'bg-amber-50 border-amber-200 text-amber-700'
+                        }`}
+                      >
+                        {warning.kind.startsWith('DUPLICATE') ? <CopyCheck size={12} /> : <AlertTriangle size={12} />}
+                        {describeWarning(warning)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {isExpanded && !isEditing && (
+                  <div className="border-t border-slate-100 bg-slate-50 p-3 space-y-2">
+                    {testCase.description && <p className="text-sm text-slate-600 italic">{testCase.description}</p>}
+                    {testCase.steps.map((step, idx) => (
+                      <div key={step.id} className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm bg-white p-2 rounded border border-slate-200">
+                        <div>
+                          <span className="font-semibold text-slate-700 block mb-1">{t('suites.stepNumber', { number: idx + 1 })}</span>
+                          <p className="text-slate-600">{step.action}</p>
+                        </div>
+                        <div>
+                          <span className="font-semibold text-slate-700 block mb-1">{t('suites.expectedResult')}</span>
+                          <p className={step.expectedResult?.trim() ? 'text-slate-600' : 'text-amber-600 italic'}>
+                            {step.expectedResult?.trim() || t('review.noExpected')}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {isEditing && (
+                  <div className="border-t border-slate-100 bg-slate-50 p-3 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <div className="md:col-span-3">
+                        <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('suites.fieldTitle')}</label>
+                        <input
+                          autoFocus
+                          className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                          value={testCase.title}
+                          onChange={(e) => updateDraft(testCase.id, { title: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('suites.fieldPriority')}</label>
+                        <select
+                          className="w-full border border-slate-300 rounded-lg p-2 text-sm bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                          value={testCase.priority}
+                          onChange={(e) => updateDraft(testCase.id, { priority: e.target.value as TestCase['priority'] })}
+                        >
+                          <option value="High">{t('priority.High')}</option>
+                          <option value="Medium">{t('priority.Medium')}</option>
+                          <option value="Low">{t('priority.Low')}</option>
+                        </select>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('suites.fieldDescription')}</label>
+                      <textarea
+                        className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none min-h-[50px]"
+                        value={testCase.description || ''}
+                        onChange={(e) => updateDraft(testCase.id, { description: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-semibold text-slate-400 uppercase block">{t('suites.fieldSteps')}</label>
+                      {testCase.steps.map((step, idx) => (
+                        <div key={step.id} className="flex gap-2 items-start bg-white p-2 rounded border border-slate-200">
+                          <span className="text-xs font-semibold text-slate-500 pt-2 w-4 text-center">{idx + 1}</span>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 flex-1">
+                            <textarea
+                              className="border border-slate-300 rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none min-h-[48px]"
+                              placeholder={t('suites.stepAction')}
+                              value={step.action}
+                              onChange={(e) => updateStep(testCase.id, step.id, { action: e.target.value })}
+                            />
+                            <textarea
+                              className="border border-slate-300 rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none min-h-[48px]"
+                              placeholder={t('suites.expectedResult')}
+                              value={step.expectedResult}
+                              onChange={(e) => updateStep(testCase.id, step.id, { expectedResult: e.target.value })}
+                            />
+                          </div>
+                          <button onClick={() => removeStep(testCase.id, step.id)} className="p-1 text-slate-400 hover:text-red-500" title={t('suites.deleteStep')}>
+                            <Trash2 size={14} />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => addStep(testCase.id)}
+                        className="w-full py-2 border border-dashed border-slate-300 rounded-lg text-slate-500 hover:text-blue-600 hover:border-blue-400 text-xs font-medium flex items-center justify-center gap-1"
+                      >
+                        <Plus size={14} /> {t('suites.addStep')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-slate-100 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-400">{pendingCount > 0 ? t('review.pendingHint') : ''}</p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={accepted.length === 0}
+              className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
+            >
+              <Check size={16} /> {t('review.confirm', { count: accepted.length })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeneratedCasesReviewModal;
@@ -0,0 +1,25 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { UiLocale } from '../types';
+import { I18n, createI18n, detectUiLocale } from '../services/i18n';
+
+interface I18nContextValue extends I18n {
+  setLocale: (locale: UiLocale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Holds the interface language; App points it at the signed-in user's choice
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<UiLocale>(detectUiLocale);
+  const value = useMemo(() => ({ ...createI18n(locale), setLocale }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+};
+
+export default I18nProvider;
@@ -0,0 +1,161 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Upload, X, AlertCircle, FolderOpen } from 'lucide-react';
+import { INTEROP_FORMATS, InteropFormat, InteropSuite, detectInteropFormat, importInteropFiles } from '../services/interop';
+import { LocalizedError } from '../services/i18n';
+import UnmappedFieldList from './UnmappedFieldList';
+import { useI18n } from './I18nProvider';
+
+interface InteropImportModalProps {
+  onImport: (suites: InteropSuite[]) => void;
+  onClose: () => void;
+}
+
+const InteropImportModal: React.FC<InteropImportModalProps> = ({ onImport, onClose }) => {
+  const i18n = useI18n();
+  const { t, localize } = i18n;
+  const [files, setFiles] = useState<{ name: string; text: string }[]>([]);
+  const [format, setFormat] = useState<InteropFormat | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const conversion = useMemo(() => {
+    if (files.length === 0 || !format) return null;
+    try {
+      return { result: importInteropFiles(format, files, i18n), error: null };
+    } catch (error) {
+      console.error('Interop import error:', error);
+      return { result: null, error: error instanceof LocalizedError ? localize(error.text) : t('interop.convertFailed') };
+    }
+  }, [files, format, i18n]);
+
+  const suites = conversion?.result?.suites || [];
+  const caseCount = suites.reduce((sum, s) => sum + s.cases.length, 0);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from<File>(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (selected.length === 0) return;
+
+    setIsLoading(true);
+    try {
+      const read = await Promise.all(selected.map(async file => ({ name: file.name, text: await file.text() })));
+      setFiles(read);
+      setFormat(detectInteropFormat(read[0].name, read[0].text) || '');
+    } catch (error) {
+      console.error('File read error:', error);
+      alert(t('interop.readFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <Upload className="text-blue-600" />
+              {t('suites.importFromTool')}
+            </h3>
+            <p className="text-slate-500 text-sm mt-1">
+              {t('interop.importSubtitle')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <input
+            type="file"
+            accept=".csv, .xml, .feature, .txt"
+            multiple
+            ref={fileInputRef}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full py-4 border-2 border-dashed border-blue-200 rounded-xl bg-blue-50 text-blue-700 hover:bg-blue-100 transition-colors flex flex-col items-center justify-center gap-2"
+          >
+            {isLoading ? (
+              <div className="animate-spin w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full" />
+            ) : (
+              <>
+                <Upload size={24} />
+                <span className="font-medium text-sm">
+                  {files.length === 0 ? t('interop.selectFiles') : files.map(f => f.name).join(', ')}
+                </span>
+              </>
+            )}
+          </button>
+
+          {files.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('interop.format')}</label>
+              <select className={selectClass} value={format} onChange={(e) => setFormat(e.target.value as InteropFormat | '')}>
+                <option value="">{t('interop.selectFormat')}</option>
+                {INTEROP_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+              {format
+                ? <p className="text-xs text-slate-500 mt-1">{t(`interop.format.${format as InteropFormat}`)}</p>
+                : <p className="text-xs text-amber-600 mt-1">{t('interop.formatUnknown')}</p>}
+            </div>
+          )}
+
+          {conversion?.error && (
+            <div className="flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" /> {conversion.error}
+            </div>
+          )}
+
+          {conversion?.result && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">{t('interop.preview')}</label>
+                {suites.length === 0 ? (
+                  <p className="text-sm text-slate-400">{t('interop.noCases')}</p>
+                ) : (
+                  <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-56 overflow-y-auto">
+                    {suites.map(suite => (
+                      <div key={suite.name} className="px-3 py-2">
+                        <div className="flex items-center gap-2 text-sm text-slate-700">
+                          <FolderOpen size={14} className="text-slate-400" />
+                          <span className="flex-1 truncate font-medium">{suite.name}</span>
+                          <span className="text-xs text-slate-400">{t('interop.caseCount', { count: suite.cases.length })}</span>
+                        </div>
+                        <p className="text-xs text-slate-400 truncate ml-6">{suite.cases.map(c => c.title).join(', ')}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <UnmappedFieldList fields={conversion.result.unmapped} emptyMessage={t('interop.allImportable')} />
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onImport(suites)}
+            disabled={caseCount === 0}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-sm font-medium shadow-sm text-white"
+          >
+            <Upload size={16} />
+            {t('interop.import', { suites: suites.length, cases: caseCount })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InteropImportModal;
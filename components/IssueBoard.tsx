@@ -1,22 +1,30 @@
 import React, { useState, useEffect } from 'react';
-import { Issue, IssueStatus, IssuePriority, User } from '../types';
-import { Plus, MoreHorizontal, Calendar, Trash2, X, AlertCircle, ChevronDown, Clock, CheckCircle2, Circle } from 'lucide-react';
+import { Issue, IssueStatus, IssuePriority, IssueCaseLink, NotificationInput, TestSuite, User } from '../types';
+import { Plus, MoreHorizontal, Calendar, Trash2, X, AlertCircle, ChevronDown, Clock, CheckCircle2, Circle, Link2 } from 'lucide-react';
+import { nextIssueKey } from '../services/issueLinks';
+import { findNewMentions } from '../services/notifications';
+import { Capability, canInWorkspace, canOnIssue } from '../services/permissions';
+import { msg } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
 interface IssueBoardProps {
   issues: Issue[];
   setIssues: React.Dispatch<React.SetStateAction<Issue[]>>;
-  onNotify?: (message: string) => void;
+  suites: TestSuite[];
+  onNotify?: (notification: NotificationInput) => void;
   users: User[];
   currentUser: User;
+  focusIssueId?: string; // Opened on arrival, e.g. from a notification
 }
 
-const COLUMNS: { id: IssueStatus; title: string; color: string }[] = [
-  { id: 'TODO', title: '할 일', color: 'bg-slate-100' },
-  { id: 'IN_PROGRESS', title: '진행 중', color: 'bg-blue-50' },
-  { id: 'DONE', title: '완료', color: 'bg-green-50' },
+const COLUMNS: { id: IssueStatus; color: string }[] = [
+  { id: 'TODO', color: 'bg-slate-100' },
+  { id: 'IN_PROGRESS', color: 'bg-blue-50' },
+  { id: 'DONE', color: 'bg-green-50' },
 ];
 
-const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, users, currentUser }) => {
+const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, suites, onNotify, users, currentUser, focusIssueId }) => {
+  const { t, formatDateTime } = useI18n();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
   
@@ -33,40 +41,94 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
     }
   }, [currentUser.name]);
   
+  useEffect(() => {
+    const focused = issues.find(i => i.id === focusIssueId);
+    if (focused) setSelectedIssue(focused);
+  }, [focusIssueId]);
+
   // Drag and Drop state
   const [draggedIssueId, setDraggedIssueId] = useState<string | null>(null);
 
   const createIssue = () => {
-    if (!newTitle.trim()) return;
+    if (!newTitle.trim() || !canCreate) return;
     
-    const maxId = issues.reduce((max, issue) => {
-      const num = parseInt(issue.key.split('-')[1]);
-      return num > max ? num : max;
-    }, 0);
-
     const newIssue: Issue = {
       id: crypto.randomUUID(),
-      key: `ISS-${maxId + 1}`,
+      key: nextIssueKey(issues),
       title: newTitle,
       description: newDesc,
       status: 'TODO',
       priority: newPriority,
       assignee: newAssignee,
+      reporterId: currentUser.id,
       createdAt: new Date().toISOString()
     };
 
     setIssues([...issues, newIssue]);
+    const assignee = users.find(u => u.name === newAssignee);
+    if (onNotify && assignee && assignee.id !== currentUser.id) {
+      onNotify({
+        recipientId: assignee.id,
+        type: 'ASSIGNMENT',
+        message: msg('app.issueAssigned', { key: newIssue.key, title: newIssue.title }),
+        link: { kind: 'ISSUE', issueId: newIssue.id }
+      });
+    }
+    notifyMentions('', newIssue);
     setShowCreateModal(false);
     resetForm();
   };
 
+  // --- PERMISSIONS ---
+  const can = (issue: Issue, capability: Capability) => canOnIssue(currentUser, issue, suites, capability);
+  const canCreate = canInWorkspace(currentUser, suites, 'issue.create');
+  const visibleIssues = issues.filter(i => can(i, 'issue.view'));
+
+  // --- NOTIFICATIONS ---
+  const notifyMentions = (previousText: string, issue: Issue) => {
+    if (!onNotify) return;
+    findNewMentions(previousText, issue.description, users)
+      .filter(u => u.id !== currentUser.id)
+      .forEach(u => onNotify({
+        recipientId: u.id,
+        type: 'MENTIONED',
+        message: msg('issues.mentioned', { name: currentUser.name, key: issue.key, title: issue.title }),
+        link: { kind: 'ISSUE', issueId: issue.id }
+      }));
+  };
+
+  // Status changes go to the assignee and the reporter, never to whoever made the change
+  const notifyStatusChange = (issue: Issue, status: IssueStatus) => {
+    if (!onNotify) return;
+    const watcherIds = new Set([users.find(u => u.name === issue.assignee)?.id, issue.reporterId]);
+    watcherIds.forEach(userId => {
+      if (!userId || userId === currentUser.id) return;
+      onNotify({
+        recipientId: userId,
+        type: 'ISSUE_STATUS_CHANGED',
+        message: msg('issues.statusChanged', { key: issue.key, status: msg(`issueStatus.${status}`), title: issue.title }),
+        link: { kind: 'ISSUE', issueId: issue.id }
+      });
+    });
+  };
+
   const updateIssue = (updated: Issue) => {
-    // Check for assignee change notification
     const oldIssue = issues.find(i => i.id === updated.id);
     if (oldIssue && onNotify) {
-      if (oldIssue.assignee !== currentUser.name && updated.assignee === currentUser.name) {
-        onNotify(`이슈 ${updated.key}에 할당되었습니다: ${updated.title}`);
+      if (oldIssue.assignee !== updated.assignee) {
+        // Notify the new assignee, not whoever made the change
+        const assignee = users.find(u => u.name === updated.assignee);
+        if (assignee) {
+          onNotify({
+            recipientId: assignee.id,
+            type: 'ASSIGNMENT',
+            message: msg('app.issueAssigned', { key: updated.key, title: updated.title }),
+            link: { kind: 'ISSUE', issueId: updated.id }
+          });
+        }
       }
+      if (oldIssue.status !== updated.status) notifyStatusChange(updated, updated.status);
+      if (oldIssue.description !== updated.description) notifyMentions(oldIssue.description, updated);
     }
 
     setIssues(issues.map(i => i.id === updated.id ? updated : i));
@@ -82,7 +144,9 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
 
   const deleteIssue = (id: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
-    if (confirm('이 이슈를 삭제하시겠습니까?')) {
+    const issue = issues.find(i => i.id === id);
+    if (!issue || !can(issue, 'issue.delete')) return;
+    if (confirm(t('issues.confirmDelete'))) {
       setIssues(issues.filter(i => i.id !== id));
       if (selectedIssue?.id === id) setSelectedIssue(null);
     }
@@ -100,13 +164,32 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
   const onDrop = (e: React.DragEvent, status: IssueStatus) => {
     e.preventDefault();
     if (draggedIssueId) {
+      const dragged = issues.find(i => i.id === draggedIssueId);
+      setDraggedIssueId(null);
+      if (!dragged || !can(dragged, 'issue.triage')) return;
+      if (dragged.status !== status) notifyStatusChange(dragged, status);
       setIssues(issues.map(i => 
         i.id === draggedIssueId ? { ...i, status } : i
       ));
-      setDraggedIssueId(null);
     }
   };
 
+  const describeLink = (link: IssueCaseLink) => {
+    const suite = suites.find(s => s.id === link.suiteId);
+    const testCase = suite?.cases.find(c => c.id === link.caseId);
+    return {
+      suiteName: suite?.name || t('issues.deletedSuite'),
+      caseTitle: testCase?.title || t('issues.deletedCase')
+    };
+  };
+
+  const unlinkCase = (issue: Issue, link: IssueCaseLink) => {
+    updateIssue({
+      ...issue,
+      linkedCases: issue.linkedCases?.filter(l => !(l.suiteId === link.suiteId && l.caseId === link.caseId))
+    });
+  };
+
   const getPriorityColor = (p: IssuePriority) => {
     switch (p) {
       case 'Critical': return 'bg-red-100 text-red-700 border-red-200';
@@ -147,23 +230,25 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
     <div className="h-full flex flex-col animate-fade-in relative">
       <div className="flex justify-between items-center mb-6">
         <div>
-          <h1 className="text-3xl font-bold text-slate-800">이슈 보드</h1>
-          <p className="text-slate-500 text-sm mt-1">Jira 스타일로 버그와 작업 관리</p>
+          <h1 className="text-3xl font-bold text-slate-800">{t('issues.title')}</h1>
+          <p className="text-slate-500 text-sm mt-1">{t('issues.subtitle')}</p>
         </div>
         <button 
           onClick={() => {
             setNewAssignee(currentUser.name);
             setShowCreateModal(true);
           }}
-          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium"
+          disabled={!canCreate}
+          title={canCreate ? undefined : t('issues.noCreatePermission')}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors shadow-sm font-medium disabled:opacity-50"
         >
-          <Plus size={18} /> 이슈 생성
+          <Plus size={18} /> {t('issues.create')}
         </button>
       </div>
 
       <div className="flex-1 flex gap-6 overflow-x-auto pb-4">
         {COLUMNS.map(column => {
-          const columnIssues = issues.filter(i => i.status === column.id);
+          const columnIssues = visibleIssues.filter(i => i.status === column.id);
           
           return (
             <div 
@@ -174,7 +259,7 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
             >
               <div className="p-4 flex justify-between items-center border-b border-black/5">
                 <h3 className="font-semibold text-slate-700 flex items-center gap-2">
-                  {column.title}
+                  {t(`issueStatus.${column.id}`)}
                   <span className="bg-white px-2 py-0.5 rounded-full text-xs text-slate-500 border border-slate-200">
                     {columnIssues.length}
                   </span>
@@ -186,34 +271,46 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                 {columnIssues.map(issue => (
                   <div 
                     key={issue.id}
-                    draggable
+                    draggable={can(issue, 'issue.triage')}
                     onDragStart={(e) => onDragStart(e, issue.id)}
                     onClick={() => setSelectedIssue(issue)}
-                    className="bg-white p-4 rounded-lg shadow-sm border border-slate-100 hover:shadow-md transition-all cursor-move group relative"
+                    className={`bg-white p-4 rounded-lg shadow-sm border border-slate-100 hover:shadow-md transition-all group relative ${can(issue, 'issue.triage') ? 'cursor-move' : 'cursor-pointer'}`}
                   >
                     <div className="flex justify-between items-start mb-2">
                        <span className="text-xs font-mono text-slate-500 hover:underline cursor-pointer">{issue.key}</span>
-                       <button 
-                         onClick={(e) => deleteIssue(issue.id, e)}
-                         className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
-                       >
-                         <Trash2 size={14} />
-                       </button>
+                       {can(issue, 'issue.delete') && (
+                         <button 
+                           onClick={(e) => deleteIssue(issue.id, e)}
+                           className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity p-1"
+                         >
+                           <Trash2 size={14} />
+                         </button>
+                       )}
                     </div>
                     
                     <h4 className="font-medium text-slate-800 mb-3 line-clamp-2">{issue.title}</h4>
                     
                     <div className="flex items-center justify-between mt-auto">
-                       <span className={`text-[10px] uppercase font-bold px-2 py-1 rounded border ${getPriorityColor(issue.priority)}`}>
-                         {issue.priority}
-                       </span>
+                       <div className="flex items-center gap-2">
+                         <span className={`text-[10px] uppercase font-bold px-2 py-1 rounded border ${getPriorityColor(issue.priority)}`}>
+                           {issue.priority}
+                         </span>
+                         {issue.linkedCases && issue.linkedCases.length > 0 && (
+                           <span
+                             className="text-[10px] font-bold px-2 py-1 rounded border bg-purple-50 text-purple-700 border-purple-200 flex items-center gap-1"
+                             title={issue.linkedCases.map(l => describeLink(l).caseTitle).join('\n')}
+                           >
+                             <Link2 size={10} /> {t('issues.linkedCaseCount', { count: issue.linkedCases.length })}
+                           </span>
+                         )}
+                       </div>
                        {getUserAvatar(issue.assignee)}
                     </div>
                   </div>
                 ))}
                 {columnIssues.length === 0 && (
                   <div className="h-24 border-2 border-dashed border-slate-200 rounded-lg flex items-center justify-center text-slate-400 text-sm">
-                    항목을 여기로 드래그하세요
+                    {t('issues.dropHere')}
                   </div>
                 )}
               </div>
@@ -227,27 +324,27 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
           <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 m-4 animate-fade-in-up">
             <div className="flex justify-between items-start mb-4">
-               <h3 className="text-xl font-bold text-slate-800">새 이슈 생성</h3>
+               <h3 className="text-xl font-bold text-slate-800">{t('issues.createTitle')}</h3>
                <button onClick={() => setShowCreateModal(false)} className="text-slate-400 hover:text-slate-600"><X size={20}/></button>
             </div>
             
             <div className="space-y-4">
               <div>
-                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">요약</label>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('issues.summary')}</label>
                 <input 
                   autoFocus
                   className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
-                  placeholder="어떤 이슈인가요?"
+                  placeholder={t('issues.summaryPlaceholder')}
                   value={newTitle}
                   onChange={(e) => setNewTitle(e.target.value)}
                 />
               </div>
               
               <div>
-                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">설명</label>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('issues.description')}</label>
                 <textarea 
                   className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none min-h-[100px]"
-                  placeholder="재현 단계를 설명하세요..."
+                  placeholder={t('issues.descriptionPlaceholder')}
                   value={newDesc}
                   onChange={(e) => setNewDesc(e.target.value)}
                 />
@@ -255,7 +352,7 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
 
               <div className="flex gap-4">
                 <div className="flex-1">
-                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">우선순위</label>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('issues.priority')}</label>
                   <select
                     className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
                     value={newPriority}
@@ -268,14 +365,14 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                 </div>
                 
                 <div className="flex-1">
-                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">담당자</label>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('issues.assignee')}</label>
                   <div className="relative">
                     <select
                       className="w-full appearance-none bg-white border border-slate-300 rounded-lg pl-3 pr-8 py-2.5 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
                       value={newAssignee}
                       onChange={(e) => setNewAssignee(e.target.value)}
                     >
-                      <option value="">할당되지 않음</option>
+                      <option value="">{t('common.unassigned')}</option>
                       {users.map(user => (
                         <option key={user.id} value={user.name}>
                           {user.avatar} {user.name}
@@ -295,14 +392,14 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                  onClick={() => setShowCreateModal(false)}
                  className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium"
                >
-                 취소
+                 {t('common.cancel')}
                </button>
                <button 
                  onClick={createIssue}
                  disabled={!newTitle.trim()}
                  className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
                >
-                 생성
+                 {t('common.create')}
                </button>
             </div>
           </div>
@@ -324,8 +421,9 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                 <input 
                   className="text-2xl font-bold text-slate-900 w-full border-none focus:ring-0 p-0 bg-transparent placeholder:text-slate-300"
                   value={selectedIssue.title}
+                  readOnly={!can(selectedIssue, 'issue.edit')}
                   onChange={(e) => updateIssue({...selectedIssue, title: e.target.value})}
-                  placeholder="이슈 제목"
+                  placeholder={t('issues.titlePlaceholder')}
                 />
               </div>
               <div className="flex items-center gap-2">
@@ -340,18 +438,19 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                {/* Left: Main Content */}
                <div className="flex-1 p-6 overflow-y-auto border-r border-slate-100">
                   <div className="mb-6">
-                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 block">설명</label>
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('issues.description')}</label>
                     <textarea 
                       className="w-full h-[300px] p-4 text-sm text-slate-700 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none leading-relaxed"
                       value={selectedIssue.description}
+                      readOnly={!can(selectedIssue, 'issue.edit')}
                       onChange={(e) => updateIssue({...selectedIssue, description: e.target.value})}
-                      placeholder="설명 추가..."
+                      placeholder={t('issues.addDescriptionPlaceholder')}
                     />
                   </div>
                   
                   <div className="bg-slate-50 p-4 rounded-lg border border-slate-100">
-                     <h4 className="text-sm font-semibold text-slate-700 mb-2">활동</h4>
-                     <p className="text-xs text-slate-400 italic">최근 활동 없음.</p>
+                     <h4 className="text-sm font-semibold text-slate-700 mb-2">{t('issues.activity')}</h4>
+                     <p className="text-xs text-slate-400 italic">{t('issues.noActivity')}</p>
                   </div>
                </div>
 
@@ -359,16 +458,15 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                <div className="w-full md:w-80 bg-slate-50/50 p-6 overflow-y-auto">
                  <div className="space-y-6">
                     <div>
-                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 block">상태</label>
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('issues.status')}</label>
                       <div className="relative">
                         <select 
                           className="w-full appearance-none bg-white border border-slate-300 rounded-lg pl-3 pr-10 py-2 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
                           value={selectedIssue.status}
+                          disabled={!can(selectedIssue, 'issue.triage')}
                           onChange={(e) => updateIssue({...selectedIssue, status: e.target.value as IssueStatus})}
                         >
-                          <option value="TODO">할 일</option>
-                          <option value="IN_PROGRESS">진행 중</option>
-                          <option value="DONE">완료</option>
+                          {COLUMNS.map(column => <option key={column.id} value={column.id}>{t(`issueStatus.${column.id}`)}</option>)}
                         </select>
                         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                            {getStatusIcon(selectedIssue.status)}
@@ -380,12 +478,13 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                     </div>
 
                     <div>
-                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 block">우선순위</label>
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 block">{t('issues.priority')}</label>
                       <div className="flex flex-wrap gap-2">
                          {(['Low', 'Medium', 'High', 'Critical'] as IssuePriority[]).map(p => (
                             <button
                               key={p}
                               onClick={() => updateIssue({...selectedIssue, priority: p})}
+                              disabled={!can(selectedIssue, 'issue.triage')}
                               className={`px-3 py-1.5 rounded-md text-xs font-medium border transition-all ${
                                 selectedIssue.priority === p 
                                   ? getPriorityColor(p) + ' ring-1 ring-offset-1'
@@ -400,14 +499,15 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
 
                     <div className="pt-6 border-t border-slate-200 space-y-4">
                       <div>
-                        <span className="text-xs font-semibold text-slate-500 block mb-1">담당자</span>
+                        <span className="text-xs font-semibold text-slate-500 block mb-1">{t('issues.assignee')}</span>
                         <div className="relative">
                           <select 
                              className="w-full appearance-none bg-white border border-slate-300 rounded-lg pl-3 pr-10 py-2 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
                              value={selectedIssue.assignee || ''}
+                             disabled={!can(selectedIssue, 'issue.triage')}
                              onChange={(e) => updateIssue({...selectedIssue, assignee: e.target.value})}
                           >
-                             <option value="">할당되지 않음</option>
+                             <option value="">{t('common.unassigned')}</option>
                              {users.map(user => (
                                <option key={user.id} value={user.name}>
                                  {user.avatar} {user.name}
@@ -421,22 +521,51 @@ const IssueBoard: React.FC<IssueBoardProps> = ({ issues, setIssues, onNotify, us
                       </div>
                       
                       <div>
-                        <span className="text-xs font-semibold text-slate-500 block mb-1">생성일</span>
+                        <span className="text-xs font-semibold text-slate-500 block mb-1">{t('issues.blockedCases')}</span>
+                        {selectedIssue.linkedCases && selectedIssue.linkedCases.length > 0 ? (
+                          <ul className="space-y-1.5">
+                            {selectedIssue.linkedCases.map(link => {
+                              const { suiteName, caseTitle } = describeLink(link);
+                              return (
+                                <li key={`${link.suiteId}:${link.caseId}`} className="flex items-start gap-2 bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs">
+                                  <Link2 size={12} className="text-purple-500 mt-0.5 flex-shrink-0" />
+                                  <div className="flex-1 min-w-0">
+                                    <p className="font-medium text-slate-700 truncate">{caseTitle}</p>
+                                    <p className="text-slate-400 truncate">{suiteName}</p>
+                                  </div>
+                                  {can(selectedIssue, 'issue.triage') && (
+                                    <button onClick={() => unlinkCase(selectedIssue, link)} className="text-slate-300 hover:text-red-500" title={t('issues.unlink')}>
+                                      <X size={12} />
+                                    </button>
+                                  )}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        ) : (
+                          <p className="text-xs text-slate-400 italic">{t('issues.noLinkedCases')}</p>
+                        )}
+                      </div>
+
+                      <div>
+                        <span className="text-xs font-semibold text-slate-500 block mb-1">{t('issues.created')}</span>
                         <div className="text-xs text-slate-600 font-mono">
-                          {new Date(selectedIssue.createdAt).toLocaleString('ko-KR')}
+                          {formatDateTime(selectedIssue.createdAt)}
                         </div>
                       </div>
                     </div>
                  </div>
 
-                 <div className="mt-auto pt-8">
-                    <button 
-                      onClick={() => deleteIssue(selectedIssue.id)}
-                      className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 text-sm font-medium transition-colors"
-                    >
-                      <Trash2 size={16} /> 이슈 삭제
-                    </button>
-                 </div>
+                 {can(selectedIssue, 'issue.delete') && (
+                   <div className="mt-auto pt-8">
+                      <button 
+                        onClick={() => deleteIssue(selectedIssue.id)}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 text-sm font-medium transition-colors"
+                      >
+                        <Trash2 size={16} /> {t('issues.delete')}
+                      </button>
+                   </div>
+                 )}
                </div>
             </div>
           </div>
@@ -0,0 +1,155 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { TestRun, TestSuite } from '../types';
+import { Upload, X, AlertCircle, AlertTriangle, CheckCircle, XCircle, MinusCircle, Server } from 'lucide-react';
+import { JUnitReport, buildRunFromJUnit, parseJUnitXml } from '../services/runReports';
+import { getRunStats } from '../services/runStats';
+import { LocalizedError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface JUnitImportModalProps {
+  suites: TestSuite[]; // Suites the user may record runs for
+  currentUserId: string;
+  onImport: (run: TestRun) => void;
+  onClose: () => void;
+}
+
+const JUnitImportModal: React.FC<JUnitImportModalProps> = ({ suites, currentUserId, onImport, onClose }) => {
+  const { t, localize } = useI18n();
+  const [suiteId, setSuiteId] = useState(suites[0]?.id || '');
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<JUnitReport | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const suite = suites.find(s => s.id === suiteId);
+  const imported = useMemo(
+    () => report && suite ? buildRunFromJUnit(report, suite, fileName, currentUserId) : null,
+    [report, suite, fileName, currentUserId]
+  );
+  const stats = imported ? getRunStats(imported.run) : null;
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!selected) return;
+
+    setFileName(selected.name);
+    setReport(null);
+    setError('');
+    try {
+      setReport(parseJUnitXml(await selected.text()));
+    } catch (err) {
+      setError(err instanceof LocalizedError ? localize(err.text) : t('interop.readFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <Server className="text-cyan-600" />
+              {t('junit.title')}
+            </h3>
+            <p className="text-slate-500 text-sm mt-1">
+              {t('junit.subtitle')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('junit.suite')}</label>
+            <select
+              value={suiteId}
+              onChange={(e) => setSuiteId(e.target.value)}
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-cyan-500 outline-none"
+            >
+              {suites.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+
+          <input type="file" accept=".xml" ref={fileInputRef} onChange={handleFileSelect} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full py-4 border-2 border-dashed border-cyan-200 rounded-xl bg-cyan-50 text-cyan-700 hover:bg-cyan-100 transition-colors flex flex-col items-center justify-center gap-2"
+          >
+            <Upload size={24} />
+            <span className="font-medium text-sm">{fileName || t('junit.selectFile')}</span>
+          </button>
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" /> {error}
+            </div>
+          )}
+
+          {imported && stats && report && (
+            <>
+              <div className="grid grid-cols-4 gap-3">
+                <div className="bg-slate-50 rounded-lg p-3 text-center">
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">{t('junit.matchedCases')}</p>
+                  <p className="text-lg font-bold text-slate-800">{stats.total}</p>
+                </div>
+                <div className="bg-green-50 rounded-lg p-3 text-center">
+                  <p className="text-[10px] text-green-600 uppercase font-bold flex items-center justify-center gap-1"><CheckCircle size={10} /> {t('status.PASSED')}</p>
+                  <p className="text-lg font-bold text-green-700">{stats.passed}</p>
+                </div>
+                <div className="bg-red-50 rounded-lg p-3 text-center">
+                  <p className="text-[10px] text-red-600 uppercase font-bold flex items-center justify-center gap-1"><XCircle size={10} /> {t('status.FAILED')}</p>
+                  <p className="text-lg font-bold text-red-700">{stats.failed}</p>
+                </div>
+                <div className="bg-amber-50 rounded-lg p-3 text-center">
+                  <p className="text-[10px] text-amber-600 uppercase font-bold flex items-center justify-center gap-1"><MinusCircle size={10} /> {t('status.SKIPPED')}</p>
+                  <p className="text-lg font-bold text-amber-700">{stats.skipped}</p>
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                {t('junit.matchSummary', {
+                  matched: report.testcases.length - imported.unmatched.length,
+                  total: report.testcases.length,
+                  cases: stats.total
+                })}
+              </p>
+
+              {imported.unmatched.length > 0 && (
+                <div className="border border-amber-200 rounded-lg overflow-hidden">
+                  <div className="flex items-center gap-2 text-xs font-bold text-amber-700 bg-amber-50 px-3 py-2 border-b border-amber-200">
+                    <AlertTriangle size={14} /> {t('junit.unmatched', { count: imported.unmatched.length })}
+                  </div>
+                  <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 text-xs">
+                    {imported.unmatched.map((tc, i) => (
+                      <li key={i} className="px-3 py-1.5 flex justify-between gap-3">
+                        <span className="font-mono text-slate-700 truncate">{tc.name}</span>
+                        <span className="text-slate-400 truncate">{tc.classname}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => imported && onImport(imported.run)}
+            disabled={!imported || !stats?.total}
+            className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-sm font-medium shadow-sm text-white"
+          >
+            <Upload size={16} /> {t('junit.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JUnitImportModal;
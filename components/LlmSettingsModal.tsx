@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Bot, X, RefreshCw, Save } from 'lucide-react';
+import { AiLanguage, LocalizedText } from '../types';
+import { DEFAULT_OPENAI_BASE_URL, LLM_PROVIDERS, LlmProviderId, LlmProviderInfo, LlmSettings, createLlmProvider } from '../services/llm';
+import { AI_LANGUAGES, DEFAULT_AI_LANGUAGE } from '../services/aiPrompts';
+import { msg } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface LlmSettingsModalProps {
+  settings: LlmSettings; // The current user's settings, or the installation default
+  onSave: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+const LlmSettingsModal: React.FC<LlmSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const { t, localize } = useI18n();
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [models, setModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelNotice, setModelNotice] = useState<LocalizedText | null>(null);
+
+  const isOpenAi = draft.provider === 'openai';
+
+  const loadModels = async () => {
+    setIsLoadingModels(true);
+    setModelNotice(null);
+    const found = await createLlmProvider(draft).listModels();
+    setModels(found);
+    if (isOpenAi) {
+      setModelNotice(found.length > 0
+        ? msg('llm.modelsFound', { count: found.length })
+        : msg('llm.modelsUnavailable', { url: draft.baseUrl || DEFAULT_OPENAI_BASE_URL }));
+    }
+    setIsLoadingModels(false);
+  };
+
+  // A local server is only asked once the user has entered its address
+  useEffect(() => {
+    setModels([]);
+    setModelNotice(null);
+    if (!isOpenAi) loadModels();
+  }, [draft.provider]);
+
+  const selectProvider = (provider: LlmProviderId) => {
+    if (provider === draft.provider) return;
+    const info = LLM_PROVIDERS.find(p => p.id === provider)!;
+    setDraft(provider === 'openai'
+      ? { provider, model: info.defaultModel, baseUrl: DEFAULT_OPENAI_BASE_URL, language: draft.language }
+      : { provider, model: info.defaultModel, language: draft.language });
+  };
+
+  const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 m-4 flex flex-col max-h-[90vh] animate-fade-in-up">
+        <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Bot className="text-blue-600" size={20} />
+              {t('sidebar.aiSettings')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{t('llm.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-5 pr-1">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{t('llm.provider')}</label>
+            <div className="space-y-2">
+              {LLM_PROVIDERS.map((option: LlmProviderInfo) => (
+                <label
+                  key={option.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer select-none transition-colors ${draft.provider === option.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <input
+                    type="radio"
+                    name="llm-provider"
+                    className="mt-1 accent-blue-600"
+                    checked={draft.provider === option.id}
+                    onChange={() => selectProvider(option.id)}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-700">{t(`llm.provider.${option.id}`)}</span>
+                    <span className="block text-xs text-slate-500">{t(`llm.providerHelp.${option.id}`)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {isOpenAi && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('llm.baseUrl')}</label>
+                <input
+                  className={inputClass}
+                  value={draft.baseUrl || ''}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                />
+                <p className="text-xs text-slate-400 mt-1">{t('llm.baseUrlHint', { ollama: DEFAULT_OPENAI_BASE_URL, llamaCpp: 'http://localhost:8080/v1' })}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('llm.apiKey')}</label>
+                <input
+                  type="password"
+                  className={inputClass}
+                  value={draft.apiKey || ''}
+                  onChange={(e) => setDraft({ ...draft, apiKey: e.target.value || undefined })}
+                  placeholder={t('llm.apiKeyPlaceholder')}
+                />
+                <p className="text-xs text-slate-400 mt-1">{t('llm.apiKeyHint')}</p>
+              </div>
+            </>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-sm font-medium text-slate-700">{t('llm.model')}</label>
+              {isOpenAi && (
+                <button
+                  onClick={loadModels}
+                  disabled={isLoadingModels}
+                  className="text-xs text-blue-600 hover:underline flex items-center gap-1 disabled:opacity-50"
+                >
+                  <RefreshCw size={12} className={isLoadingModels ? 'animate-spin' : ''} /> {t('llm.loadModels')}
+                </button>
+              )}
+            </div>
+            <input
+              className={inputClass}
+              list="llm-models"
+              value={draft.model}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              disabled={draft.provider === 'fixture'}
+            />
+            <datalist id="llm-models">
+              {models.map(model => <option key={model} value={model} />)}
+            </datalist>
+            {modelNotice && <p className="text-xs text-slate-500 mt-1">{localize(modelNotice)}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('llm.language')}</label>
+            <select
+              className={`${inputClass} bg-white`}
+              value={draft.language || DEFAULT_AI_LANGUAGE}
+              onChange={(e) => setDraft({ ...draft, language: e.target.value as AiLanguage })}
+            >
+              {AI_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+            <p className="text-xs text-slate-400 mt-1">{t('llm.languageHint')}</p>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, model: draft.model.trim() })}
+            disabled={!draft.model.trim() || (isOpenAi && !draft.baseUrl?.trim())}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
+          >
+            <Save size={16} /> {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LlmSettingsModal;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Mail, Lock, User as UserIcon, LogIn, UserPlus, KeyRound, AlertCircle, Loader2 } from 'lucide-react';
+import { AuthError, AuthProviderInfo, LocalRegistration, MIN_PASSWORD_LENGTH } from '../services/auth';
+import { useI18n } from './I18nProvider';
+
+interface LoginScreenProps {
+  providers: AuthProviderInfo[];
+  isFirstAccount: boolean; // Nobody can sign in yet; the next account becomes the administrator
+  notice?: string | null;
+  onLogin: (email: string, password: string) => Promise<void>;
+  onRegister: (registration: LocalRegistration) => Promise<void>;
+  onOidcLogin: () => Promise<void>;
+}
+
+const AVATAR_OPTIONS = ['🐻', '🐼', '🐨', '🐯', '🦁', '🐸', '🐙', '🦄', '👨‍💻', '👩‍💻', '👤', '🤖'];
+
+type Mode = 'LOGIN' | 'REGISTER';
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ providers, isFirstAccount, notice, onLogin, onRegister, onOidcLogin }) => {
+  const { t, localize } = useI18n();
+  const [mode, setMode] = useState<Mode>(isFirstAccount ? 'REGISTER' : 'LOGIN');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordConfirm, setPasswordConfirm] = useState('');
+  const [avatar, setAvatar] = useState('🐻');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const oidcProvider = providers.find(p => p.id === 'oidc');
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error('Sign-in failed:', e);
+      setError(e instanceof AuthError ? localize(e.text) : t('login.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'LOGIN') {
+      run(() => onLogin(email, password));
+      return;
+    }
+    if (password !== passwordConfirm) {
+      setError(t('login.passwordMismatch'));
+      return;
+    }
+    run(() => onRegister({ name, email, password, avatar }));
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+    setPassword('');
+    setPasswordConfirm('');
+  };
+
+  const inputClass = 'w-full border border-slate-300 rounded-lg pl-10 p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none text-slate-800';
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4 font-sans">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-sm overflow-hidden animate-fade-in-up">
+        <div className="bg-slate-900 p-6 text-white flex items-center gap-3 border-b border-slate-800">
+          <div className="w-10 h-10 bg-yellow-400 rounded-full flex items-center justify-center flex-shrink-0 text-2xl shadow-lg">
+            🧸
+          </div>
+          <div>
+            <h1 className="text-lg font-bold">AutoTest AI</h1>
+            <p className="text-slate-400 text-xs mt-0.5">
+              {mode === 'LOGIN' ? t('login.subtitle') : isFirstAccount ? t('login.firstAccount') : t('login.join')}
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {notice && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 flex gap-2">
+              <AlertCircle size={14} className="flex-shrink-0 mt-0.5" /> {notice}
+            </div>
+          )}
+
+          {mode === 'REGISTER' && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('login.name')}</label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <UserIcon size={16} className="text-slate-400" />
+                </div>
+                <input className={inputClass} placeholder={t('login.namePlaceholder')} value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('login.email')}</label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Mail size={16} className="text-slate-400" />
+              </div>
+              <input
+                type="email"
+                autoComplete="email"
+                className={inputClass}
+                placeholder="name@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoFocus={mode === 'LOGIN'}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('login.password')}</label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Lock size={16} className="text-slate-400" />
+              </div>
+              <input
+                type="password"
+                autoComplete={mode === 'LOGIN' ? 'current-password' : 'new-password'}
+                className={inputClass}
+                placeholder={mode === 'REGISTER' ? t('login.passwordPlaceholder', { min: MIN_PASSWORD_LENGTH }) : ''}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {mode === 'REGISTER' && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('login.passwordConfirm')}</label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock size={16} className="text-slate-400" />
+                  </div>
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    className={inputClass}
+                    value={passwordConfirm}
+                    onChange={(e) => setPasswordConfirm(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-2">{t('login.avatar')}</label>
+                <div className="grid grid-cols-6 gap-2">
+                  {AVATAR_OPTIONS.map(option => (
+                    <button
+                      type="button"
+                      key={option}
+                      onClick={() => setAvatar(option)}
+                      className={`w-10 h-10 flex items-center justify-center text-xl rounded-full transition-all ${
+                        avatar === option
+                          ? 'bg-blue-100 border-2 border-blue-500 shadow-sm scale-110'
+                          : 'bg-slate-50 border border-slate-200 hover:bg-slate-100'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <p className="text-xs text-red-600 flex items-center gap-1">
+              <AlertCircle size={12} /> {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting || !email || !password || (mode === 'REGISTER' && !name)}
+            className="w-full py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-md disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {isSubmitting
+              ? <Loader2 size={16} className="animate-spin" />
+              : mode === 'LOGIN' ? <LogIn size={16} /> : <UserPlus size={16} />}
+            {mode === 'LOGIN' ? t('login.signIn') : t('login.register')}
+          </button>
+
+          {oidcProvider && (
+            <>
+              <div className="flex items-center gap-3 text-[10px] text-slate-400 uppercase">
+                <div className="flex-1 border-t border-slate-200" /> {t('login.or')} <div className="flex-1 border-t border-slate-200" />
+              </div>
+              <button
+                type="button"
+                onClick={() => run(onOidcLogin)}
+                disabled={isSubmitting}
+                className="w-full py-2.5 border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                <KeyRound size={16} /> {t('login.withProvider', { provider: oidcProvider.label || 'SSO' })}
+              </button>
+            </>
+          )}
+
+          <p className="text-center text-xs text-slate-500">
+            {mode === 'LOGIN' ? (
+              <>{t('login.noAccount')} <button type="button" onClick={() => switchMode('REGISTER')} className="text-blue-600 font-medium hover:underline">{t('login.createAccount')}</button></>
+            ) : (
+              <>{t('login.haveAccount')} <button type="button" onClick={() => switchMode('LOGIN')} className="text-blue-600 font-medium hover:underline">{t('login.signIn')}</button></>
+            )}
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
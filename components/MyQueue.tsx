@@ -0,0 +1,102 @@
+import React from 'react';
+import { TestCase, TestPlan, TestRun, TestSuite, User, TestResult } from '../types';
+import { ListTodo, PlayCircle, Milestone, CheckCircle, XCircle, AlertOctagon } from 'lucide-react';
+import { getAssignedCaseIds } from '../services/assignments';
+import { useI18n } from './I18nProvider';
+
+interface MyQueueProps {
+  currentUser: User;
+  plans: TestPlan[];
+  suites: TestSuite[];
+  runs: TestRun[];
+  onStartCases: (run: TestRun, caseIds: string[]) => void;
+}
+
+const MyQueue: React.FC<MyQueueProps> = ({ currentUser, plans, suites, runs, onStartCases }) => {
+  const { t, formatDateTime } = useI18n();
+  // Every in-progress run that has at least one case belonging to the current user
+  const queue = runs
+    .filter(r => r.status === 'IN_PROGRESS')
+    .map(run => {
+      const suite = suites.find(s => s.id === run.suiteId);
+      const plan = plans.find(p => p.id === run.planId);
+      const caseIds = getAssignedCaseIds(run, currentUser.id, suite, plan);
+      const pendingIds = caseIds.filter(id => (run.results[id]?.status || 'IDLE') === 'IDLE');
+      return { run, suite, plan, caseIds, pendingIds };
+    })
+    .filter(item => item.suite && item.caseIds.length > 0)
+    .sort((a, b) => (a.plan?.targetDate || '9999').localeCompare(b.plan?.targetDate || '9999'));
+
+  const totalPending = queue.reduce((sum, item) => sum + item.pendingIds.length, 0);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-800 flex items-center gap-3">
+          <ListTodo className="text-blue-600" size={28} /> {t('nav.queue')}
+        </h1>
+        <p className="text-slate-500 text-sm mt-1">
+          {t('queue.subtitle', { name: currentUser.name, count: totalPending })}
+        </p>
+      </div>
+
+      {queue.length === 0 ? (
+        <div className="bg-white rounded-xl border border-slate-100 p-12 text-center text-slate-400 text-sm">
+          {t('queue.empty')}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {queue.map(({ run, suite, plan, caseIds, pendingIds }) => (
+            <div key={run.id} className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+              <div className="p-4 border-b border-slate-50 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-semibold text-slate-800 truncate">{suite!.name}</p>
+                  <p className="text-xs text-slate-500 mt-0.5 flex items-center gap-2">
+                    {plan ? (
+                      <span className="flex items-center gap-1">
+                        <Milestone size={12} /> {plan.name}{plan.milestone ? ` (${plan.milestone})` : ''}
+                        {plan.targetDate && ` · ${t('queue.targetDate', { date: plan.targetDate })}`}
+                      </span>
+                    ) : (
+                      <span>{t('queue.started', { time: formatDateTime(run.startTime) })}</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-xs text-slate-500">{t('queue.progress', { done: caseIds.length - pendingIds.length, total: caseIds.length })}</span>
+                  <button
+                    onClick={() => onStartCases(run, caseIds)}
+                    disabled={pendingIds.length === 0}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg disabled:opacity-50 transition-colors"
+                  >
+                    <PlayCircle size={14} /> {t('queue.runMyCases')}
+                  </button>
+                </div>
+              </div>
+              <ul className="divide-y divide-slate-50">
+                {caseIds.map(caseId => {
+                  const testCase = suite!.cases.find(c => c.id === caseId);
+                  const status = (run.results[caseId] as TestResult | undefined)?.status || 'IDLE';
+                  return (
+                    <li key={caseId} className="px-4 py-2 flex items-center gap-3 text-sm">
+                      {status === 'PASSED' && <CheckCircle size={16} className="text-green-500" />}
+                      {status === 'FAILED' && <XCircle size={16} className="text-red-500" />}
+                      {status === 'SKIPPED' && <AlertOctagon size={16} className="text-amber-500" />}
+                      {status === 'IDLE' && <div className="w-4 h-4 rounded-full border-2 border-slate-200" />}
+                      <span className={status === 'IDLE' ? 'text-slate-800' : 'text-slate-400'}>
+                        {testCase ? testCase.title : t('issues.deletedCase')}
+                      </span>
+                      {testCase && <span className="text-[10px] text-slate-400 ml-auto">{t(`priority.${testCase.priority as TestCase['priority']}`)}</span>}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyQueue;
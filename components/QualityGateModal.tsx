@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { QualityGates } from '../types';
+import { ShieldCheck, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface QualityGateModalProps {
+  suiteName: string;
+  gates: QualityGates;
+  onSave: (gates: QualityGates) => void;
+  onClose: () => void;
+}
+
+const QualityGateModal: React.FC<QualityGateModalProps> = ({ suiteName, gates, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [minPassRate, setMinPassRate] = useState(String(gates.minPassRate));
+  const [noHighPriorityFailures, setNoHighPriorityFailures] = useState(gates.noHighPriorityFailures);
+  const [limitSkipped, setLimitSkipped] = useState(gates.maxSkipped !== undefined);
+  const [maxSkipped, setMaxSkipped] = useState(String(gates.maxSkipped ?? 0));
+
+  const parsedPassRate = Number(minPassRate);
+  const parsedMaxSkipped = Number(maxSkipped);
+  const isValid = minPassRate.trim() !== '' && parsedPassRate >= 0 && parsedPassRate <= 100 &&
+    (!limitSkipped || (maxSkipped.trim() !== '' && Number.isInteger(parsedMaxSkipped) && parsedMaxSkipped >= 0));
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      minPassRate: parsedPassRate,
+      noHighPriorityFailures,
+      maxSkipped: limitSkipped ? parsedMaxSkipped : undefined
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 m-4 animate-fade-in-up">
+        <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ShieldCheck className="text-green-600" size={20} />
+              {t('suites.qualityGates')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{t('gate.subtitle', { suite: suiteName })}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('gate.minPassRate')}</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={minPassRate}
+              onChange={(e) => setMinPassRate(e.target.value)}
+              className="w-32 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              className="mt-1 accent-blue-600"
+              checked={noHighPriorityFailures}
+              onChange={(e) => setNoHighPriorityFailures(e.target.checked)}
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">{t('gate.noHighPriorityFailures')}</span>
+              <span className="block text-xs text-slate-500">{t('gate.noHighPriorityFailuresHint')}</span>
+            </span>
+          </label>
+
+          <div>
+            <label className="flex items-start gap-3 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                className="mt-1 accent-blue-600"
+                checked={limitSkipped}
+                onChange={(e) => setLimitSkipped(e.target.checked)}
+              />
+              <span>
+                <span className="block text-sm font-medium text-slate-700">{t('gate.limitSkipped')}</span>
+                <span className="block text-xs text-slate-500">{t('gate.limitSkippedHint')}</span>
+              </span>
+            </label>
+            {limitSkipped && (
+              <div className="flex items-center gap-2 mt-2 ml-7">
+                <input
+                  type="number"
+                  min={0}
+                  value={maxSkipped}
+                  onChange={(e) => setMaxSkipped(e.target.value)}
+                  className="w-24 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <span className="text-sm text-slate-500">{t('gate.orFewer')}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QualityGateModal;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Bot, Globe, Hand, Server } from 'lucide-react';
+import { ResultSource } from '../types';
+import { useI18n } from './I18nProvider';
+
+// Labelled by the resultSource.* messages
+const SOURCE_STYLES: Record<ResultSource, { className: string; icon: React.ElementType }> = {
+  MANUAL: { className: 'bg-slate-100 text-slate-600 border-slate-200', icon: Hand },
+  AI_SIMULATED: { className: 'bg-amber-50 text-amber-700 border-amber-200', icon: Bot },
+  EXECUTOR: { className: 'bg-indigo-50 text-indigo-700 border-indigo-200', icon: Globe },
+  CI_IMPORT: { className: 'bg-cyan-50 text-cyan-700 border-cyan-200', icon: Server },
+};
+
+const ResultSourceBadge: React.FC<{ source?: ResultSource; compact?: boolean }> = ({ source, compact }) => {
+  const { t } = useI18n();
+  if (!source) return null;
+  const style = SOURCE_STYLES[source as ResultSource];
+  const label = t(`resultSource.${source as ResultSource}`);
+  const Icon = style.icon;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded border ${style.className}`}
+      title={label}
+    >
+      <Icon size={10} />
+      {!compact && label}
+    </span>
+  );
+};
+
+export default ResultSourceBadge;
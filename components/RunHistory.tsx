@@ -0,0 +1,530 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { GateFailure, TestRun, TestResult, TestSuite, TestCase, User, CaseVersion } from '../types';
+import { History, Filter, CheckCircle, XCircle, AlertOctagon, AlertCircle, X, Bot, Calendar, User as UserIcon, ChevronRight, RotateCcw, Globe, Image, ListChecks, Paperclip, ShieldCheck, ShieldAlert, Upload, Download, Server } from 'lucide-react';
+import { getRunStats, formatPassRate } from '../services/runStats';
+import { getRunVerdict, describeQualityGates } from '../services/qualityGates';
+import { getCaseAtVersion, getCaseVersion } from '../services/caseVersions';
+import { canOnSuite } from '../services/permissions';
+import { toCtrfJson, toJUnitXml } from '../services/runReports';
+import { downloadFile, toFileName } from '../services/download';
+import { BlobStore } from '../services/storage';
+import ResultSourceBadge from './ResultSourceBadge';
+import { StoredFileLink, StoredScreenshot } from './StoredBlob';
+import JUnitImportModal from './JUnitImportModal';
+import { useI18n } from './I18nProvider';
+
+interface RunHistoryProps {
+  runs: TestRun[];
+  suites: TestSuite[];
+  users: User[];
+  caseVersions: CaseVersion[];
+  currentUser: User;
+  blobs: BlobStore; // Holds the screenshots and attachments results refer to
+  onImportRun: (run: TestRun) => void;
+  focusRunId?: string; // Opened on arrival, e.g. from a notification
+}
+
+type PassRateFilter = 'ALL' | 'FULL' | 'ABOVE_90' | 'BELOW_90' | 'BELOW_50';
+
+// Labelled by the history.passRate.* messages
+const PASS_RATE_FILTERS: { id: PassRateFilter; match: (rate: number) => boolean }[] = [
+  { id: 'ALL', match: () => true },
+  { id: 'FULL', match: rate => rate === 100 },
+  { id: 'ABOVE_90', match: rate => rate >= 90 },
+  { id: 'BELOW_90', match: rate => rate < 90 },
+  { id: 'BELOW_50', match: rate => rate < 50 },
+];
+
+const RunHistory: React.FC<RunHistoryProps> = ({ runs, suites, users, caseVersions, currentUser, blobs, onImportRun, focusRunId }) => {
+  const { t, formatDateTime } = useI18n();
+  const [suiteFilter, setSuiteFilter] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [passRateFilter, setPassRateFilter] = useState<PassRateFilter>('ALL');
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+
+  useEffect(() => {
+    if (focusRunId) setSelectedRunId(focusRunId);
+  }, [focusRunId]);
+
+  // Suites that appear in history, including ones that have since been deleted
+  const suiteOptions = useMemo(() => {
+    const map = new Map<string, string>();
+    runs.forEach(run => map.set(run.suiteId, run.suiteName));
+    suites.forEach(s => map.set(s.id, s.name));
+    return Array.from(map.entries()).filter(([id]) => runs.some(r => r.suiteId === id));
+  }, [runs, suites]);
+
+  const filteredRuns = useMemo(() => {
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : null;
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : null;
+    const passRateMatch = PASS_RATE_FILTERS.find(f => f.id === passRateFilter)!.match;
+
+    return runs
+      .filter(run => {
+        if (suiteFilter && run.suiteId !== suiteFilter) return false;
+        if (userFilter && run.executedBy !== userFilter) return false;
+        const started = new Date(run.startTime).getTime();
+        if (from !== null && started < from) return false;
+        if (to !== null && started > to) return false;
+        return passRateMatch(getRunStats(run).passRate);
+      })
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  }, [runs, suiteFilter, userFilter, dateFrom, dateTo, passRateFilter]);
+
+  const resetFilters = () => {
+    setSuiteFilter('');
+    setUserFilter('');
+    setDateFrom('');
+    setDateTo('');
+    setPassRateFilter('ALL');
+  };
+
+  const hasFilters = !!(suiteFilter || userFilter || dateFrom || dateTo || passRateFilter !== 'ALL');
+  const selectedRun = runs.find(r => r.id === selectedRunId) || null;
+
+  const getUser = (userId?: string) => users.find(u => u.id === userId);
+  const runnableSuites = suites.filter(s => canOnSuite(currentUser, s, 'suite.run'));
+
+  const importRun = (run: TestRun) => {
+    onImportRun(run);
+    setShowImportModal(false);
+    setSelectedRunId(run.id);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-12">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-800">{t('nav.history')}</h1>
+          <p className="text-slate-500 text-sm mt-1">{t('runs.subtitle')}</p>
+        </div>
+        {runnableSuites.length > 0 && (
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors text-sm font-medium shadow-sm"
+          >
+            <Upload size={16} /> {t('junit.title')}
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+            <Filter size={14} /> {t('runs.filters')}
+          </h2>
+          {hasFilters && (
+            <button onClick={resetFilters} className="text-xs text-slate-400 hover:text-slate-600 flex items-center gap-1">
+              <RotateCcw size={12} /> {t('runs.resetFilters')}
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('junit.suite')}</label>
+            <select
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+              value={suiteFilter}
+              onChange={(e) => setSuiteFilter(e.target.value)}
+            >
+              <option value="">{t('runs.allSuites')}</option>
+              {suiteOptions.map(([id, name]) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('runs.executor')}</label>
+            <select
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+              value={userFilter}
+              onChange={(e) => setUserFilter(e.target.value)}
+            >
+              <option value="">{t('runs.allUsers')}</option>
+              {users.map(u => (
+                <option key={u.id} value={u.id}>{u.avatar} {u.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('runs.dateFrom')}</label>
+            <input
+              type="date"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('runs.dateTo')}</label>
+            <input
+              type="date"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('dashboard.passRate')}</label>
+            <select
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+              value={passRateFilter}
+              onChange={(e) => setPassRateFilter(e.target.value as PassRateFilter)}
+            >
+              {PASS_RATE_FILTERS.map(f => (
+                <option key={f.id} value={f.id}>{t(`runs.passRate.${f.id}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Run List */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b border-slate-50 flex justify-between items-center">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <History size={18} className="text-blue-500" /> {t('runs.list')}
+          </h2>
+          <span className="text-xs text-slate-400">{t('runs.count', { shown: filteredRuns.length, total: runs.length })}</span>
+        </div>
+        <div className="divide-y divide-slate-50">
+          {filteredRuns.length === 0 ? (
+            <p className="p-8 text-center text-slate-400 text-sm">
+              {runs.length === 0 ? t('dashboard.noRuns') : t('runs.noMatches')}
+            </p>
+          ) : (
+            filteredRuns.map(run => {
+              const stats = getRunStats(run);
+              const isRunPassed = getRunVerdict(run, suites).passed;
+              const executor = getUser(run.executedBy);
+
+              return (
+                <div
+                  key={run.id}
+                  onClick={() => setSelectedRunId(run.id)}
+                  className="p-4 flex items-center justify-between hover:bg-slate-50 transition-colors cursor-pointer"
+                >
+                  <div className="flex items-center gap-4">
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${isRunPassed ? 'bg-green-50 text-green-600' : 'bg-red-50 text-red-600'}`}>
+                      {isRunPassed ? <CheckCircle size={20} /> : <AlertCircle size={20} />}
+                    </div>
+                    <div>
+                      <p className="font-medium text-slate-800 text-sm">{run.suiteName}</p>
+                      <p className="text-xs text-slate-500 flex items-center gap-2">
+                        <span className="flex items-center gap-1"><Calendar size={10} /> {formatDateTime(run.startTime)}</span>
+                        <span className="flex items-center gap-1">
+                          <UserIcon size={10} /> {executor ? `${executor.avatar} ${executor.name}` : t('history.unknownAuthor')}
+                        </span>
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    <div className="text-right hidden sm:block">
+                      <p className="text-xs text-slate-400 uppercase font-bold tracking-wider">{t('status.PASSED')}</p>
+                      <p className="text-sm font-mono text-green-600">{stats.passed}</p>
+                    </div>
+                    <div className="text-right hidden sm:block">
+                      <p className="text-xs text-slate-400 uppercase font-bold tracking-wider">{t('status.FAILED')}</p>
+                      <p className="text-sm font-mono text-red-600">{stats.failed}</p>
+                    </div>
+                    <div className="text-right hidden sm:block">
+                      <p className="text-xs text-slate-400 uppercase font-bold tracking-wider">{t('status.SKIPPED')}</p>
+                      <p className="text-sm font-mono text-amber-600">{stats.skipped}</p>
+                    </div>
+                    <span className={`text-xs font-bold w-16 text-right ${isRunPassed ? 'text-green-600' : 'text-red-500'}`}>
+                      {formatPassRate(stats.passRate)}%
+                    </span>
+                    <ChevronRight size={16} className="text-slate-300" />
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {selectedRun && (
+        <RunDetailModal
+          run={selectedRun}
+          suite={suites.find(s => s.id === selectedRun.suiteId)}
+          caseVersions={caseVersions}
+          executor={getUser(selectedRun.executedBy)}
+          blobs={blobs}
+          onClose={() => setSelectedRunId(null)}
+        />
+      )}
+
+      {showImportModal && (
+        <JUnitImportModal
+          suites={runnableSuites}
+          currentUserId={currentUser.id}
+          onImport={importRun}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface RunDetailModalProps {
+  run: TestRun;
+  suite?: TestSuite;
+  caseVersions: CaseVersion[];
+  executor?: User;
+  blobs: BlobStore;
+  onClose: () => void;
+}
+
+const RunDetailModal: React.FC<RunDetailModalProps> = ({ run, suite, caseVersions, executor, blobs, onClose }) => {
+  const i18n = useI18n();
+  const { t, localize, formatDateTime } = i18n;
+  const stats = getRunStats(run);
+  const verdict = getRunVerdict(run, suite ? [suite] : []);
+  const caseMap = new Map<string, TestCase>((suite?.cases || []).map(c => [c.id, c]));
+  // Results show the case as it was when they were recorded, even if it changed or was deleted since
+
+  // Keep the suite's case order, then append results for cases that no longer exist
+  const orderedResults = [
+    ...(suite?.cases || []).map(c => run.results[c.id]).filter(Boolean),
+    ...(Object.values(run.results) as TestResult[]).filter(r => !caseMap.has(r.caseId))
+  ] as TestResult[];
+
+  const duration = run.endTime
+    ? Math.round((new Date(run.endTime).getTime() - new Date(run.startTime).getTime()) / 1000)
+    : null;
+
+  const exportReport = (format: 'JUNIT' | 'CTRF') => {
+    const baseName = `${toFileName(run.suiteName)}_${run.startTime.slice(0, 10)}`;
+    if (format === 'JUNIT') downloadFile(`${baseName}_junit.xml`, toJUnitXml(run, suite, caseVersions, i18n), 'application/xml');
+    else downloadFile(`${baseName}_ctrf.json`, toCtrfJson(run, suite, caseVersions, i18n), 'application/json');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col animate-fade-in-up overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{run.suiteName}</h3>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500 mt-2">
+              <span className="flex items-center gap-1"><Calendar size={12} /> {formatDateTime(run.startTime)}</span>
+              {duration !== null && <span>{t('runs.duration', { minutes: Math.floor(duration / 60), seconds: duration % 60 })}</span>}
+              <span className="flex items-center gap-1">
+                <UserIcon size={12} /> {executor ? `${executor.avatar} ${executor.name}` : t('history.unknownAuthor')}
+              </span>
+              {run.importedFrom && (
+                <span className="flex items-center gap-1 text-cyan-700"><Server size={12} /> {t('runs.importedFrom', { file: run.importedFrom })}</span>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => exportReport('JUNIT')}
+              className="text-xs flex items-center gap-1 bg-white border border-slate-200 text-slate-600 px-2 py-1.5 rounded-md hover:bg-slate-100 transition-colors"
+            >
+              <Download size={12} /> JUnit XML
+            </button>
+            <button
+              onClick={() => exportReport('CTRF')}
+              className="text-xs flex items-center gap-1 bg-white border border-slate-200 text-slate-600 px-2 py-1.5 rounded-md hover:bg-slate-100 transition-colors"
+            >
+              <Download size={12} /> CTRF JSON
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3 p-6 pb-0">
+          <div className="bg-slate-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-slate-400 uppercase font-bold">{t('dashboard.passRate')}</p>
+            <p className="text-lg font-bold text-slate-800">{formatPassRate(stats.passRate)}%</p>
+          </div>
+          <div className="bg-green-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-green-600 uppercase font-bold">{t('status.PASSED')}</p>
+            <p className="text-lg font-bold text-green-700">{stats.passed}</p>
+          </div>
+          <div className="bg-red-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-red-600 uppercase font-bold">{t('status.FAILED')}</p>
+            <p className="text-lg font-bold text-red-700">{stats.failed}</p>
+          </div>
+          <div className="bg-amber-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-amber-600 uppercase font-bold">{t('status.SKIPPED')}</p>
+            <p className="text-lg font-bold text-amber-700">{stats.skipped}</p>
+          </div>
+        </div>
+
+        <div className={`mx-6 mt-3 p-3 rounded-lg border text-sm ${verdict.passed ? 'bg-green-50 border-green-100 text-green-700' : 'bg-red-50 border-red-100 text-red-700'}`}>
+          <p className="font-medium flex items-center gap-2">
+            {verdict.passed ? <ShieldCheck size={16} /> : <ShieldAlert size={16} />}
+            {verdict.passed ? t('runs.gatePassed') : t('runs.gateFailed')}
+            <span className="text-xs font-normal opacity-75">({describeQualityGates(verdict.gates).map(localize).join(', ')})</span>
+          </p>
+          {verdict.failures.length > 0 && (
+            <ul className="mt-1 ml-6 list-disc text-xs space-y-0.5">
+              {verdict.failures.map((f: GateFailure) => <li key={f.gate}>{localize(f.message)}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {orderedResults.map(result => {
+            const current = caseMap.get(result.caseId);
+            return (
+              <ResultRow
+                key={result.caseId}
+                result={result}
+                testCase={getCaseAtVersion(caseVersions, result.caseId, result.caseVersion, current)}
+                currentVersion={current && getCaseVersion(current)}
+                blobs={blobs}
+              />
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ResultRowProps {
+  result: TestResult;
+  testCase?: TestCase;
+  currentVersion?: number; // Unset when the case has been deleted
+  blobs: BlobStore;
+}
+
+const ResultRow: React.FC<ResultRowProps> = ({ result, testCase, currentVersion, blobs }) => {
+  const { t, localize, formatDateTime } = useI18n();
+  const [showLog, setShowLog] = useState(false);
+  const [showScreenshots, setShowScreenshots] = useState(false);
+  const [showSteps, setShowSteps] = useState(result.status === 'FAILED');
+  const log = result.executionLog || result.aiLog;
+  const stepResults = result.stepResults || [];
+  const failedStep = testCase && result.failedStepIndex !== undefined ? testCase.steps[result.failedStepIndex] : undefined;
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden">
+      <div className="p-3 flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <div className="mt-0.5"><StatusIcon status={result.status} /></div>
+          <div>
+            <p className="font-medium text-sm text-slate-800">
+              {testCase ? testCase.title : <span className="italic text-slate-400">{t('issues.deletedCase')}</span>}
+            </p>
+            <div className="flex items-center gap-2 mt-1 text-xs text-slate-400">
+              <ResultSourceBadge source={result.source} />
+              {testCase && <span>{t('runner.priority', { priority: t(`priority.${testCase.priority as TestCase['priority']}`) })}</span>}
+              {result.caseVersion !== undefined && (
+                <span
+                  className={result.caseVersion !== currentVersion ? 'text-amber-600' : undefined}
+                  title={result.caseVersion !== currentVersion ? (currentVersion ? t('runs.newerVersion', { version: currentVersion }) : t('runs.caseDeleted')) : undefined}
+                >
+                  v{result.caseVersion}{currentVersion && result.caseVersion !== currentVersion ? ` (${t('history.currentVersion', { version: currentVersion })})` : ''}
+                </span>
+              )}
+              <span>{formatDateTime(result.timestamp)}</span>
+            </div>
+            {failedStep && (
+              <p className="text-xs text-red-600 mt-2">{t('report.stepFailed', { step: result.failedStepIndex! + 1, action: failedStep.action })}</p>
+            )}
+            {result.summary && <p className="text-sm text-slate-600 mt-2 whitespace-pre-wrap">{localize(result.summary)}</p>}
+            {result.notes && <p className="text-sm text-slate-600 mt-2 whitespace-pre-wrap">{result.notes}</p>}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {stepResults.length > 0 && (
+            <button
+              onClick={() => setShowSteps(!showSteps)}
+              className="text-xs flex items-center gap-1 text-slate-600 bg-slate-100 hover:bg-slate-200 px-2 py-1 rounded"
+            >
+              <ListChecks size={12} /> {t('runner.steps')}
+            </button>
+          )}
+          {result.screenshots && result.screenshots.length > 0 && (
+            <button
+              onClick={() => setShowScreenshots(!showScreenshots)}
+              className="text-xs flex items-center gap-1 text-slate-600 bg-slate-100 hover:bg-slate-200 px-2 py-1 rounded"
+            >
+              <Image size={12} /> {result.screenshots.length}
+            </button>
+          )}
+          {log && (
+            <button
+              onClick={() => setShowLog(!showLog)}
+              className="text-xs flex items-center gap-1 text-indigo-600 bg-indigo-50 hover:bg-indigo-100 px-2 py-1 rounded"
+            >
+              {result.executionLog ? <><Globe size={12} /> {t('runs.executionLog')}</> : <><Bot size={12} /> {t('runs.aiLog')}</>}
+            </button>
+          )}
+          <span className={`text-xs px-2 py-1 rounded font-bold uppercase ${
+            result.status === 'PASSED' ? 'text-green-600 bg-green-50' :
+            result.status === 'FAILED' ? 'text-red-600 bg-red-50' :
+            result.status === 'SKIPPED' ? 'text-amber-600 bg-amber-50' :
+            'text-slate-400 bg-slate-50'
+          }`}>
+            {result.status}
+          </span>
+        </div>
+      </div>
+      {showSteps && stepResults.length > 0 && (
+        <div className="border-t border-slate-200 bg-slate-50 divide-y divide-slate-100">
+          {(testCase ? testCase.steps.map(step => ({ step, stepResult: stepResults.find(r => r.stepId === step.id) })) : stepResults.map(stepResult => ({ step: undefined, stepResult })))
+            .map(({ step, stepResult }, idx) => (
+              <div key={step?.id || stepResult?.stepId || idx} className="px-3 py-2 flex items-start gap-3 text-sm">
+                <span className="text-xs font-mono text-slate-400 mt-0.5 w-5 text-right">{idx + 1}</span>
+                <StatusIcon status={stepResult?.status || 'IDLE'} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-700">{step ? step.action : <span className="italic text-slate-400">{t('runs.deletedStep')}</span>}</p>
+                  {stepResult?.actualResult && <p className="text-xs text-slate-500 mt-0.5 whitespace-pre-wrap">{t('runs.actualResult', { result: stepResult.actualResult })}</p>}
+                  {stepResult?.attachments && stepResult.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {stepResult.attachments.map((attachment, attachmentIdx) => (
+                        <StoredFileLink key={attachmentIdx} blobs={blobs} blobRef={attachment.blob} fileName={attachment.name} className="text-xs flex items-center gap-1 text-blue-600 hover:underline">
+                          <Paperclip size={10} /> {attachment.name}
+                        </StoredFileLink>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
+      {showLog && log && (
+        <div className="bg-slate-900 p-4 font-mono text-xs text-slate-300 whitespace-pre-wrap leading-relaxed">
+          {log}
+        </div>
+      )}
+      {showScreenshots && result.screenshots && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-3 bg-slate-50 border-t border-slate-200">
+          {result.screenshots.map((blobRef, idx) => (
+            <StoredScreenshot
+              key={idx}
+              blobs={blobs}
+              blobRef={blobRef}
+              alt={t('runner.screenshotAlt', { number: idx + 1 })}
+              className="block border border-slate-200 rounded overflow-hidden bg-white"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StatusIcon = ({ status }: { status: string }) => {
+  switch (status) {
+    case 'PASSED': return <CheckCircle size={18} className="text-green-500" />;
+    case 'FAILED': return <XCircle size={18} className="text-red-500" />;
+    case 'SKIPPED': return <AlertOctagon size={18} className="text-amber-500" />;
+    default: return <div className="w-[18px] h-[18px] rounded-full border-2 border-slate-200" />;
+  }
+};
+
+export default RunHistory;
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { BlobStore, isInlineBlob } from '../services/storage';
+
+// Resolves a blob reference (services/storage/blobStore.ts) to the data: URL it stands for. Undefined
+// while loading and when the blob is gone.
+export const useBlobUrl = (blobs: BlobStore, blobRef: string): string | undefined => {
+  const [url, setUrl] = useState<string | undefined>(isInlineBlob(blobRef) ? blobRef : undefined);
+
+  useEffect(() => {
+    if (isInlineBlob(blobRef)) {
+      setUrl(blobRef);
+      return;
+    }
+    let cancelled = false;
+    setUrl(undefined);
+    blobs.get(blobRef)
+      .then(value => { if (!cancelled) setUrl(value ?? undefined); })
+      .catch(error => console.error('Failed to load stored file:', error));
+    return () => { cancelled = true; };
+  }, [blobs, blobRef]);
+
+  return url;
+};
+
+interface StoredScreenshotProps {
+  blobs: BlobStore;
+  blobRef: string;
+  alt: string;
+  className: string;
+}
+
+// A screenshot that opens full size in a new tab
+export const StoredScreenshot: React.FC<StoredScreenshotProps> = ({ blobs, blobRef, alt, className }) => {
+  const url = useBlobUrl(blobs, blobRef);
+  if (!url) {
+    return <div className={`${className} p-6 text-center text-xs text-slate-400`}>{alt}</div>;
+  }
+  return (
+    <a href={url} target="_blank" rel="noreferrer" className={className}>
+      <img src={url} alt={alt} className="w-full" />
+    </a>
+  );
+};
+
+interface StoredFileLinkProps {
+  blobs: BlobStore;
+  blobRef: string;
+  fileName: string;
+  className: string;
+  children: React.ReactNode;
+}
+
+// Downloads a stored file under its original name; plain text until the file has loaded
+export const StoredFileLink: React.FC<StoredFileLinkProps> = ({ blobs, blobRef, fileName, className, children }) => {
+  const url = useBlobUrl(blobs, blobRef);
+  if (!url) return <span className={className}>{children}</span>;
+  return <a href={url} download={fileName} className={className}>{children}</a>;
+};
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { TestSuite } from '../types';
+import { Download, X } from 'lucide-react';
+import { SUITE_EXPORT_FORMATS, SuiteExportFormat, exportSuites } from '../services/suiteExport';
+import { INTEROP_FORMATS, InteropFormat, exportInterop, isInteropFormat } from '../services/interop';
+import { downloadFile, toFileName } from '../services/download';
+import UnmappedFieldList from './UnmappedFieldList';
+import { useI18n } from './I18nProvider';
+
+interface SuiteExportModalProps {
+  suites: TestSuite[]; // Suites the user can see
+  initialSelection: string[];
+  onClose: () => void;
+}
+
+const SuiteExportModal: React.FC<SuiteExportModalProps> = ({ suites, initialSelection, onClose }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialSelection);
+  const [format, setFormat] = useState<SuiteExportFormat | InteropFormat>('XLSX');
+
+  const selectedSuites = useMemo(() => suites.filter(s => selectedIds.includes(s.id)), [suites, selectedIds]);
+  const allSelected = selectedSuites.length === suites.length;
+  const baseName = selectedSuites.length === 1
+    ? toFileName(selectedSuites[0].name)
+    : `test-suites_${new Date().toISOString().slice(0, 10)}`;
+
+  // Other tools' formats can't hold everything, so their conversion is shown before downloading
+  const interopExport = useMemo(
+    () => isInteropFormat(format) && selectedSuites.length > 0 ? exportInterop(format, selectedSuites, baseName) : null,
+    [format, selectedSuites, baseName]
+  );
+
+  const toggleSuite = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleExport = () => {
+    if (selectedSuites.length === 0) return;
+    const file = interopExport ? interopExport.file : exportSuites(selectedSuites, format as SuiteExportFormat, baseName, i18n);
+    downloadFile(file.fileName, file.content, file.type);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 m-4 flex flex-col max-h-[90vh] animate-fade-in-up">
+        <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Download className="text-blue-600" size={20} />
+              {t('suites.exportSuite')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{t('suiteExport.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-5 pr-1">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-slate-700">{t('suiteExport.suites', { selected: selectedSuites.length, total: suites.length })}</label>
+              <button
+                onClick={() => setSelectedIds(allSelected ? [] : suites.map(s => s.id))}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {allSelected ? t('suiteExport.deselectAll') : t('suiteExport.selectAll')}
+              </button>
+            </div>
+            <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-56 overflow-y-auto">
+              {suites.map(suite => (
+                <label key={suite.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-slate-50 select-none">
+                  <input
+                    type="checkbox"
+                    className="accent-blue-600"
+                    checked={selectedIds.includes(suite.id)}
+                    onChange={() => toggleSuite(suite.id)}
+                  />
+                  <span className="flex-1 text-sm text-slate-700 truncate">{suite.name}</span>
+                  <span className="text-xs text-slate-400">{t('interop.caseCount', { count: suite.cases.length })}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{t('interop.format')}</label>
+            <div className="space-y-2">
+              {SUITE_EXPORT_FORMATS.map(option => (
+                <label
+                  key={option.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer select-none transition-colors ${format === option.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <input
+                    type="radio"
+                    name="suite-export-format"
+                    className="mt-1 accent-blue-600"
+                    checked={format === option.id}
+                    onChange={() => setFormat(option.id)}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-700">{option.label} <span className="text-xs text-slate-400">.{option.extension}</span></span>
+                    <span className="block text-xs text-slate-500">{t(`suiteExport.format.${option.id}`)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{t('suiteExport.otherTools')}</label>
+            <select
+              value={isInteropFormat(format) ? format : ''}
+              onChange={(e) => e.target.value && setFormat(e.target.value as InteropFormat)}
+              className={`w-full p-2 border rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 outline-none ${isInteropFormat(format) ? 'border-blue-500' : 'border-slate-200'}`}
+            >
+              <option value="">{t('interop.selectFormat')}</option>
+              {INTEROP_FORMATS.map(option => (
+                <option key={option.id} value={option.id}>{option.label} (.{option.extension})</option>
+              ))}
+            </select>
+            {interopExport && (
+              <div className="mt-3 space-y-2">
+                <p className="text-xs text-slate-500">{t(`interop.format.${format as InteropFormat}`)}</p>
+                <UnmappedFieldList fields={interopExport.unmapped} emptyMessage={t('suiteExport.allExportable')} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={selectedSuites.length === 0}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
+          >
+            <Download size={16} /> {t('suites.export')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SuiteExportModal;
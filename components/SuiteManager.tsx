@@ -1,9 +1,23 @@
-import React, { useState, useRef } from 'react';
-import { TestSuite, TestCase, User, Role } from '../types';
-import { Plus, Trash2, Wand2, ChevronRight, FileText, Play, ChevronDown, ChevronUp, FileSpreadsheet, Upload, Link as LinkIcon, Layers, Monitor, Globe, Mail, HardDrive, Settings, X, Bot, Hand, Users, Shield, Lock, Eye, FolderOpen, File as FileIcon, XCircle } from 'lucide-react';
-import { generateTestCases } from '../services/geminiService';
-// @ts-ignore
-import readXlsxFile from 'read-excel-file';
+import React, { useState, useRef, useEffect } from 'react';
+import { TestSuite, TestCase, TestStep, User, Role, QualityGates, NotificationInput, CaseVersion, AiLanguage } from '../types';
+import { Plus, Trash2, Wand2, ChevronRight, FileText, Play, ChevronDown, ChevronUp, FileSpreadsheet, Link as LinkIcon, Monitor, Globe, Mail, HardDrive, Settings, X, Bot, Hand, Users, Lock, Eye, FolderOpen, File as FileIcon, XCircle, Pencil, Copy, GripVertical, Save, ShieldCheck, History, Download, Upload, Languages } from 'lucide-react';
+import { generateTestCases, getAiErrorMessage } from '../services/geminiService';
+import { LlmSettings } from '../services/llm';
+import { AI_LANGUAGES, resolveAiLanguage } from '../services/aiPrompts';
+import { getQualityGates, describeQualityGates } from '../services/qualityGates';
+import { buildPermissionGrantedNotification } from '../services/notifications';
+import { canOnSuite, getSuiteRole } from '../services/permissions';
+import { getCaseVersion } from '../services/caseVersions';
+import { InteropSuite } from '../services/interop';
+import QualityGateModal from './QualityGateModal';
+import AccessControlModal from './AccessControlModal';
+import CaseHistoryModal from './CaseHistoryModal';
+import ExcelImportModal from './ExcelImportModal';
+import SuiteExportModal from './SuiteExportModal';
+import InteropImportModal from './InteropImportModal';
+import TranslateSuiteModal from './TranslateSuiteModal';
+import GeneratedCasesReviewModal from './GeneratedCasesReviewModal';
+import { useI18n } from './I18nProvider';
 
 interface SuiteManagerProps {
   suites: TestSuite[];
@@ -11,23 +25,47 @@ interface SuiteManagerProps {
   onRunSuite: (suite: TestSuite) => void;
   currentUser: User;
   allUsers: User[];
+  caseVersions: CaseVersion[];
+  llm: LlmSettings; // Model for AI case generation
+  onNotify?: (notification: NotificationInput) => void;
+  focusSuiteId?: string; // Opened on arrival, e.g. from a notification
 }
 
 type AppContextType = 'WEB' | 'DESKTOP';
 type ExecutionMode = 'MANUAL' | 'AUTOMATED';
+type AutomationEngine = 'BROWSER' | 'AI_SIMULATION';
 
-const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSuite, currentUser, allUsers }) => {
+// Moves the item with fromId to the position currently held by toId
+const moveItem = <T extends { id: string }>(items: T[], fromId: string, toId: string): T[] => {
+  const fromIndex = items.findIndex(i => i.id === fromId);
+  const toIndex = items.findIndex(i => i.id === toId);
+  if (fromIndex === -1 || toIndex === -1) return items;
+  const next = [...items];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+};
+
+const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSuite, currentUser, allUsers, caseVersions, llm, onNotify, focusSuiteId }) => {
+  const { t, localize } = useI18n();
   const [activeSuiteId, setActiveSuiteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (focusSuiteId) setActiveSuiteId(focusSuiteId);
+  }, [focusSuiteId]);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [isLoadingFile, setIsLoadingFile] = useState(false);
   
   // Generation Inputs
   const [prompt, setPrompt] = useState('');
   const [showPromptModal, setShowPromptModal] = useState(false);
-  const [importMode, setImportMode] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showInteropModal, setShowInteropModal] = useState(false);
+  const [showTranslateModal, setShowTranslateModal] = useState(false);
+  const [exportSelection, setExportSelection] = useState<string[] | null>(null); // Preselected suite ids while the export modal is open
   const [appType, setAppType] = useState<AppContextType>('WEB');
   const [appContextValue, setAppContextValue] = useState('');
   const [testEmail, setTestEmail] = useState('');
+  const [generatedCases, setGeneratedCases] = useState<TestCase[] | null>(null); // Awaiting review before they join the suite
   
   // Run Configuration Inputs
   const [showRunModal, setShowRunModal] = useState(false);
@@ -35,50 +73,48 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
   const [runAddress, setRunAddress] = useState('');
   const [runEmail, setRunEmail] = useState('');
   const [runMode, setRunMode] = useState<ExecutionMode>('MANUAL');
+  const [runEngine, setRunEngine] = useState<AutomationEngine>('BROWSER');
   const [runAssets, setRunAssets] = useState<string[]>([]); // New: Virtual Assets
 
   // Permission Management Inputs
   const [showPermModal, setShowPermModal] = useState(false);
-  const [permUserToAdd, setPermUserToAdd] = useState('');
-  const [permRoleToAdd, setPermRoleToAdd] = useState<Role>('MEMBER');
 
-  // Excel Sheet Management
-  const [availableSheets, setAvailableSheets] = useState<{name: string}[]>([]);
-  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  // Quality Gates
+  const [showGateModal, setShowGateModal] = useState(false);
+
+  // Case Editing
+  const [draggedCaseId, setDraggedCaseId] = useState<string | null>(null);
+  const [newCase, setNewCase] = useState<TestCase | null>(null); // Only joins the suite once it is saved
+  const [historyCaseId, setHistoryCaseId] = useState<string | null>(null);
+
+  // An unsaved new case belongs to the suite it was started in
+  useEffect(() => {
+    setNewCase(null);
+  }, [activeSuiteId]);
+
   
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const assetInputRef = useRef<HTMLInputElement>(null); // New ref for asset upload
   const genOpRef = useRef(0);
   
   const activeSuite = suites.find(s => s.id === activeSuiteId);
+  const historyCase = activeSuite?.cases.find(c => c.id === historyCaseId);
+  const aiLanguage = resolveAiLanguage(activeSuite, llm.language);
+  const aiLanguageLabel = AI_LANGUAGES.find(l => l.id === aiLanguage)!.label;
 
   // --- PERMISSION LOGIC ---
-  const isGlobalAdmin = currentUser.email === 'administrator@autotest.ai';
-
-  const getUserRole = (suite: TestSuite): Role | 'NONE' => {
-    if (isGlobalAdmin) return 'ADMIN';
-    if (!suite.permissions) return 'NONE'; 
-    return suite.permissions[currentUser.id] || 'NONE';
-  };
-
-  const activeRole = activeSuite ? getUserRole(activeSuite) : 'NONE';
-  
-  const canWrite = activeRole === 'ADMIN' || activeRole === 'MEMBER';
-  const canRun = activeRole === 'ADMIN' || activeRole === 'MEMBER';
-  const canDelete = activeRole === 'ADMIN';
-  const canManageAccess = activeRole === 'ADMIN';
+  const canWrite = !!activeSuite && canOnSuite(currentUser, activeSuite, 'suite.editCases');
+  const canRun = !!activeSuite && canOnSuite(currentUser, activeSuite, 'suite.run');
+  const canDelete = !!activeSuite && canOnSuite(currentUser, activeSuite, 'suite.delete');
+  const canManageAccess = !!activeSuite && canOnSuite(currentUser, activeSuite, 'suite.manageAccess');
 
   // Filter visible suites in sidebar
-  const visibleSuites = suites.filter(s => {
-    const role = getUserRole(s);
-    return role !== 'NONE';
-  });
+  const visibleSuites = suites.filter(s => canOnSuite(currentUser, s, 'suite.view'));
 
   const createSuite = () => {
     const newSuite: TestSuite = {
       id: crypto.randomUUID(),
-      name: '새 테스트 스위트',
-      description: '테스트 스위트 설명',
+      name: t('suites.newSuiteName'),
+      description: t('suites.newSuiteDescription'),
       createdAt: new Date().toISOString(),
       cases: [],
       permissions: {
@@ -89,59 +125,121 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
     setActiveSuiteId(newSuite.id);
   };
 
+  // Suites converted from another tool's file; the importer owns them like any suite they create
+  const importSuites = (imported: InteropSuite[]) => {
+    const createdAt = new Date().toISOString();
+    const newSuites: TestSuite[] = imported.map(suite => ({
+      id: crypto.randomUUID(),
+      name: suite.name,
+      description: suite.description,
+      createdAt,
+      cases: suite.cases,
+      permissions: {
+        [currentUser.id]: 'ADMIN'
+      }
+    }));
+    setSuites([...suites, ...newSuites]);
+    if (newSuites.length > 0) setActiveSuiteId(newSuites[0].id);
+    setShowInteropModal(false);
+  };
+
   const deleteSuite = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (confirm('이 스위트를 삭제하시겠습니까?')) {
+    if (confirm(t('suites.confirmDeleteSuite'))) {
       setSuites(suites.filter(s => s.id !== id));
       if (activeSuiteId === id) setActiveSuiteId(null);
     }
   };
 
   // --- ACCESS MANAGEMENT ---
-  const handleAddPermission = () => {
-    if (!activeSuite || !permUserToAdd) return;
-    
-    const updatedSuite = {
-      ...activeSuite,
-      permissions: {
-        ...activeSuite.permissions,
-        [permUserToAdd]: permRoleToAdd
-      }
-    };
-    setSuites(suites.map(s => s.id === activeSuite.id ? updatedSuite : s));
-    setPermUserToAdd('');
+  const updateSuiteAccess = (updatedSuite: TestSuite) => {
+    setSuites(suites.map(s => s.id === updatedSuite.id ? updatedSuite : s));
+    // Removing your own access closes the suite you can no longer see
+    if (!canOnSuite(currentUser, updatedSuite, 'suite.view')) {
+      setShowPermModal(false);
+      setActiveSuiteId(null);
+    }
   };
 
-  const handleRemovePermission = (userId: string) => {
-    if (!activeSuite) return;
-    if (userId === currentUser.id && !isGlobalAdmin) {
-       if(!confirm("본인의 접근 권한을 제거하려고 합니다. 계속하시겠습니까?")) return;
+  const notifyRoleGranted = (userId: string, role: Role) => {
+    if (activeSuite) onNotify?.(buildPermissionGrantedNotification(activeSuite, userId, role, currentUser));
+  };
+
+  // --- CASE EDITING ---
+  const updateActiveCases = (updater: (cases: TestCase[]) => TestCase[]) => {
+    if (!activeSuiteId) return;
+    setSuites(prevSuites => prevSuites.map(s => s.id === activeSuiteId ? { ...s, cases: updater(s.cases) } : s));
+  };
+
+  const addCase = () => {
+    if (!canWrite) return;
+    if (newCase) return;
+    setNewCase({
+      id: crypto.randomUUID(),
+      title: t('suites.newCaseTitle'),
+      description: '',
+      priority: 'Medium',
+      steps: [{ id: crypto.randomUUID(), action: '', expectedResult: '' }]
+    });
+  };
+
+  const saveCase = (updated: TestCase) => {
+    if (!canWrite) return;
+    updateActiveCases(cases => cases.map(c => c.id === updated.id ? updated : c));
+  };
+
+  const saveNewCase = (created: TestCase) => {
+    if (!canWrite) return;
+    updateActiveCases(cases => [...cases, created]);
+    setNewCase(null);
+  };
+
+  // Restoring saves the old content as a new version, so nothing in between is lost
+  const restoreCase = (caseId: string, version: CaseVersion) => {
+    if (!canWrite) return;
+    updateActiveCases(cases => cases.map(c => c.id === caseId ? { ...version.snapshot, id: c.id, version: c.version } : c));
+    setHistoryCaseId(null);
+  };
+
+  const deleteCase = (caseId: string) => {
+    if (!canDelete) return;
+    if (confirm(t('suites.confirmDeleteCase'))) {
+      updateActiveCases(cases => cases.filter(c => c.id !== caseId));
     }
+  };
 
-    const newPerms = { ...activeSuite.permissions };
-    delete newPerms[userId];
-    
-    const updatedSuite = {
-      ...activeSuite,
-      permissions: newPerms
-    };
-    setSuites(suites.map(s => s.id === activeSuite.id ? updatedSuite : s));
-    if (userId === currentUser.id && !isGlobalAdmin) setActiveSuiteId(null);
+  const duplicateCase = (caseId: string) => {
+    if (!canWrite) return;
+    updateActiveCases(cases => {
+      const index = cases.findIndex(c => c.id === caseId);
+      if (index === -1) return cases;
+      const source = cases[index];
+      const copy: TestCase = {
+        ...source,
+        id: crypto.randomUUID(),
+        title: t('suites.copyTitle', { title: source.title }),
+        steps: source.steps.map(s => ({ ...s, id: crypto.randomUUID() }))
+      };
+      return [...cases.slice(0, index + 1), copy, ...cases.slice(index + 1)];
+    });
   };
 
-  const handleChangePermission = (userId: string, newRole: Role) => {
-    if (!activeSuite) return;
-    const updatedSuite = {
-      ...activeSuite,
-      permissions: {
-        ...activeSuite.permissions,
-        [userId]: newRole
-      }
-    };
-    setSuites(suites.map(s => s.id === activeSuite.id ? updatedSuite : s));
+  const onCaseDrop = (targetCaseId: string) => {
+    if (!canWrite || !draggedCaseId || draggedCaseId === targetCaseId) {
+      setDraggedCaseId(null);
+      return;
+    }
+    updateActiveCases(cases => moveItem(cases, draggedCaseId, targetCaseId));
+    setDraggedCaseId(null);
   };
 
   // --- GENERATION & IMPORT LOGIC ---
+  const importCases = (imported: TestCase[]) => {
+    if (!canWrite) return;
+    updateActiveCases(cases => [...cases, ...imported]);
+    setShowImportModal(false);
+  };
+
   const handleGenerateCases = async () => {
     if (!canWrite) return;
     if (!prompt.trim() || !activeSuiteId) return;
@@ -151,45 +249,29 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
     setIsGenerating(true);
 
     try {
-      let finalPrompt = prompt;
-      let contextInfo = "";
-
-      if (importMode) {
-        finalPrompt = `I have test suite data (from an Excel file or text) with the following content. Please parse this and convert it into structured test cases in KOREAN: \n\n${prompt}`;
-        contextInfo = "Imported Data Conversion";
-      } else {
-        const locationLabel = appType === 'WEB' ? 'URL' : 'File Path/Address';
-        contextInfo = `${appType === 'WEB' ? 'Web' : 'Desktop'} Application`;
-        if (appContextValue) contextInfo += ` (${locationLabel}: ${appContextValue})`;
-        if (testEmail) contextInfo += ` [Test Account: ${testEmail}]`;
-      }
+      const locationLabel = appType === 'WEB' ? 'URL' : 'File Path/Address';
+      let contextInfo = `${appType === 'WEB' ? 'Web' : 'Desktop'} Application`;
+      if (appContextValue) contextInfo += ` (${locationLabel}: ${appContextValue})`;
+      if (testEmail) contextInfo += ` [Test Account: ${testEmail}]`;
 
-      const newCases = await generateTestCases(finalPrompt, contextInfo);
+      const newCases = await generateTestCases(llm, aiLanguage, prompt, contextInfo);
       
       if (genOpRef.current !== opId) return;
       
-      setSuites(prevSuites => prevSuites.map(suite => {
-        if (suite.id === activeSuiteId) {
-          const updatedSuite = {
-            ...suite,
-            cases: [...suite.cases, ...newCases as TestCase[]]
-          };
-          if (!suite.targetConfig && !importMode) {
-             updatedSuite.targetConfig = {
-               appType,
-               appAddress: appContextValue,
-               testEmail
-             };
-          }
-          return updatedSuite;
-        }
-        return suite;
-      }));
+      // The model may leave fields out; the review screen flags what is missing instead of failing
+      setGeneratedCases(newCases.map(c => ({
+        id: c.id!,
+        title: c.title || '',
+        description: c.description || '',
+        priority: c.priority === 'High' || c.priority === 'Low' ? c.priority : 'Medium',
+        steps: (c.steps || []).map(s => ({ ...s, action: s.action || '', expectedResult: s.expectedResult || '' }))
+      })));
+      // The prompt inputs are kept until the review ends: confirming also saves them as the suite's target
       setShowPromptModal(false);
-      resetModalState();
     } catch (e) {
       if (genOpRef.current === opId) {
-        alert('테스트 케이스 생성에 실패했습니다. 다시 시도해 주세요.');
+        const reason = getAiErrorMessage(e);
+        alert(reason ? localize(reason) : t('suites.generateFailed'));
       }
     } finally {
       if (genOpRef.current === opId) {
@@ -198,6 +280,35 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
     }
   };
 
+  const confirmGeneratedCases = (accepted: TestCase[]) => {
+    if (!canWrite || !activeSuiteId) return;
+    setSuites(prevSuites => prevSuites.map(suite => {
+      if (suite.id === activeSuiteId) {
+        const updatedSuite = {
+          ...suite,
+          cases: [...suite.cases, ...accepted]
+        };
+        if (!suite.targetConfig) {
+           updatedSuite.targetConfig = {
+             appType,
+             appAddress: appContextValue,
+             testEmail
+           };
+        }
+        return updatedSuite;
+      }
+      return suite;
+    }));
+    setGeneratedCases(null);
+    resetModalState();
+  };
+
+  const discardGeneratedCases = () => {
+    if (generatedCases?.length && !window.confirm(t('review.confirmDiscard'))) return;
+    setGeneratedCases(null);
+    resetModalState();
+  };
+
   const handleCancelGeneration = () => {
     genOpRef.current = 0; 
     setIsGenerating(false);
@@ -212,13 +323,14 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
     setRunAddress(config?.appAddress || '');
     setRunEmail(config?.testEmail || '');
     setRunMode(config?.executionMode || 'MANUAL');
+    setRunEngine(config?.automationEngine || 'BROWSER');
     setRunAssets(config?.mockAssets || []);
     setShowRunModal(true);
   };
 
   const handleAssetSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const names = Array.from(e.target.files).map(f => f.name);
+      const names = Array.from<File>(e.target.files).map(f => f.name);
       // Avoid duplicates
       const uniqueNames = names.filter(n => !runAssets.includes(n));
       setRunAssets(prev => [...prev, ...uniqueNames]);
@@ -238,6 +350,7 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
         appAddress: runAddress,
         testEmail: runEmail,
         executionMode: runMode,
+        automationEngine: runEngine,
         mockAssets: runAssets
       }
     };
@@ -249,79 +362,37 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
   // --- HELPERS ---
   const resetModalState = () => {
     setPrompt('');
-    setImportMode(false);
-    setAvailableSheets([]);
-    setCurrentFile(null);
     setAppContextValue('');
     setTestEmail('');
     setAppType('WEB');
   };
 
-  const readExcelSheet = async (file: File, sheetName: string) => {
-    setIsLoadingFile(true);
-    try {
-      // Fix: cast returned value to unknown then any[] to ensure map works
-      const rows = (await readXlsxFile(file, { sheet: sheetName })) as any[];
-      const content = rows.map((row: any) => 
-        (row as any[]).map(cell => cell === null ? '' : String(cell)).join('\t')
-      ).join('\n');
-      setPrompt(`[IMPORTED FILE: ${file.name} | SHEET: ${sheetName}]\n${content}`);
-    } catch (error) {
-      console.error("Error reading sheet:", error);
-      alert(`시트 "${sheetName}"를 읽는데 실패했습니다.`);
-    } finally {
-      setIsLoadingFile(false);
-    }
-  };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    setIsLoadingFile(true);
-    setCurrentFile(file);
-    setAvailableSheets([]);
-    setPrompt('');
+  const setSuiteAiLanguage = (language: AiLanguage | undefined) => {
+    if (!activeSuite) return;
+    setSuites(suites.map(s => s.id === activeSuite.id ? { ...s, aiLanguage: language } : s));
+  };
 
-    try {
-      if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-        // Cast the result explicitly to any[] to avoid strict type checks and 'unknown' errors
-        const result = (await readXlsxFile(file, { getSheets: true })) as any[];
-        const sheets = result.map((sheet: any) => ({ name: String(sheet.name) }));
-        
-        setAvailableSheets(sheets);
-        if (sheets.length > 0) {
-          await readExcelSheet(file, sheets[0].name);
-        } else {
-          // Fix: cast returned value to unknown then any[]
-          const rows = (await readXlsxFile(file)) as any[];
-          const content = rows.map((row: any) => 
-            (row as any[]).map(cell => cell === null ? '' : String(cell)).join('\t')
-          ).join('\n');
-          setPrompt(`[IMPORTED FILE: ${file.name}]\n${content}`);
-        }
-      } else {
-        const content = await file.text();
-        setPrompt(`[IMPORTED FILE CONTENT: ${file.name}]\n${content}`);
-      }
-    } catch (error) {
-      console.error("File read error:", error);
-      alert("파일을 읽지 못했습니다. 올바른 Excel 또는 텍스트 파일인지 확인하세요.");
-    } finally {
-      setIsLoadingFile(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    }
+  // Replaces cases by ID, so cases added while the translation ran are kept
+  const applyTranslation = (translated: TestCase[], language: AiLanguage, useForGeneration: boolean) => {
+    if (!activeSuite) return;
+    const byId = new Map(translated.map(c => [c.id, c]));
+    setSuites(prev => prev.map(s => s.id === activeSuite.id ? {
+      ...s,
+      aiLanguage: useForGeneration ? language : s.aiLanguage,
+      cases: s.cases.map(c => byId.get(c.id) || c)
+    } : s));
+    setShowTranslateModal(false);
   };
 
-  const openGenerateModal = () => {
-    resetModalState();
-    setImportMode(false);
-    setShowPromptModal(true);
+  const saveQualityGates = (qualityGates: QualityGates) => {
+    if (!activeSuite) return;
+    setSuites(suites.map(s => s.id === activeSuite.id ? { ...s, qualityGates } : s));
+    setShowGateModal(false);
   };
 
-  const openImportModal = () => {
+  const openGenerateModal = () => {
     resetModalState();
-    setImportMode(true);
     setShowPromptModal(true);
   };
 
@@ -330,23 +401,40 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
       {/* Sidebar List of Suites */}
       <div className="w-full md:w-1/3 bg-white rounded-xl shadow-sm border border-slate-100 flex flex-col overflow-hidden">
         <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
-          <h2 className="font-semibold text-slate-700">테스트 스위트</h2>
-          <button 
-            onClick={createSuite}
-            className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
-            title="새 스위트 생성"
-          >
-            <Plus size={18} />
-          </button>
+          <h2 className="font-semibold text-slate-700">{t('suites.title')}</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowInteropModal(true)}
+              className="p-2 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors shadow-sm"
+              title={t('suites.importFromTool')}
+            >
+              <Upload size={18} />
+            </button>
+            <button
+              onClick={() => setExportSelection(activeSuite ? [activeSuite.id] : visibleSuites.map(s => s.id))}
+              disabled={visibleSuites.length === 0}
+              className="p-2 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-100 transition-colors shadow-sm disabled:opacity-50"
+              title={t('suites.exportSuite')}
+            >
+              <Download size={18} />
+            </button>
+            <button 
+              onClick={createSuite}
+              className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+              title={t('suites.createSuite')}
+            >
+              <Plus size={18} />
+            </button>
+          </div>
         </div>
         <div className="flex-1 overflow-y-auto p-2 space-y-2">
           {visibleSuites.length === 0 && (
             <div className="text-center p-8 text-slate-400 text-sm">
-              {currentUser.name}에 대한 스위트를 찾을 수 없습니다.<br/>새로 생성하거나 관리자에게 권한을 요청하세요.
+              {t('suites.noSuites', { name: currentUser.name })}<br/>{t('suites.noSuitesHint')}
             </div>
           )}
           {visibleSuites.map(suite => {
-            const role = getUserRole(suite);
+            const role = getSuiteRole(currentUser, suite);
             return (
               <div 
                 key={suite.id}
@@ -364,16 +452,16 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                         role === 'MEMBER' ? 'bg-blue-100 text-blue-700' : 
                         'bg-slate-200 text-slate-600'
                       }`}>
-                        {role === 'ADMIN' ? '관리자' : role === 'MEMBER' ? '멤버' : '옵저버'}
+                        {t(role === 'NONE' ? 'role.OBSERVER' : `role.${role}`)}
                       </span>
                     </div>
-                    <p className="text-xs text-slate-500 mt-1">{suite.cases.length} 테스트 케이스</p>
+                    <p className="text-xs text-slate-500 mt-1">{t('suites.caseCount', { count: suite.cases.length })}</p>
                   </div>
-                  {getUserRole(suite) === 'ADMIN' && (
+                  {canOnSuite(currentUser, suite, 'suite.delete') && (
                     <button 
                       onClick={(e) => deleteSuite(suite.id, e)}
                       className="text-slate-400 hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                      title="스위트 삭제"
+                      title={t('suites.deleteSuite')}
                     >
                       <Trash2 size={16} />
                     </button>
@@ -409,14 +497,34 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                       }}
                     />
                   </div>
-                  {canManageAccess && (
-                    <button 
-                      onClick={() => setShowPermModal(true)}
-                      className="text-xs flex items-center gap-1 bg-white border border-slate-200 text-slate-600 px-2 py-1.5 rounded-md hover:bg-slate-100 hover:text-slate-800 transition-colors shadow-sm"
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={activeSuite.aiLanguage || ''}
+                      disabled={!canWrite}
+                      onChange={(e) => setSuiteAiLanguage((e.target.value || undefined) as AiLanguage | undefined)}
+                      title={t('suites.aiLanguageHint')}
+                      className="text-xs bg-white border border-slate-200 text-slate-600 px-2 py-1.5 rounded-md hover:bg-slate-100 shadow-sm outline-none disabled:hover:bg-white disabled:cursor-default"
+                    >
+                      <option value="">{t('suites.aiLanguageUser')}</option>
+                      {AI_LANGUAGES.map(l => <option key={l.id} value={l.id}>{t('suites.aiLanguage', { language: l.label })}</option>)}
+                    </select>
+                    <button
+                      onClick={() => canManageAccess && setShowGateModal(true)}
+                      disabled={!canManageAccess}
+                      title={describeQualityGates(getQualityGates(activeSuite)).map(localize).join(', ')}
+                      className="text-xs flex items-center gap-1 bg-white border border-slate-200 text-slate-600 px-2 py-1.5 rounded-md hover:bg-slate-100 hover:text-slate-800 transition-colors shadow-sm disabled:hover:bg-white disabled:hover:text-slate-600 disabled:cursor-default"
                     >
-                       <Users size={14} /> 권한 관리
+                       <ShieldCheck size={14} /> {t('suites.qualityGates')}
                     </button>
-                  )}
+                    {canManageAccess && (
+                      <button 
+                        onClick={() => setShowPermModal(true)}
+                        className="text-xs flex items-center gap-1 bg-white border border-slate-200 text-slate-600 px-2 py-1.5 rounded-md hover:bg-slate-100 hover:text-slate-800 transition-colors shadow-sm"
+                      >
+                         <Users size={14} /> {t('suites.manageAccess')}
+                      </button>
+                    )}
+                  </div>
                </div>
                
               <div className="flex items-center space-x-2">
@@ -424,7 +532,7 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                  {!canWrite && (
                     <div className="flex items-center gap-2 text-xs text-amber-600 bg-amber-50 px-3 py-1.5 rounded-lg border border-amber-100">
                       <Eye size={14} />
-                      읽기 전용 (옵저버 모드)
+                      {t('suites.readOnly')}
                     </div>
                  )}
 
@@ -432,22 +540,38 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                  {canWrite && (
                    <>
                      <button 
-                      onClick={openImportModal}
+                      onClick={() => setShowImportModal(true)}
                       className="flex items-center space-x-2 px-3 py-2 bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100 transition-colors text-sm font-medium"
                     >
                       <FileSpreadsheet size={16} />
-                      <span className="hidden lg:inline">데이터 가져오기</span>
+                      <span className="hidden lg:inline">{t('suites.importData')}</span>
                     </button>
                     <button 
                       onClick={openGenerateModal}
                       className="flex items-center space-x-2 px-3 py-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors text-sm font-medium"
                     >
                       <Wand2 size={16} />
-                      <span className="hidden lg:inline">AI 생성</span>
+                      <span className="hidden lg:inline">{t('suites.aiGenerate')}</span>
+                    </button>
+                    <button
+                      onClick={() => setShowTranslateModal(true)}
+                      disabled={activeSuite.cases.length === 0}
+                      className="flex items-center space-x-2 px-3 py-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors text-sm font-medium disabled:opacity-50"
+                    >
+                      <Languages size={16} />
+                      <span className="hidden lg:inline">{t('suites.translate')}</span>
                     </button>
                    </>
                  )}
 
+                 <button
+                   onClick={() => setExportSelection([activeSuite.id])}
+                   className="flex items-center space-x-2 px-3 py-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors text-sm font-medium"
+                 >
+                   <Download size={16} />
+                   <span className="hidden lg:inline">{t('suites.export')}</span>
+                 </button>
+
                  {/* Run Controls */}
                  {canRun && (
                     <button 
@@ -455,7 +579,7 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                       className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium shadow-sm ml-auto"
                     >
                       <Play size={16} />
-                      <span>스위트 실행</span>
+                      <span>{t('suites.runSuite')}</span>
                     </button>
                  )}
               </div>
@@ -463,279 +587,231 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
 
             <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50">
               <div className="space-y-4">
-                {activeSuite.cases.length === 0 ? (
+                {activeSuite.cases.length === 0 && !newCase ? (
                   <div className="text-center py-20 text-slate-400">
                     <FileText size={48} className="mx-auto mb-4 opacity-20" />
-                    <p>아직 테스트 케이스가 없습니다.</p>
-                    {canWrite && <p className="text-sm mt-2">'AI 생성' 또는 '데이터 가져오기'를 클릭하여 자동으로 생성해보세요.</p>}
+                    <p>{t('suites.noCases')}</p>
+                    {canWrite && <p className="text-sm mt-2">{t('suites.noCasesHint')}</p>}
                   </div>
                 ) : (
                   activeSuite.cases.map((testCase, index) => (
-                    <TestCaseCard key={testCase.id} testCase={testCase} index={index} readOnly={!canWrite} />
+                    <TestCaseCard
+                      key={testCase.id}
+                      testCase={testCase}
+                      index={index}
+                      readOnly={!canWrite}
+                      canDelete={canDelete}
+                      isDragging={draggedCaseId === testCase.id}
+                      onSave={saveCase}
+                      onDelete={() => deleteCase(testCase.id)}
+                      onDuplicate={() => duplicateCase(testCase.id)}
+                      onShowHistory={() => setHistoryCaseId(testCase.id)}
+                      onDragStart={() => setDraggedCaseId(testCase.id)}
+                      onDragEnd={() => setDraggedCaseId(null)}
+                      onDrop={() => onCaseDrop(testCase.id)}
+                    />
                   ))
                 )}
+                {newCase && (
+                  <TestCaseCard
+                    key={newCase.id}
+                    testCase={newCase}
+                    index={activeSuite.cases.length}
+                    startInEditMode
+                    onSave={saveNewCase}
+                    onCancel={() => setNewCase(null)}
+                    onDelete={() => setNewCase(null)}
+                    onDuplicate={() => {}}
+                    onShowHistory={() => {}}
+                    onDragStart={() => {}}
+                    onDragEnd={() => {}}
+                    onDrop={() => {}}
+                  />
+                )}
+                {canWrite && !newCase && (
+                  <button
+                    onClick={addCase}
+                    className="w-full py-3 border-2 border-dashed border-slate-200 rounded-lg text-sm text-slate-500 hover:bg-white hover:border-blue-300 hover:text-blue-600 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Plus size={16} /> {t('suites.addCase')}
+                  </button>
+                )}
               </div>
             </div>
           </>
         ) : (
           <div className="flex-1 flex flex-col items-center justify-center text-slate-400">
             <ChevronRight size={48} className="opacity-20 mb-4" />
-            <p>세부 정보를 보려면 스위트를 선택하세요.</p>
+            <p>{t('suites.selectSuite')}</p>
           </div>
         )}
       </div>
 
+      {/* Quality Gate Modal */}
+      {showGateModal && activeSuite && (
+        <QualityGateModal
+          suiteName={activeSuite.name}
+          gates={getQualityGates(activeSuite)}
+          onSave={saveQualityGates}
+          onClose={() => setShowGateModal(false)}
+        />
+      )}
+
       {/* Access Management Modal */}
       {showPermModal && activeSuite && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
-           <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 m-4 flex flex-col max-h-[90vh]">
-              <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
-                 <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-                   <Shield className="text-indigo-600" size={20} />
-                   프로젝트 접근 제어
-                 </h3>
-                 <button onClick={() => setShowPermModal(false)} className="text-slate-400 hover:text-slate-600">
-                   <X size={20} />
-                 </button>
-              </div>
+        <AccessControlModal
+          suite={activeSuite}
+          users={allUsers}
+          currentUser={currentUser}
+          onUpdateSuite={updateSuiteAccess}
+          onRoleGranted={notifyRoleGranted}
+          onClose={() => setShowPermModal(false)}
+        />
+      )}
 
-              <div className="space-y-4 flex-1 overflow-y-auto">
-                 <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
-                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">사용자 추가</label>
-                    <div className="flex gap-2">
-                       <select 
-                         className="flex-1 border border-slate-300 rounded-lg p-2 text-sm outline-none"
-                         value={permUserToAdd}
-                         onChange={(e) => setPermUserToAdd(e.target.value)}
-                       >
-                         <option value="">사용자 선택...</option>
-                         {allUsers
-                           .filter(u => u.email !== 'administrator@autotest.ai' && !activeSuite.permissions?.[u.id])
-                           .map(u => (
-                             <option key={u.id} value={u.id}>{u.name} ({u.email})</option>
-                           ))
-                         }
-                       </select>
-                       <select
-                         className="w-32 border border-slate-300 rounded-lg p-2 text-sm outline-none"
-                         value={permRoleToAdd}
-                         onChange={(e) => setPermRoleToAdd(e.target.value as Role)}
-                       >
-                         <option value="ADMIN">관리자</option>
-                         <option value="MEMBER">멤버</option>
-                         <option value="OBSERVER">옵저버</option>
-                       </select>
-                       <button 
-                         onClick={handleAddPermission}
-                         disabled={!permUserToAdd}
-                         className="bg-indigo-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
-                       >
-                         추가
-                       </button>
-                    </div>
-                 </div>
+      {/* Case History Modal */}
+      {historyCase && (
+        <CaseHistoryModal
+          testCase={historyCase}
+          caseVersions={caseVersions}
+          users={allUsers}
+          canRestore={canWrite}
+          onRestore={(version) => restoreCase(historyCase.id, version)}
+          onClose={() => setHistoryCaseId(null)}
+        />
+      )}
 
-                 <div>
-                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">현재 권한</label>
-                    <div className="space-y-2">
-                       {/* Super Admin Always Visible */}
-                       <div className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-lg shadow-sm">
-                          <div className="flex items-center gap-3">
-                             <div className="w-8 h-8 flex items-center justify-center bg-indigo-50 rounded-full text-lg">🛡️</div>
-                             <div>
-                               <p className="text-sm font-semibold text-slate-800">슈퍼 관리자</p>
-                               <p className="text-xs text-slate-500">administrator@autotest.ai</p>
-                             </div>
-                          </div>
-                          <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-1 rounded font-bold">GLOBAL</span>
-                       </div>
-
-                       {Object.entries(activeSuite.permissions || {}).map(([userId, role]) => {
-                         const user = allUsers.find(u => u.id === userId);
-                         if (!user) return null;
-                         return (
-                           <div key={userId} className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-lg shadow-sm">
-                              <div className="flex items-center gap-3">
-                                 <div className="w-8 h-8 flex items-center justify-center bg-slate-50 rounded-full text-lg">{user.avatar}</div>
-                                 <div>
-                                   <p className="text-sm font-semibold text-slate-800">{user.name}</p>
-                                   <p className="text-xs text-slate-500">{user.email}</p>
-                                 </div>
-                              </div>
-                              <div className="flex items-center gap-2">
-                                <select 
-                                   className="text-xs border border-slate-200 rounded p-1"
-                                   value={role}
-                                   onChange={(e) => handleChangePermission(userId, e.target.value as Role)}
-                                >
-                                   <option value="ADMIN">관리자</option>
-                                   <option value="MEMBER">멤버</option>
-                                   <option value="OBSERVER">옵저버</option>
-                                </select>
-                                <button 
-                                  onClick={() => handleRemovePermission(userId)}
-                                  className="text-slate-400 hover:text-red-500 p-1"
-                                >
-                                  <X size={16} />
-                                </button>
-                              </div>
-                           </div>
-                         );
-                       })}
-                       
-                       {(!activeSuite.permissions || Object.keys(activeSuite.permissions).length === 0) && (
-                         <p className="text-sm text-slate-400 italic text-center py-4">설정된 권한이 없습니다.</p>
-                       )}
-                    </div>
-                 </div>
-              </div>
-              <div className="mt-4 pt-4 border-t border-slate-100 flex justify-end">
-                <button 
-                  onClick={() => setShowPermModal(false)}
-                  className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-200"
-                >
-                  완료
-                </button>
-              </div>
-           </div>
-        </div>
+      {/* Structured Import Modal */}
+      {showImportModal && (
+        <ExcelImportModal
+          llm={llm}
+          language={aiLanguage}
+          onImport={importCases}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
+      {/* Interop Import Modal */}
+      {showInteropModal && (
+        <InteropImportModal
+          onImport={importSuites}
+          onClose={() => setShowInteropModal(false)}
+        />
+      )}
+
+      {/* Translate Modal */}
+      {showTranslateModal && activeSuite && (
+        <TranslateSuiteModal
+          suite={activeSuite}
+          llm={llm}
+          onApply={applyTranslation}
+          onClose={() => setShowTranslateModal(false)}
+        />
+      )}
+
+      {/* Generated Cases Review Modal */}
+      {generatedCases && activeSuite && (
+        <GeneratedCasesReviewModal
+          suite={activeSuite}
+          cases={generatedCases}
+          onConfirm={confirmGeneratedCases}
+          onClose={discardGeneratedCases}
+        />
+      )}
+
+      {/* Export Modal */}
+      {exportSelection && (
+        <SuiteExportModal
+          suites={visibleSuites}
+          initialSelection={exportSelection}
+          onClose={() => setExportSelection(null)}
+        />
       )}
 
-      {/* AI Prompt/Import Modal */}
+      {/* AI Prompt Modal */}
       {showPromptModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
           <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 m-4 flex flex-col max-h-[90vh]">
             <div className="p-0 mb-4">
                <h3 className="text-xl font-bold text-slate-800 mb-2 flex items-center gap-2">
-                 {importMode ? <FileSpreadsheet className="text-amber-500" /> : <Wand2 className="text-indigo-500" />}
-                 {importMode ? '테스트 데이터 가져오기 (Excel)' : 'AI 테스트 케이스 생성'}
+                 <Wand2 className="text-indigo-500" />
+                 {t('suites.generateTitle')}
                </h3>
                
                <p className="text-slate-500 text-sm">
-                 {importMode 
-                   ? 'Excel 데이터를 업로드하세요. AI가 한국어 테스트 스위트로 변환합니다.' 
-                   : '애플리케이션 범위와 기능을 정의하세요. AI가 한국어 테스트 케이스를 생성합니다.'}
+                 {t('suites.generateSubtitle', { language: aiLanguageLabel })}
                </p>
             </div>
 
             <div className="flex-1 overflow-y-auto pr-2 space-y-4">
               
-              {!importMode && (
-                <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-4">
-                   <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block">대상 애플리케이션</label>
-                   
-                   <div className="flex space-x-2">
-                      <button 
-                        onClick={() => setAppType('WEB')}
-                        className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-md border transition-all ${appType === 'WEB' ? 'bg-white border-indigo-500 text-indigo-700 shadow-sm ring-1 ring-indigo-500' : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
-                      >
-                        <Globe size={16} /> 웹사이트
-                      </button>
-                      <button 
-                         onClick={() => setAppType('DESKTOP')}
-                         className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-md border transition-all ${appType === 'DESKTOP' ? 'bg-white border-indigo-500 text-indigo-700 shadow-sm ring-1 ring-indigo-500' : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
-                      >
-                        <Monitor size={16} /> 데스크톱 앱
-                      </button>
-                   </div>
+              <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-4">
+                 <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block">{t('suites.targetApp')}</label>
+                 
+                 <div className="flex space-x-2">
+                    <button 
+                      onClick={() => setAppType('WEB')}
+                      className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-md border transition-all ${appType === 'WEB' ? 'bg-white border-indigo-500 text-indigo-700 shadow-sm ring-1 ring-indigo-500' : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
+                    >
+                      <Globe size={16} /> {t('suites.appWeb')}
+                    </button>
+                    <button 
+                       onClick={() => setAppType('DESKTOP')}
+                       className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-md border transition-all ${appType === 'DESKTOP' ? 'bg-white border-indigo-500 text-indigo-700 shadow-sm ring-1 ring-indigo-500' : 'bg-slate-100 border-transparent text-slate-500 hover:bg-slate-200'}`}
+                    >
+                      <Monitor size={16} /> {t('suites.appDesktop')}
+                    </button>
+                 </div>
 
-                   <div className="grid grid-cols-1 gap-3">
-                     <div>
-                       <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">
-                         {appType === 'WEB' ? '웹사이트 URL' : '프로그램 파일 경로'}
-                       </label>
-                       <div className="relative">
-                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                            {appType === 'WEB' ? <LinkIcon size={14} className="text-slate-400"/> : <HardDrive size={14} className="text-slate-400"/>}
-                          </div>
-                          <input 
-                              type="text"
-                              className="w-full border border-slate-300 rounded-lg pl-9 p-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                              placeholder={appType === 'WEB' ? "https://example.com" : "C:\\Program Files\\MyApp\\app.exe"}
-                              value={appContextValue}
-                              onChange={(e) => setAppContextValue(e.target.value)}
-                          />
-                       </div>
+                 <div className="grid grid-cols-1 gap-3">
+                   <div>
+                     <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">
+                       {appType === 'WEB' ? t('suites.websiteUrl') : t('suites.programPath')}
+                     </label>
+                     <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          {appType === 'WEB' ? <LinkIcon size={14} className="text-slate-400"/> : <HardDrive size={14} className="text-slate-400"/>}
+                        </div>
+                        <input 
+                            type="text"
+                            className="w-full border border-slate-300 rounded-lg pl-9 p-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                            placeholder={appType === 'WEB' ? "https://example.com" : "C:\\Program Files\\MyApp\\app.exe"}
+                            value={appContextValue}
+                            onChange={(e) => setAppContextValue(e.target.value)}
+                        />
                      </div>
+                   </div>
 
-                     <div>
-                       <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">
-                         테스트 이메일 / 로그인 ID (선택 사항)
-                       </label>
-                       <div className="relative">
-                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                            <Mail size={14} className="text-slate-400"/>
-                          </div>
-                          <input 
-                              type="text"
-                              className="w-full border border-slate-300 rounded-lg pl-9 p-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                              placeholder="user@example.com"
-                              value={testEmail}
-                              onChange={(e) => setTestEmail(e.target.value)}
-                          />
-                       </div>
+                   <div>
+                     <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">
+                       {t('suites.testLogin')}
+                     </label>
+                     <div className="relative">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                          <Mail size={14} className="text-slate-400"/>
+                        </div>
+                        <input 
+                            type="text"
+                            className="w-full border border-slate-300 rounded-lg pl-9 p-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                            placeholder="user@example.com"
+                            value={testEmail}
+                            onChange={(e) => setTestEmail(e.target.value)}
+                        />
                      </div>
                    </div>
-                </div>
-              )}
-
-              {importMode && (
-                <div className="space-y-4">
-                  <div>
-                    <input
-                      type="file"
-                      accept=".xlsx, .xls, .csv, .txt"
-                      ref={fileInputRef}
-                      onChange={handleFileUpload}
-                      className="hidden"
-                    />
-                    <button
-                      onClick={() => fileInputRef.current?.click()}
-                      disabled={isLoadingFile}
-                      className="w-full py-4 border-2 border-dashed border-amber-200 rounded-xl bg-amber-50 text-amber-700 hover:bg-amber-100 transition-colors flex flex-col items-center justify-center gap-2"
-                    >
-                      {isLoadingFile ? (
-                        <div className="animate-spin w-6 h-6 border-2 border-amber-600 border-t-transparent rounded-full" />
-                      ) : (
-                        <>
-                          <Upload size={24} />
-                          <span className="font-medium">클릭하여 Excel 파일 업로드</span>
-                        </>
-                      )}
-                    </button>
-                  </div>
-                  
-                  {availableSheets.length > 0 && (
-                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-200">
-                      <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
-                        <Layers size={14} />
-                        시트 선택
-                      </label>
-                      <select 
-                        className="w-full p-2.5 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-amber-500 outline-none"
-                        onChange={(e) => {
-                          if (currentFile) readExcelSheet(currentFile, e.target.value);
-                        }}
-                      >
-                        {availableSheets.map((sheet) => (
-                          <option key={sheet.name} value={sheet.name}>{sheet.name}</option>
-                        ))}
-                      </select>
-                    </div>
-                  )}
-                </div>
-              )}
+                 </div>
+              </div>
 
               <div className="flex flex-col">
                  <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
-                    {importMode ? "데이터 미리보기 / 수동 입력" : "기능 설명"}
+                    {t('suites.featureDescription')}
                  </label>
                  <textarea
                   className="w-full border border-slate-300 rounded-lg p-3 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none min-h-[120px] font-mono text-xs bg-slate-50"
-                  placeholder={importMode ? "변환된 내용이 여기에 표시됩니다..." : "예: 2단계 인증이 포함된 로그인 기능..."}
+                  placeholder={t('suites.featurePlaceholder')}
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
-                  disabled={isGenerating || isLoadingFile}
+                  disabled={isGenerating}
                 />
               </div>
             </div>
@@ -744,24 +820,23 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
               <button 
                 onClick={handleCancelGeneration}
                 className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium"
-                disabled={isLoadingFile}
               >
-                취소
+                {t('common.cancel')}
               </button>
               <button 
                 onClick={handleGenerateCases}
-                disabled={isGenerating || !prompt.trim() || isLoadingFile}
-                className={`px-4 py-2 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 text-sm font-medium shadow-sm text-white ${importMode ? 'bg-amber-600' : 'bg-indigo-600'}`}
+                disabled={isGenerating || !prompt.trim()}
+                className={`px-4 py-2 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 text-sm font-medium shadow-sm text-white bg-indigo-600`}
               >
                 {isGenerating ? (
                   <>
                     <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    <span>{importMode ? '변환 중...' : '생성 중 (한국어)...'}</span>
+                    <span>{t('suites.generating', { language: aiLanguageLabel })}</span>
                   </>
                 ) : (
                   <>
-                    {importMode ? <FileSpreadsheet size={16} /> : <Wand2 size={16} />}
-                    <span>{importMode ? '변환 및 가져오기' : '생성'}</span>
+                    <Wand2 size={16} />
+                    <span>{t('suites.generate')}</span>
                   </>
                 )}
               </button>
@@ -778,9 +853,9 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
               <div>
                 <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                   <Settings className="text-green-600" size={24} />
-                  테스트 환경 설정
+                  {t('suites.runSetupTitle')}
                 </h3>
-                <p className="text-slate-500 text-sm mt-1">실행 전 환경을 구성하세요.</p>
+                <p className="text-slate-500 text-sm mt-1">{t('suites.runSetupSubtitle')}</p>
               </div>
               <button onClick={() => setShowRunModal(false)} className="text-slate-400 hover:text-slate-600">
                 <X size={20} />
@@ -790,49 +865,76 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
             <div className="space-y-5 flex-1 overflow-y-auto pr-2">
               
               <div>
-                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">실행 모드</label>
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">{t('suites.runMode')}</label>
                 <div className="flex space-x-2 bg-slate-100 p-1 rounded-lg">
                   <button 
                     onClick={() => setRunMode('MANUAL')}
                     className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-md transition-all ${runMode === 'MANUAL' ? 'bg-white text-slate-800 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'}`}
                   >
-                    <Hand size={16} /> 수동
+                    <Hand size={16} /> {t('suites.modeManual')}
                   </button>
                   <button 
                     onClick={() => setRunMode('AUTOMATED')}
                     className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-md transition-all ${runMode === 'AUTOMATED' ? 'bg-white text-indigo-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'}`}
                   >
-                    <Bot size={16} /> AI 자동화
+                    <Bot size={16} /> {t('suites.modeAutomated')}
                   </button>
                 </div>
-                {runMode === 'AUTOMATED' && (
+                {runMode === 'AUTOMATED' && runAppType === 'WEB' && (
+                  <div className="mt-3 space-y-2">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setRunEngine('BROWSER')}
+                        className={`flex-1 flex items-center justify-center gap-2 py-2 text-xs rounded-md border transition-all ${runEngine === 'BROWSER' ? 'bg-indigo-50 border-indigo-500 text-indigo-700 font-medium' : 'bg-slate-50 border-transparent text-slate-500 hover:bg-slate-100'}`}
+                      >
+                        <Globe size={14} /> {t('suites.realBrowser')}
+                      </button>
+                      <button
+                        onClick={() => setRunEngine('AI_SIMULATION')}
+                        className={`flex-1 flex items-center justify-center gap-2 py-2 text-xs rounded-md border transition-all ${runEngine === 'AI_SIMULATION' ? 'bg-indigo-50 border-indigo-500 text-indigo-700 font-medium' : 'bg-slate-50 border-transparent text-slate-500 hover:bg-slate-100'}`}
+                      >
+                        <Wand2 size={14} /> {t('suites.aiSimulation')}
+                      </button>
+                    </div>
+                    {runEngine === 'BROWSER' ? (
+                      <p className="text-xs text-indigo-600 flex items-center gap-1">
+                        <Globe size={12} /> {t('suites.realBrowserHint')}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-amber-600 flex items-center gap-1">
+                        <Wand2 size={12} /> {t('suites.aiSimulationHint')}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {runMode === 'AUTOMATED' && runAppType === 'DESKTOP' && (
                   <p className="text-xs text-indigo-600 mt-2 flex items-center gap-1">
-                    <Wand2 size={12} /> AI가 테스트 실행을 시뮬레이션합니다.
+                    <Wand2 size={12} /> {t('suites.aiSimulationShortHint')}
                   </p>
                 )}
               </div>
 
               <div>
-                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">애플리케이션 유형</label>
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">{t('suites.appType')}</label>
                 <div className="flex space-x-2">
                   <button 
                     onClick={() => setRunAppType('WEB')}
                     className={`flex-1 flex items-center justify-center gap-2 py-3 text-sm rounded-lg border transition-all ${runAppType === 'WEB' ? 'bg-green-50 border-green-500 text-green-700 font-medium' : 'bg-slate-50 border-transparent text-slate-500 hover:bg-slate-100'}`}
                   >
-                    <Globe size={18} /> 웹사이트
+                    <Globe size={18} /> {t('suites.appWeb')}
                   </button>
                   <button 
                       onClick={() => setRunAppType('DESKTOP')}
                       className={`flex-1 flex items-center justify-center gap-2 py-3 text-sm rounded-lg border transition-all ${runAppType === 'DESKTOP' ? 'bg-green-50 border-green-500 text-green-700 font-medium' : 'bg-slate-50 border-transparent text-slate-500 hover:bg-slate-100'}`}
                   >
-                    <Monitor size={18} /> 데스크톱 앱
+                    <Monitor size={18} /> {t('suites.appDesktop')}
                   </button>
                 </div>
               </div>
 
               <div>
                 <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1">
-                  {runAppType === 'WEB' ? '웹사이트 URL' : '파일 주소 / 경로'}
+                  {runAppType === 'WEB' ? t('suites.websiteUrl') : t('suites.filePath')}
                 </label>
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -851,7 +953,7 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
 
               <div>
                 <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-1">
-                  테스트 이메일 / 계정 (선택 사항)
+                  {t('suites.testAccount')}
                 </label>
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -870,7 +972,7 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
               {/* Mock Assets Section */}
               <div className="pt-2 border-t border-slate-100">
                 <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">
-                  테스트 자산 (파일/문서)
+                  {t('suites.testAssets')}
                 </label>
                 <div className="space-y-2">
                    <div 
@@ -886,7 +988,7 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                       />
                       <div className="flex flex-col items-center gap-1 text-slate-500">
                          <FolderOpen size={20} />
-                         <span className="text-xs">시스템에서 파일 선택</span>
+                         <span className="text-xs">{t('suites.pickFiles')}</span>
                       </div>
                    </div>
 
@@ -904,7 +1006,7 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                      </div>
                    )}
                    {runAssets.length === 0 && (
-                     <p className="text-[10px] text-slate-400 italic">선택된 파일이 없습니다. 자동 실행기가 로컬 파일을 볼 수 없습니다.</p>
+                     <p className="text-[10px] text-slate-400 italic">{t('suites.noFiles')}</p>
                    )}
                 </div>
               </div>
@@ -916,14 +1018,14 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
                 onClick={() => setShowRunModal(false)}
                 className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium"
               >
-                취소
+                {t('common.cancel')}
               </button>
               <button 
                 onClick={confirmRun}
                 className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-bold shadow-md hover:shadow-lg transition-all flex items-center gap-2"
               >
                 <Play size={16} /> 
-                {runMode === 'AUTOMATED' ? '자동 실행 시작' : '테스트 시작'}
+                {runMode === 'AUTOMATED' ? t('suites.startAutomated') : t('suites.startManual')}
               </button>
             </div>
           </div>
@@ -933,16 +1035,121 @@ const SuiteManager: React.FC<SuiteManagerProps> = ({ suites, setSuites, onRunSui
   );
 };
 
-const TestCaseCard: React.FC<{ testCase: TestCase; index: number; readOnly?: boolean }> = ({ testCase, index, readOnly }) => {
-  const [expanded, setExpanded] = useState(false);
+interface TestCaseCardProps {
+  testCase: TestCase;
+  index: number;
+  readOnly?: boolean;
+  canDelete?: boolean;
+  startInEditMode?: boolean;
+  isDragging?: boolean;
+  onSave: (updated: TestCase) => void;
+  onCancel?: () => void; // Called when editing is cancelled, e.g. to drop a case that was never saved
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onShowHistory: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+}
+
+const TestCaseCard: React.FC<TestCaseCardProps> = ({
+  testCase,
+  index,
+  readOnly,
+  canDelete,
+  startInEditMode,
+  isDragging,
+  onSave,
+  onCancel,
+  onDelete,
+  onDuplicate,
+  onShowHistory,
+  onDragStart,
+  onDragEnd,
+  onDrop
+}) => {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(!!startInEditMode);
+  const [isEditing, setIsEditing] = useState(!!startInEditMode && !readOnly);
+  const [draft, setDraft] = useState<TestCase>(testCase);
+  const [draggedStepId, setDraggedStepId] = useState<string | null>(null);
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft({ ...testCase, steps: testCase.steps.map(s => ({ ...s })) });
+    setExpanded(true);
+    setIsEditing(true);
+  };
+
+  const cancelEditing = () => {
+    setDraft(testCase);
+    setIsEditing(false);
+    onCancel?.();
+  };
+
+  const saveDraft = () => {
+    if (!draft.title.trim()) return;
+    onSave({ ...draft, title: draft.title.trim() });
+    setIsEditing(false);
+  };
+
+  // --- STEP EDITING (applied to the draft until saved) ---
+  const updateStep = (stepId: string, changes: Partial<TestStep>) => {
+    setDraft(prev => ({ ...prev, steps: prev.steps.map(s => s.id === stepId ? { ...s, ...changes } : s) }));
+  };
+
+  const addStep = () => {
+    setDraft(prev => ({ ...prev, steps: [...prev.steps, { id: crypto.randomUUID(), action: '', expectedResult: '' }] }));
+  };
+
+  const removeStep = (stepId: string) => {
+    setDraft(prev => ({ ...prev, steps: prev.steps.filter(s => s.id !== stepId) }));
+  };
+
+  const duplicateStep = (stepId: string) => {
+    setDraft(prev => {
+      const index = prev.steps.findIndex(s => s.id === stepId);
+      if (index === -1) return prev;
+      const copy = { ...prev.steps[index], id: crypto.randomUUID() };
+      return { ...prev, steps: [...prev.steps.slice(0, index + 1), copy, ...prev.steps.slice(index + 1)] };
+    });
+  };
+
+  const onStepDrop = (targetStepId: string) => {
+    if (draggedStepId && draggedStepId !== targetStepId) {
+      setDraft(prev => ({ ...prev, steps: moveItem(prev.steps, draggedStepId, targetStepId) }));
+    }
+    setDraggedStepId(null);
+  };
+
+  const canDrag = !readOnly && !isEditing;
 
   return (
-    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden hover:shadow-md transition-shadow">
+    <div
+      draggable={canDrag}
+      onDragStart={(e) => {
+        if (!canDrag) return;
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => { if (!readOnly) e.preventDefault(); }}
+      onDrop={(e) => {
+        // Step drops are handled inside the editor
+        if (readOnly || draggedStepId) return;
+        e.preventDefault();
+        onDrop();
+      }}
+      className={`bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden hover:shadow-md transition-shadow group ${isDragging ? 'opacity-40' : ''}`}
+    >
       <div 
         className="p-4 cursor-pointer flex items-center justify-between hover:bg-slate-50"
-        onClick={() => setExpanded(!expanded)}
+        onClick={() => !isEditing && setExpanded(!expanded)}
       >
         <div className="flex items-center gap-3">
+          {canDrag && (
+            <GripVertical size={16} className="text-slate-300 cursor-move flex-shrink-0" />
+          )}
           <span className="bg-slate-100 text-slate-600 text-xs font-mono px-2 py-1 rounded">
             TC-{index + 1}
           </span>
@@ -957,27 +1164,60 @@ const TestCaseCard: React.FC<{ testCase: TestCase; index: number; readOnly?: boo
               }`}>
                 {testCase.priority}
               </span>
-              <span className="text-xs text-slate-400">{testCase.steps.length} 단계</span>
+              <span className="text-xs text-slate-400">{t('suites.stepCount', { count: testCase.steps.length })}</span>
+              <span className="text-xs text-slate-400">v{getCaseVersion(testCase)}</span>
             </div>
           </div>
         </div>
-        <div className="text-slate-400">
+        <div className="flex items-center gap-1 text-slate-400">
+          {!readOnly && !isEditing && (
+            <>
+              <button onClick={startEditing} className="p-1.5 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors" title={t('common.edit')}>
+                <Pencil size={15} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDuplicate(); }}
+                className="p-1.5 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                title={t('suites.duplicate')}
+              >
+                <Copy size={15} />
+              </button>
+            </>
+          )}
+          {!isEditing && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onShowHistory(); }}
+              className="p-1.5 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors"
+              title={t('suites.history')}
+            >
+              <History size={15} />
+            </button>
+          )}
+          {canDelete && !isEditing && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(); }}
+              className="p-1.5 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
+              title={t('common.delete')}
+            >
+              <Trash2 size={15} />
+            </button>
+          )}
           {expanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
         </div>
       </div>
       
-      {expanded && (
+      {expanded && !isEditing && (
         <div className="border-t border-slate-100 bg-slate-50 p-4">
           <p className="text-sm text-slate-600 mb-4 italic">{testCase.description}</p>
           <div className="space-y-3">
             {testCase.steps.map((step, idx) => (
               <div key={step.id} className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm bg-white p-3 rounded border border-slate-200">
                 <div>
-                  <span className="font-semibold text-slate-700 block mb-1">단계 {idx + 1}</span>
+                  <span className="font-semibold text-slate-700 block mb-1">{t('suites.stepNumber', { number: idx + 1 })}</span>
                   <p className="text-slate-600">{step.action}</p>
                 </div>
                 <div>
-                  <span className="font-semibold text-slate-700 block mb-1">예상 결과</span>
+                  <span className="font-semibold text-slate-700 block mb-1">{t('suites.expectedResult')}</span>
                   <p className="text-slate-600">{step.expectedResult}</p>
                 </div>
               </div>
@@ -985,6 +1225,115 @@ const TestCaseCard: React.FC<{ testCase: TestCase; index: number; readOnly?: boo
           </div>
         </div>
       )}
+
+      {isEditing && (
+        <div className="border-t border-slate-100 bg-slate-50 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-3">
+              <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('suites.fieldTitle')}</label>
+              <input
+                autoFocus
+                className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('suites.fieldPriority')}</label>
+              <select
+                className="w-full border border-slate-300 rounded-lg p-2 text-sm bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                value={draft.priority}
+                onChange={(e) => setDraft({ ...draft, priority: e.target.value as TestCase['priority'] })}
+              >
+                <option value="High">High</option>
+                <option value="Medium">Medium</option>
+                <option value="Low">Low</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-[10px] font-semibold text-slate-400 uppercase mb-1 block">{t('suites.fieldDescription')}</label>
+            <textarea
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none min-h-[60px]"
+              value={draft.description || ''}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-semibold text-slate-400 uppercase block">{t('suites.fieldSteps')}</label>
+            {draft.steps.map((step, idx) => (
+              <div
+                key={step.id}
+                draggable
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedStepId(step.id);
+                }}
+                onDragEnd={() => setDraggedStepId(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  onStepDrop(step.id);
+                }}
+                className={`flex gap-2 items-start bg-white p-3 rounded border border-slate-200 ${draggedStepId === step.id ? 'opacity-40' : ''}`}
+              >
+                <div className="flex flex-col items-center gap-1 pt-1">
+                  <GripVertical size={14} className="text-slate-300 cursor-move" />
+                  <span className="text-xs font-semibold text-slate-500">{idx + 1}</span>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 flex-1">
+                  <textarea
+                    className="border border-slate-300 rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none min-h-[56px]"
+                    placeholder={t('suites.stepAction')}
+                    value={step.action}
+                    onChange={(e) => updateStep(step.id, { action: e.target.value })}
+                  />
+                  <textarea
+                    className="border border-slate-300 rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none min-h-[56px]"
+                    placeholder={t('suites.expectedResult')}
+                    value={step.expectedResult}
+                    onChange={(e) => updateStep(step.id, { expectedResult: e.target.value })}
+                  />
+                </div>
+                <div className="flex flex-col gap-1 text-slate-400">
+                  <button onClick={() => duplicateStep(step.id)} className="p-1 hover:text-indigo-600" title={t('suites.duplicateStep')}>
+                    <Copy size={14} />
+                  </button>
+                  <button onClick={() => removeStep(step.id)} className="p-1 hover:text-red-500" title={t('suites.deleteStep')}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={addStep}
+              className="w-full py-2 border border-dashed border-slate-300 rounded text-xs text-slate-500 hover:bg-white hover:text-blue-600 transition-colors flex items-center justify-center gap-1"
+            >
+              <Plus size={14} /> {t('suites.addStep')}
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2 border-t border-slate-200">
+            <button
+              onClick={cancelEditing}
+              className="px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={saveDraft}
+              disabled={!draft.title.trim()}
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium shadow-sm disabled:opacity-50 flex items-center gap-1"
+            >
+              <Save size={14} /> {t('common.save')}
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,583 @@
+import React, { useState, useEffect } from 'react';
+import { LocalizedText, TestPlan, TestPlanEntry, TestSuite, TestRun, Issue, TestCase, User, NotificationInput } from '../types';
+import { Plus, Trash2, Pencil, X, Milestone, CalendarRange, PlayCircle, Rocket, CheckCircle, AlertCircle, ChevronRight, Layers, ShieldCheck, ShieldAlert, UserCheck } from 'lucide-react';
+import { getPlanProgress, getReleaseReadiness, hasActivePlanRuns, getEntryCases, mergePlanEntries } from '../services/testPlans';
+import { formatPassRate } from '../services/runStats';
+import { countPlanAssignments, setCaseAssignment } from '../services/assignments';
+import { msg } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface TestPlansProps {
+  plans: TestPlan[];
+  setPlans: React.Dispatch<React.SetStateAction<TestPlan[]>>;
+  suites: TestSuite[];
+  runs: TestRun[];
+  issues: Issue[];
+  users: User[];
+  onLaunchPlan: (plan: TestPlan) => void;
+  onResumeRun: (run: TestRun) => void;
+  onNotify: (notification: NotificationInput) => void;
+  focusPlanId?: string; // Opened on arrival, e.g. from a notification
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describeTargetDate = (targetDate?: string) => {
+  if (!targetDate) return null;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = Math.round((new Date(`${targetDate}T00:00:00`).getTime() - today.getTime()) / DAY_MS);
+  if (days > 0) return { label: msg('plans.daysLeft', { days }), overdue: false };
+  if (days === 0) return { label: msg('plans.dueToday'), overdue: false };
+  return { label: msg('plans.overdue', { days: -days }), overdue: true };
+};
+
+const TestPlans: React.FC<TestPlansProps> = ({ plans, setPlans, suites, runs, issues, users, onLaunchPlan, onResumeRun, onNotify, focusPlanId }) => {
+  const { t, localize } = useI18n();
+  const [activePlanId, setActivePlanId] = useState<string | null>(plans[0]?.id || null);
+  const [editingPlan, setEditingPlan] = useState<TestPlan | null>(null);
+
+  useEffect(() => {
+    if (focusPlanId) setActivePlanId(focusPlanId);
+  }, [focusPlanId]);
+
+  const activePlan = plans.find(p => p.id === activePlanId) || null;
+
+  const openNewPlan = () => {
+    setEditingPlan({
+      id: crypto.randomUUID(),
+      name: '',
+      description: '',
+      milestone: '',
+      entries: [],
+      createdAt: new Date().toISOString()
+    });
+  };
+
+  const savePlan = (edited: TestPlan) => {
+    const plan = { ...edited, entries: mergePlanEntries(edited.entries) };
+    // Tell each tester about cases newly put on their plate
+    const previous = plans.find(p => p.id === plan.id);
+    const before = previous ? countPlanAssignments(previous, suites) : new Map<string, number>();
+    countPlanAssignments(plan, suites).forEach((count, userId) => {
+      const added = count - (before.get(userId) || 0);
+      if (added > 0) {
+        onNotify({
+          recipientId: userId,
+          type: 'ASSIGNMENT',
+          message: msg('plans.casesAssigned', { plan: plan.name, count: added }),
+          link: { kind: 'PLAN', planId: plan.id }
+        });
+      }
+    });
+
+    setPlans(prev => prev.some(p => p.id === plan.id) ? prev.map(p => p.id === plan.id ? plan : p) : [...prev, plan]);
+    setActivePlanId(plan.id);
+    setEditingPlan(null);
+  };
+
+  const deletePlan = (plan: TestPlan) => {
+    if (confirm(t('plans.confirmDelete', { plan: plan.name }))) {
+      setPlans(prev => prev.filter(p => p.id !== plan.id));
+      if (activePlanId === plan.id) setActivePlanId(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col md:flex-row gap-6">
+      {/* Plan List */}
+      <div className="w-full md:w-1/3 flex flex-col gap-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold text-slate-800">{t('nav.plans')}</h2>
+          <button
+            onClick={openNewPlan}
+            className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
+            title={t('plans.new')}
+          >
+            <Plus size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 overflow-y-auto pr-2">
+          {plans.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-10">{t('plans.empty')}</p>
+          )}
+          {plans.map(plan => {
+            const progress = getPlanProgress(plan, suites, runs);
+            const target = describeTargetDate(plan.targetDate);
+            return (
+              <div
+                key={plan.id}
+                onClick={() => setActivePlanId(plan.id)}
+                className={`p-4 rounded-xl border cursor-pointer transition-all ${
+                  activePlanId === plan.id
+                    ? 'bg-blue-50 border-blue-200 shadow-sm ring-1 ring-blue-200'
+                    : 'bg-white border-slate-200 hover:border-blue-300'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold text-slate-800 truncate flex-1">{plan.name || t('plans.untitled')}</h3>
+                  {plan.milestone && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700 font-bold flex items-center gap-1">
+                      <Milestone size={10} /> {plan.milestone}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between text-xs text-slate-500 mt-1">
+                  <span>{t('plans.scope', { suites: plan.entries.length, cases: progress.totalCases })}</span>
+                  {target && <span className={target.overdue ? 'text-red-500 font-medium' : ''}>{localize(target.label)}</span>}
+                </div>
+                <div className="w-full bg-slate-100 h-1.5 rounded-full overflow-hidden mt-2">
+                  <div className="bg-blue-500 h-full" style={{ width: `${progress.percentComplete}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Plan Detail */}
+      <div className="flex-1 bg-white rounded-xl shadow-sm border border-slate-100 flex flex-col overflow-hidden">
+        {activePlan ? (
+          <PlanDetail
+            plan={activePlan}
+            suites={suites}
+            runs={runs}
+            issues={issues}
+            users={users}
+            onEdit={() => setEditingPlan(activePlan)}
+            onDelete={() => deletePlan(activePlan)}
+            onLaunch={() => onLaunchPlan(activePlan)}
+            onResumeRun={onResumeRun}
+          />
+        ) : (
+          <div className="flex-1 flex flex-col items-center justify-center text-slate-400">
+            <ChevronRight size={48} className="opacity-20 mb-4" />
+            <p>{t('plans.selectPlan')}</p>
+          </div>
+        )}
+      </div>
+
+      {editingPlan && (
+        <PlanEditorModal
+          plan={editingPlan}
+          suites={suites}
+          users={users}
+          onSave={savePlan}
+          onClose={() => setEditingPlan(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+// --- PLAN DETAIL ---
+interface PlanDetailProps {
+  plan: TestPlan;
+  suites: TestSuite[];
+  runs: TestRun[];
+  issues: Issue[];
+  users: User[];
+  onEdit: () => void;
+  onDelete: () => void;
+  onLaunch: () => void;
+  onResumeRun: (run: TestRun) => void;
+}
+
+const PlanDetail: React.FC<PlanDetailProps> = ({ plan, suites, runs, issues, users, onEdit, onDelete, onLaunch, onResumeRun }) => {
+  const { t, localize } = useI18n();
+  const progress = getPlanProgress(plan, suites, runs);
+  const readiness = getReleaseReadiness(plan, progress, issues);
+  const isActive = hasActivePlanRuns(plan, runs);
+  const target = describeTargetDate(plan.targetDate);
+  const executedPassRate = progress.executed > 0 ? (progress.passed / progress.executed) * 100 : 0;
+  const assignmentCounts = Array.from(countPlanAssignments(plan, suites).entries());
+  const getUser = (userId?: string) => users.find(u => u.id === userId);
+
+  return (
+    <>
+      <div className="p-6 border-b border-slate-100 bg-slate-50">
+        <div className="flex justify-between items-start gap-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <h2 className="text-xl font-bold text-slate-800 truncate">{plan.name}</h2>
+              {plan.milestone && (
+                <span className="text-xs px-2 py-0.5 rounded bg-indigo-100 text-indigo-700 font-bold flex items-center gap-1">
+                  <Milestone size={12} /> {plan.milestone}
+                </span>
+              )}
+            </div>
+            {plan.description && <p className="text-sm text-slate-500 mt-1">{plan.description}</p>}
+            <p className="text-xs text-slate-500 mt-2 flex items-center gap-1">
+              <CalendarRange size={12} />
+              {plan.startDate || t('plans.noDate')} ~ {plan.targetDate || t('plans.noDate')}
+              {target && <span className={`ml-1 font-medium ${target.overdue ? 'text-red-500' : 'text-slate-600'}`}>({localize(target.label)})</span>}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button onClick={onEdit} className="p-2 text-slate-500 hover:text-blue-600 hover:bg-white rounded-lg transition-colors" title={t('plans.edit')}>
+              <Pencil size={16} />
+            </button>
+            <button onClick={onDelete} className="p-2 text-slate-500 hover:text-red-600 hover:bg-white rounded-lg transition-colors" title={t('plans.delete')}>
+              <Trash2 size={16} />
+            </button>
+            <button
+              onClick={onLaunch}
+              disabled={isActive || plan.entries.length === 0}
+              title={isActive ? t('plans.activeRunsHint') : undefined}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium shadow-sm disabled:opacity-50"
+            >
+              <Rocket size={16} /> {plan.lastLaunchedAt ? t('plans.relaunch') : t('plans.launch')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {/* Aggregated Progress */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="bg-slate-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-slate-400 uppercase font-bold">{t('plans.progress')}</p>
+            <p className="text-lg font-bold text-slate-800">{formatPassRate(progress.percentComplete)}%</p>
+            <p className="text-[10px] text-slate-400">{t('plans.casesDone', { done: progress.executed, total: progress.totalCases })}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-green-600 uppercase font-bold">{t('status.PASSED')}</p>
+            <p className="text-lg font-bold text-green-700">{progress.passed}</p>
+            <p className="text-[10px] text-green-600">{formatPassRate(executedPassRate)}%</p>
+          </div>
+          <div className="bg-red-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-red-600 uppercase font-bold">{t('status.FAILED')}</p>
+            <p className="text-lg font-bold text-red-700">{progress.failed}</p>
+          </div>
+          <div className="bg-amber-50 rounded-lg p-3 text-center">
+            <p className="text-[10px] text-amber-600 uppercase font-bold">{t('status.SKIPPED')}</p>
+            <p className="text-lg font-bold text-amber-700">{progress.skipped}</p>
+          </div>
+        </div>
+
+        {/* Release Readiness Report */}
+        <div className={`p-4 rounded-xl border ${readiness.ready ? 'bg-green-50 border-green-100' : 'bg-red-50 border-red-100'}`}>
+          <p className={`font-bold flex items-center gap-2 ${readiness.ready ? 'text-green-700' : 'text-red-700'}`}>
+            {readiness.ready ? <CheckCircle size={18} /> : <AlertCircle size={18} />}
+            {t(readiness.ready ? 'plans.releaseReady' : 'plans.releaseNotReady', { release: plan.milestone || plan.name })}
+          </p>
+          {readiness.blockers.length > 0 && (
+            <ul className="mt-2 ml-7 list-disc text-sm text-red-700 space-y-0.5">
+              {readiness.blockers.map((blocker: LocalizedText, idx: number) => <li key={idx}>{localize(blocker)}</li>)}
+            </ul>
+          )}
+        </div>
+
+        {/* Assignments */}
+        {assignmentCounts.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">{t('plans.assignments')}</h3>
+            <div className="flex flex-wrap gap-2">
+              {assignmentCounts.map(([userId, count]) => {
+                const user = getUser(userId);
+                return (
+                  <span key={userId} className="text-xs bg-slate-100 text-slate-700 px-2.5 py-1 rounded-full">
+                    {user ? `${user.avatar} ${user.name}` : t('plans.unknownUser')} · {t('plans.assignedCount', { count })}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Entries */}
+        <div>
+          <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">{t('plans.suites')}</h3>
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {progress.entries.length === 0 && (
+              <p className="p-6 text-center text-sm text-slate-400">{t('plans.noSuites')}</p>
+            )}
+            {progress.entries.map(({ entry, suite, cases, run, executed, verdict }) => (
+              <div key={entry.suiteId} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-800 text-sm flex items-center gap-2">
+                    <Layers size={14} className="text-slate-400" />
+                    {suite ? suite.name : <span className="italic text-slate-400">{t('issues.deletedSuite')}</span>}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-0.5 flex items-center gap-2">
+                    {entry.caseIds
+                      ? t('plans.selectedCases', { selected: cases.length, total: suite?.cases.length ?? 0 })
+                      : t('plans.allCasesCount', { count: cases.length })}
+                    {getUser(entry.assigneeId) && (
+                      <span className="flex items-center gap-1"><UserCheck size={10} /> {getUser(entry.assigneeId)!.avatar} {getUser(entry.assigneeId)!.name}</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  {/* Launching skips entries whose cases were all deleted, and their open runs can't be resumed */}
+                  {cases.length === 0 && <span className="text-xs text-amber-600">{t('plans.entryNoCases')}</span>}
+                  {cases.length > 0 && !run && <span className="text-xs text-slate-400">{t('plans.notRun')}</span>}
+                  {cases.length > 0 && run?.status === 'IN_PROGRESS' && (
+                    <>
+                      <span className="text-xs text-blue-600 font-medium">{t('plans.inProgress', { done: executed, total: cases.length })}</span>
+                      <button
+                        onClick={() => onResumeRun(run)}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg transition-colors"
+                      >
+                        <PlayCircle size={14} /> {executed > 0 ? t('dashboard.resume') : t('plans.startRun')}
+                      </button>
+                    </>
+                  )}
+                  {run?.status === 'COMPLETED' && verdict && (
+                    <span className={`text-xs font-bold flex items-center gap-1 ${verdict.passed ? 'text-green-600' : 'text-red-500'}`}>
+                      {verdict.passed ? <ShieldCheck size={14} /> : <ShieldAlert size={14} />}
+                      {formatPassRate(verdict.passRate)}% {verdict.passed ? 'PASS' : 'FAIL'}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+// --- PLAN EDITOR MODAL ---
+interface PlanEditorModalProps {
+  plan: TestPlan;
+  suites: TestSuite[];
+  users: User[];
+  onSave: (plan: TestPlan) => void;
+  onClose: () => void;
+}
+
+const PlanEditorModal: React.FC<PlanEditorModalProps> = ({ plan, suites, users, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<TestPlan>(plan);
+  const [suiteToAdd, setSuiteToAdd] = useState('');
+  const [assigningSuiteId, setAssigningSuiteId] = useState<string | null>(null);
+
+  const availableSuites = suites.filter(s => !draft.entries.some(e => e.suiteId === s.id));
+  const datesValid = !draft.startDate || !draft.targetDate || draft.startDate <= draft.targetDate;
+
+  const updateEntry = (suiteId: string, changes: Partial<TestPlanEntry>) => {
+    setDraft({ ...draft, entries: draft.entries.map(e => e.suiteId === suiteId ? { ...e, ...changes } : e) });
+  };
+
+  const addEntry = () => {
+    if (!suiteToAdd) return;
+    setDraft({ ...draft, entries: [...draft.entries, { suiteId: suiteToAdd }] });
+    setSuiteToAdd('');
+  };
+
+  const toggleCase = (entry: TestPlanEntry, suite: TestSuite, caseId: string) => {
+    const selected = entry.caseIds || suite.cases.map(c => c.id);
+    const next = selected.includes(caseId) ? selected.filter(id => id !== caseId) : [...selected, caseId];
+    updateEntry(entry.suiteId, { caseIds: next });
+  };
+
+  const assignCase = (suiteId: string, caseId: string, userId: string) => {
+    setDraft({ ...draft, assignments: setCaseAssignment(draft.assignments, suiteId, caseId, userId || undefined) });
+  };
+
+  const selectByPriority = (entry: TestPlanEntry, suite: TestSuite, priority: TestCase['priority']) => {
+    updateEntry(entry.suiteId, { caseIds: suite.cases.filter(c => c.priority === priority).map(c => c.id) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl p-6 flex flex-col max-h-[90vh] animate-fade-in-up">
+        <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Milestone className="text-indigo-600" size={20} />
+            {plan.name ? t('plans.edit') : t('plans.newTitle')}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 flex-1 overflow-y-auto pr-1">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('plans.name')}</label>
+              <input
+                autoFocus
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={t('plans.namePlaceholder')}
+                className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('plans.milestone')}</label>
+              <input
+                value={draft.milestone}
+                onChange={(e) => setDraft({ ...draft, milestone: e.target.value })}
+                placeholder={t('plans.milestonePlaceholder')}
+                className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('plans.startDate')}</label>
+              <input
+                type="date"
+                value={draft.startDate || ''}
+                onChange={(e) => setDraft({ ...draft, startDate: e.target.value || undefined })}
+                className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('plans.targetDate')}</label>
+              <input
+                type="date"
+                value={draft.targetDate || ''}
+                onChange={(e) => setDraft({ ...draft, targetDate: e.target.value || undefined })}
+                className={`w-full border rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none ${datesValid ? 'border-slate-300' : 'border-red-300'}`}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('plans.description')}</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none resize-none h-16"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">{t('plans.scopeLabel')}</label>
+            <div className="space-y-3">
+              {draft.entries.map(entry => {
+                const suite = suites.find(s => s.id === entry.suiteId);
+                return (
+                  <div key={entry.suiteId} className="border border-slate-200 rounded-lg p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium text-sm text-slate-800">{suite ? suite.name : <span className="italic text-slate-400">{t('issues.deletedSuite')}</span>}</p>
+                      <div className="flex items-center gap-2">
+                        {suite && (
+                          <select
+                            value={entry.caseIds ? 'SUBSET' : 'ALL'}
+                            onChange={(e) => updateEntry(entry.suiteId, { caseIds: e.target.value === 'ALL' ? undefined : suite.cases.map(c => c.id) })}
+                            className="text-xs border border-slate-200 rounded px-2 py-1 bg-white"
+                          >
+                            <option value="ALL">{t('plans.allCases')}</option>
+                            <option value="SUBSET">{t('plans.someCases')}</option>
+                          </select>
+                        )}
+                        <button
+                          onClick={() => setDraft({ ...draft, entries: draft.entries.filter(e => e.suiteId !== entry.suiteId) })}
+                          className="p-1 text-slate-400 hover:text-red-500"
+                          title={t('plans.removeSuite')}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    {suite && (
+                      <div className="flex items-center gap-2 mt-2 text-xs">
+                        <UserCheck size={12} className="text-slate-400" />
+                        <select
+                          value={entry.assigneeId || ''}
+                          onChange={(e) => updateEntry(entry.suiteId, { assigneeId: e.target.value || undefined })}
+                          className="border border-slate-200 rounded px-2 py-1 bg-white"
+                        >
+                          <option value="">{t('plans.noAssignee')}</option>
+                          {users.map(u => <option key={u.id} value={u.id}>{u.avatar} {u.name}</option>)}
+                        </select>
+                        <button
+                          onClick={() => setAssigningSuiteId(assigningSuiteId === entry.suiteId ? null : entry.suiteId)}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {assigningSuiteId === entry.suiteId ? t('plans.closeCaseAssignment') : t('plans.assignByCase')}
+                        </button>
+                      </div>
+                    )}
+                    {suite && assigningSuiteId === entry.suiteId && (
+                      <div className="mt-2 max-h-40 overflow-y-auto space-y-1 bg-slate-50 rounded p-2">
+                        {getEntryCases(entry, suite).map(c => (
+                          <div key={c.id} className="flex items-center gap-2 text-sm text-slate-700">
+                            <span className="truncate flex-1">{c.title}</span>
+                            <select
+                              value={draft.assignments?.find(a => a.suiteId === suite.id && a.caseId === c.id)?.userId || ''}
+                              onChange={(e) => assignCase(suite.id, c.id, e.target.value)}
+                              className="text-xs border border-slate-200 rounded px-1 py-0.5 bg-white"
+                            >
+                              <option value="">{t('plans.suiteAssignee')}</option>
+                              {users.map(u => <option key={u.id} value={u.id}>{u.avatar} {u.name}</option>)}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {suite && entry.caseIds && assigningSuiteId !== entry.suiteId && (
+                      <div className="mt-2">
+                        <div className="flex items-center gap-1 text-xs text-slate-500 mb-2">
+                          {t('plans.selectByPriority')}
+                          {(['High', 'Medium', 'Low'] as TestCase['priority'][]).map(p => (
+                            <button key={p} onClick={() => selectByPriority(entry, suite, p)} className="px-2 py-0.5 rounded bg-slate-100 hover:bg-slate-200 text-slate-600">
+                              {t(`priority.${p}`)}
+                            </button>
+                          ))}
+                          <span className="ml-auto">{getEntryCases(entry, suite).length} / {suite.cases.length}</span>
+                        </div>
+                        <div className="max-h-40 overflow-y-auto space-y-1">
+                          {suite.cases.map(c => (
+                            <label key={c.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                className="accent-blue-600"
+                                checked={entry.caseIds!.includes(c.id)}
+                                onChange={() => toggleCase(entry, suite, c.id)}
+                              />
+                              <span className="truncate">{c.title}</span>
+                              <span className="text-[10px] text-slate-400">{t(`priority.${c.priority as TestCase['priority']}`)}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              <div className="flex gap-2">
+                <select
+                  value={suiteToAdd}
+                  onChange={(e) => setSuiteToAdd(e.target.value)}
+                  className="flex-1 text-sm border border-slate-300 rounded-lg p-2 bg-white"
+                >
+                  <option value="">{t('plans.selectSuite')}</option>
+                  {availableSuites.map(s => (
+                    <option key={s.id} value={s.id}>{s.name} ({s.cases.length})</option>
+                  ))}
+                </select>
+                <button
+                  onClick={addEntry}
+                  disabled={!suiteToAdd}
+                  className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+                >
+                  <Plus size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!draft.name.trim() || !datesValid}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestPlans;
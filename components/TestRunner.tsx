@@ -1,37 +1,84 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { TestSuite, TestRun, TestResult, TestStatus, TestCase } from '../types';
-import { CheckCircle, XCircle, SkipForward, ArrowRight, ArrowLeft, Save, AlertOctagon, Monitor, Globe, Mail, Bot, Loader2, PlayCircle, PauseCircle, FileSpreadsheet, FolderOpen } from 'lucide-react';
+import { TestSuite, TestRun, TestResult, TestStatus, TestCase, StepResult, StepAttachment, Issue, IssuePriority, User } from '../types';
+import { CheckCircle, XCircle, SkipForward, ArrowRight, ArrowLeft, Save, AlertOctagon, Monitor, Globe, Mail, Bot, Loader2, PlayCircle, PauseCircle, FileSpreadsheet, FolderOpen, Paperclip, X, Bug, Link2 } from 'lucide-react';
 import { simulateTestExecution } from '../services/geminiService';
+import { LlmSettings } from '../services/llm';
+import { resolveAiLanguage } from '../services/aiPrompts';
+import { executeTestCase } from '../services/executorService';
+import { deriveCaseStatus, getFailedStepIndex, stepResultsFromOutcome, upsertStepResult } from '../services/stepResults';
+import { IssueDraft, buildFailureIssueDraft, getLinkedIssues, isOpenIssue } from '../services/issueLinks';
+import { canOnSuite } from '../services/permissions';
+import { getCaseVersion } from '../services/caseVersions';
+import { csvCell } from '../services/csv';
+import { msg } from '../services/i18n';
+import { downloadCsv, toFileName } from '../services/download';
+import { BlobStore, isQuotaExceeded } from '../services/storage';
+import ResultSourceBadge from './ResultSourceBadge';
+import { StoredScreenshot, useBlobUrl } from './StoredBlob';
+import { useI18n } from './I18nProvider';
+
+const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024; // Read into memory as data: URLs before they are stored
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
 
 interface TestRunnerProps {
   suite: TestSuite;
+  resumeRun?: TestRun; // In-progress run to continue instead of starting a new one
+  issues: Issue[];
+  users: User[];
+  currentUser: User;
+  llm: LlmSettings; // Model for AI simulation
+  blobs: BlobStore; // Where screenshots and attachments are kept instead of the run
+  onCreateIssue: (draft: IssueDraft) => void;
+  onProgress: (run: TestRun) => void;
   onComplete: (run: TestRun) => void;
   onCancel: () => void;
 }
 
-const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel }) => {
+const TestRunner: React.FC<TestRunnerProps> = ({ suite, resumeRun, issues, users, currentUser, llm, blobs, onCreateIssue, onProgress, onComplete, onCancel }) => {
+  const i18n = useI18n();
+  const { t, localize } = i18n;
   const [currentCaseIndex, setCurrentCaseIndex] = useState(0);
   const [results, setResults] = useState<Record<string, TestResult>>({});
-  const [startTime] = useState(new Date().toISOString());
+  const [runId] = useState(resumeRun?.id || crypto.randomUUID());
+  const [startTime] = useState(resumeRun?.startTime || new Date().toISOString());
   const [isAutoRunning, setIsAutoRunning] = useState(false);
   const [simulatedLogs, setSimulatedLogs] = useState<Record<string, string>>({});
+  const [issueDraft, setIssueDraft] = useState<IssueDraft | null>(null);
   
-  const currentCase = suite.cases[currentCaseIndex];
+  const currentCase: TestCase | undefined = suite.cases[currentCaseIndex];
   const isLastCase = currentCaseIndex === suite.cases.length - 1;
   const isAutomatedMode = suite.targetConfig?.executionMode === 'AUTOMATED';
+  // Web runs go to the real browser executor unless AI simulation was explicitly chosen
+  const usesBrowserEngine = isAutomatedMode && suite.targetConfig?.appType === 'WEB' && suite.targetConfig?.automationEngine !== 'AI_SIMULATION';
   const autoRunRef = useRef(false);
 
-  // Initialize results if empty
+  // Issues already filed against the current case, from this or earlier runs
+  const linkedIssues = currentCase ? getLinkedIssues(issues, suite.id, currentCase.id) : [];
+  const openLinkedIssues = linkedIssues.filter(isOpenIssue);
+  const issueFromThisRun = linkedIssues.find(i => i.linkedCases?.some(l => l.caseId === currentCase?.id && l.runId === runId));
+
+  // Initialize results, carrying over whatever a resumed run already recorded
   useEffect(() => {
     const initialResults: Record<string, TestResult> = {};
     suite.cases.forEach(c => {
-      initialResults[c.id] = {
+      initialResults[c.id] = resumeRun?.results[c.id] || {
         caseId: c.id,
+        caseVersion: getCaseVersion(c),
         status: 'IDLE',
         timestamp: new Date().toISOString()
       };
     });
     setResults(initialResults);
+
+    // Continue from the first case that has no verdict yet
+    const firstUnfinished = suite.cases.findIndex(c => initialResults[c.id].status === 'IDLE');
+    setCurrentCaseIndex(firstUnfinished === -1 ? Math.max(0, suite.cases.length - 1) : firstUnfinished);
     
     // Start automation if mode is AUTOMATED
     if (isAutomatedMode) {
@@ -40,9 +87,26 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
     }
   }, [suite, isAutomatedMode]);
 
+  // Save progress as it happens so closing the runner or the page loses nothing.
+  // Nothing is stored until the first verdict, so an untouched run leaves no trace.
+  useEffect(() => {
+    const hasProgress = (Object.values(results) as TestResult[]).some(r => r.status !== 'IDLE' || r.notes || r.stepResults?.length);
+    if (!hasProgress) return;
+    onProgress({
+      ...resumeRun,
+      id: runId,
+      suiteId: suite.id,
+      suiteName: suite.name,
+      startTime,
+      status: 'IN_PROGRESS',
+      results,
+      executedBy: resumeRun?.executedBy || currentUser.id
+    });
+  }, [results]);
+
   // Automated Execution Logic
   useEffect(() => {
-    if (!isAutomatedMode || !isAutoRunning) return;
+    if (!isAutomatedMode || !isAutoRunning || !currentCase) return;
     
     // Check if current case is already processed
     if (results[currentCase.id]?.status !== 'IDLE') {
@@ -58,6 +122,37 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
        return;
     }
 
+    const runBrowserExecution = async () => {
+      const result = await executeTestCase(currentCase, {
+        appAddress: suite.targetConfig?.appAddress || '',
+        testEmail: suite.targetConfig?.testEmail
+      });
+
+      // Screenshots go to the blob store; a run that can't keep them keeps its verdict and log
+      let screenshots: string[] = [];
+      let executionLog = result.log;
+      try {
+        screenshots = await Promise.all(result.screenshots.map(s => blobs.put(s)));
+      } catch (error) {
+        console.error('Failed to store screenshots:', error);
+        executionLog = [result.log, `[runner] screenshots not kept: ${error instanceof Error ? error.message : String(error)}`].filter(Boolean).join('\n');
+      }
+
+      setSimulatedLogs(prev => ({
+        ...prev,
+        [currentCase.id]: executionLog || localize(result.summary)
+      }));
+
+      handleStatus(result.status, {
+        source: 'EXECUTOR',
+        summary: result.summary,
+        executionLog,
+        screenshots,
+        stepResults: result.stepResults,
+        failedStepIndex: result.failedStepIndex
+      });
+    };
+
     const runSimulation = async () => {
       try {
         let contextInfo = `${suite.targetConfig?.appType || 'App'} at ${suite.targetConfig?.appAddress || 'Loc'} using ${suite.targetConfig?.testEmail || 'default user'}`;
@@ -67,30 +162,63 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
            contextInfo += `\n[Virtual File System] Available Files: ${suite.targetConfig.mockAssets.join(', ')}`;
         }
 
-        const result = await simulateTestExecution(currentCase, contextInfo);
+        const result = await simulateTestExecution(llm, resolveAiLanguage(suite, llm.language), currentCase, contextInfo);
         
         setSimulatedLogs(prev => ({
           ...prev,
-          [currentCase.id]: result.notes
+          [currentCase.id]: result.notes || (result.summary ? localize(result.summary) : '')
         }));
 
-        handleStatus(result.status, result.notes);
+        handleStatus(result.status, {
+          source: 'AI_SIMULATED',
+          aiLog: result.notes || undefined,
+          summary: result.summary,
+          stepResults: stepResultsFromOutcome(currentCase, result.status, result.failedStepIndex, result.failureReason),
+          failedStepIndex: result.failedStepIndex
+        });
       } catch (error) {
-        handleStatus('SKIPPED', 'Automation execution failed.');
+        handleStatus('SKIPPED', { source: 'AI_SIMULATED', summary: msg('runner.simulationFailed') });
       }
     };
 
-    runSimulation();
+    if (usesBrowserEngine) {
+      runBrowserExecution();
+    } else {
+      runSimulation();
+    }
+
+  }, [currentCaseIndex, isAutoRunning, isAutomatedMode, usesBrowserEngine, results, currentCase, isLastCase, suite]);
 
-  }, [currentCaseIndex, isAutoRunning, isAutomatedMode, results, currentCase, isLastCase, suite]);
+  // A suite scoped to cases that were all deleted since leaves nothing to run
+  if (!currentCase) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-4 bg-white rounded-xl shadow-sm border border-slate-100 p-8 text-center">
+        <p className="text-slate-500">{t('runner.noCases')}</p>
+        <button
+          onClick={onCancel}
+          className="text-sm bg-slate-800 hover:bg-slate-700 text-white px-4 py-2 rounded transition-colors"
+        >
+          {t('runner.exit')}
+        </button>
+      </div>
+    );
+  }
 
-  const handleStatus = (status: TestStatus, notes?: string) => {
+  const handleStatus = (status: TestStatus, details?: Pick<TestResult, 'source' | 'notes' | 'summary' | 'aiLog' | 'executionLog' | 'screenshots' | 'stepResults' | 'failedStepIndex'>) => {
     const updatedResults = {
       ...results,
       [currentCase.id]: {
         ...results[currentCase.id],
+        caseVersion: getCaseVersion(currentCase),
         status,
-        notes: notes || results[currentCase.id].notes, // Save notes if provided
+        source: details?.source || 'MANUAL',
+        notes: details?.notes || results[currentCase.id].notes, // Save notes if provided
+        summary: details?.summary || results[currentCase.id].summary,
+        aiLog: details?.aiLog || results[currentCase.id].aiLog,
+        executionLog: details?.executionLog || results[currentCase.id].executionLog,
+        screenshots: details?.screenshots || results[currentCase.id].screenshots,
+        stepResults: details?.stepResults || results[currentCase.id].stepResults,
+        failedStepIndex: details?.failedStepIndex,
         timestamp: new Date().toISOString()
       }
     };
@@ -102,49 +230,148 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
     }
   };
 
+  // --- MANUAL STEP MARKING ---
+  const applyStepResults = (stepResults: StepResult[]) => {
+    const previous = results[currentCase.id];
+    const status = deriveCaseStatus(currentCase, stepResults);
+    setResults({
+      ...results,
+      [currentCase.id]: {
+        ...previous,
+        caseVersion: getCaseVersion(currentCase),
+        status,
+        source: 'MANUAL',
+        stepResults,
+        failedStepIndex: getFailedStepIndex(currentCase, stepResults),
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    // Failed cases stay open so the tester can describe the actual result
+    if (status !== previous.status && (status === 'PASSED' || status === 'SKIPPED') && !isLastCase) {
+      setTimeout(() => setCurrentCaseIndex(prev => prev + 1), 200);
+    }
+  };
+
+  const updateStepResult = (stepId: string, changes: Partial<Omit<StepResult, 'stepId'>>) => {
+    applyStepResults(upsertStepResult(results[currentCase.id]?.stepResults, stepId, changes));
+  };
+
+  const toggleStepStatus = (stepId: string, status: TestStatus) => {
+    const current = results[currentCase.id]?.stepResults?.find(r => r.stepId === stepId)?.status;
+    updateStepResult(stepId, { status: current === status ? 'IDLE' : status });
+  };
+
+  // Marks every step that has no verdict yet; cases without steps take the status directly
+  const markRemainingSteps = (status: TestStatus) => {
+    if (currentCase.steps.length === 0) {
+      handleStatus(status);
+      return;
+    }
+    const existing = results[currentCase.id]?.stepResults || [];
+    const stepResults = currentCase.steps.reduce((acc, step) => {
+      const stepStatus = acc.find(r => r.stepId === step.id)?.status || 'IDLE';
+      return stepStatus === 'IDLE' ? upsertStepResult(acc, step.id, { status }) : acc;
+    }, existing);
+    applyStepResults(stepResults);
+  };
+
+  const handleAttach = async (stepId: string, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const tooLarge = Array.from(files).filter(f => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooLarge.length > 0) {
+      alert(t('runner.attachmentTooLarge', { files: tooLarge.map(f => f.name).join(', ') }));
+    }
+    const accepted = Array.from(files).filter(f => f.size <= MAX_ATTACHMENT_BYTES);
+    let attachments: StepAttachment[];
+    try {
+      attachments = await Promise.all(accepted.map(async f => ({
+        name: f.name,
+        type: f.type,
+        blob: await blobs.put(await readAsDataUrl(f))
+      })));
+    } catch (error) {
+      console.error('Failed to store attachments:', error);
+      alert(t(isQuotaExceeded(error) ? 'runner.attachmentStorageFull' : 'runner.attachmentNotStored'));
+      return;
+    }
+    const existing = results[currentCase.id]?.stepResults?.find(r => r.stepId === stepId)?.attachments || [];
+    updateStepResult(stepId, { attachments: [...existing, ...attachments] });
+  };
+
+  const removeAttachment = (stepId: string, index: number) => {
+    const existing = results[currentCase.id]?.stepResults?.find(r => r.stepId === stepId)?.attachments || [];
+    updateStepResult(stepId, { attachments: existing.filter((_, i) => i !== index) });
+    if (existing[index]) {
+      blobs.remove(existing[index].blob).catch(error => console.error('Failed to delete attachment:', error));
+    }
+  };
+
+  const updateCaseNotes = (notes: string) => {
+    setResults({
+      ...results,
+      [currentCase.id]: { ...results[currentCase.id], notes }
+    });
+  };
+
   const handleFinish = () => {
     const run: TestRun = {
-      id: crypto.randomUUID(),
+      ...resumeRun,
+      id: runId,
       suiteId: suite.id,
       suiteName: suite.name,
       startTime,
       endTime: new Date().toISOString(),
       status: 'COMPLETED',
-      results
+      results,
+      executedBy: resumeRun?.executedBy || currentUser.id
     };
     onComplete(run);
   };
 
   const exportResults = () => {
     // CSV Header
-    const headers = ['Test Case ID', 'Title', 'Priority', 'Status', 'Execution Notes/Logs'];
+    const headers = ['Test Case ID', 'Row Type', 'Step', 'Title / Action', 'Expected Result', 'Priority', 'Status', 'Source', 'Execution Notes / Actual Result'];
     
-    // CSV Rows
-    const rows = suite.cases.map(c => {
+    // CSV Rows: one CASE row followed by a STEP row per step
+    const rows = suite.cases.flatMap(c => {
       const result = results[c.id];
       const status = result?.status || 'SKIPPED';
-      const notes = result?.notes ? result.notes.replace(/"/g, '""') : ''; // Escape quotes for CSV
+      const notes = [result?.summary && localize(result.summary), result?.notes, result?.aiLog, result?.executionLog].filter(Boolean).join('\n');
       
-      return [
-        `"${c.id}"`,
-        `"${c.title.replace(/"/g, '""')}"`,
+      const caseRow = [
+        csvCell(c.id),
+        'CASE',
+        '',
+        csvCell(c.title),
+        '',
         c.priority,
         status,
-        `"${notes}"`
+        result?.source || '',
+        csvCell(notes)
       ].join(',');
+
+      const stepRows = c.steps.map((step, idx) => {
+        const stepResult = result?.stepResults?.find(r => r.stepId === step.id);
+        const attachmentNames = stepResult?.attachments?.map(a => t('runner.attachmentTag', { name: a.name })) || [];
+        return [
+          csvCell(c.id),
+          'STEP',
+          idx + 1,
+          csvCell(step.action),
+          csvCell(step.expectedResult),
+          '',
+          stepResult?.status || 'IDLE',
+          '',
+          csvCell([stepResult?.actualResult, ...attachmentNames].filter(Boolean).join('\n'))
+        ].join(',');
+      });
+
+      return [caseRow, ...stepRows];
     });
 
     const csvContent = [headers.join(','), ...rows].join('\n');
-    
-    // Add BOM for UTF-8 support in Excel (Critical for Korean)
-    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `${suite.name.replace(/\s+/g, '_')}_Results.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(`${toFileName(suite.name)}_Results.csv`, csvContent);
   };
 
   const progress = ((currentCaseIndex) / suite.cases.length) * 100;
@@ -155,11 +382,15 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
       <div className="bg-slate-800 text-white p-4 flex justify-between items-center">
         <div>
           <h2 className="text-lg font-semibold flex items-center gap-2">
-            실행 중: {suite.name}
-            {isAutomatedMode && <span className="text-xs bg-indigo-500 px-2 py-0.5 rounded-full flex items-center gap-1"><Bot size={12} /> 자동</span>}
+            {t('runner.running', { suite: suite.name })}
+            {isAutomatedMode && (
+              <span className="text-xs bg-indigo-500 px-2 py-0.5 rounded-full flex items-center gap-1">
+                {usesBrowserEngine ? <Globe size={12} /> : <Bot size={12} />} {usesBrowserEngine ? t('runner.browserEngine') : t('runner.aiSimulation')}
+              </span>
+            )}
           </h2>
           <div className="flex items-center gap-3 text-xs text-slate-400 mt-1">
-             <span>케이스 {currentCaseIndex + 1} / {suite.cases.length}</span>
+             <span>{t('runner.caseProgress', { current: currentCaseIndex + 1, total: suite.cases.length })}</span>
              {suite.targetConfig && (
                <>
                  <span className="w-1 h-1 bg-slate-500 rounded-full" />
@@ -173,16 +404,20 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
                    </span>
                  )}
                  {suite.targetConfig.mockAssets && suite.targetConfig.mockAssets.length > 0 && (
-                   <span className="hidden md:flex items-center gap-1 text-amber-300" title={`가상 자산: ${suite.targetConfig.mockAssets.join(', ')}`}>
-                     (<FolderOpen size={10} /> {suite.targetConfig.mockAssets.length} 파일)
+                   <span className="hidden md:flex items-center gap-1 text-amber-300" title={t('runner.mockAssets', { files: suite.targetConfig.mockAssets.join(', ') })}>
+                     (<FolderOpen size={10} /> {t('runner.fileCount', { count: suite.targetConfig.mockAssets.length })})
                    </span>
                  )}
                </>
              )}
           </div>
         </div>
-        <button onClick={onCancel} className="text-sm bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded transition-colors">
-          실행 종료
+        <button
+          onClick={onCancel}
+          title={t('runner.exitHint')}
+          className="text-sm bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded transition-colors"
+        >
+          {t('runner.exit')}
         </button>
       </div>
 
@@ -213,7 +448,17 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
                   {isRunning && <Loader2 size={12} className="animate-spin text-indigo-500" />}
                   <span className={`truncate font-medium ${isRunning ? 'text-indigo-600' : ''}`}>{idx + 1}. {c.title}</span>
                 </div>
-                {!isRunning && <StatusIcon status={status} size={16} />}
+                {!isRunning && (
+                  <div className="flex items-center gap-1">
+                    {getLinkedIssues(issues, suite.id, c.id).some(isOpenIssue) && (
+                      <span title={getLinkedIssues(issues, suite.id, c.id).filter(isOpenIssue).map(i => `${i.key} ${i.title}`).join('\n')}>
+                        <Bug size={14} className="text-purple-500" />
+                      </span>
+                    )}
+                    {results[c.id]?.source === 'AI_SIMULATED' && <ResultSourceBadge source="AI_SIMULATED" compact />}
+                    <StatusIcon status={status} size={16} />
+                  </div>
+                )}
               </div>
             );
           })}
@@ -229,7 +474,7 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
                  currentCase.priority === 'Low' ? 'bg-blue-100 text-blue-700' :
                  'bg-slate-100 text-slate-500'
                }`}>
-                 우선순위: {currentCase.priority}
+                 {t('runner.priority', { priority: currentCase.priority })}
                </span>
                <span className={`text-xs px-2 py-1 rounded font-bold uppercase ${
                   results[currentCase.id]?.status === 'PASSED' ? 'text-green-600 bg-green-50' :
@@ -237,48 +482,174 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
                   results[currentCase.id]?.status === 'SKIPPED' ? 'text-amber-600 bg-amber-50' :
                   'text-slate-400 bg-slate-50'
                }`}>
-                 {results[currentCase.id]?.status || (isAutomatedMode ? '실행 중...' : '대기 중')}
+                 {results[currentCase.id]?.status || (isAutomatedMode ? t('runner.statusRunning') : t('runner.statusWaiting'))}
                </span>
+               {results[currentCase.id]?.status !== 'IDLE' && <ResultSourceBadge source={results[currentCase.id]?.source} />}
+               {results[currentCase.id]?.status === 'FAILED' && (
+                 issueFromThisRun ? (
+                   <span className="text-xs px-2 py-1 rounded font-medium bg-purple-50 text-purple-700 flex items-center gap-1">
+                     <Link2 size={12} /> {t('runner.issueCreated', { key: issueFromThisRun.key })}
+                   </span>
+                 ) : canOnSuite(currentUser, suite, 'issue.create') && (
+                   <button
+                     onClick={() => setIssueDraft(buildFailureIssueDraft(suite, currentCase, results[currentCase.id], runId, i18n))}
+                     className="text-xs px-2 py-1 rounded font-medium bg-purple-600 hover:bg-purple-700 text-white flex items-center gap-1 transition-colors"
+                   >
+                     <Bug size={12} /> {t('runner.createIssue')}
+                   </button>
+                 )
+               )}
             </div>
             <h1 className="text-2xl font-bold text-slate-900">{currentCase.title}</h1>
             <p className="text-slate-500 mt-2">{currentCase.description}</p>
+            {openLinkedIssues.length > 0 && (
+              <div className="mt-4 p-3 bg-purple-50 border border-purple-100 rounded-lg text-sm">
+                <p className="font-medium text-purple-800 flex items-center gap-2">
+                  <Bug size={16} /> {t('runner.openIssues')}
+                </p>
+                <ul className="mt-1 ml-6 space-y-0.5 text-purple-700">
+                  {openLinkedIssues.map(issue => (
+                    <li key={issue.id}>
+                      <span className="font-mono text-xs">{issue.key}</span> {issue.title}
+                      <span className="text-xs text-purple-400 ml-1">({t(`issueStatus.${issue.status}`)})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           <div className="space-y-6 flex-1">
              <div className="bg-slate-50 rounded-xl border border-slate-200 p-6">
-               <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4">실행 단계</h3>
+               <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4">{t('runner.steps')}</h3>
                <div className="space-y-4">
-                 {currentCase.steps.map((step, idx) => (
-                   <div key={step.id} className="flex gap-4 p-3 rounded-lg bg-white border border-slate-100 shadow-sm">
-                     <div className="flex-shrink-0 w-8 h-8 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center font-bold text-sm">
-                       {idx + 1}
-                     </div>
-                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full">
-                       <div>
-                         <span className="text-xs font-semibold text-slate-400 block mb-1">동작</span>
-                         <p className="text-slate-800 text-sm">{step.action}</p>
+                 {currentCase.steps.map((step, idx) => {
+                   const stepResult = results[currentCase.id]?.stepResults?.find(r => r.stepId === step.id);
+                   const stepStatus = stepResult?.status || 'IDLE';
+                   return (
+                     <div key={step.id} className={`flex gap-4 p-3 rounded-lg bg-white border shadow-sm ${
+                       stepStatus === 'FAILED' ? 'border-red-200' :
+                       stepStatus === 'PASSED' ? 'border-green-200' :
+                       stepStatus === 'SKIPPED' ? 'border-amber-200' :
+                       'border-slate-100'
+                     }`}>
+                       <div className="flex-shrink-0 w-8 h-8 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center font-bold text-sm">
+                         {idx + 1}
                        </div>
-                       <div>
-                         <span className="text-xs font-semibold text-slate-400 block mb-1">예상 결과</span>
-                         <p className="text-slate-800 text-sm">{step.expectedResult}</p>
+                       <div className="w-full space-y-3">
+                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                           <div>
+                             <span className="text-xs font-semibold text-slate-400 block mb-1">{t('runner.action')}</span>
+                             <p className="text-slate-800 text-sm">{step.action}</p>
+                           </div>
+                           <div>
+                             <span className="text-xs font-semibold text-slate-400 block mb-1">{t('runner.expectedResult')}</span>
+                             <p className="text-slate-800 text-sm">{step.expectedResult}</p>
+                           </div>
+                         </div>
+
+                         {isAutomatedMode ? (
+                           stepStatus !== 'IDLE' && (
+                             <div className="flex items-start gap-2 text-sm pt-2 border-t border-slate-100">
+                               <StatusIcon status={stepStatus} size={16} />
+                               {stepResult?.actualResult && <p className="text-slate-600 whitespace-pre-wrap">{stepResult.actualResult}</p>}
+                             </div>
+                           )
+                         ) : (
+                           <div className="pt-2 border-t border-slate-100 space-y-2">
+                             <div className="flex flex-wrap items-center gap-2">
+                               <StepStatusButton active={stepStatus === 'PASSED'} tone="green" onClick={() => toggleStepStatus(step.id, 'PASSED')}>
+                                 <CheckCircle size={14} /> {t('status.PASSED')}
+                               </StepStatusButton>
+                               <StepStatusButton active={stepStatus === 'FAILED'} tone="red" onClick={() => toggleStepStatus(step.id, 'FAILED')}>
+                                 <XCircle size={14} /> {t('status.FAILED')}
+                               </StepStatusButton>
+                               <StepStatusButton active={stepStatus === 'SKIPPED'} tone="amber" onClick={() => toggleStepStatus(step.id, 'SKIPPED')}>
+                                 <SkipForward size={14} /> {t('runner.skip')}
+                               </StepStatusButton>
+                               <label className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded cursor-pointer transition-colors">
+                                 <Paperclip size={14} /> {t('runner.attach')}
+                                 <input
+                                   type="file"
+                                   multiple
+                                   className="hidden"
+                                   onChange={(e) => { handleAttach(step.id, e.target.files); e.target.value = ''; }}
+                                 />
+                               </label>
+                             </div>
+                             <input
+                               type="text"
+                               value={stepResult?.actualResult || ''}
+                               onChange={(e) => updateStepResult(step.id, { actualResult: e.target.value })}
+                               placeholder={stepStatus === 'FAILED' ? t('runner.actualResultRequired') : t('runner.actualResultOptional')}
+                               className={`w-full px-3 py-1.5 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none ${
+                                 stepStatus === 'FAILED' && !stepResult?.actualResult ? 'border-red-300' : 'border-slate-200'
+                               }`}
+                             />
+                           </div>
+                         )}
+
+                         {stepResult?.attachments && stepResult.attachments.length > 0 && (
+                           <div className="flex flex-wrap gap-2">
+                             {stepResult.attachments.map((attachment, attachmentIdx) => (
+                               <AttachmentChip
+                                 key={attachmentIdx}
+                                 attachment={attachment}
+                                 blobs={blobs}
+                                 onRemove={isAutomatedMode ? undefined : () => removeAttachment(step.id, attachmentIdx)}
+                               />
+                             ))}
+                           </div>
+                         )}
                        </div>
                      </div>
-                   </div>
-                 ))}
+                   );
+                 })}
                </div>
              </div>
 
+             {/* Case Notes (Manual) */}
+             {!isAutomatedMode && (
+               <div>
+                 <label className="block text-sm font-semibold text-slate-500 mb-2">{t('runner.notes')}</label>
+                 <textarea
+                   value={results[currentCase.id]?.notes || ''}
+                   onChange={(e) => updateCaseNotes(e.target.value)}
+                   placeholder={t('runner.notesPlaceholder')}
+                   className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none resize-none h-20"
+                 />
+               </div>
+             )}
+
              {/* Automated Run Simulation Logs */}
              {isAutomatedMode && simulatedLogs[currentCase.id] && (
                 <div className="bg-slate-900 rounded-xl border border-slate-800 p-4 font-mono text-sm text-slate-300">
                   <h3 className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-2 flex items-center gap-2">
-                    <Bot size={14} /> 자동화 실행 로그
+                    <Bot size={14} /> {t('runner.automationLog')}
                   </h3>
                   <div className="whitespace-pre-wrap leading-relaxed opacity-90">
                     {simulatedLogs[currentCase.id]}
                   </div>
                 </div>
              )}
+
+             {/* Browser Executor Screenshots */}
+             {results[currentCase.id]?.screenshots && results[currentCase.id].screenshots!.length > 0 && (
+                <div className="bg-slate-50 rounded-xl border border-slate-200 p-4">
+                  <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('runner.screenshots')}</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {results[currentCase.id].screenshots!.map((blobRef, idx) => (
+                      <StoredScreenshot
+                        key={idx}
+                        blobs={blobs}
+                        blobRef={blobRef}
+                        alt={t('runner.screenshotAlt', { number: idx + 1 })}
+                        className="block border border-slate-200 rounded-lg overflow-hidden bg-white hover:shadow-md transition-shadow"
+                      />
+                    ))}
+                  </div>
+                </div>
+             )}
           </div>
 
           {/* Action Bar */}
@@ -307,7 +678,7 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
                  {isAutoRunning && (
                    <div className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg animate-pulse">
                      <Loader2 size={18} className="animate-spin" />
-                     <span className="font-medium text-sm">AI 테스트 실행 중...</span>
+                     <span className="font-medium text-sm">{usesBrowserEngine ? t('runner.runningInBrowser') : t('runner.runningWithAi')}</span>
                    </div>
                  )}
                  {isLastCase && !isAutoRunning && (
@@ -316,13 +687,13 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
                         onClick={exportResults}
                         className="flex items-center gap-2 px-4 py-3 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg font-medium shadow-sm transition-all"
                       >
-                        <FileSpreadsheet size={18} className="text-green-600" /> 결과 내보내기
+                        <FileSpreadsheet size={18} className="text-green-600" /> {t('runner.exportResults')}
                       </button>
                       <button 
                         onClick={handleFinish}
                         className="flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-medium shadow-lg hover:shadow-xl active:scale-95 transition-all"
                       >
-                        <Save size={18} /> 실행 완료
+                        <Save size={18} /> {t('runner.finishRun')}
                       </button>
                     </>
                  )}
@@ -330,22 +701,26 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
             ) : (
               <div className="flex gap-3">
                 <button 
-                  onClick={() => handleStatus('PASSED')}
+                  onClick={() => markRemainingSteps('PASSED')}
+                  title={t('runner.passRestHint')}
                   className="flex items-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium shadow-sm hover:shadow active:scale-95 transition-all"
                 >
-                  <CheckCircle size={18} /> 통과
-                </button>
-                <button 
-                  onClick={() => handleStatus('FAILED')}
-                  className="flex items-center gap-2 px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium shadow-sm hover:shadow active:scale-95 transition-all"
-                >
-                  <XCircle size={18} /> 실패
+                  <CheckCircle size={18} /> {currentCase.steps.length > 0 ? t('runner.passRest') : t('status.PASSED')}
                 </button>
+                {currentCase.steps.length === 0 && (
+                  <button 
+                    onClick={() => handleStatus('FAILED')}
+                    className="flex items-center gap-2 px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium shadow-sm hover:shadow active:scale-95 transition-all"
+                  >
+                    <XCircle size={18} /> {t('status.FAILED')}
+                  </button>
+                )}
                 <button 
-                  onClick={() => handleStatus('SKIPPED')}
+                  onClick={() => markRemainingSteps('SKIPPED')}
+                  title={t('runner.skipRestHint')}
                   className="flex items-center gap-2 px-6 py-3 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium shadow-sm hover:shadow active:scale-95 transition-all"
                 >
-                  <SkipForward size={18} /> 건너뛰기
+                  <SkipForward size={18} /> {t('runner.skip')}
                 </button>
                 {isLastCase && (
                   <div className="flex gap-3 ml-4">
@@ -353,13 +728,13 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
                         onClick={exportResults}
                         className="flex items-center gap-2 px-4 py-3 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg font-medium shadow-sm transition-all"
                       >
-                        <FileSpreadsheet size={18} className="text-green-600" /> 내보내기
+                        <FileSpreadsheet size={18} className="text-green-600" /> {t('runner.export')}
                     </button>
                     <button 
                       onClick={handleFinish}
                       className="flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-medium shadow-lg hover:shadow-xl active:scale-95 transition-all"
                     >
-                      <Save size={18} /> 실행 완료
+                      <Save size={18} /> {t('runner.finishRun')}
                     </button>
                   </div>
                 )}
@@ -368,10 +743,154 @@ const TestRunner: React.FC<TestRunnerProps> = ({ suite, onComplete, onCancel })
           </div>
         </div>
       </div>
+
+      {issueDraft && (
+        <FailureIssueModal
+          draft={issueDraft}
+          users={users}
+          defaultAssignee={currentUser.name}
+          onSubmit={(draft) => {
+            onCreateIssue(draft);
+            setIssueDraft(null);
+          }}
+          onClose={() => setIssueDraft(null)}
+        />
+      )}
     </div>
   );
 };
 
+// --- FAILURE ISSUE MODAL ---
+interface FailureIssueModalProps {
+  draft: IssueDraft;
+  users: User[];
+  defaultAssignee: string;
+  onSubmit: (draft: IssueDraft) => void;
+  onClose: () => void;
+}
+
+const FailureIssueModal: React.FC<FailureIssueModalProps> = ({ draft, users, defaultAssignee, onSubmit, onClose }) => {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(draft.title);
+  const [description, setDescription] = useState(draft.description);
+  const [priority, setPriority] = useState<IssuePriority>(draft.priority);
+  const [assignee, setAssignee] = useState(draft.assignee ?? defaultAssignee);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl p-6 animate-fade-in-up flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Bug size={20} className="text-purple-600" /> {t('runner.issueModalTitle')}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('runner.issueSummary')}</label>
+            <input
+              autoFocus
+              className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('runner.issueDescription')}</label>
+            <textarea
+              className="w-full border border-slate-300 rounded-lg p-2.5 text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none h-64"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('runner.issuePriority')}</label>
+              <select
+                className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as IssuePriority)}
+              >
+                {(['Low', 'Medium', 'High', 'Critical'] as IssuePriority[]).map(p => (
+                  <option key={p} value={p}>{p}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{t('runner.issueAssignee')}</label>
+              <select
+                className="w-full border border-slate-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+              >
+                <option value="">{t('common.unassigned')}</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.name}>{user.avatar} {user.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onSubmit({ ...draft, title, description, priority, assignee })}
+            disabled={!title.trim()}
+            className="px-6 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
+          >
+            {t('common.create')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface AttachmentChipProps {
+  attachment: StepAttachment;
+  blobs: BlobStore;
+  onRemove?: () => void;
+}
+
+const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment, blobs, onRemove }) => {
+  const { t } = useI18n();
+  const url = useBlobUrl(blobs, attachment.blob);
+  return (
+    <div className="flex items-center gap-1 pl-2 pr-1 py-1 bg-slate-50 border border-slate-200 rounded text-xs text-slate-600">
+      {url && attachment.type.startsWith('image/') && (
+        <img src={url} alt={attachment.name} className="w-6 h-6 object-cover rounded" />
+      )}
+      <a href={url} download={attachment.name} className="hover:text-blue-600 truncate max-w-[10rem]">{attachment.name}</a>
+      {onRemove && (
+        <button onClick={onRemove} className="p-0.5 text-slate-400 hover:text-red-500" title={t('runner.removeAttachment')}>
+          <X size={12} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+const STEP_BUTTON_TONES = {
+  green: 'bg-green-600 text-white border-green-600',
+  red: 'bg-red-600 text-white border-red-600',
+  amber: 'bg-amber-500 text-white border-amber-500'
+};
+
+const StepStatusButton = ({ active, tone, onClick, children }: { active: boolean, tone: keyof typeof STEP_BUTTON_TONES, onClick: () => void, children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded border transition-colors ${
+      active ? STEP_BUTTON_TONES[tone] : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+    }`}
+  >
+    {children}
+  </button>
+);
+
 const StatusIcon = ({ status, size }: { status: string, size: number }) => {
   switch(status) {
     case 'PASSED': return <CheckCircle size={size} className="text-green-500" />;
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import { AiLanguage, TestCase, TestSuite } from '../types';
+import { Languages, X, AlertCircle, Loader2 } from 'lucide-react';
+import { LlmSettings } from '../services/llm';
+import { AI_LANGUAGES, resolveAiLanguage } from '../services/aiPrompts';
+import { getAiErrorMessage, translateTestCases } from '../services/geminiService';
+import { useI18n } from './I18nProvider';
+
+interface TranslateSuiteModalProps {
+  suite: TestSuite;
+  llm: LlmSettings;
+  onApply: (translated: TestCase[], language: AiLanguage, useForGeneration: boolean) => void;
+  onClose: () => void;
+}
+
+const TranslateSuiteModal: React.FC<TranslateSuiteModalProps> = ({ suite, llm, onApply, onClose }) => {
+  const { t, localize } = useI18n();
+  const currentLanguage = resolveAiLanguage(suite, llm.language);
+  const [language, setLanguage] = useState<AiLanguage>(AI_LANGUAGES.find(l => l.id !== currentLanguage)!.id);
+  const [useForGeneration, setUseForGeneration] = useState(true);
+  const [done, setDone] = useState<number | null>(null); // Set while translating
+  const [error, setError] = useState('');
+  const opRef = useRef(0);
+
+  const total = suite.cases.length;
+
+  const handleTranslate = async () => {
+    const opId = Date.now();
+    opRef.current = opId;
+    setDone(0);
+    setError('');
+    try {
+      const translated = await translateTestCases(llm, suite.cases, language, count => {
+        if (opRef.current === opId) setDone(count);
+      });
+      if (opRef.current === opId) onApply(translated, language, useForGeneration);
+    } catch (e) {
+      console.error('Translation failed:', e);
+      if (opRef.current === opId) {
+        const reason = getAiErrorMessage(e);
+        setError(reason ? localize(reason) : t('translate.failed'));
+        setDone(null);
+      }
+    }
+  };
+
+  // A late answer is ignored once the dialog is closed
+  const handleClose = () => {
+    opRef.current = 0;
+    onClose();
+  };
+
+  const isTranslating = done !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 m-4 animate-fade-in-up">
+        <div className="flex justify-between items-start mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Languages className="text-indigo-600" size={20} />
+              {t('translate.title')}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {t('translate.subtitle', { count: total })}
+            </p>
+          </div>
+          <button onClick={handleClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">{t('translate.language')}</label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as AiLanguage)}
+              disabled={isTranslating}
+              className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {AI_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 select-none cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-indigo-600"
+              checked={useForGeneration}
+              disabled={isTranslating}
+              onChange={(e) => setUseForGeneration(e.target.checked)}
+            />
+            {t('translate.useForGeneration')}
+          </label>
+
+          {isTranslating && (
+            <div>
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span className="flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> {t('translate.translating')}</span>
+                <span>{done}/{total}</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${total ? (done! / total) * 100 : 0}%` }} />
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" /> {error}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={handleClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleTranslate}
+            disabled={isTranslating || total === 0}
+            className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold shadow-sm disabled:opacity-50"
+          >
+            <Languages size={16} /> {t('suites.translate')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslateSuiteModal;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { UnmappedField } from '../services/interop';
+import { useI18n } from './I18nProvider';
+
+interface UnmappedFieldListProps {
+  fields: UnmappedField[];
+  emptyMessage: string;
+}
+
+// Conversion report shared by interop import and export
+const UnmappedFieldList: React.FC<UnmappedFieldListProps> = ({ fields, emptyMessage }) => {
+  const { t, localize } = useI18n();
+  if (fields.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-green-700 bg-green-50 border border-green-100 rounded-lg px-3 py-2">
+        <CheckCircle size={14} /> {emptyMessage}
+      </div>
+    );
+  }
+  return (
+    <div className="border border-amber-200 rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 text-xs font-bold text-amber-700 bg-amber-50 px-3 py-2 border-b border-amber-200">
+        <AlertTriangle size={14} /> {t('interop.unmapped', { count: fields.length })}
+      </div>
+      <table className="w-full text-xs">
+        <tbody className="divide-y divide-slate-100">
+          {fields.map((field: UnmappedField) => (
+            <tr key={JSON.stringify([field.field, field.note ?? null])}>
+              <td className="px-3 py-1.5 font-mono text-slate-700 align-top">
+                {typeof field.field === 'string' ? field.field : localize(field.field)}
+              </td>
+              <td className="px-3 py-1.5 text-slate-500 align-top">{field.note ? localize(field.note) : t('interop.dropped')}</td>
+              <td className="px-3 py-1.5 text-slate-400 text-right whitespace-nowrap align-top">{t('interop.occurrences', { count: field.count })}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default UnmappedFieldList;
@@ -0,0 +1,112 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { CATALOGS, MessageKey, UI_LOCALES } from '../services/i18n';
+import { ko } from '../services/i18n/ko';
+
+/**
+ * Reports interface text that is missing or out of step (`npm run i18n:check`):
+ *   - keys a catalog hasn't translated yet (shown in Korean until it does)
+ *   - keys a catalog still has after they were removed from the Korean source
+ *   - translations whose {placeholders} differ from the source text
+ *   - keys passed to t() or msg() that no catalog defines, and source keys nothing uses
+ *   - Korean written straight into code instead of a catalog, in string literals or JSX text.
+ *     Comments are skipped, and so is Korean that is data rather than interface text when it sits
+ *     between `// i18n-ignore-start: <reason>` and `// i18n-ignore-end`.
+ * Exits with 1 when anything other than unused keys is found, so it can gate CI.
+ */
+
+// Run from the repository root, like the other npm scripts
+const ROOT = process.cwd();
+const SOURCE_DIRS = ['.', 'components', 'services', 'server', 'scripts'];
+
+const HANGUL = /[\u3131-\u318E\uAC00-\uD7A3]/;
+
+const placeholders = (text: string) => [...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort().join(',');
+
+const sourceKeys = Object.keys(ko) as MessageKey[];
+let problems = 0;
+
+const report = (title: string, lines: string[]) => {
+  if (lines.length === 0) return;
+  console.log(`\n${title} (${lines.length})`);
+  lines.forEach(line => console.log(`  ${line}`));
+};
+
+// --- CATALOGS ---
+
+UI_LOCALES.filter(l => l.id !== 'ko').forEach(({ id }) => {
+  const catalog = CATALOGS[id];
+  const missing = sourceKeys.filter(key => catalog[key] === undefined);
+  const stale = Object.keys(catalog).filter(key => !(key in ko));
+  const mismatched = sourceKeys
+    .filter(key => catalog[key] !== undefined && placeholders(catalog[key]!) !== placeholders(ko[key]))
+    .map(key => `${key}: expected {${placeholders(ko[key])}}, found {${placeholders(catalog[key]!)}}`);
+
+  report(`[${id}] Missing keys`, missing);
+  report(`[${id}] Keys not in the source catalog`, stale);
+  report(`[${id}] Placeholder mismatches`, mismatched);
+  problems += missing.length + stale.length + mismatched.length;
+});
+
+// --- SOURCE USAGE ---
+
+const usedKeys = new Set<string>();
+const usedPrefixes = new Set<string>(); // `gate.rule.${gate}` may stand for any key under "gate.rule."
+const unknown: string[] = [];
+const hardCoded: string[] = [];
+
+// Lines of code with Korean in them, leaving out comments and ignored blocks
+const findHardCodedText = (file: string, text: string) => {
+  let inComment = false;
+  let ignored = false;
+  text.split('\n').forEach((line, index) => {
+    if (/\/\/ i18n-ignore-start\b/.test(line)) ignored = true;
+    if (/\/\/ i18n-ignore-end\b/.test(line)) ignored = false;
+    let code = line;
+    if (inComment) {
+      const end = code.indexOf('*/');
+      if (end === -1) return;
+      code = code.slice(end + 2);
+      inComment = false;
+    }
+    code = code.replace(/\/\*.*?\*\//g, '');
+    const open = code.indexOf('/*');
+    if (open !== -1) {
+      inComment = true;
+      code = code.slice(0, open);
+    }
+    code = code.replace(/(^|\s)\/\/.*$/, ''); // Not "//" inside a URL
+    if (!ignored && HANGUL.test(code)) hardCoded.push(`${file}:${index + 1}  ${code.trim()}`);
+  });
+};
+
+SOURCE_DIRS.forEach(dir => {
+  (readdirSync(join(ROOT, dir), { recursive: dir !== '.' }) as string[])
+    .filter(file => /\.tsx?$/.test(file) && !/i18n|node_modules/.test(file))
+    .forEach(file => {
+      const path = join(ROOT, dir, file);
+      const text = readFileSync(path, 'utf8');
+      // Keys can be picked by a condition, so any literal naming a key counts as a use
+      for (const [, literal] of text.matchAll(/'(\w+\.[\w.]+)'/g)) {
+        if (literal in ko) usedKeys.add(literal);
+      }
+      for (const [, key] of text.matchAll(/\b(?:t|msg)\('([\w.]+)'/g)) {
+        if (!(key in ko)) unknown.push(`${key} (${relative(ROOT, path)})`);
+      }
+      for (const [, prefix] of text.matchAll(/`(\w+\.[\w.]*)\$\{/g)) usedPrefixes.add(prefix);
+      findHardCodedText(relative(ROOT, path), text);
+    });
+});
+
+const unused = sourceKeys.filter(key => !usedKeys.has(key) && ![...usedPrefixes].some(prefix => key.startsWith(prefix)));
+
+report('Keys used in code but not defined', unknown);
+report('Korean text outside the catalogs', hardCoded);
+report('Source keys nothing uses', unused);
+problems += unknown.length + hardCoded.length;
+
+if (problems > 0) {
+  console.log(`\n${problems} problem(s) found.`);
+  process.exit(1);
+}
+console.log(`All catalogs cover the ${sourceKeys.length} source keys.`);
@@ -0,0 +1,353 @@
+/**
+ * Server-side home of the Gemini API key. The web app sends AI requests here instead of calling
+ * Google directly, so the key never reaches the browser.
+ *
+ *   npm run ai-proxy
+ *
+ * Environment (also read from .env.local):
+ *   GEMINI_API_KEY          required
+ *   AI_PROXY_PORT           port to listen on (default 4330)
+ *   AI_PROXY_MODELS         comma-separated models users may pick; the first is the default
+ *   AI_PROXY_RATE_LIMIT     requests per user per minute (default 20)
+ *   AI_PROXY_DAILY_TOKENS   tokens per user per day, 0 for unlimited (default 200000)
+ *   AI_PROXY_USAGE_LOG      file that token usage is appended to as JSON lines (default ai-usage.log)
+ *   AI_PROXY_ALLOWED_ORIGINS comma-separated origins of the web app (default http://localhost:3000)
+ *   AUTH_SECRET             the auth server's secret (server/authServer.ts): requests then need a signed-in
+ *                           user's session token, and limits apply per user
+ *   AI_PROXY_SECRET         without AUTH_SECRET: signs the tokens the proxy issues itself, so they outlive a
+ *                           restart (default: a random secret per process)
+ */
+import http from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+import { GoogleGenAI } from '@google/genai';
+import { signSessionToken, verifySessionToken } from '../services/auth/sessionTokens';
+import { LlmTaskInput, TranslatableCase } from '../services/llm/types';
+import { DEFAULT_AI_LANGUAGE, buildLlmRequest, isAiLanguage } from '../services/aiPrompts';
+import {
+  AI_PROXY_PATHS,
+  AiProxyErrorCode,
+  AiProxyResponse,
+  AiProxySession,
+  AiQuotaStatus,
+  AI_PROXY_SESSION_PATH,
+  GEMINI_MODELS,
+  TokenUsage
+} from '../services/aiProxyProtocol';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the process environment
+}
+
+const PORT = Number(process.env.AI_PROXY_PORT || 4330);
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const MODELS = (process.env.AI_PROXY_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+const ALLOWED_MODELS = MODELS.length > 0 ? MODELS : GEMINI_MODELS;
+const RATE_LIMIT = Number(process.env.AI_PROXY_RATE_LIMIT || 20);
+const DAILY_TOKENS = Number(process.env.AI_PROXY_DAILY_TOKENS ?? 200000);
+const USAGE_LOG = process.env.AI_PROXY_USAGE_LOG || 'ai-usage.log';
+// With the auth server's secret only its tokens count; otherwise the proxy hands out tokens of its own
+const AUTH_SECRET = process.env.AUTH_SECRET || '';
+const TOKEN_SECRET = AUTH_SECRET || process.env.AI_PROXY_SECRET || randomBytes(32).toString('hex');
+const ALLOWED_ORIGINS = (process.env.AI_PROXY_ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',').map(o => o.trim().replace(/\/+$/, '')).filter(Boolean);
+const ISSUED_TOKEN_TTL_MS = 60 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+if (!API_KEY) {
+  console.error('[ai-proxy] GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+class ProxyError extends Error {
+  constructor(public readonly status: number, public readonly code: AiProxyErrorCode, message: string, public readonly retryAfterSeconds?: number) {
+    super(message);
+  }
+}
+
+// --- IDENTITY ---
+
+// Browser storage proves nothing about who is signed in, so without the auth server the caller's
+// address is what limits apply to: a fresh token from the same address is still the same caller
+const clientAddress = (req: http.IncomingMessage) => `address:${req.socket.remoteAddress || 'unknown'}`;
+
+const issueToken = async (req: http.IncomingMessage): Promise<AiProxySession> => {
+  if (AUTH_SECRET) throw new ProxyError(403, 'UNAUTHORIZED', 'Sign in through the auth server instead');
+  const expiresAt = Date.now() + ISSUED_TOKEN_TTL_MS;
+  const token = await signSessionToken({
+    sid: randomBytes(16).toString('hex'),
+    sub: clientAddress(req),
+    exp: Math.floor(expiresAt / 1000)
+  }, TOKEN_SECRET);
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+};
+
+// Limits apply per user (or per address), so signing in again doesn't reset them
+const identify = async (req: http.IncomingMessage): Promise<string> => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '').trim();
+  if (!token) throw new ProxyError(401, 'UNAUTHORIZED', 'Missing session token');
+  const claims = await verifySessionToken(token, TOKEN_SECRET);
+  if (!claims) throw new ProxyError(401, 'UNAUTHORIZED', 'Session token is invalid or expired');
+  // An issued token only counts from the address it was issued to
+  if (!AUTH_SECRET && claims.sub !== clientAddress(req)) {
+    throw new ProxyError(401, 'UNAUTHORIZED', 'Session token was issued to another address');
+  }
+  return claims.sub;
+};
+
+// --- LIMITS ---
+
+interface Allowance {
+  requestTimes: number[]; // Within the last rate window
+  day: string; // UTC date the token count belongs to
+  tokensUsed: number;
+}
+
+const allowances = new Map<string, Allowance>();
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Allowances from earlier days with no request in the current window no longer limit anything
+const pruneAllowances = () => {
+  allowances.forEach((allowance, identity) => {
+    const recent = allowance.requestTimes.some(t => Date.now() - t < RATE_WINDOW_MS);
+    if (allowance.day !== today() && !recent) allowances.delete(identity);
+  });
+};
+setInterval(pruneAllowances, RATE_WINDOW_MS).unref();
+
+const getAllowance = (identity: string): Allowance => {
+  let allowance = allowances.get(identity);
+  if (!allowance || allowance.day !== today()) {
+    allowance = { requestTimes: allowance?.requestTimes || [], day: today(), tokensUsed: 0 };
+    allowances.set(identity, allowance);
+  }
+  allowance.requestTimes = allowance.requestTimes.filter(t => Date.now() - t < RATE_WINDOW_MS);
+  return allowance;
+};
+
+const quotaStatus = (allowance: Allowance): AiQuotaStatus => ({
+  tokensUsedToday: allowance.tokensUsed,
+  dailyTokenLimit: DAILY_TOKENS > 0 ? DAILY_TOKENS : null,
+  requestsPerMinute: RATE_LIMIT
+});
+
+// The app words limit errors in the user's language from the code and retryAfterSeconds
+const checkLimits = (allowance: Allowance) => {
+  if (DAILY_TOKENS > 0 && allowance.tokensUsed >= DAILY_TOKENS) {
+    throw new ProxyError(429, 'QUOTA_EXCEEDED', `Daily allowance of ${DAILY_TOKENS} tokens used up`);
+  }
+  if (allowance.requestTimes.length >= RATE_LIMIT) {
+    const retryAfterSeconds = Math.ceil((allowance.requestTimes[0] + RATE_WINDOW_MS - Date.now()) / 1000);
+    throw new ProxyError(429, 'RATE_LIMITED', `Too many requests; retry in ${retryAfterSeconds}s`, retryAfterSeconds);
+  }
+};
+
+const logUsage = async (entry: Record<string, unknown>) => {
+  console.log(`[ai-proxy] ${Object.entries(entry).map(([k, v]) => `${k}=${v}`).join(' ')}`);
+  await appendFile(USAGE_LOG, `${JSON.stringify(entry)}\n`).catch(error => {
+    console.error(`[ai-proxy] could not write ${USAGE_LOG}:`, error.message);
+  });
+};
+
+// --- REQUESTS ---
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ProxyError(413, 'BAD_REQUEST', 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// Request bodies come from any client, so each part is checked before it is used
+type JsonObject = Record<string, unknown>;
+type TaskStep = TranslatableCase['steps'][number];
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// A missing expected result counts as empty; anything else that isn't text makes the step invalid
+const isStep = (value: unknown): value is { action: string; expectedResult?: string } =>
+  isObject(value) && isString(value.action) && (value.expectedResult === undefined || isString(value.expectedResult));
+
+const readSteps = (steps: unknown): TaskStep[] | null =>
+  Array.isArray(steps) && steps.every(isStep)
+    ? steps.map(s => ({ action: s.action, expectedResult: s.expectedResult ?? '' }))
+    : null;
+
+const readCase = (value: unknown): TranslatableCase | null => {
+  if (!isObject(value) || !isString(value.title)) return null;
+  const description = value.description ?? '';
+  const steps = readSteps(value.steps ?? []);
+  return isString(description) && steps ? { title: value.title, description, steps } : null;
+};
+
+// Rejects bodies that don't carry the task's input, so nothing else is ever sent to Gemini
+const parseTask = (path: string, input: unknown): LlmTaskInput => {
+  const invalid = new ProxyError(400, 'BAD_REQUEST', `Invalid input for ${path}`);
+  if (!isObject(input)) throw invalid;
+  // Clients from before the language setting always wanted Korean
+  const language = isAiLanguage(input.language) ? input.language : DEFAULT_AI_LANGUAGE;
+  const contextInfo = input.contextInfo;
+
+  if (path === AI_PROXY_PATHS.generateCases && isString(input.featureDescription)) {
+    return {
+      task: 'generateCases',
+      input: { featureDescription: input.featureDescription, contextInfo: isString(contextInfo) ? contextInfo : undefined, language }
+    };
+  }
+  if (path === AI_PROXY_PATHS.simulate && isObject(input.testCase) && isString(contextInfo)) {
+    const { title, steps } = input.testCase;
+    const checkedSteps = readSteps(steps);
+    if (isString(title) && checkedSteps) {
+      return { task: 'simulate', input: { testCase: { title, steps: checkedSteps }, contextInfo, language } };
+    }
+  }
+  if (path === AI_PROXY_PATHS.translateCases && Array.isArray(input.cases) && isAiLanguage(input.language)) {
+    const cases = input.cases.map(readCase);
+    if (cases.every((c): c is TranslatableCase => c !== null)) return { task: 'translateCases', input: { cases, language } };
+  }
+  throw invalid;
+};
+
+const handleTask = async (req: http.IncomingMessage, path: string): Promise<AiProxyResponse> => {
+  const identity = await identify(req);
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    if (error instanceof ProxyError) throw error;
+    throw new ProxyError(400, 'BAD_REQUEST', 'Request body is not valid JSON');
+  }
+  if (!isObject(body)) throw new ProxyError(400, 'BAD_REQUEST', 'Request body must be a JSON object');
+  const model = body.model || ALLOWED_MODELS[0];
+  if (!isString(model) || !ALLOWED_MODELS.includes(model)) {
+    throw new ProxyError(400, 'BAD_REQUEST', `Model "${String(model)}" is not allowed; use one of ${ALLOWED_MODELS.join(', ')}`);
+  }
+  const request = buildLlmRequest(parseTask(path, body.input));
+
+  const allowance = getAllowance(identity);
+  checkLimits(allowance);
+  allowance.requestTimes.push(Date.now());
+
+  const started = Date.now();
+  let response;
+  try {
+    response = await ai.models.generateContent({
+      model,
+      contents: request.prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.schema,
+        systemInstruction: request.systemInstruction
+      }
+    });
+  } catch (error) {
+    console.error('[ai-proxy] Gemini request failed:', error);
+    throw new ProxyError(502, 'UPSTREAM_ERROR', error instanceof Error ? error.message : String(error));
+  }
+
+  const usage: TokenUsage = {
+    promptTokens: response.usageMetadata?.promptTokenCount || 0,
+    outputTokens: response.usageMetadata?.candidatesTokenCount || 0,
+    totalTokens: response.usageMetadata?.totalTokenCount || 0
+  };
+  allowance.tokensUsed += usage.totalTokens;
+  await logUsage({
+    time: new Date().toISOString(),
+    user: identity,
+    task: request.task,
+    model,
+    ...usage,
+    tokensUsedToday: allowance.tokensUsed,
+    durationMs: Date.now() - started
+  });
+
+  let result: unknown;
+  try {
+    result = JSON.parse(response.text || '');
+  } catch {
+    throw new ProxyError(502, 'UPSTREAM_ERROR', 'Gemini returned invalid JSON');
+  }
+  return { result, usage, quota: quotaStatus(allowance) };
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const TASK_PATHS = Object.values(AI_PROXY_PATHS);
+
+const server = http.createServer(async (req, res) => {
+  // Only the web app may spend the operator's Gemini quota; other sites are refused outright
+  const origin = req.headers.origin?.replace(/\/+$/, '');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    sendJson(res, 403, { error: `Origin ${origin} is not allowed`, code: 'UNAUTHORIZED' });
+    return;
+  }
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    if (req.method === 'GET' && req.url === '/health') {
+      sendJson(res, 200, { ok: true });
+    } else if (req.method === 'GET' && req.url === '/models') {
+      sendJson(res, 200, { models: ALLOWED_MODELS });
+    } else if (req.method === 'POST' && req.url === AI_PROXY_SESSION_PATH) {
+      sendJson(res, 200, await issueToken(req));
+    } else if (req.method === 'GET' && req.url === '/usage') {
+      sendJson(res, 200, quotaStatus(getAllowance(await identify(req))));
+    } else if (req.method === 'POST' && TASK_PATHS.includes(req.url || '')) {
+      sendJson(res, 200, await handleTask(req, req.url!));
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      if (error.retryAfterSeconds) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      sendJson(res, error.status, { error: error.message, code: error.code, retryAfterSeconds: error.retryAfterSeconds });
+      return;
+    }
+    console.error('[ai-proxy] request failed:', error);
+    sendJson(res, 500, { error: error instanceof Error ? error.message : String(error), code: 'UPSTREAM_ERROR' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[ai-proxy] listening on http://localhost:${PORT} (models: ${ALLOWED_MODELS.join(', ')})`);
+  console.log(`[ai-proxy] accepting requests from ${ALLOWED_ORIGINS.join(', ')}; ${AUTH_SECRET
+    ? 'session tokens from the auth server, limits per user'
+    : 'issuing its own session tokens, limits per client address'}`);
+});
+
+const shutdown = () => {
+  server.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
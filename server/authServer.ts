@@ -0,0 +1,282 @@
+/**
+ * Keeps login data for installations that share storage (STORAGE_BACKEND=rest). Password hashes and
+ * sessions live in this process's own file instead of the shared collections every client can read,
+ * and a sign-in returns a session token signed with AUTH_SECRET, which the AI proxy checks as well.
+ *
+ *   npm run auth-server
+ *
+ * Environment (also read from .env.local):
+ *   AUTH_SECRET            required: signs session tokens; give the AI proxy the same value
+ *   AUTH_SERVER_PORT       port to listen on (default 4340)
+ *   AUTH_STORE             file credentials and sessions are kept in (default auth-store.json)
+ *   AUTH_ALLOWED_ORIGINS   comma-separated origins of the web app (default http://localhost:3000)
+ *   STORAGE_URL            shared storage the users are read from (default http://localhost:3001)
+ *   OIDC_ISSUER            with OIDC_CLIENT_ID, enables SSO; the server trades the code for the identity itself
+ */
+import http from 'node:http';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { User } from '../types';
+import { AuthCredential, AuthError, AuthProviderId, AuthResult, Session } from '../services/auth/types';
+import { isBootstrapping, resolveExternalIdentity } from '../services/auth/accounts';
+import { loginWithPassword, registerLocalAccount } from '../services/auth/localProvider';
+import { OidcExchangeConfig, exchangeOidcCode } from '../services/auth/oidcProvider';
+import { createSession, findActiveSession, pruneExpiredSessions } from '../services/auth/sessions';
+import { signSessionToken, verifySessionToken } from '../services/auth/sessionTokens';
+import { loadCollection, saveCollection } from '../services/storage';
+import { RestAdapter } from '../services/storage/restAdapter';
+import { msg } from '../services/i18n';
+import {
+  AUTH_SERVER_PATHS,
+  AuthLoginRequest,
+  AuthOidcRequest,
+  AuthRegisterRequest,
+  AuthServerError,
+  AuthSessionResponse,
+  AuthSignInResponse,
+  AuthStatus
+} from '../services/authServerProtocol';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the process environment
+}
+
+const PORT = Number(process.env.AUTH_SERVER_PORT || 4340);
+const SECRET = process.env.AUTH_SECRET || '';
+const STORE_FILE = process.env.AUTH_STORE || 'auth-store.json';
+const ALLOWED_ORIGINS = (process.env.AUTH_ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',').map(o => o.trim().replace(/\/+$/, '')).filter(Boolean);
+const OIDC: OidcExchangeConfig | null = process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID
+  ? { issuer: process.env.OIDC_ISSUER.replace(/\/$/, ''), clientId: process.env.OIDC_CLIENT_ID }
+  : null;
+const MAX_BODY_BYTES = 64 * 1024;
+const MIN_SECRET_LENGTH = 32;
+
+if (SECRET.length < MIN_SECRET_LENGTH) {
+  console.error(`[auth-server] AUTH_SECRET must be set to at least ${MIN_SECRET_LENGTH} random characters`);
+  process.exit(1);
+}
+
+const shared = new RestAdapter(process.env.STORAGE_URL || 'http://localhost:3001');
+
+class AuthServerFailure extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// --- STORE ---
+
+interface AuthStore {
+  credentials: AuthCredential[];
+  sessions: Session[];
+}
+
+const saveStore = async (store: AuthStore) => {
+  // Written aside and renamed, so a crash mid-write never leaves half a file
+  await writeFile(`${STORE_FILE}.tmp`, JSON.stringify(store, null, 2), { mode: 0o600 });
+  await rename(`${STORE_FILE}.tmp`, STORE_FILE);
+};
+
+// Installations that kept logins in the shared storage have them moved here on first start, and the
+// shared copies emptied so the hashes are no longer readable there
+const importSharedLogins = async (): Promise<AuthStore> => {
+  const credentials = (await loadCollection<AuthCredential>(shared, 'credentials')) || [];
+  const store: AuthStore = { credentials, sessions: [] };
+  await saveStore(store);
+  if (credentials.length > 0) {
+    await Promise.all([saveCollection(shared, 'credentials', []), saveCollection(shared, 'sessions', [])]);
+    console.log(`[auth-server] moved ${credentials.length} login(s) out of the shared storage`);
+  }
+  return store;
+};
+
+const loadStore = async (): Promise<AuthStore> => {
+  let raw: string;
+  try {
+    raw = await readFile(STORE_FILE, 'utf8');
+  } catch {
+    return importSharedLogins();
+  }
+  const parsed: Partial<AuthStore> = JSON.parse(raw);
+  return { credentials: parsed.credentials || [], sessions: pruneExpiredSessions(parsed.sessions || []) };
+};
+
+const store = await loadStore();
+
+// Sign-ins wait on password hashing, so changes run one at a time to keep two of them from racing
+let queue: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+const loadUsers = async (): Promise<User[]> => (await loadCollection<User>(shared, 'users')) || [];
+
+// --- SESSIONS ---
+
+const openSession = async (result: AuthResult | null, provider: AuthProviderId): Promise<AuthSignInResponse> => {
+  if (!result) throw new AuthError(msg('app.ssoUserNotFound'), provider);
+  const session = createSession(result.user.id, provider);
+  store.credentials = result.credentials;
+  store.sessions = [...pruneExpiredSessions(store.sessions), session];
+  await saveStore(store);
+  const token = await signSessionToken({
+    sid: session.id,
+    sub: session.userId,
+    exp: Math.floor(new Date(session.expiresAt).getTime() / 1000)
+  }, SECRET);
+  return { user: result.user, isNewUser: result.isNewUser, token, expiresAt: session.expiresAt };
+};
+
+// The stored session a request's token belongs to; signing out ends it even though the token still verifies
+const findSession = async (req: http.IncomingMessage): Promise<Session | null> => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '').trim();
+  const claims = token ? await verifySessionToken(token, SECRET) : null;
+  const session = claims && findActiveSession(store.sessions, claims.sid);
+  return session && session.userId === claims.sub ? session : null;
+};
+
+// --- REQUESTS ---
+
+const readBody = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new AuthServerFailure(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new AuthServerFailure(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The named fields as strings, or a 400 when any of them is missing
+const readFields = <K extends string>(body: unknown, ...keys: K[]): Record<K, string> => {
+  if (!isRecord(body) || keys.some(key => typeof body[key] !== 'string')) {
+    throw new AuthServerFailure(400, `Expected string fields: ${keys.join(', ')}`);
+  }
+  return Object.fromEntries(keys.map(key => [key, body[key]])) as Record<K, string>;
+};
+
+const register = async (body: unknown) => {
+  const fields = readFields(body, 'name', 'email', 'password');
+  const avatar = isRecord(body) && typeof body.avatar === 'string' ? body.avatar : '';
+  const registration: AuthRegisterRequest = { ...fields, avatar };
+  return openSession(await registerLocalAccount(registration, await loadUsers(), store.credentials), 'local');
+};
+
+const login = async (body: unknown) => {
+  const { email, password }: AuthLoginRequest = readFields(body, 'email', 'password');
+  return openSession(await loginWithPassword(email, password, await loadUsers(), store.credentials), 'local');
+};
+
+const loginWithOidc = async (body: unknown) => {
+  if (!OIDC) throw new AuthError(msg('auth.ssoNotConfigured'), 'oidc');
+  const callback: AuthOidcRequest = readFields(body, 'code', 'codeVerifier', 'nonce', 'redirectUri');
+  const identity = await exchangeOidcCode(OIDC, callback);
+  return openSession(resolveExternalIdentity(identity, await loadUsers(), store.credentials), 'oidc');
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: http.ServerResponse, status: number, error: AuthServerError) => sendJson(res, status, error);
+
+const SIGN_INS: Record<string, (body: unknown) => Promise<AuthSignInResponse>> = {
+  [AUTH_SERVER_PATHS.register]: register,
+  [AUTH_SERVER_PATHS.login]: login,
+  [AUTH_SERVER_PATHS.oidc]: loginWithOidc
+};
+
+const server = http.createServer(async (req, res) => {
+  // Only the web app may sign people in; other sites are refused outright
+  const origin = req.headers.origin?.replace(/\/+$/, '');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    sendError(res, 403, { error: `Origin ${origin} is not allowed` });
+    return;
+  }
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = req.url || '';
+  try {
+    if (req.method === 'GET' && path === AUTH_SERVER_PATHS.status) {
+      const status: AuthStatus = { hasAccounts: !isBootstrapping(store.credentials) };
+      sendJson(res, 200, status);
+    } else if (req.method === 'POST' && SIGN_INS[path]) {
+      const body = await readBody(req);
+      sendJson(res, 200, await serialized(() => SIGN_INS[path](body)));
+    } else if (req.method === 'GET' && path === AUTH_SERVER_PATHS.session) {
+      const session = await findSession(req);
+      if (!session) {
+        sendError(res, 401, { error: 'Session is unknown or expired' });
+        return;
+      }
+      const body: AuthSessionResponse = { userId: session.userId, expiresAt: session.expiresAt };
+      sendJson(res, 200, body);
+    } else if (req.method === 'POST' && path === AUTH_SERVER_PATHS.logout) {
+      const session = await findSession(req);
+      if (session) {
+        await serialized(async () => {
+          store.sessions = pruneExpiredSessions(store.sessions).filter(s => s.id !== session.id);
+          await saveStore(store);
+        });
+      }
+      res.writeHead(204);
+      res.end();
+    } else {
+      sendError(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      sendError(res, 400, { error: error.message, text: error.text });
+      return;
+    }
+    if (error instanceof AuthServerFailure) {
+      sendError(res, error.status, { error: error.message });
+      return;
+    }
+    console.error('[auth-server] request failed:', error);
+    sendError(res, 500, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[auth-server] listening on http://localhost:${PORT}; logins kept in ${STORE_FILE}`);
+  console.log(`[auth-server] accepting requests from ${ALLOWED_ORIGINS.join(', ')}${OIDC ? `; SSO via ${OIDC.issuer}` : ''}`);
+});
+
+const shutdown = () => {
+  server.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
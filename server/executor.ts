@@ -0,0 +1,273 @@
+/**
+ * Local companion process that executes AUTOMATED web runs in a real headless browser.
+ *
+ *   npm run executor            (requires `npx playwright install chromium` once)
+ *
+ * Environment:
+ *   EXECUTOR_PORT       port to listen on (default 4311)
+ *   EXECUTOR_HEADED=1   show the browser window while running
+ *   EXECUTOR_TIMEOUT_MS per-command timeout (default 10000)
+ *   EXECUTOR_ALLOWED_ORIGINS  comma-separated origins of the web app that may use the executor
+ *                       (default http://localhost:3000)
+ */
+import http from 'node:http';
+import { chromium, Browser, Page, Locator } from 'playwright';
+import { ExecuteRequest, ExecuteResponse, ExecutorStepResult } from '../services/executorProtocol';
+import {
+  BrowserCommand,
+  BrowserAssertion,
+  interpretAction,
+  interpretExpectation,
+  describeCommand,
+  describeAssertion
+} from './stepInterpreter';
+
+const PORT = Number(process.env.EXECUTOR_PORT || 4311);
+const HEADLESS = process.env.EXECUTOR_HEADED !== '1';
+const TIMEOUT_MS = Number(process.env.EXECUTOR_TIMEOUT_MS || 10000);
+const MAX_BODY_BYTES = 1024 * 1024;
+const ALLOWED_ORIGINS = (process.env.EXECUTOR_ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',').map(o => o.trim().replace(/\/+$/, '')).filter(Boolean);
+
+let browserPromise: Promise<Browser> | null = null;
+
+const getBrowser = () => {
+  if (!browserPromise) {
+    browserPromise = chromium.launch({ headless: HEADLESS });
+    browserPromise.catch(() => { browserPromise = null; });
+  }
+  return browserPromise;
+};
+
+// Returns the first candidate locator that matches anything on the page
+const firstMatching = async (candidates: Locator[]): Promise<Locator | null> => {
+  for (const candidate of candidates) {
+    if (await candidate.count() > 0) return candidate.first();
+  }
+  return null;
+};
+
+const runCommand = async (page: Page, command: BrowserCommand) => {
+  switch (command.kind) {
+    case 'goto':
+      await page.goto(command.url, { waitUntil: 'domcontentloaded' });
+      return;
+    case 'click': {
+      const target = await firstMatching([
+        page.getByRole('button', { name: command.target }),
+        page.getByRole('link', { name: command.target }),
+        page.getByText(command.target, { exact: true }),
+        page.getByText(command.target),
+      ]);
+      if (!target) throw new Error(`No clickable element matching "${command.target}"`);
+      await target.click();
+      await page.waitForLoadState('domcontentloaded');
+      return;
+    }
+    case 'fill': {
+      const field = await firstMatching([
+        page.getByLabel(command.field),
+        page.getByPlaceholder(command.field),
+        page.locator(`[name=${JSON.stringify(command.field)}]`),
+        page.getByRole('textbox', { name: command.field }),
+      ]);
+      if (!field) throw new Error(`No input field matching "${command.field}"`);
+      await field.fill(command.value);
+      return;
+    }
+    case 'press':
+      await page.keyboard.press(command.key);
+      return;
+    case 'wait':
+      await page.waitForTimeout(command.ms);
+      return;
+    case 'scroll':
+      await page.evaluate(direction => window.scrollTo(0, direction === 'top' ? 0 : document.body.scrollHeight), command.direction);
+      return;
+  }
+};
+
+const checkAssertion = async (page: Page, assertion: BrowserAssertion) => {
+  switch (assertion.kind) {
+    case 'text':
+      await page.getByText(assertion.text).first().waitFor({ state: 'visible' });
+      return;
+    case 'url':
+      await page.waitForURL(url => url.toString().includes(assertion.fragment));
+      return;
+    case 'title': {
+      const deadline = Date.now() + TIMEOUT_MS;
+      while (!(await page.title()).includes(assertion.text)) {
+        if (Date.now() > deadline) throw new Error(`Page title is "${await page.title()}"`);
+        await page.waitForTimeout(200);
+      }
+      return;
+    }
+  }
+};
+
+const screenshot = async (page: Page) => {
+  const buffer = await page.screenshot({ type: 'jpeg', quality: 60 });
+  return `data:image/jpeg;base64,${buffer.toString('base64')}`;
+};
+
+const executeCase = async (request: ExecuteRequest): Promise<ExecuteResponse> => {
+  const started = Date.now();
+  const ctx = { baseUrl: request.appAddress, testEmail: request.testEmail };
+  const steps: ExecutorStepResult[] = [];
+  const screenshots: string[] = [];
+  const log: string[] = [`[executor] ${request.testCase.title} @ ${request.appAddress}`];
+  let failedStepIndex: number | undefined;
+  let unsupported = false;
+  let unverified = false;
+
+  const browser = await getBrowser();
+  const context = await browser.newContext({ ignoreHTTPSErrors: true });
+  const page = await context.newPage();
+  page.setDefaultTimeout(TIMEOUT_MS);
+
+  try {
+    // Every case starts from the application address
+    await page.goto(request.appAddress, { waitUntil: 'domcontentloaded' });
+    log.push(`open ${request.appAddress}`);
+
+    for (const [stepIndex, step] of request.testCase.steps.entries()) {
+      if (failedStepIndex !== undefined || unsupported) {
+        steps.push({ stepId: step.id, stepIndex, status: 'NOT_RUN' });
+        continue;
+      }
+
+      const command = interpretAction(step.action, ctx);
+      if (!command) {
+        unsupported = true;
+        const message = `Could not translate action into a browser command: "${step.action}"`;
+        steps.push({ stepId: step.id, stepIndex, status: 'UNSUPPORTED', message });
+        log.push(`#${stepIndex + 1} UNSUPPORTED ${message}`);
+        continue;
+      }
+
+      const result: ExecutorStepResult = { stepId: step.id, stepIndex, status: 'PASSED', command: describeCommand(command) };
+      try {
+        await runCommand(page, command);
+        log.push(`#${stepIndex + 1} ${result.command} ... ok`);
+
+        const assertions = interpretExpectation(step.expectedResult, ctx);
+        if (assertions.length === 0) {
+          unverified = true;
+          result.status = 'UNVERIFIED';
+          result.message = `No checkable assertion in expected result: "${step.expectedResult}"`;
+          log.push(`#${stepIndex + 1} UNVERIFIED ${step.expectedResult}`);
+        }
+        for (const assertion of assertions) {
+          await checkAssertion(page, assertion);
+          log.push(`#${stepIndex + 1} ${describeAssertion(assertion)} ... ok`);
+        }
+      } catch (error) {
+        result.status = 'FAILED';
+        result.message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        failedStepIndex = stepIndex;
+        log.push(`#${stepIndex + 1} FAILED ${result.message}`);
+        screenshots.push(await screenshot(page).catch(() => ''));
+      }
+      steps.push(result);
+    }
+
+    if (failedStepIndex === undefined) {
+      screenshots.push(await screenshot(page).catch(() => ''));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    log.push(`[executor] aborted: ${message}`);
+    failedStepIndex = failedStepIndex ?? 0;
+  } finally {
+    await context.close().catch(() => undefined);
+  }
+
+  // A case only passes when every step was checked; actions that merely ran without error prove nothing
+  return {
+    status: failedStepIndex !== undefined ? 'FAILED' : unsupported || unverified ? 'SKIPPED' : 'PASSED',
+    steps,
+    failedStepIndex,
+    screenshots: screenshots.filter(Boolean),
+    log: log.join('\n'),
+    durationMs: Date.now() - started
+  };
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer(async (req, res) => {
+  // Only the web app may drive the browser. Other pages the tester has open could otherwise make it
+  // open any address, so requests from unknown origins are refused, not just left without CORS headers.
+  const origin = req.headers.origin?.replace(/\/+$/, '');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    sendJson(res, 403, { error: `Origin ${origin} is not allowed; add it to EXECUTOR_ALLOWED_ORIGINS` });
+    return;
+  }
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/health') {
+    sendJson(res, 200, { ok: true, browser: 'chromium', headless: HEADLESS });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/execute') {
+    try {
+      const request = JSON.parse(await readBody(req)) as ExecuteRequest;
+      if (!request.appAddress || !request.testCase?.steps) {
+        sendJson(res, 400, { error: 'appAddress and testCase.steps are required' });
+        return;
+      }
+      sendJson(res, 200, await executeCase(request));
+    } catch (error) {
+      console.error('[executor] request failed:', error);
+      sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`[executor] listening on http://localhost:${PORT} (${HEADLESS ? 'headless' : 'headed'} chromium)`);
+  console.log(`[executor] accepting requests from ${ALLOWED_ORIGINS.join(', ')}`);
+});
+
+const shutdown = async () => {
+  server.close();
+  if (browserPromise) await (await browserPromise).close().catch(() => undefined);
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,229 @@
+/**
+ * Minimal OpenID Connect provider for trying SSO sign-in locally. Not for production use:
+ * anyone can sign in as any listed account without a password.
+ *
+ *   npm run mock-idp
+ *
+ * Then set in .env.local:
+ *   OIDC_ISSUER=http://localhost:4320
+ *   OIDC_CLIENT_ID=autotest-ai
+ *
+ * Environment:
+ *   MOCK_IDP_PORT       port to listen on (default 4320)
+ *   MOCK_IDP_CLIENT_ID  the only client id accepted (default autotest-ai)
+ */
+import http from 'node:http';
+import { createHash, createSign, generateKeyPairSync, randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 4320);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'autotest-ai';
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 5 * 60;
+const KEY_ID = 'mock-idp-1';
+
+interface MockAccount {
+  sub: string;
+  name: string;
+  email: string;
+}
+
+// i18n-ignore-start: test accounts matching the sample workspace
+const ACCOUNTS: MockAccount[] = [
+  { sub: 'mock-admin', name: '최고 관리자', email: 'administrator@autotest.ai' },
+  { sub: 'mock-bear', name: '테스터 곰', email: 'bear@autotest.ai' },
+  { sub: 'mock-dave', name: '개발자 데이브', email: 'dave@dev.co' },
+  { sub: 'mock-guest', name: '외부 협력사', email: 'guest@partner.example' }
+];
+// i18n-ignore-end
+
+interface PendingCode {
+  account: MockAccount;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  expiresAt: number;
+}
+
+// A fresh key per process; clients fetch it from the JWKS endpoint
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+const codes = new Map<string, PendingCode>();
+
+const base64Url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+const signIdToken = (claims: Record<string, unknown>) => {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64Url(JSON.stringify(claims));
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey);
+  return `${header}.${payload}.${base64Url(signature)}`;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const redirectWith = (res: http.ServerResponse, redirectUri: string, params: Record<string, string>) => {
+  const url = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+};
+
+// Account picker shown instead of a password prompt. It stands in for the identity provider's own
+// page, outside the app, so it isn't translated with the app's catalogs.
+// i18n-ignore-start: the mock identity provider's page, not part of the app
+const renderAuthorizePage = (query: URLSearchParams) => {
+  const hidden = Array.from(query.entries())
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join('');
+  const buttons = ACCOUNTS.map(a =>
+    `<button name="account" value="${a.sub}">${escapeHtml(a.name)}<small>${escapeHtml(a.email)}</small></button>`).join('');
+  return `<!doctype html><html lang="ko"><head><meta charset="utf-8"><title>Mock IdP</title>
+<style>body{font-family:sans-serif;background:#0f172a;display:flex;justify-content:center;padding-top:10vh}
+form{background:#fff;border-radius:12px;padding:24px;width:320px}h1{font-size:18px;margin:0 0 16px}
+button{display:block;width:100%;text-align:left;padding:10px;margin-bottom:8px;border:1px solid #cbd5e1;border-radius:8px;background:#fff;cursor:pointer}
+button:hover{background:#f1f5f9}small{display:block;color:#64748b}.deny{text-align:center;color:#b91c1c}</style></head>
+<body><form method="post" action="/authorize"><h1>Mock IdP — 계정 선택</h1>${hidden}${buttons}
+<button class="deny" name="account" value="">거부</button></form></body></html>`;
+};
+// i18n-ignore-end
+
+const handleAuthorize = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+  if (req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(renderAuthorizePage(url.searchParams));
+    return;
+  }
+
+  const form = new URLSearchParams(await readBody(req));
+  const redirectUri = form.get('redirect_uri') || '';
+  const state = form.get('state') || '';
+  if (form.get('client_id') !== CLIENT_ID || !redirectUri) {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'Unknown client_id or missing redirect_uri' });
+    return;
+  }
+  if (form.get('code_challenge_method') !== 'S256' || !form.get('code_challenge')) {
+    redirectWith(res, redirectUri, { error: 'invalid_request', error_description: 'PKCE (S256) is required', state });
+    return;
+  }
+
+  const account = ACCOUNTS.find(a => a.sub === form.get('account'));
+  if (!account) {
+    redirectWith(res, redirectUri, { error: 'access_denied', error_description: 'The user denied the request', state });
+    return;
+  }
+
+  const code = randomBytes(24).toString('hex');
+  codes.set(code, {
+    account,
+    clientId: CLIENT_ID,
+    redirectUri,
+    codeChallenge: form.get('code_challenge')!,
+    nonce: form.get('nonce') || undefined,
+    expiresAt: Date.now() + CODE_TTL_MS
+  });
+  redirectWith(res, redirectUri, { code, state });
+};
+
+const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const form = new URLSearchParams(await readBody(req));
+  const code = form.get('code') || '';
+  const pending = codes.get(code);
+  codes.delete(code); // Codes are single-use
+
+  if (form.get('grant_type') !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+    sendJson(res, 400, { error: 'invalid_grant' });
+    return;
+  }
+  if (form.get('client_id') !== pending.clientId || form.get('redirect_uri') !== pending.redirectUri) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'client_id or redirect_uri mismatch' });
+    return;
+  }
+  const challenge = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+  if (challenge !== pending.codeChallenge) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  sendJson(res, 200, {
+    token_type: 'Bearer',
+    access_token: randomBytes(24).toString('hex'),
+    expires_in: TOKEN_TTL_SECONDS,
+    id_token: signIdToken({
+      iss: ISSUER,
+      aud: pending.clientId,
+      sub: pending.account.sub,
+      email: pending.account.email,
+      email_verified: true,
+      name: pending.account.name,
+      nonce: pending.nonce,
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS
+    })
+  });
+};
+
+const server = http.createServer(async (req, res) => {
+  // Discovery, JWKS and token requests come straight from the web app
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', ISSUER);
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: ['openid', 'email', 'profile']
+      });
+      return;
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      sendJson(res, 200, { keys: [publicJwk] });
+      return;
+    }
+    if (url.pathname === '/authorize' && (req.method === 'GET' || req.method === 'POST')) {
+      await handleAuthorize(req, res, url);
+      return;
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      await handleToken(req, res);
+      return;
+    }
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('[mock-idp] request failed:', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-idp] issuer ${ISSUER} (client_id: ${CLIENT_ID})`);
+});
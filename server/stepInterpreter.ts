@@ -0,0 +1,145 @@
+/**
+ * Turns free-text TestStep actions and expected results into browser commands and assertions.
+ * Understands quoted targets in Korean and English phrasing, e.g.
+ *   `"로그인" 버튼 클릭`, `"이메일"에 "{{testEmail}}" 입력`, `click "Sign in"`, `fill "Email" with "a@b.c"`
+ * and expectations such as `"환영합니다" 메시지 표시` or `URL에 /dashboard 포함`.
+ * Anything it cannot interpret is reported back rather than guessed.
+ */
+
+export type BrowserCommand =
+  | { kind: 'goto'; url: string }
+  | { kind: 'click'; target: string }
+  | { kind: 'fill'; field: string; value: string }
+  | { kind: 'press'; key: string }
+  | { kind: 'wait'; ms: number }
+  | { kind: 'scroll'; direction: 'top' | 'bottom' };
+
+export type BrowserAssertion =
+  | { kind: 'text'; text: string }
+  | { kind: 'url'; fragment: string }
+  | { kind: 'title'; text: string };
+
+export interface InterpreterContext {
+  baseUrl: string;
+  testEmail?: string;
+}
+
+const QUOTE_PATTERN = /"([^"]+)"|“([^”]+)”|'([^']+)'|‘([^’]+)’|「([^」]+)」/g;
+const URL_PATTERN = /https?:\/\/[^\s"'“”]+/i;
+const PATH_PATTERN = /(?:^|[\s(])(\/[\w\-./?=&%#]*)/;
+
+// i18n-ignore-start: words read from test steps, not interface text
+const NAVIGATE_KEYWORDS = ['이동', '접속', '방문', '열기', '연다', 'navigate', 'go to', 'open', 'visit'];
+const CLICK_KEYWORDS = ['클릭', '누르', '누름', '탭', 'click', 'tap', 'press the', 'select'];
+const FILL_KEYWORDS = ['입력', '작성', 'type', 'enter', 'fill'];
+const KEY_NAMES: Record<string, string> = { enter: 'Enter', 엔터: 'Enter', tab: 'Tab', 탭키: 'Tab', escape: 'Escape', esc: 'Escape' };
+
+export const extractQuoted = (text: string): string[] =>
+  Array.from(text.matchAll(QUOTE_PATTERN)).map(m => (m[1] ?? m[2] ?? m[3] ?? m[4] ?? m[5]).trim()).filter(Boolean);
+
+const includesAny = (text: string, keywords: string[]) => keywords.some(k => text.includes(k));
+
+const applyPlaceholders = (text: string, ctx: InterpreterContext) =>
+  text.replace(/\{\{\s*(testEmail|email)\s*\}\}/gi, ctx.testEmail || '');
+
+const resolveUrl = (target: string, baseUrl: string) => {
+  try {
+    return new URL(target, baseUrl).toString();
+  } catch {
+    return target;
+  }
+};
+
+export const interpretAction = (rawAction: string, ctx: InterpreterContext): BrowserCommand | null => {
+  const action = applyPlaceholders(rawAction, ctx).trim();
+  const lower = action.toLowerCase();
+  const quoted = extractQuoted(action);
+
+  // Keyboard keys: "Enter 키 입력", "press Enter"
+  const keyMatch = lower.match(/(enter|엔터|tab|escape|esc)\s*키/) || lower.match(/press\s+(enter|tab|escape|esc)\b/);
+  if (keyMatch) return { kind: 'press', key: KEY_NAMES[keyMatch[1]] };
+
+  const waitMatch = lower.match(/(\d+(?:\.\d+)?)\s*(초|s\b|sec|seconds?)/);
+  if (waitMatch && (lower.includes('대기') || lower.includes('wait') || lower.includes('기다'))) {
+    return { kind: 'wait', ms: Math.round(parseFloat(waitMatch[1]) * 1000) };
+  }
+
+  if (lower.includes('스크롤') || lower.includes('scroll')) {
+    const toTop = lower.includes('위') || lower.includes('상단') || lower.includes('top');
+    return { kind: 'scroll', direction: toTop ? 'top' : 'bottom' };
+  }
+
+  if (includesAny(lower, FILL_KEYWORDS)) {
+    if (quoted.length >= 2) {
+      // English "type <value> into <field>" lists the value first
+      const valueFirst = /\b(type|enter)\b/.test(lower) && /\binto\b/.test(lower);
+      return valueFirst
+        ? { kind: 'fill', field: quoted[1], value: quoted[0] }
+        : { kind: 'fill', field: quoted[0], value: quoted[1] };
+    }
+    if (quoted.length === 1 && ctx.testEmail && (lower.includes('이메일') || lower.includes('email'))) {
+      return { kind: 'fill', field: quoted[0], value: ctx.testEmail };
+    }
+    return null;
+  }
+
+  if (includesAny(lower, CLICK_KEYWORDS)) {
+    if (quoted.length > 0) return { kind: 'click', target: quoted[0] };
+    const korean = action.match(/(\S+)\s*(버튼|링크|탭|메뉴)/);
+    if (korean) return { kind: 'click', target: korean[1] };
+    const english = action.match(/click (?:on )?(?:the )?(.+?) (?:button|link|tab)/i);
+    if (english) return { kind: 'click', target: english[1] };
+    // "개인정보 처리방침 클릭" -> click the text in front of the verb
+    const leading = action.match(/^(.+?)\s*(?:을|를)?\s*(?:클릭|누르|누름)/);
+    if (leading) return { kind: 'click', target: leading[1].trim() };
+    return null;
+  }
+
+  const url = action.match(URL_PATTERN);
+  if (url) return { kind: 'goto', url: url[0] };
+
+  if (includesAny(lower, NAVIGATE_KEYWORDS)) {
+    const path = action.match(PATH_PATTERN);
+    return { kind: 'goto', url: resolveUrl(path ? path[1] : '/', ctx.baseUrl) };
+  }
+
+  return null;
+};
+
+export const interpretExpectation = (rawExpected: string, ctx: InterpreterContext): BrowserAssertion[] => {
+  const expected = applyPlaceholders(rawExpected, ctx);
+  const lower = expected.toLowerCase();
+  const assertions: BrowserAssertion[] = [];
+
+  const isTitle = lower.includes('title') || lower.includes('제목');
+  extractQuoted(expected).forEach(text => {
+    assertions.push(isTitle ? { kind: 'title', text } : { kind: 'text', text });
+  });
+
+  if (lower.includes('url') || lower.includes('주소') || lower.includes('리디렉') || lower.includes('redirect')) {
+    const path = expected.match(PATH_PATTERN);
+    if (path && path[1] !== '/') assertions.push({ kind: 'url', fragment: path[1] });
+  }
+
+  return assertions;
+};
+// i18n-ignore-end
+
+export const describeCommand = (command: BrowserCommand): string => {
+  switch (command.kind) {
+    case 'goto': return `goto ${command.url}`;
+    case 'click': return `click "${command.target}"`;
+    case 'fill': return `fill "${command.field}" with "${command.value}"`;
+    case 'press': return `press ${command.key}`;
+    case 'wait': return `wait ${command.ms}ms`;
+    case 'scroll': return `scroll to ${command.direction}`;
+  }
+};
+
+export const describeAssertion = (assertion: BrowserAssertion): string => {
+  switch (assertion.kind) {
+    case 'text': return `expect text "${assertion.text}"`;
+    case 'url': return `expect URL to contain "${assertion.fragment}"`;
+    case 'title': return `expect title "${assertion.text}"`;
+  }
+};
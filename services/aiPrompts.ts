@@ -0,0 +1,178 @@
+import { AiLanguage } from "../types";
+import { GenerateCasesInput, JsonSchema, LlmRequest, LlmTaskInput, SimulationInput, TranslateCasesInput } from "./llm/types";
+
+// Prompts and response schemas for the AI features. Shared by the browser, which sends them to
+// local providers, and the AI proxy (server/aiProxy.ts), which builds Gemini requests itself.
+
+// i18n-ignore-start: each language is named in itself
+export const AI_LANGUAGES: { id: AiLanguage; label: string; promptName: string }[] = [
+  { id: 'ko', label: '한국어', promptName: 'Korean (한국어)' },
+  { id: 'en', label: 'English', promptName: 'English' },
+  { id: 'ja', label: '日本語', promptName: 'Japanese (日本語)' }
+];
+// i18n-ignore-end
+
+export const DEFAULT_AI_LANGUAGE: AiLanguage = 'ko';
+
+export const isAiLanguage = (value: unknown): value is AiLanguage => AI_LANGUAGES.some(l => l.id === value);
+
+// The suite's language wins, so everyone working on a suite gets cases in the same language
+export const resolveAiLanguage = (suite: { aiLanguage?: AiLanguage } | undefined, userLanguage?: AiLanguage): AiLanguage =>
+  suite?.aiLanguage || userLanguage || DEFAULT_AI_LANGUAGE;
+
+const languageName = (language: AiLanguage) =>
+  (AI_LANGUAGES.find(l => l.id === language) || AI_LANGUAGES[0]).promptName;
+
+const testCaseSchema = (language: string): JsonSchema => ({
+  type: 'object',
+  properties: {
+    testCases: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: `A concise title for the test case in ${language}` },
+          description: { type: 'string', description: `Brief objective of the test in ${language}` },
+          priority: { type: 'string', enum: ["Low", "Medium", "High"] },
+          steps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                action: { type: 'string', description: `The step action to perform in ${language}` },
+                expectedResult: { type: 'string', description: `The expected outcome of the step in ${language}` }
+              },
+              required: ["action", "expectedResult"]
+            }
+          }
+        },
+        required: ["title", "priority", "steps"]
+      }
+    }
+  },
+  required: ["testCases"]
+});
+
+const simulationSchema = (language: string): JsonSchema => ({
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ["PASSED", "FAILED", "SKIPPED"] },
+    logs: { type: 'string', description: `Detailed technical execution logs and observations in ${language}` },
+    failedStep: { type: 'integer', description: "1-based number of the step that failed, or 0 if no step failed" },
+    failureReason: { type: 'string', description: `Actual result observed at the failed step, in ${language}` }
+  },
+  required: ["status", "logs"]
+});
+
+const translationSchema = (language: string): JsonSchema => ({
+  type: 'object',
+  properties: {
+    testCases: {
+      type: 'array',
+      description: 'The translated test cases, in the same order and with the same number of steps as the input',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: `The title in ${language}` },
+          description: { type: 'string', description: `The description in ${language}; empty if the input has none` },
+          steps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                action: { type: 'string', description: `The step action in ${language}` },
+                expectedResult: { type: 'string', description: `The expected result in ${language}` }
+              },
+              required: ["action", "expectedResult"]
+            }
+          }
+        },
+        required: ["title", "description", "steps"]
+      }
+    }
+  },
+  required: ["testCases"]
+});
+
+const buildGenerateCasesRequest = (input: GenerateCasesInput): LlmRequest => {
+  const { featureDescription, contextInfo } = input;
+  const language = languageName(input.language);
+  const prompt = `
+    You are an expert QA Automation Engineer fluent in ${language}.
+    
+    Target Application Context: ${contextInfo || "General Software Application"}
+    
+    Task: Generate a comprehensive list of test cases for the following feature/data:
+    "${featureDescription}"
+    
+    Requirements:
+    1. Analyze the input feature or data.
+    2. Generate test cases covering positive, negative, and edge cases.
+    3. CRITICAL: All user-facing text (Titles, Descriptions, Actions, Expected Results) MUST be written in ${language}.
+    4. If the context is a Website, assume standard browser interactions.
+    5. If the context is a Desktop App, assume standard window/OS interactions.
+    
+    Return the response in strictly structured JSON.
+  `;
+  return {
+    task: 'generateCases',
+    input,
+    prompt,
+    systemInstruction: `You are a helpful QA assistant that generates high-quality software test cases in ${language}.`,
+    schema: testCaseSchema(language)
+  };
+};
+
+const buildSimulationRequest = (input: SimulationInput): LlmRequest => {
+  const { testCase, contextInfo } = input;
+  const language = languageName(input.language);
+  const stepsText = testCase.steps.map((s, i) => `${i + 1}. ${s.action} -> Expect: ${s.expectedResult}`).join('\n');
+
+  const prompt = `
+    Role: Autonomous Test Agent
+    Task: Simulate the execution of a software test case and determine the result.
+    
+    Context: ${contextInfo}
+    Test Case: "${testCase.title}"
+    Steps:
+    ${stepsText}
+    
+    Instructions:
+    1. Act as if you are executing these steps on the real application.
+    2. Generate a realistic execution log (in ${language}) describing what happened.
+    3. Determine the outcome (PASSED, FAILED, or SKIPPED).
+    4. Bias towards PASSED (approx 80%), but introduce realistic failures (20%) for negative scenarios or complex edge cases.
+    5. If the outcome is FAILED, set "failedStep" to the number of the step that failed and describe what actually happened in "failureReason". Otherwise set "failedStep" to 0.
+    
+    Return strictly JSON.
+  `;
+  return { task: 'simulate', input, prompt, schema: simulationSchema(language) };
+};
+
+const buildTranslationRequest = (input: TranslateCasesInput): LlmRequest => {
+  const language = languageName(input.language);
+  const prompt = `
+    Role: Professional software localization translator for QA documentation
+    Task: Translate the following test cases into ${language}.
+
+    Test Cases (JSON):
+    ${JSON.stringify(input.cases, null, 2)}
+
+    Instructions:
+    1. Translate every title, description, step action and expected result into ${language}.
+    2. Keep the test cases in the same order, and keep the same number of steps in each case.
+    3. Keep UI labels in quotes, URLs, placeholders such as {{testEmail}}, code and data values unchanged.
+    4. Text that is already in ${language} stays as it is.
+
+    Return strictly JSON.
+  `;
+  return { task: 'translateCases', input, prompt, schema: translationSchema(language) };
+};
+
+export const buildLlmRequest = (task: LlmTaskInput): LlmRequest => {
+  switch (task.task) {
+    case 'simulate': return buildSimulationRequest(task.input);
+    case 'translateCases': return buildTranslationRequest(task.input);
+    default: return buildGenerateCasesRequest(task.input);
+  }
+};
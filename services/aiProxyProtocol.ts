@@ -0,0 +1,56 @@
+import { GenerateCasesInput, LlmTask, SimulationInput, TranslateCasesInput } from './llm/types';
+
+// Wire format shared by the AI proxy (server/aiProxy.ts) and the Gemini provider.
+
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+export const AI_PROXY_PATHS: Record<LlmTask, string> = {
+  generateCases: '/generate-cases',
+  simulate: '/simulate',
+  translateCases: '/translate-cases'
+};
+
+// Where clients get a token when there is no auth server; answered with AiProxySession
+export const AI_PROXY_SESSION_PATH = '/session';
+
+// Sent with `Authorization: Bearer <token>`: the auth server's session token, or one the proxy issued.
+// The proxy builds the prompt from the input.
+export interface AiProxyRequest<T extends GenerateCasesInput | SimulationInput | TranslateCasesInput> {
+  model: string;
+  input: T;
+}
+
+export interface AiProxySession {
+  token: string;
+  expiresAt: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AiQuotaStatus {
+  tokensUsedToday: number;
+  dailyTokenLimit: number | null; // null when unlimited
+  requestsPerMinute: number;
+}
+
+export interface AiProxyResponse {
+  result: unknown; // JSON matching the task's response schema
+  usage: TokenUsage;
+  quota: AiQuotaStatus;
+}
+
+export type AiProxyErrorCode = 'UNAUTHORIZED' | 'BAD_REQUEST' | 'RATE_LIMITED' | 'QUOTA_EXCEEDED' | 'UPSTREAM_ERROR';
+
+export interface AiProxyError {
+  error: string; // For logs; the app words limit errors itself from the code
+  code: AiProxyErrorCode;
+  retryAfterSeconds?: number; // RATE_LIMITED only
+}
+
+export interface AiProxyModels {
+  models: string[]; // The first one is the default
+}
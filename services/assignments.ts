@@ -0,0 +1,41 @@
+import { CaseAssignment, TestPlan, TestRun, TestSuite } from '../types';
+import { getEntryCases } from './testPlans';
+
+// A case belongs to its explicit assignee, otherwise to whoever the run is assigned to
+export const getCaseAssignee = (run: TestRun, caseId: string, plan?: TestPlan): string | undefined =>
+  plan?.assignments?.find(a => a.suiteId === run.suiteId && a.caseId === caseId)?.userId ?? run.assignedTo;
+
+export const getRunCaseIds = (run: TestRun, suite?: TestSuite): string[] =>
+  run.caseIds ?? suite?.cases.map(c => c.id) ?? Object.keys(run.results);
+
+export const getAssignedCaseIds = (run: TestRun, userId: string, suite?: TestSuite, plan?: TestPlan): string[] =>
+  getRunCaseIds(run, suite).filter(caseId => getCaseAssignee(run, caseId, plan) === userId);
+
+// Everyone who owns at least one case in the run
+export const getRunAssignees = (run: TestRun, suite?: TestSuite, plan?: TestPlan): string[] =>
+  Array.from(new Set(
+    getRunCaseIds(run, suite).map(caseId => getCaseAssignee(run, caseId, plan)).filter(Boolean) as string[]
+  ));
+
+// Number of cases each user owns in the plan, after entry defaults and per-case overrides
+export const countPlanAssignments = (plan: TestPlan, suites: TestSuite[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  plan.entries.forEach(entry => {
+    const suite = suites.find(s => s.id === entry.suiteId);
+    getEntryCases(entry, suite).forEach(c => {
+      const userId = plan.assignments?.find(a => a.suiteId === entry.suiteId && a.caseId === c.id)?.userId ?? entry.assigneeId;
+      if (userId) counts.set(userId, (counts.get(userId) || 0) + 1);
+    });
+  });
+  return counts;
+};
+
+export const setCaseAssignment = (
+  assignments: CaseAssignment[] = [],
+  suiteId: string,
+  caseId: string,
+  userId?: string
+): CaseAssignment[] => {
+  const rest = assignments.filter(a => !(a.suiteId === suiteId && a.caseId === caseId));
+  return userId ? [...rest, { suiteId, caseId, userId }] : rest;
+};
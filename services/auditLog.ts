@@ -0,0 +1,169 @@
+import {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEntry,
+  AuditValue,
+  Issue,
+  Role,
+  TestCase,
+  TestPlan,
+  TestRun,
+  TestSuite,
+  User
+} from '../types';
+
+/**
+ * Audit entries are derived by diffing snapshots of the tracked collections rather than
+ * by instrumenting every handler, so no change can slip past unrecorded. Bursts of edits
+ * (typing, step-by-step run progress) are collapsed by diffing at most once per flush.
+ */
+export interface AuditSnapshot {
+  suites: TestSuite[];
+  runs: TestRun[];
+  issues: Issue[];
+  plans: TestPlan[];
+}
+
+// How long edits may keep coming before they are written as one entry
+export const AUDIT_FLUSH_DELAY_MS = 1500;
+
+const MAX_VALUE_LENGTH = 500;
+
+type EntryDraft = Omit<AuditEntry, 'id' | 'timestamp' | 'actorId'>;
+type Projection = Record<string, unknown>;
+
+const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  const json = JSON.stringify(value);
+  return json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH)}…` : json;
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const diffProjections = (before: Projection, after: Projection): AuditChange[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .filter(field => !(isEmpty(before[field]) && isEmpty(after[field])))
+    .map(field => ({ field, before: toAuditValue(before[field]), after: toAuditValue(after[field]) }));
+
+const diffEntities = <T extends { id: string }>(
+  before: T[],
+  after: T[],
+  entityType: AuditEntityType,
+  project: (item: T) => Projection,
+  describe: (item: T) => string,
+  parentOf?: (item: T) => string | undefined
+): EntryDraft[] => {
+  if (before === after) return [];
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterById = new Map(after.map(item => [item.id, item]));
+  const drafts: EntryDraft[] = [];
+
+  const push = (item: T, action: AuditAction, changes: AuditChange[]) => {
+    if (changes.length === 0) return;
+    drafts.push({ action, entityType, entityId: item.id, entityName: describe(item), parentId: parentOf?.(item), changes });
+  };
+
+  after.forEach(item => {
+    const previous = beforeById.get(item.id);
+    if (!previous) push(item, 'CREATED', diffProjections({}, project(item)));
+    else if (previous !== item) push(item, 'UPDATED', diffProjections(project(previous), project(item)));
+  });
+  before.forEach(item => {
+    if (!afterById.has(item.id)) push(item, 'DELETED', diffProjections(project(item), {}));
+  });
+  return drafts;
+};
+
+// --- PROJECTIONS ---
+// Only the fields worth auditing, flattened to readable values
+
+const projectSuite = (suite: TestSuite): Projection => ({
+  name: suite.name,
+  description: suite.description,
+  qualityGates: suite.qualityGates,
+  aiLanguage: suite.aiLanguage
+});
+
+const projectCase = (testCase: TestCase): Projection => ({
+  title: testCase.title,
+  description: testCase.description,
+  priority: testCase.priority,
+  steps: testCase.steps.map(s => `${s.action} → ${s.expectedResult}`)
+});
+
+const projectRun = (run: TestRun): Projection => {
+  const projection: Projection = {
+    status: run.status,
+    executedBy: run.executedBy,
+    assignedTo: run.assignedTo,
+    gatePassed: run.gateVerdict?.passed
+  };
+  Object.values(run.results).forEach(result => {
+    if (result.status !== 'IDLE') projection[`result:${result.caseId}`] = result.status;
+  });
+  return projection;
+};
+
+const projectIssue = (issue: Issue): Projection => ({
+  title: issue.title,
+  description: issue.description,
+  status: issue.status,
+  priority: issue.priority,
+  assignee: issue.assignee,
+  linkedCases: issue.linkedCases?.map(l => `${l.suiteId}/${l.caseId}`)
+});
+
+const projectPlan = (plan: TestPlan): Projection => ({
+  name: plan.name,
+  milestone: plan.milestone,
+  description: plan.description,
+  startDate: plan.startDate,
+  targetDate: plan.targetDate,
+  entries: plan.entries.map(e => e.caseIds ? `${e.suiteId} (${e.caseIds.length})` : e.suiteId),
+  assignments: plan.assignments?.map(a => `${a.suiteId}/${a.caseId}=${a.userId}`)
+});
+
+const diffPermissions = (before: TestSuite, after: TestSuite, users: User[]): EntryDraft[] => {
+  const beforeRoles: Record<string, Role> = before.permissions || {};
+  const afterRoles: Record<string, Role> = after.permissions || {};
+  return Array.from(new Set([...Object.keys(beforeRoles), ...Object.keys(afterRoles)]))
+    .filter(userId => beforeRoles[userId] !== afterRoles[userId])
+    .map(userId => ({
+      action: !beforeRoles[userId] ? 'CREATED' : !afterRoles[userId] ? 'DELETED' : 'UPDATED',
+      entityType: 'PERMISSION',
+      entityId: `${after.id}:${userId}`,
+      entityName: `${after.name} · ${users.find(u => u.id === userId)?.name || userId}`,
+      parentId: after.id,
+      changes: [{ field: 'role', before: beforeRoles[userId] ?? null, after: afterRoles[userId] ?? null }]
+    }));
+};
+
+const diffSuites = (before: TestSuite[], after: TestSuite[], users: User[]): EntryDraft[] => {
+  if (before === after) return [];
+  const drafts = diffEntities(before, after, 'SUITE', projectSuite, s => s.name);
+
+  // Cases are audited on their own so a removed test shows up by name, even when its whole suite goes
+  const suiteIds = new Set([...before.map(s => s.id), ...after.map(s => s.id)]);
+  suiteIds.forEach(suiteId => {
+    const previous = before.find(s => s.id === suiteId);
+    const current = after.find(s => s.id === suiteId);
+    if (previous === current) return;
+    drafts.push(...diffEntities(previous?.cases || [], current?.cases || [], 'CASE', projectCase, c => c.title, () => suiteId));
+    if (previous && current) drafts.push(...diffPermissions(previous, current, users));
+  });
+  return drafts;
+};
+
+export const buildAuditEntries = (before: AuditSnapshot, after: AuditSnapshot, actorId: string, users: User[]): AuditEntry[] => {
+  const timestamp = new Date().toISOString();
+  return [
+    ...diffSuites(before.suites, after.suites, users),
+    ...diffEntities(before.runs, after.runs, 'RUN', projectRun, r => r.suiteName, r => r.suiteId),
+    ...diffEntities(before.issues, after.issues, 'ISSUE', projectIssue, i => `${i.key} ${i.title}`),
+    ...diffEntities(before.plans, after.plans, 'PLAN', projectPlan, p => p.name)
+  ].map(draft => ({ ...draft, id: crypto.randomUUID(), timestamp, actorId }));
+};
@@ -0,0 +1,85 @@
+import { GlobalRole, User } from '../../types';
+import { AuthCredential, AuthError, AuthIdentity, AuthResult } from './types';
+import { msg } from '../i18n';
+
+export const DEFAULT_AVATAR = '👤';
+
+export const isGlobalAdmin = (user: User) => user.globalRole === 'ADMIN';
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const findUserByEmail = (users: User[], email: string) =>
+  users.find(u => normalizeEmail(u.email) === normalizeEmail(email));
+
+// Until somebody can sign in, nobody could grant admin rights, so the first account gets them
+export const isBootstrapping = (credentials: AuthCredential[]) => credentials.length === 0;
+
+export const hasCredentials = (credentials: AuthCredential[], userId: string) =>
+  credentials.some(c => c.userId === userId);
+
+export const buildCredential = (
+  user: User,
+  identity: Pick<AuthIdentity, 'provider' | 'subject' | 'issuer'>,
+  extra: Partial<AuthCredential> = {}
+): AuthCredential => ({
+  id: crypto.randomUUID(),
+  userId: user.id,
+  provider: identity.provider,
+  subject: identity.subject,
+  issuer: identity.issuer,
+  createdAt: new Date().toISOString(),
+  ...extra
+});
+
+export const buildUser = (name: string, email: string, avatar: string, globalRole: GlobalRole): User => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  email: email.trim(),
+  avatar: avatar || DEFAULT_AVATAR,
+  globalRole
+});
+
+export const touchCredential = (credentials: AuthCredential[], credentialId: string): AuthCredential[] =>
+  credentials.map(c => c.id === credentialId ? { ...c, lastLoginAt: new Date().toISOString() } : c);
+
+/**
+ * Maps an identity proven by an external provider to a user. Known subjects sign in directly;
+ * otherwise a verified email links to an existing user that has no way to sign in yet, and anyone
+ * whose email no user has gets a new account. A user who already has a login is never linked by
+ * email alone: whoever controls that address at the IdP would take over the account. An unverified
+ * email that matches a user is refused rather than given a second user with the same address.
+ */
+export const resolveExternalIdentity = (
+  identity: AuthIdentity,
+  users: User[],
+  credentials: AuthCredential[]
+): AuthResult | null => {
+  const known = credentials.find(c =>
+    c.provider === identity.provider && c.issuer === identity.issuer && c.subject === identity.subject);
+  if (known) {
+    const user = users.find(u => u.id === known.userId);
+    if (!user) return null;
+    return { user, users, credentials: touchCredential(credentials, known.id), isNewUser: false };
+  }
+
+  const bootstrapping = isBootstrapping(credentials);
+  const byEmail = findUserByEmail(users, identity.email);
+  if (byEmail && hasCredentials(credentials, byEmail.id)) {
+    throw new AuthError(msg('auth.emailLinkedElsewhere'), identity.provider);
+  }
+  if (byEmail && !identity.emailVerified) {
+    throw new AuthError(msg('auth.emailUnverified'), identity.provider);
+  }
+
+  const user = byEmail
+    ? { ...byEmail, globalRole: bootstrapping ? 'ADMIN' as const : byEmail.globalRole }
+    : buildUser(identity.name || identity.email, identity.email, DEFAULT_AVATAR, bootstrapping ? 'ADMIN' : 'USER');
+  const credential = buildCredential(user, identity, { lastLoginAt: new Date().toISOString() });
+
+  return {
+    user,
+    users: byEmail ? users.map(u => u.id === user.id ? user : u) : [...users, user],
+    credentials: [...credentials, credential],
+    isNewUser: !byEmail
+  };
+};
@@ -0,0 +1,61 @@
+import { User } from '../../types';
+import { AuthBackend, AuthCredential, AuthError, AuthProviderId, AuthResult, Session, SignIn } from './types';
+import { StorageAdapter, loadCollection, saveCollection } from '../storage';
+import { msg } from '../i18n';
+import { isBootstrapping, resolveExternalIdentity } from './accounts';
+import { LocalRegistration, loginWithPassword, registerLocalAccount } from './localProvider';
+import { OidcCallback, OidcExchangeConfig, exchangeOidcCode } from './oidcProvider';
+import { createSession, findActiveSession, pruneExpiredSessions } from './sessions';
+
+/**
+ * Keeps credentials and sessions in this browser's storage, next to the other collections. Only used
+ * with browser storage, where no other client can read them; shared storage uses the auth server.
+ */
+export class BrowserAuthBackend implements AuthBackend {
+  readonly name = 'browser';
+
+  constructor(private readonly storage: StorageAdapter, private readonly oidc: OidcExchangeConfig | null) {}
+
+  private async credentials(): Promise<AuthCredential[]> {
+    return (await loadCollection<AuthCredential>(this.storage, 'credentials')) || [];
+  }
+
+  private async sessions(): Promise<Session[]> {
+    return pruneExpiredSessions((await loadCollection<Session>(this.storage, 'sessions')) || []);
+  }
+
+  // Stores the logins a sign-in produced and opens a session for it
+  private async open(result: AuthResult | null, provider: AuthProviderId): Promise<SignIn> {
+    if (!result) throw new AuthError(msg('app.ssoUserNotFound'), provider);
+    const session = createSession(result.user.id, provider);
+    await saveCollection(this.storage, 'credentials', result.credentials);
+    await saveCollection(this.storage, 'sessions', [...await this.sessions(), session]);
+    return { user: result.user, isNewUser: result.isNewUser, token: session.id };
+  }
+
+  async hasAccounts(): Promise<boolean> {
+    return !isBootstrapping(await this.credentials());
+  }
+
+  async register(registration: LocalRegistration, users: User[]): Promise<SignIn> {
+    return this.open(await registerLocalAccount(registration, users, await this.credentials()), 'local');
+  }
+
+  async login(email: string, password: string, users: User[]): Promise<SignIn> {
+    return this.open(await loginWithPassword(email, password, users, await this.credentials()), 'local');
+  }
+
+  async loginWithOidc(callback: OidcCallback, users: User[]): Promise<SignIn> {
+    if (!this.oidc) throw new AuthError(msg('auth.ssoNotConfigured'), 'oidc');
+    const identity = await exchangeOidcCode(this.oidc, callback);
+    return this.open(resolveExternalIdentity(identity, users, await this.credentials()), 'oidc');
+  }
+
+  async resume(token: string): Promise<string | null> {
+    return findActiveSession(await this.sessions(), token)?.userId || null;
+  }
+
+  async logout(token: string): Promise<void> {
+    await saveCollection(this.storage, 'sessions', (await this.sessions()).filter(s => s.id !== token));
+  }
+}
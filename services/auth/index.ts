@@ -0,0 +1,47 @@
+import { AuthBackend, AuthProviderInfo } from './types';
+import { getOidcConfig } from './oidcProvider';
+import { BrowserAuthBackend } from './browserBackend';
+import { ServerAuthBackend } from './serverBackend';
+import { StorageAdapter, StorageConfig, getStorageConfig } from '../storage';
+
+export type {
+  AuthBackend,
+  AuthCredential,
+  AuthIdentity,
+  AuthProviderId,
+  AuthProviderInfo,
+  AuthResult,
+  Session,
+  SignIn
+} from './types';
+export { AuthError } from './types';
+export { isGlobalAdmin, resolveExternalIdentity, DEFAULT_AVATAR } from './accounts';
+export { MIN_PASSWORD_LENGTH } from './password';
+export { registerLocalAccount, loginWithPassword } from './localProvider';
+export type { LocalRegistration } from './localProvider';
+export { getOidcConfig, beginOidcLogin, readOidcCallback, exchangeOidcCode, isOidcCallback } from './oidcProvider';
+export type { OidcCallback, OidcExchangeConfig } from './oidcProvider';
+export {
+  createSession,
+  findActiveSession,
+  getStoredSessionToken,
+  storeSessionToken,
+  pruneExpiredSessions
+} from './sessions';
+
+export const DEFAULT_AUTH_SERVER_URL = 'http://localhost:4340';
+
+// Logins follow the data: in this browser with browser storage, on the auth server with shared storage
+export const createAuthBackend = (storage: StorageAdapter, config: StorageConfig = getStorageConfig()): AuthBackend =>
+  config.backend === 'rest'
+    ? new ServerAuthBackend(process.env.AUTH_SERVER_URL || DEFAULT_AUTH_SERVER_URL)
+    : new BrowserAuthBackend(storage, getOidcConfig());
+
+// Local accounts are always available; OIDC only when an issuer is configured
+export const getAuthProviders = (): AuthProviderInfo[] => {
+  const oidc = getOidcConfig();
+  return [
+    { id: 'local' },
+    ...(oidc ? [{ id: 'oidc' as const, label: oidc.label }] : [])
+  ];
+};
@@ -0,0 +1,79 @@
+import { User } from '../../types';
+import { AuthCredential, AuthError, AuthResult } from './types';
+import { msg } from '../i18n';
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from './password';
+import {
+  buildCredential,
+  buildUser,
+  findUserByEmail,
+  hasCredentials,
+  isBootstrapping,
+  normalizeEmail,
+  touchCredential
+} from './accounts';
+
+export interface LocalRegistration {
+  name: string;
+  email: string;
+  password: string;
+  avatar: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const registerLocalAccount = async (
+  registration: LocalRegistration,
+  users: User[],
+  credentials: AuthCredential[]
+): Promise<AuthResult> => {
+  const email = normalizeEmail(registration.email);
+  if (!registration.name.trim()) throw new AuthError(msg('auth.nameRequired'), 'local');
+  if (!EMAIL_PATTERN.test(email)) throw new AuthError(msg('auth.invalidEmail'), 'local');
+  if (registration.password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(msg('auth.passwordTooShort', { min: MIN_PASSWORD_LENGTH }), 'local');
+  }
+  if (credentials.some(c => c.provider === 'local' && c.subject === email)) {
+    throw new AuthError(msg('auth.emailRegistered'), 'local');
+  }
+
+  // Existing users without a login (e.g. seeded data) can only be claimed while no one can sign in yet
+  const bootstrapping = isBootstrapping(credentials);
+  const existing = findUserByEmail(users, email);
+  if (existing && (hasCredentials(credentials, existing.id) || !bootstrapping)) {
+    throw new AuthError(msg('auth.emailTaken'), 'local');
+  }
+
+  const user: User = existing
+    ? { ...existing, name: registration.name.trim(), avatar: registration.avatar || existing.avatar, globalRole: 'ADMIN' }
+    : buildUser(registration.name, email, registration.avatar, bootstrapping ? 'ADMIN' : 'USER');
+  const credential = buildCredential(user, { provider: 'local', subject: email }, {
+    ...(await hashPassword(registration.password)),
+    lastLoginAt: new Date().toISOString()
+  });
+
+  return {
+    user,
+    users: existing ? users.map(u => u.id === user.id ? user : u) : [...users, user],
+    credentials: [...credentials, credential],
+    isNewUser: !existing
+  };
+};
+
+export const loginWithPassword = async (
+  email: string,
+  password: string,
+  users: User[],
+  credentials: AuthCredential[]
+): Promise<AuthResult> => {
+  const credential = credentials.find(c => c.provider === 'local' && c.subject === normalizeEmail(email));
+  const user = credential && users.find(u => u.id === credential.userId);
+  const valid = !!credential?.passwordHash && !!credential.salt && !!credential.iterations && await verifyPassword(password, {
+    passwordHash: credential.passwordHash,
+    salt: credential.salt,
+    iterations: credential.iterations
+  });
+  // One message for every failure so the form doesn't reveal which emails are registered
+  if (!credential || !user || !valid) throw new AuthError(msg('auth.invalidLogin'), 'local');
+
+  return { user, users, credentials: touchCredential(credentials, credential.id), isNewUser: false };
+};
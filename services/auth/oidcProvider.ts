@@ -0,0 +1,180 @@
+import { AuthError, AuthIdentity } from './types';
+import { msg } from '../i18n';
+import { toHex } from './password';
+
+/**
+ * OpenID Connect sign-in using the authorization code flow with PKCE, as a public client.
+ * The ID token is checked against the issuer's JWKS (RS256) before any claim is trusted.
+ */
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  label: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// Kept in sessionStorage between leaving for the IdP and coming back
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+// What the app brings back from the IdP. It is traded for an identity in the browser, or by the auth
+// server when logins are kept there, which then learns the identity from the IdP itself.
+export interface OidcCallback {
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+}
+
+// The part of the configuration the code exchange needs
+export type OidcExchangeConfig = Pick<OidcConfig, 'issuer' | 'clientId'>;
+
+const PENDING_LOGIN_KEY = 'autotest_oidc_pending';
+const CLOCK_SKEW_SECONDS = 60;
+
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${window.location.origin}/`,
+    scope: 'openid email profile',
+    label: process.env.OIDC_LABEL || 'SSO'
+  };
+};
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const randomToken = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+const discover = async (config: OidcExchangeConfig): Promise<OidcDiscovery> => {
+  const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+  if (!response.ok) throw new AuthError(msg('auth.oidcDiscoveryFailed', { status: response.status }), 'oidc');
+  const discovery = await response.json() as OidcDiscovery;
+  if (discovery.issuer.replace(/\/$/, '') !== config.issuer) {
+    throw new AuthError(msg('auth.oidcIssuerMismatch'), 'oidc');
+  }
+  return discovery;
+};
+
+export const beginOidcLogin = async (config: OidcConfig): Promise<void> => {
+  const discovery = await discover(config);
+  const pending: PendingLogin = { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken() };
+  const challenge = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pending.codeVerifier)));
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scope,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: base64UrlEncode(challenge),
+    code_challenge_method: 'S256'
+  }).toString();
+  window.location.assign(url.toString());
+};
+
+export const isOidcCallback = (href: string) => {
+  const params = new URL(href).searchParams;
+  return (params.has('code') || params.has('error')) && params.has('state');
+};
+
+const decodeJson = (segment: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+
+const verifyIdToken = async (idToken: string, discovery: OidcDiscovery, config: OidcExchangeConfig, nonce: string) => {
+  const [headerPart, payloadPart, signaturePart] = idToken.split('.');
+  if (!headerPart || !payloadPart || !signaturePart) throw new AuthError(msg('auth.idTokenMalformed'), 'oidc');
+
+  const header = decodeJson(headerPart);
+  if (header.alg !== 'RS256') throw new AuthError(msg('auth.idTokenAlgorithm', { alg: String(header.alg) }), 'oidc');
+
+  const jwks = await (await fetch(discovery.jwks_uri)).json() as { keys: (JsonWebKey & { kid?: string })[] };
+  const jwk = jwks.keys.find(k => !header.kid || k.kid === header.kid);
+  if (!jwk) throw new AuthError(msg('auth.idTokenKeyMissing'), 'oidc');
+
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    base64UrlDecode(signaturePart),
+    new TextEncoder().encode(`${headerPart}.${payloadPart}`)
+  );
+  if (!valid) throw new AuthError(msg('auth.idTokenSignature'), 'oidc');
+
+  const claims = decodeJson(payloadPart);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw new AuthError(msg('auth.idTokenIssuer'), 'oidc');
+  if (!audiences.includes(config.clientId)) throw new AuthError(msg('auth.idTokenAudience'), 'oidc');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new AuthError(msg('auth.idTokenExpired'), 'oidc');
+  if (claims.nonce !== nonce) throw new AuthError(msg('auth.idTokenNonce'), 'oidc');
+  return claims;
+};
+
+// Checks the redirect back from the IdP belongs to the login this browser started; the caller strips
+// the query string afterwards
+export const readOidcCallback = (config: OidcConfig, href: string): OidcCallback => {
+  const params = new URL(href).searchParams;
+  const raw = sessionStorage.getItem(PENDING_LOGIN_KEY);
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+  if (params.get('error')) {
+    throw new AuthError(msg('auth.ssoDenied', { reason: params.get('error_description') || params.get('error') || '' }), 'oidc');
+  }
+  const pending = raw ? JSON.parse(raw) as PendingLogin : null;
+  if (!pending || pending.state !== params.get('state')) {
+    throw new AuthError(msg('auth.ssoStateMismatch'), 'oidc');
+  }
+  return { code: params.get('code') || '', codeVerifier: pending.codeVerifier, nonce: pending.nonce, redirectUri: config.redirectUri };
+};
+
+export const exchangeOidcCode = async (config: OidcExchangeConfig, callback: OidcCallback): Promise<AuthIdentity> => {
+  const discovery = await discover(config);
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: callback.code,
+      redirect_uri: callback.redirectUri,
+      client_id: config.clientId,
+      code_verifier: callback.codeVerifier
+    }).toString()
+  });
+  if (!response.ok) throw new AuthError(msg('auth.tokenExchangeFailed', { status: response.status }), 'oidc');
+
+  const { id_token: idToken } = await response.json() as { id_token?: string };
+  if (!idToken) throw new AuthError(msg('auth.idTokenMissing'), 'oidc');
+  const claims = await verifyIdToken(idToken, discovery, config, callback.nonce);
+
+  return {
+    provider: 'oidc',
+    subject: String(claims.sub),
+    issuer: discovery.issuer,
+    email: claims.email || '',
+    emailVerified: claims.email_verified === true,
+    name: claims.name || claims.preferred_username || claims.email || String(claims.sub)
+  };
+};
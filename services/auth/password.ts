@@ -0,0 +1,44 @@
+// PBKDF2 via Web Crypto, so the same code runs in the browser and in Node.
+// The iteration count is stored with each hash and can be raised without invalidating old ones.
+export const PASSWORD_ITERATIONS = 600_000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const encoder = new TextEncoder();
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+export interface PasswordHash {
+  passwordHash: string;
+  salt: string;
+  iterations: number;
+}
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    passwordHash: await derive(password, salt, PASSWORD_ITERATIONS),
+    salt: toHex(salt),
+    iterations: PASSWORD_ITERATIONS
+  };
+};
+
+// Compares every character so the time taken doesn't reveal how much of the hash matched
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> =>
+  constantTimeEqual(await derive(password, fromHex(stored.salt), stored.iterations), stored.passwordHash);
@@ -0,0 +1,82 @@
+import { AuthBackend, AuthError, AuthProviderId, SignIn } from './types';
+import { LocalRegistration } from './localProvider';
+import { OidcCallback } from './oidcProvider';
+import { msg } from '../i18n';
+import {
+  AUTH_SERVER_PATHS,
+  AuthServerError,
+  AuthSessionResponse,
+  AuthSignInResponse,
+  AuthStatus
+} from '../authServerProtocol';
+
+/**
+ * Signs in through the auth server (server/authServer.ts), which keeps credentials and sessions out
+ * of the shared storage. The server reads the users itself, so the users passed in are not needed.
+ */
+export class ServerAuthBackend implements AuthBackend {
+  readonly name = 'server';
+
+  constructor(private readonly baseUrl: string) {}
+
+  private async send(path: string, options: { method?: string; body?: unknown; token?: string } = {}): Promise<Response> {
+    try {
+      return await fetch(`${this.baseUrl.replace(/\/+$/, '')}${path}`, {
+        method: options.method || 'GET',
+        headers: {
+          Accept: 'application/json',
+          ...(options.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...(options.token ? { Authorization: `Bearer ${options.token}` } : {})
+        },
+        body: options.body === undefined ? undefined : JSON.stringify(options.body)
+      });
+    } catch (error) {
+      throw new AuthError(msg('auth.serverUnreachable'), undefined, error);
+    }
+  }
+
+  // The server words refusals itself; anything else is reported by status
+  private async fail(response: Response, provider?: AuthProviderId): Promise<never> {
+    const body: Partial<AuthServerError> = await response.json().catch(() => ({}));
+    throw new AuthError(body.text || msg('auth.serverFailed', { status: response.status }), provider);
+  }
+
+  private async signIn(path: string, body: unknown, provider: AuthProviderId): Promise<SignIn> {
+    const response = await this.send(path, { method: 'POST', body });
+    if (!response.ok) return this.fail(response, provider);
+    const { user, isNewUser, token }: AuthSignInResponse = await response.json();
+    return { user, isNewUser, token };
+  }
+
+  async hasAccounts(): Promise<boolean> {
+    const response = await this.send(AUTH_SERVER_PATHS.status);
+    if (!response.ok) return this.fail(response);
+    const status: AuthStatus = await response.json();
+    return status.hasAccounts;
+  }
+
+  register(registration: LocalRegistration): Promise<SignIn> {
+    return this.signIn(AUTH_SERVER_PATHS.register, registration, 'local');
+  }
+
+  login(email: string, password: string): Promise<SignIn> {
+    return this.signIn(AUTH_SERVER_PATHS.login, { email, password }, 'local');
+  }
+
+  loginWithOidc(callback: OidcCallback): Promise<SignIn> {
+    return this.signIn(AUTH_SERVER_PATHS.oidc, callback, 'oidc');
+  }
+
+  async resume(token: string): Promise<string | null> {
+    const response = await this.send(AUTH_SERVER_PATHS.session, { token });
+    if (response.status === 401) return null;
+    if (!response.ok) return this.fail(response);
+    const session: AuthSessionResponse = await response.json();
+    return session.userId;
+  }
+
+  async logout(token: string): Promise<void> {
+    const response = await this.send(AUTH_SERVER_PATHS.logout, { method: 'POST', token });
+    if (!response.ok && response.status !== 401) return this.fail(response);
+  }
+}
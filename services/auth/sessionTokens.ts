@@ -0,0 +1,50 @@
+// Session tokens the servers sign and check (server/authServer.ts, server/aiProxy.ts). A token is its
+// claims as base64url JSON followed by an HMAC-SHA256 over them: whoever holds the secret can check it
+// without a lookup, and nobody without the secret can make one up or change whose it is.
+
+export interface SessionClaims {
+  sid: string; // Session id, so the auth server can end a session before it expires
+  sub: string; // Whom the token speaks for: a user id, or the client address for proxy-issued tokens
+  exp: number; // Seconds since the epoch
+}
+
+const encoder = new TextEncoder();
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const isSessionClaims = (value: unknown): value is SessionClaims => {
+  const claims = value as Partial<SessionClaims> | null;
+  return typeof claims === 'object' && claims !== null
+    && typeof claims.sid === 'string' && typeof claims.sub === 'string' && typeof claims.exp === 'number';
+};
+
+export const signSessionToken = async (claims: SessionClaims, secret: string): Promise<string> => {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
+
+// Null for anything malformed, signed with another secret or expired
+export const verifySessionToken = async (token: string, secret: string, now = Date.now()): Promise<SessionClaims | null> => {
+  const parts = token.split('.');
+  if (parts.length !== 2) return null;
+  const [payload, signature] = parts;
+  try {
+    // crypto.subtle.verify compares in constant time
+    const valid = await crypto.subtle.verify('HMAC', await hmacKey(secret), base64UrlDecode(signature), encoder.encode(payload));
+    if (!valid) return null;
+    const claims: unknown = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+    return isSessionClaims(claims) && claims.exp * 1000 > now ? claims : null;
+  } catch {
+    return null;
+  }
+};
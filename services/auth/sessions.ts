@@ -0,0 +1,32 @@
+import { AuthProviderId, Session } from './types';
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Only the session token lives in the browser: the session id with browser storage, a token signed
+// by the auth server with shared storage
+const SESSION_STORAGE_KEY = 'autotest_session';
+
+export const createSession = (userId: string, provider: AuthProviderId): Session => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    provider,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+  };
+};
+
+export const isSessionActive = (session: Session, now = Date.now()) => new Date(session.expiresAt).getTime() > now;
+
+export const pruneExpiredSessions = (sessions: Session[]) => sessions.filter(s => isSessionActive(s));
+
+export const getStoredSessionToken = (): string | null => localStorage.getItem(SESSION_STORAGE_KEY);
+
+export const storeSessionToken = (token: string | null) => {
+  if (token) localStorage.setItem(SESSION_STORAGE_KEY, token);
+  else localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+export const findActiveSession = (sessions: Session[], sessionId: string | null): Session | null =>
+  sessions.find(s => s.id === sessionId && isSessionActive(s)) || null;
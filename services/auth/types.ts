@@ -0,0 +1,82 @@
+import { LocalizedText, User } from '../../types';
+import { LocalizedError } from '../i18n';
+import type { LocalRegistration } from './localProvider';
+import type { OidcCallback } from './oidcProvider';
+
+export type AuthProviderId = 'local' | 'oidc';
+
+// Links a user to a way of signing in. Local accounts key on the email address,
+// OIDC accounts on the issuer's subject claim.
+export interface AuthCredential {
+  id: string;
+  userId: string;
+  provider: AuthProviderId;
+  subject: string;
+  issuer?: string; // OIDC only
+  passwordHash?: string; // Local only, PBKDF2-SHA256 as hex
+  salt?: string; // Local only, hex
+  iterations?: number; // Local only
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+export interface Session {
+  id: string; // Opaque token; the browser keeps only this
+  userId: string;
+  provider: AuthProviderId;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// What a provider proves about the person signing in, before it is mapped to a User
+export interface AuthIdentity {
+  provider: AuthProviderId;
+  subject: string;
+  issuer?: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+}
+
+// Users and credentials after a sign-in or sign-up, ready to be stored
+export interface AuthResult {
+  user: User;
+  users: User[];
+  credentials: AuthCredential[];
+  isNewUser: boolean;
+}
+
+// A completed sign-in. The user is added to or updated in the `users` collection; the token is all
+// the browser keeps of the session.
+export interface SignIn {
+  user: User;
+  isNewUser: boolean;
+  token: string;
+}
+
+/**
+ * Where logins and sessions are kept. With browser storage they stay in this browser; with shared
+ * storage they stay on the auth server, so no client ever loads another user's hash or session.
+ */
+export interface AuthBackend {
+  readonly name: string;
+  hasAccounts(): Promise<boolean>;
+  register(registration: LocalRegistration, users: User[]): Promise<SignIn>;
+  login(email: string, password: string, users: User[]): Promise<SignIn>;
+  loginWithOidc(callback: OidcCallback, users: User[]): Promise<SignIn>;
+  // The signed-in user's id, or null when the session has ended or expired
+  resume(token: string): Promise<string | null>;
+  logout(token: string): Promise<void>;
+}
+
+export interface AuthProviderInfo {
+  id: AuthProviderId;
+  label?: string; // Configured name of an external provider; the interface names local accounts itself
+}
+
+export class AuthError extends LocalizedError {
+  constructor(text: LocalizedText, public readonly provider?: AuthProviderId, cause?: unknown) {
+    super(text, cause);
+    this.name = 'AuthError';
+  }
+}
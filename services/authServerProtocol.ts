@@ -0,0 +1,45 @@
+import { LocalizedText, User } from '../types';
+import { LocalRegistration } from './auth/localProvider';
+import { OidcCallback } from './auth/oidcProvider';
+
+// Wire format shared by the auth server (server/authServer.ts) and the app's server auth backend.
+
+export const AUTH_SERVER_PATHS = {
+  status: '/status',
+  register: '/register',
+  login: '/login',
+  oidc: '/oidc',
+  session: '/session', // GET with `Authorization: Bearer <token>`
+  logout: '/logout' // POST with `Authorization: Bearer <token>`
+};
+
+export type AuthRegisterRequest = LocalRegistration;
+
+export interface AuthLoginRequest {
+  email: string;
+  password: string;
+}
+
+export type AuthOidcRequest = OidcCallback;
+
+export interface AuthStatus {
+  hasAccounts: boolean; // False until the first account exists; that account becomes the administrator
+}
+
+// The signed-in user as it should be stored in the shared `users` collection
+export interface AuthSignInResponse {
+  user: User;
+  isNewUser: boolean;
+  token: string;
+  expiresAt: string;
+}
+
+export interface AuthSessionResponse {
+  userId: string;
+  expiresAt: string;
+}
+
+export interface AuthServerError {
+  error: string; // For logs
+  text?: LocalizedText; // What to tell the user, when the server knows
+}
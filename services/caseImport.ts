@@ -0,0 +1,219 @@
+import readXlsxFile, { readSheetNames } from 'read-excel-file';
+import { LocalizedText, TestCase, TestStep } from '../types';
+import { parseDelimitedText } from './csv';
+import { msg } from './i18n';
+
+/**
+ * Deterministic spreadsheet importer: the user maps columns to case fields and every row is
+ * converted by rule, so the same file always yields the same cases. AI conversion is only
+ * offered for sheets that don't have a recognisable layout.
+ */
+
+export type ImportField = 'key' | 'title' | 'description' | 'priority' | 'step' | 'expected';
+
+export type ColumnMapping = Record<ImportField, number | null>; // Column index, or null when unmapped
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][]; // Data rows below the header
+  headerRow: number; // 1-based row number of the header in the sheet
+}
+
+export interface ImportIssue {
+  row: number; // 1-based row number in the sheet, as shown by spreadsheet apps
+  severity: 'ERROR' | 'WARNING';
+  message: LocalizedText;
+}
+
+export interface ImportedCase {
+  testCase: TestCase;
+  rows: number[]; // Sheet rows the case was built from
+}
+
+export interface ImportResult {
+  cases: ImportedCase[];
+  issues: ImportIssue[];
+}
+
+// Named in the interface by the caseImport.field.* messages
+export const IMPORT_FIELDS: { id: ImportField; required?: boolean }[] = [
+  { id: 'key' },
+  { id: 'title', required: true },
+  { id: 'description' },
+  { id: 'priority' },
+  { id: 'step', required: true },
+  { id: 'expected' }
+];
+
+export const EMPTY_MAPPING: ColumnMapping = { key: null, title: null, description: null, priority: null, step: null, expected: null };
+
+// Header names seen in common test case templates, lower-cased and without spaces
+// i18n-ignore-start: words read from imported files, not interface text
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  key: ['id', 'caseid', 'testcaseid', 'tcid', 'no', 'key', '케이스id', '번호', '테스트id'],
+  title: ['title', 'name', 'testcase', 'summary', 'scenario', '제목', '케이스명', '테스트케이스', '테스트케이스명', '시나리오'],
+  description: ['description', 'objective', 'precondition', 'preconditions', '설명', '목적', '사전조건', '전제조건'],
+  priority: ['priority', 'severity', '우선순위', '중요도'],
+  step: ['step', 'steps', 'action', 'actions', 'teststep', 'procedure', '단계', '테스트단계', '동작', '절차', '수행절차'],
+  expected: ['expected', 'expectedresult', 'expectedresults', 'result', '예상결과', '기대결과', '결과']
+};
+
+const PRIORITY_ALIASES: Record<string, TestCase['priority']> = {
+  high: 'High', highest: 'High', critical: 'High', blocker: 'High', p0: 'High', p1: 'High', '1': 'High', '높음': 'High', '상': 'High', '긴급': 'High',
+  medium: 'Medium', normal: 'Medium', major: 'Medium', p2: 'Medium', '2': 'Medium', '중간': 'Medium', '보통': 'Medium', '중': 'Medium',
+  low: 'Low', lowest: 'Low', minor: 'Low', trivial: 'Low', p3: 'Low', p4: 'Low', '3': 'Low', '낮음': 'Low', '하': 'Low'
+};
+// i18n-ignore-end
+
+const NUMBERED_LINE = /^\s*(\d+)[.)]\s*/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-./()]/g, '');
+
+export const cellToText = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+// --- READING ---
+
+export const isSpreadsheetFile = (file: File) => /\.xlsx?$/i.test(file.name);
+
+export const listSheets = async (file: File): Promise<string[]> =>
+  isSpreadsheetFile(file) ? readSheetNames(file) : [];
+
+// The first non-empty row is taken as the header
+export const toSheetData = (raw: unknown[][]): SheetData => {
+  const rows = raw.map(row => row.map(cellToText));
+  const headerIndex = rows.findIndex(row => row.some(Boolean));
+  if (headerIndex === -1) return { headers: [], rows: [], headerRow: 1 };
+  return { headers: rows[headerIndex], rows: rows.slice(headerIndex + 1), headerRow: headerIndex + 1 };
+};
+
+export const readSheet = async (file: File, sheet?: string): Promise<SheetData> =>
+  toSheetData(isSpreadsheetFile(file)
+    ? await readXlsxFile(file, sheet ? { sheet } : undefined)
+    : parseDelimitedText((await file.text()).replace(/^\uFEFF/, '')));
+
+// Sheet as tab-separated text, the form the AI fallback expects
+export const sheetToText = (sheet: SheetData) =>
+  [sheet.headers, ...sheet.rows].map(row => row.join('\t')).join('\n');
+
+// --- MAPPING ---
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = { ...EMPTY_MAPPING };
+  const taken = new Set<number>();
+  IMPORT_FIELDS.forEach(({ id }) => {
+    const index = headers.findIndex((header, i) => !taken.has(i) && HEADER_ALIASES[id].includes(normalizeHeader(header)));
+    if (index !== -1) {
+      mapping[id] = index;
+      taken.add(index);
+    }
+  });
+  return mapping;
+};
+
+// Without a title and a step column the rows can't be converted by rule
+export const isStructuredMapping = (mapping: ColumnMapping) =>
+  IMPORT_FIELDS.every(field => !field.required || mapping[field.id] !== null);
+
+export const parsePriority = (value: string): TestCase['priority'] | undefined =>
+  PRIORITY_ALIASES[value.trim().toLowerCase()];
+
+// "1. Open\n2. Click" in one cell becomes two steps
+export const splitNumberedLines = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length > 1 && lines.every(line => NUMBERED_LINE.test(line))) {
+    return lines.map(line => line.replace(NUMBERED_LINE, ''));
+  }
+  return text ? [text] : [];
+};
+
+export const buildSteps = (action: string, expected: string): { steps: TestStep[]; mismatched: boolean } => {
+  const actions = splitNumberedLines(action);
+  const results = splitNumberedLines(expected);
+  // Expected results only line up one-to-one when both cells were split the same way
+  const aligned = actions.length === results.length;
+  const steps = actions.map((a, i) => ({
+    id: crypto.randomUUID(),
+    action: a,
+    expectedResult: aligned ? results[i] : i === actions.length - 1 ? results.join('\n') : ''
+  }));
+  return { steps, mismatched: !aligned && actions.length > 1 && results.length > 1 };
+};
+
+// --- CONVERSION ---
+
+/**
+ * When a case ID column is mapped, a new ID starts a case and rows repeating it add steps.
+ * Otherwise a row with a title starts a case and rows with an empty title add steps.
+ * Rows with errors are left out of the result.
+ */
+export const buildCasesFromSheet = (sheet: SheetData, mapping: ColumnMapping): ImportResult => {
+  const cases: ImportedCase[] = [];
+  const issues: ImportIssue[] = [];
+  let current: ImportedCase | null = null;
+  let currentKey = '';
+
+  const read = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : row[index] || '';
+  };
+
+  sheet.rows.forEach((row, i) => {
+    const rowNumber = sheet.headerRow + i + 1;
+    if (!row.some(Boolean)) return;
+
+    const key = read(row, 'key');
+    const title = read(row, 'title');
+    const startsCase = key ? key !== currentKey : !!title;
+
+    if (startsCase) {
+      currentKey = key;
+      if (!title) {
+        issues.push({ row: rowNumber, severity: 'ERROR', message: msg('caseImport.issue.noTitle', { key }) });
+        current = null;
+        return;
+      }
+      const rawPriority = read(row, 'priority');
+      const priority = rawPriority ? parsePriority(rawPriority) : 'Medium';
+      if (!priority) {
+        issues.push({ row: rowNumber, severity: 'WARNING', message: msg('caseImport.issue.unknownPriority', { value: rawPriority }) });
+      }
+      current = {
+        testCase: {
+          id: crypto.randomUUID(),
+          title,
+          description: read(row, 'description'),
+          priority: priority || 'Medium',
+          steps: []
+        },
+        rows: []
+      };
+      cases.push(current);
+    } else if (!current) {
+      // Further rows of a case that was already rejected need no second error
+      if (!key) issues.push({ row: rowNumber, severity: 'ERROR', message: msg('caseImport.issue.orphanRow') });
+      return;
+    }
+    current.rows.push(rowNumber);
+
+    const action = read(row, 'step');
+    const expected = read(row, 'expected');
+    if (!action && expected) {
+      issues.push({ row: rowNumber, severity: 'ERROR', message: msg('caseImport.issue.expectedWithoutAction') });
+      return;
+    }
+    const { steps, mismatched } = buildSteps(action, expected);
+    if (mismatched) {
+      issues.push({ row: rowNumber, severity: 'WARNING', message: msg('caseImport.issue.stepCountMismatch') });
+    }
+    current.testCase.steps.push(...steps);
+  });
+
+  cases.filter(c => c.testCase.steps.length === 0).forEach(c => {
+    issues.push({ row: c.rows[0], severity: 'WARNING', message: msg('caseImport.issue.noSteps', { title: c.testCase.title }) });
+  });
+  return { cases, issues: issues.sort((a, b) => a.row - b.row) };
+};
@@ -0,0 +1,86 @@
+import { TestCase } from '../types';
+
+/**
+ * Checks run on AI-generated cases before they are added to a suite: near-duplicates of cases the
+ * suite already has (or of another generated case), and cases that can't be executed as written.
+ */
+
+export type ReviewWarning =
+  | { kind: 'DUPLICATE_IN_SUITE'; caseId: string; title: string; similarity: number }
+  | { kind: 'DUPLICATE_IN_BATCH'; caseId: string; title: string; similarity: number }
+  | { kind: 'NO_STEPS' }
+  | { kind: 'MISSING_EXPECTED'; steps: number[] }; // 1-based step numbers
+
+// Title and steps weigh the same, so a reworded title over the same steps is still caught
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+// Character bigrams rather than words: Korean attaches particles to words, so "로그인을" and
+// "로그인" would otherwise never match
+const bigrams = (text: string): Map<string, number> => {
+  const normalized = text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, ' ').trim();
+  const grams = new Map<string, number>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const gram = normalized.slice(i, i + 2);
+    if (gram.includes(' ')) continue;
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+// Sørensen–Dice coefficient over bigram counts: 1 for identical text, 0 for nothing in common
+export const textSimilarity = (a: string, b: string): number => {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let total = 0;
+  let shared = 0;
+  left.forEach((count, gram) => {
+    total += count;
+    shared += Math.min(count, right.get(gram) || 0);
+  });
+  right.forEach(count => { total += count; });
+  return total === 0 ? (a.trim() === b.trim() ? 1 : 0) : (2 * shared) / total;
+};
+
+const stepsText = (testCase: TestCase) =>
+  testCase.steps.map(s => `${s.action} ${s.expectedResult}`).join(' ');
+
+export const caseSimilarity = (a: TestCase, b: TestCase): number =>
+  (textSimilarity(a.title, b.title) + textSimilarity(stepsText(a), stepsText(b))) / 2;
+
+const closestMatch = (testCase: TestCase, others: TestCase[]) =>
+  others.reduce<{ match: TestCase; similarity: number } | null>((best, other) => {
+    const similarity = caseSimilarity(testCase, other);
+    return similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity) ? { match: other, similarity } : best;
+  }, null);
+
+/**
+ * Warnings for each generated case, keyed by case id. Batch duplicates are only reported against
+ * earlier cases in the list, so the first of two similar cases stays clean.
+ */
+export const reviewGeneratedCases = (generated: TestCase[], existing: TestCase[]): Record<string, ReviewWarning[]> => {
+  const warnings: Record<string, ReviewWarning[]> = {};
+  generated.forEach((testCase, index) => {
+    const found: ReviewWarning[] = [];
+
+    const inSuite = closestMatch(testCase, existing);
+    if (inSuite) {
+      found.push({ kind: 'DUPLICATE_IN_SUITE', caseId: inSuite.match.id, title: inSuite.match.title, similarity: inSuite.similarity });
+    }
+    const inBatch = closestMatch(testCase, generated.slice(0, index));
+    if (inBatch) {
+      found.push({ kind: 'DUPLICATE_IN_BATCH', caseId: inBatch.match.id, title: inBatch.match.title, similarity: inBatch.similarity });
+    }
+
+    if (testCase.steps.length === 0) {
+      found.push({ kind: 'NO_STEPS' });
+    } else {
+      const missing = testCase.steps
+        .map((step, i) => step.expectedResult?.trim() ? 0 : i + 1)
+        .filter(Boolean);
+      if (missing.length > 0) found.push({ kind: 'MISSING_EXPECTED', steps: missing });
+    }
+
+    warnings[testCase.id] = found;
+  });
+  return warnings;
+};
@@ -0,0 +1,144 @@
+import { CaseVersion, TestCase, TestStep, TestSuite } from '../types';
+
+/**
+ * Case versions are stamped on the case itself whenever its content changes, so every
+ * run can record which version it executed. The matching history entries are recorded
+ * from the stamped suites, which keeps the stamping itself a pure state update.
+ */
+
+export type CaseField = 'title' | 'description' | 'priority';
+
+export interface CaseFieldChange {
+  field: CaseField;
+  before: string;
+  after: string;
+}
+
+export type StepDiffStatus = 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED';
+
+export interface StepDiff {
+  status: StepDiffStatus;
+  before?: TestStep;
+  after?: TestStep;
+}
+
+export interface CaseVersionDiff {
+  fields: CaseFieldChange[];
+  steps: StepDiff[];
+}
+
+export const getCaseVersion = (testCase: TestCase) => testCase.version ?? 1;
+
+// Only what a tester reads; step ids and the version itself don't count as content
+const contentOf = (testCase: Omit<TestCase, 'version'>) => JSON.stringify([
+  testCase.title,
+  testCase.description || '',
+  testCase.priority,
+  testCase.steps.map(s => [s.action, s.expectedResult])
+]);
+
+export const hasSameContent = (a: Omit<TestCase, 'version'>, b: Omit<TestCase, 'version'>) => contentOf(a) === contentOf(b);
+
+/**
+ * Returns next with each case's version set relative to previous: new cases start at 1 and
+ * changed cases get one more than before. Returns next itself when nothing needed stamping.
+ */
+export const stampCaseVersions = (previous: TestSuite[], next: TestSuite[]): TestSuite[] => {
+  const previousCases = new Map<string, TestCase>();
+  previous.forEach(s => s.cases.forEach(c => previousCases.set(c.id, c)));
+  const previousSuites = new Set(previous);
+
+  const stamped = next.map(suite => {
+    if (previousSuites.has(suite)) return suite;
+    let changed = false;
+    const cases = suite.cases.map(c => {
+      const before = previousCases.get(c.id);
+      const version = !before ? 1
+        : before === c || hasSameContent(before, c) ? (c.version ?? before.version)
+        : getCaseVersion(before) + 1;
+      if (version === c.version) return c;
+      changed = true;
+      return { ...c, version };
+    });
+    return changed ? { ...suite, cases } : suite;
+  });
+  return stamped.every((suite, i) => suite === next[i]) ? next : stamped;
+};
+
+const toSnapshot = ({ version, ...testCase }: TestCase): Omit<TestCase, 'version'> => ({
+  ...testCase,
+  steps: testCase.steps.map(s => ({ ...s }))
+});
+
+// History entries for every case version the history doesn't know yet
+export const recordCaseVersions = (suites: TestSuite[], history: CaseVersion[], authorId?: string): CaseVersion[] => {
+  const known = new Set(history.map(v => `${v.caseId}@${v.version}`));
+  const createdAt = new Date().toISOString();
+  const recorded: CaseVersion[] = [];
+
+  suites.forEach(suite => suite.cases.forEach(c => {
+    const version = getCaseVersion(c);
+    if (known.has(`${c.id}@${version}`)) return;
+    const matching = history
+      .filter(v => v.caseId === c.id && v.version < version && hasSameContent(v.snapshot, c))
+      .map(v => v.version);
+    recorded.push({
+      id: crypto.randomUUID(),
+      suiteId: suite.id,
+      caseId: c.id,
+      version,
+      snapshot: toSnapshot(c),
+      authorId,
+      createdAt,
+      restoredFrom: matching.length > 0 ? Math.max(...matching) : undefined
+    });
+  }));
+  return recorded;
+};
+
+// Newest first
+export const getCaseHistory = (history: CaseVersion[], caseId: string) =>
+  history.filter(v => v.caseId === caseId).sort((a, b) => b.version - a.version);
+
+// The case as it was at a version, e.g. to show an old run; falls back to the current case
+export const getCaseAtVersion = (history: CaseVersion[], caseId: string, version?: number, current?: TestCase): TestCase | undefined => {
+  if (current && (version === undefined || getCaseVersion(current) === version)) return current;
+  const entry = history.find(v => v.caseId === caseId && v.version === version)
+    ?? (current ? undefined : getCaseHistory(history, caseId)[0]);
+  return entry ? { ...entry.snapshot, version: entry.version } : current;
+};
+
+/**
+ * Field and step-by-step differences between two versions. Steps are matched by id, which
+ * survives edits and reordering; removed steps are listed where they used to be.
+ */
+export const diffCaseVersions = (before: Omit<TestCase, 'version'>, after: Omit<TestCase, 'version'>): CaseVersionDiff => {
+  const fields = (['title', 'description', 'priority'] as CaseField[])
+    .map(field => ({ field, before: before[field] || '', after: after[field] || '' }))
+    .filter(change => change.before !== change.after);
+
+  const afterIds = new Set(after.steps.map(s => s.id));
+  const beforeById = new Map(before.steps.map(s => [s.id, s]));
+  const steps: StepDiff[] = [];
+  let beforeIndex = 0;
+
+  after.steps.forEach(step => {
+    // Emit removed steps that sat before the next surviving one
+    while (beforeIndex < before.steps.length && !afterIds.has(before.steps[beforeIndex].id)) {
+      steps.push({ status: 'REMOVED', before: before.steps[beforeIndex++] });
+    }
+    const previous = beforeById.get(step.id);
+    if (!previous) {
+      steps.push({ status: 'ADDED', after: step });
+      return;
+    }
+    if (before.steps[beforeIndex]?.id === step.id) beforeIndex++;
+    const same = previous.action === step.action && previous.expectedResult === step.expectedResult;
+    steps.push({ status: same ? 'UNCHANGED' : 'CHANGED', before: previous, after: step });
+  });
+  before.steps.slice(beforeIndex)
+    .filter(step => !afterIds.has(step.id))
+    .forEach(step => steps.push({ status: 'REMOVED', before: step }));
+
+  return { fields, steps };
+};
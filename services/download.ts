@@ -0,0 +1,18 @@
+// Saves generated content as a file through a temporary link
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Excel only detects UTF-8 in CSV files that start with a byte order mark (critical for Korean)
+export const downloadCsv = (fileName: string, csv: string) =>
+  downloadFile(fileName, '\uFEFF' + csv, 'text/csv;charset=utf-8;');
+
+// Keeps names readable while dropping characters file systems reject
+export const toFileName = (name: string) => name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_') || 'export';
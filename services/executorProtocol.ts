@@ -0,0 +1,31 @@
+import { TestCase, TestStatus } from '../types';
+
+// Wire format shared by the browser executor companion (server/executor.ts) and executorService.
+
+export interface ExecuteRequest {
+  appAddress: string;
+  testEmail?: string;
+  testCase: Pick<TestCase, 'id' | 'title' | 'steps'>;
+}
+
+// UNSUPPORTED: the action could not be translated into a browser command.
+// UNVERIFIED: the action ran, but the expected result had nothing machine-checkable. The case is
+// then SKIPPED rather than PASSED.
+export type ExecutorStepStatus = 'PASSED' | 'FAILED' | 'UNSUPPORTED' | 'UNVERIFIED' | 'NOT_RUN';
+
+export interface ExecutorStepResult {
+  stepId: string;
+  stepIndex: number;
+  status: ExecutorStepStatus;
+  command?: string; // Human-readable form of the interpreted command
+  message?: string;
+}
+
+export interface ExecuteResponse {
+  status: TestStatus;
+  steps: ExecutorStepResult[];
+  failedStepIndex?: number;
+  screenshots: string[]; // data: URLs
+  log: string;
+  durationMs: number;
+}
@@ -0,0 +1,96 @@
+import { LocalizedText, StepResult, TestCase, TestStatus } from '../types';
+import { ExecuteRequest, ExecuteResponse, ExecutorStepStatus } from './executorProtocol';
+import { msg } from './i18n';
+
+const EXECUTOR_URL = (process.env.EXECUTOR_URL || 'http://localhost:4311').replace(/\/+$/, '');
+
+export interface BrowserExecutionResult {
+  status: TestStatus;
+  summary: LocalizedText;
+  log: string;
+  screenshots: string[];
+  stepResults: StepResult[];
+  failedStepIndex?: number;
+}
+
+// UNVERIFIED steps ran without error but nothing was checked, so they are left for a tester to confirm
+const STEP_STATUS_MAP: Record<ExecutorStepStatus, TestStatus> = {
+  PASSED: 'PASSED',
+  FAILED: 'FAILED',
+  UNVERIFIED: 'SKIPPED',
+  UNSUPPORTED: 'SKIPPED',
+  NOT_RUN: 'SKIPPED'
+};
+
+export const isExecutorAvailable = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(`${EXECUTOR_URL}/health`);
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+const summarize = (response: ExecuteResponse): LocalizedText => {
+  const failed = response.steps.find(s => s.status === 'FAILED');
+  if (failed) return msg('executor.stepFailed', { step: failed.stepIndex + 1, message: failed.message || '' });
+  const unsupported = response.steps.find(s => s.status === 'UNSUPPORTED');
+  if (unsupported) return msg('executor.stepUnsupported', { step: unsupported.stepIndex + 1 });
+  const unverified = response.steps.filter(s => s.status === 'UNVERIFIED').map(s => s.stepIndex + 1);
+  if (unverified.length > 0) return msg('executor.stepsUnverified', { steps: unverified.join(', ') });
+  return msg('executor.allPassed');
+};
+
+export const executeTestCase = async (
+  testCase: TestCase,
+  config: { appAddress: string; testEmail?: string }
+): Promise<BrowserExecutionResult> => {
+  const request: ExecuteRequest = {
+    appAddress: config.appAddress,
+    testEmail: config.testEmail,
+    testCase: { id: testCase.id, title: testCase.title, steps: testCase.steps }
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(`${EXECUTOR_URL}/execute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+  } catch (error) {
+    console.error("Executor unreachable:", error);
+    return {
+      status: 'SKIPPED',
+      summary: msg('executor.unreachable', { url: EXECUTOR_URL }),
+      log: '',
+      screenshots: [],
+      stepResults: []
+    };
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    return {
+      status: 'SKIPPED',
+      summary: msg('executor.error', { error: body.error || response.status }),
+      log: '',
+      screenshots: [],
+      stepResults: []
+    };
+  }
+
+  const result = await response.json() as ExecuteResponse;
+  return {
+    status: result.status,
+    summary: summarize(result),
+    log: result.log,
+    screenshots: result.screenshots,
+    stepResults: result.steps.map(step => ({
+      stepId: step.stepId,
+      status: STEP_STATUS_MAP[step.status],
+      actualResult: step.message || step.command
+    })),
+    failedStepIndex: result.failedStepIndex
+  };
+};
@@ -1,97 +1,66 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { TestCase, TestStep, TestStatus } from "../types";
+import { AiLanguage, LocalizedText, TestCase, TestStep, TestStatus } from "../types";
+import { LlmError, LlmSettings, createLlmProvider } from "./llm";
+import { buildLlmRequest } from "./aiPrompts";
+import { msg } from "./i18n";
 
-// Removed static initialization: const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The AI features, answered by the provider in the user's LLM settings (services/llm)
 
-const testCaseSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    testCases: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING, description: "A concise title for the test case in Korean" },
-          description: { type: Type.STRING, description: "Brief objective of the test in Korean" },
-          priority: { type: Type.STRING, enum: ["Low", "Medium", "High"] },
-          steps: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                action: { type: Type.STRING, description: "The step action to perform in Korean" },
-                expectedResult: { type: Type.STRING, description: "The expected outcome of the step in Korean" }
-              },
-              required: ["action", "expectedResult"]
-            }
-          }
-        },
-        required: ["title", "priority", "steps"]
-      }
-    }
+// Why an AI request failed, so the user learns what to do and when to retry; null when the
+// provider gave no reason
+export const getAiErrorMessage = (error: unknown): LocalizedText | null => {
+  if (!(error instanceof LlmError)) return null;
+  if (error.limit === 'QUOTA') return msg('ai.quotaExceeded');
+  if (error.limit === 'RATE') {
+    return error.retryAfterSeconds ? msg('ai.rateLimitedFor', { seconds: error.retryAfterSeconds }) : msg('ai.rateLimited');
+  }
+  switch (error.failure) {
+    case 'UNREACHABLE': return msg('ai.unreachable', { provider: msg(`llm.provider.${error.provider}`) });
+    case 'UNAUTHORIZED': return msg('ai.unauthorized');
+    case 'REJECTED': return msg('ai.rejected');
+    case 'UPSTREAM': return msg('ai.upstream');
+    default: return null;
   }
 };
 
-const simulationSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    status: { type: Type.STRING, enum: ["PASSED", "FAILED", "SKIPPED"] },
-    logs: { type: Type.STRING, description: "Detailed technical execution logs and observations in Korean" }
-  },
-  required: ["status", "logs"]
-};
+// --- MODEL OUTPUT ---
+// Models don't always hold to the response schema, so answers are narrowed before anything is kept
 
-export const generateTestCases = async (featureDescription: string, contextInfo?: string): Promise<Partial<TestCase>[]> => {
-  try {
-    // Dynamic initialization
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+type JsonObject = Record<string, unknown>;
+type ModelStep = Pick<TestStep, 'action' | 'expectedResult'>;
 
-    const prompt = `
-      You are an expert QA Automation Engineer fluent in Korean (한국어).
-      
-      Target Application Context: ${contextInfo || "General Software Application"}
-      
-      Task: Generate a comprehensive list of test cases for the following feature/data:
-      "${featureDescription}"
-      
-      Requirements:
-      1. Analyze the input feature or data.
-      2. Generate test cases covering positive, negative, and edge cases.
-      3. CRITICAL: All user-facing text (Titles, Descriptions, Actions, Expected Results) MUST be written in Korean (한국어).
-      4. If the context is a Website, assume standard browser interactions.
-      5. If the context is a Desktop App, assume standard window/OS interactions.
-      
-      Return the response in strictly structured JSON.
-    `;
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const textOrEmpty = (value: unknown) => isString(value) ? value : '';
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: testCaseSchema,
-        systemInstruction: "You are a helpful QA assistant that generates high-quality software test cases in Korean.",
-      }
-    });
+const SIMULATION_STATUSES: TestStatus[] = ['PASSED', 'FAILED', 'SKIPPED'];
+const isSimulationStatus = (value: unknown): value is TestStatus => SIMULATION_STATUSES.some(s => s === value);
 
-    const jsonText = response.text;
-    if (!jsonText) return [];
+// The `testCases` list every case-producing task answers with; anything else there is dropped
+const readModelCases = (answer: unknown): JsonObject[] =>
+  isObject(answer) && Array.isArray(answer.testCases) ? answer.testCases.filter(isObject) : [];
 
-    const parsed = JSON.parse(jsonText);
-    const rawCases = parsed.testCases || [];
+// A step needs an action; a missing expected result is left for the review to flag
+const readModelSteps = (steps: unknown): ModelStep[] =>
+  (Array.isArray(steps) ? steps : [])
+    .filter((s): s is JsonObject => isObject(s) && isString(s.action) && s.action.trim() !== '')
+    .map(s => ({ action: textOrEmpty(s.action), expectedResult: textOrEmpty(s.expectedResult) }));
 
-    // Map to our internal format with UUIDs
-    return rawCases.map((rc: any) => ({
-      id: crypto.randomUUID(),
-      title: rc.title,
-      description: rc.description || "",
-      priority: rc.priority as 'Low' | 'Medium' | 'High',
-      steps: rc.steps.map((s: any) => ({
+export const generateTestCases = async (llm: LlmSettings, language: AiLanguage, featureDescription: string, contextInfo?: string): Promise<Partial<TestCase>[]> => {
+  try {
+    const answer = await createLlmProvider(llm).generateJson(
+      buildLlmRequest({ task: 'generateCases', input: { featureDescription, contextInfo, language } })
+    );
+
+    // Map to our internal format with UUIDs; cases without a title are dropped
+    return readModelCases(answer)
+      .filter(rc => isString(rc.title) && rc.title.trim() !== '')
+      .map(rc => ({
         id: crypto.randomUUID(),
-        action: s.action,
-        expectedResult: s.expectedResult
-      }))
-    }));
+        title: textOrEmpty(rc.title),
+        description: textOrEmpty(rc.description),
+        priority: rc.priority === 'Low' || rc.priority === 'High' ? rc.priority : 'Medium',
+        steps: readModelSteps(rc.steps).map(s => ({ id: crypto.randomUUID(), ...s }))
+      }));
 
   } catch (error) {
     console.error("Failed to generate test cases:", error);
@@ -99,51 +68,95 @@ export const generateTestCases = async (featureDescription: string, contextInfo?
   }
 };
 
-export const simulateTestExecution = async (testCase: TestCase, contextInfo: string): Promise<{ status: TestStatus, notes: string }> => {
+export const simulateTestExecution = async (llm: LlmSettings, language: AiLanguage, testCase: TestCase, contextInfo: string): Promise<{ status: TestStatus, notes: string, summary?: LocalizedText, failedStepIndex?: number, failureReason?: string }> => {
   try {
-    // Dynamic initialization
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const stepsText = testCase.steps.map((s, i) => `${i + 1}. ${s.action} -> Expect: ${s.expectedResult}`).join('\n');
-    
-    const prompt = `
-      Role: Autonomous Test Agent
-      Task: Simulate the execution of a software test case and determine the result.
-      
-      Context: ${contextInfo}
-      Test Case: "${testCase.title}"
-      Steps:
-      ${stepsText}
-      
-      Instructions:
-      1. Act as if you are executing these steps on the real application.
-      2. Generate a realistic execution log (in Korean) describing what happened.
-      3. Determine the outcome (PASSED, FAILED, or SKIPPED).
-      4. Bias towards PASSED (approx 80%), but introduce realistic failures (20%) for negative scenarios or complex edge cases.
-      
-      Return strictly JSON.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: simulationSchema,
+    const result = await createLlmProvider(llm).generateJson(buildLlmRequest({
+      task: 'simulate',
+      input: {
+        testCase: { title: testCase.title, steps: testCase.steps.map(s => ({ action: s.action, expectedResult: s.expectedResult })) },
+        contextInfo,
+        language
       }
-    });
-
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response from AI");
-    
-    const result = JSON.parse(jsonText);
+    }));
+    // An answer without a verdict is no result at all; it is reported like a failed request
+    if (!isObject(result) || !isSimulationStatus(result.status)) {
+      throw new Error('Simulation answer has no valid status');
+    }
+    const failedStep = Number(result.failedStep);
+    const hasFailedStep = result.status === 'FAILED' && Number.isInteger(failedStep) && failedStep >= 1 && failedStep <= testCase.steps.length;
     return {
-      status: result.status as TestStatus,
-      notes: result.logs
+      status: result.status,
+      notes: textOrEmpty(result.logs),
+      failedStepIndex: hasFailedStep ? failedStep - 1 : undefined,
+      failureReason: hasFailedStep ? textOrEmpty(result.failureReason) || undefined : undefined
     };
 
   } catch (error) {
     console.error("Simulation failed:", error);
-    return { status: 'SKIPPED', notes: 'AI 시뮬레이션 실패' };
+    const reason = getAiErrorMessage(error);
+    return {
+      status: 'SKIPPED',
+      notes: '',
+      summary: reason ? msg('runner.simulationLimited', { reason }) : msg('runner.simulationFailed')
+    };
   }
-};
\ No newline at end of file
+};
+// Cases per request; keeps each answer well inside the models' output limits
+const TRANSLATION_BATCH_SIZE = 10;
+
+/**
+ * Translates cases into another language. IDs, priorities and step IDs stay the same, so history
+ * and run results keep pointing at the translated cases. Rejects an answer whose cases or steps
+ * don't line up with the input rather than guessing which text belongs where.
+ */
+export const translateTestCases = async (
+  llm: LlmSettings,
+  cases: TestCase[],
+  language: AiLanguage,
+  onProgress?: (done: number) => void
+): Promise<TestCase[]> => {
+  const provider = createLlmProvider(llm);
+  const translated: TestCase[] = [];
+  for (let start = 0; start < cases.length; start += TRANSLATION_BATCH_SIZE) {
+    const batch = cases.slice(start, start + TRANSLATION_BATCH_SIZE);
+    const answer = await provider.generateJson(buildLlmRequest({
+      task: 'translateCases',
+      input: {
+        cases: batch.map(c => ({
+          title: c.title,
+          description: c.description || '',
+          steps: c.steps.map(s => ({ action: s.action, expectedResult: s.expectedResult }))
+        })),
+        language
+      }
+    }));
+    // Entries that aren't objects are dropped, which then shows up as a count that doesn't line up
+    const rawCases = readModelCases(answer);
+    if (rawCases.length !== batch.length) {
+      throw new Error(`Translation returned ${rawCases.length} cases for ${batch.length}`);
+    }
+    batch.forEach((testCase, i) => {
+      const raw = rawCases[i];
+      const rawSteps = (Array.isArray(raw.steps) ? raw.steps : []).filter(isObject);
+      if (rawSteps.length !== testCase.steps.length) {
+        throw new Error(`Translation of "${testCase.title}" returned ${rawSteps.length} steps for ${testCase.steps.length}`);
+      }
+      // Text the model left out or returned as something other than a string stays untranslated
+      translated.push({
+        ...testCase,
+        title: textOrEmpty(raw.title) || testCase.title,
+        description: testCase.description ? textOrEmpty(raw.description) || testCase.description : testCase.description,
+        steps: testCase.steps.map((step, j) => {
+          const { action, expectedResult } = rawSteps[j];
+          return {
+            ...step,
+            action: textOrEmpty(action) || step.action,
+            expectedResult: isString(expectedResult) ? expectedResult : step.expectedResult
+          };
+        })
+      });
+    });
+    onProgress?.(translated.length);
+  }
+  return translated;
+};
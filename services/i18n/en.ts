@@ -0,0 +1,688 @@
+import type { Messages } from '.';
+
+export const en: Messages = {
+  // --- COMMON ---
+  'common.loading': 'Loading...',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.create': 'Create',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.unassigned': 'Unassigned',
+  'common.close': 'Close',
+  'common.add': 'Add',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.text': '{text}',
+
+  'status.PASSED': 'Passed',
+  'status.FAILED': 'Failed',
+  'status.SKIPPED': 'Skipped',
+
+  'priority.High': 'High',
+  'priority.Medium': 'Medium',
+  'priority.Low': 'Low',
+
+  'role.ADMIN': 'Admin',
+  'role.MEMBER': 'Member',
+  'role.OBSERVER': 'Observer',
+
+  'issueStatus.TODO': 'To do',
+  'issueStatus.IN_PROGRESS': 'In progress',
+  'issueStatus.DONE': 'Done',
+  'resultSource.MANUAL': 'Manual',
+  'resultSource.AI_SIMULATED': 'AI simulation',
+  'resultSource.EXECUTOR': 'Browser run',
+  'resultSource.CI_IMPORT': 'CI import',
+
+  // --- APP ---
+  'app.storageError': 'The data store ({name}) reported an error. Your changes may not be saved.',
+  'app.storageFull': 'The data store ({name}) is full. Your changes may not be saved; clear out old runs or switch to the IndexedDB or REST backend.',
+  'app.ssoUserNotFound': 'No user is linked to this SSO account.',
+  'app.ssoFailed': 'SSO sign-in failed.',
+  'app.welcome': 'Welcome, {name}! Your account has been created.',
+  'app.resumeSuiteDeleted': 'The run can\'t be resumed because the suite "{suite}" was deleted.',
+  'app.resumeNoCases': 'The run of "{suite}" can\'t be resumed because all of its cases were deleted. You can abandon it from the dashboard.',
+  'app.queueNoCases': 'The cases assigned to you in the run of "{suite}" were all deleted.',
+  'app.planEmpty': 'The plan "{plan}" has no cases to run.',
+  'app.planLaunched': 'Started the plan "{plan}". Runs created: {count}.',
+  'app.planEntriesSkipped': 'Skipped {count} suite(s) in the plan "{plan}" that have no cases to run.',
+  'app.planAssigned': 'The plan "{plan}" has started. Cases in your queue: {count}.',
+  'app.queueFinished': 'You finished your cases in "{suite}". The run ends once the remaining cases are done.',
+  'app.runFinished': 'Test run "{suite}" {verdict} ({rate}%). Failed: {failed}.{gate}',
+  'app.gateUnmet': ' Quality gates not met: {failures}.',
+  'app.ciImported': 'Imported the CI report "{file}" as a run of "{suite}" ({rate}%). Failed: {failed}.',
+  'app.issueAssigned': 'You were assigned issue {key}: {title}',
+
+  'notifications.title': 'Notifications',
+  'notifications.clearAll': 'Clear all',
+  'notifications.empty': 'No new notifications for {name}.',
+  'notifications.permissionGranted': '{name} gave you {role} access to the "{suite}" suite.',
+
+  // --- SIDEBAR ---
+  'nav.dashboard': 'Dashboard',
+  'nav.queue': 'My work',
+  'nav.suites': 'Test suites',
+  'nav.plans': 'Test plans',
+  'nav.history': 'Run history',
+  'nav.issues': 'Issue board',
+  'nav.audit': 'Audit log',
+
+  'sidebar.globalAdmin': 'Global admin',
+  'sidebar.language': 'Language',
+  'sidebar.aiSettings': 'AI model settings',
+  'sidebar.logout': 'Sign out',
+
+  // --- DASHBOARD ---
+  'dashboard.title': 'Dashboard',
+  'dashboard.subtitle': 'An overview of your test automation metrics.',
+  'dashboard.excludeSimulated': 'Exclude AI-simulated results',
+  'dashboard.lastUpdated': 'Last updated: {time}',
+  'dashboard.activeRuns': 'Runs in progress',
+  'dashboard.runTimes': 'Started {start} · Last result {last}',
+  'dashboard.caseProgress': '{done} / {total} cases',
+  'dashboard.suiteDeleted': 'The suite was deleted',
+  'dashboard.noRunPermission': 'You don\'t have permission to run this suite',
+  'dashboard.resume': 'Resume',
+  'dashboard.confirmAbandon': 'Abandon the run of "{suite}"? Its recorded results won\'t count towards the statistics.',
+  'dashboard.abandon': 'Abandon',
+  'dashboard.totalRuns': 'Total runs',
+  'dashboard.passRate': 'Pass rate',
+  'dashboard.simulatedExcluded': 'AI-simulated results excluded: {count}',
+  'dashboard.simulatedIncluded': 'AI-simulated results included: {count}',
+  'dashboard.efficiency': 'Efficiency',
+  'dashboard.trend': 'Run trend',
+  'dashboard.overallStatus': 'Overall status',
+  'dashboard.failureImpact': 'Failure impact',
+  'dashboard.priorityScope': 'Suite coverage by priority',
+  'dashboard.recentRuns': 'Recent runs',
+  'dashboard.viewAll': 'View all',
+  'dashboard.noRuns': 'No tests have been run yet.',
+  'dashboard.accessTitle': 'Access management',
+  'dashboard.accessSubtitle': 'As an administrator you manage permissions for every test suite.',
+  'dashboard.colSuite': 'Test suite',
+  'dashboard.colUsers': 'Users',
+  'dashboard.colAdmins': 'Admins',
+  'dashboard.colCreated': 'Created',
+  'dashboard.colActions': 'Actions',
+  'dashboard.manageAccess': 'Manage access',
+
+  // --- SUITES ---
+  'suites.title': 'Test suites',
+  'suites.newSuiteName': 'New test suite',
+  'suites.newSuiteDescription': 'Test suite description',
+  'suites.newCaseTitle': 'New test case',
+  'suites.copyTitle': '{title} (copy)',
+  'suites.confirmDeleteSuite': 'Delete this suite?',
+  'suites.confirmDeleteCase': 'Delete this test case?',
+  'suites.generateFailed': 'Generating test cases failed. Please try again.',
+  'suites.importFromTool': 'Import from another tool',
+  'suites.exportSuite': 'Export suites',
+  'suites.createSuite': 'Create suite',
+  'suites.noSuites': 'No suites found for {name}.',
+  'suites.noSuitesHint': 'Create one, or ask an administrator for access.',
+  'suites.caseCount': 'Test cases: {count}',
+  'suites.deleteSuite': 'Delete suite',
+  'suites.aiLanguageHint': 'Language the AI writes cases and simulation logs in',
+  'suites.aiLanguageUser': 'AI language: user setting',
+  'suites.aiLanguage': 'AI language: {language}',
+  'suites.qualityGates': 'Quality gates',
+  'suites.manageAccess': 'Manage access',
+  'suites.readOnly': 'Read only (observer)',
+  'suites.importData': 'Import data',
+  'suites.aiGenerate': 'AI generate',
+  'suites.translate': 'Translate',
+  'translate.title': 'Translate suite',
+  'translate.subtitle': 'Translates the titles, descriptions and steps of {count} case(s). Case IDs and run history stay as they are; the translation is saved as a new version.',
+  'translate.language': 'Translate into',
+  'translate.useForGeneration': 'Also use this language for later AI generation and simulation',
+  'translate.translating': 'Translating...',
+  'translate.failed': 'Translation failed. The suite was not changed. Please try again.',
+  'suites.export': 'Export',
+  'suites.runSuite': 'Run suite',
+  'suites.noCases': 'No test cases yet.',
+  'suites.noCasesHint': 'Click "AI generate" or "Import data" to create some automatically.',
+  'suites.addCase': 'Add test case',
+  'suites.selectSuite': 'Select a suite to see its details.',
+  'suites.generateTitle': 'Generate test cases with AI',
+  'suites.generateSubtitle': 'Describe the application and the feature. The AI writes the test cases in {language}.',
+  'suites.targetApp': 'Target application',
+  'suites.appWeb': 'Website',
+  'suites.appDesktop': 'Desktop app',
+  'suites.websiteUrl': 'Website URL',
+  'suites.programPath': 'Program file path',
+  'suites.filePath': 'File address / path',
+  'suites.testLogin': 'Test email / login ID (optional)',
+  'suites.testAccount': 'Test email / account (optional)',
+  'suites.featureDescription': 'Feature description',
+  'suites.featurePlaceholder': 'e.g. Sign-in with two-factor authentication...',
+  'suites.generating': 'Generating ({language})...',
+  'suites.generate': 'Generate',
+  'suites.runSetupTitle': 'Test environment',
+  'suites.runSetupSubtitle': 'Configure the environment before the run.',
+  'suites.runMode': 'Run mode',
+  'suites.modeManual': 'Manual',
+  'suites.modeAutomated': 'AI automation',
+  'suites.realBrowser': 'Real browser',
+  'suites.aiSimulation': 'AI simulation',
+  'suites.realBrowserHint': 'The local executor (npm run executor) performs every step in a headless browser.',
+  'suites.aiSimulationHint': 'The AI estimates the results. They can\'t be used to approve a release.',
+  'suites.aiSimulationShortHint': 'The AI simulates the test run.',
+  'suites.appType': 'Application type',
+  'suites.testAssets': 'Test assets (files/documents)',
+  'suites.pickFiles': 'Choose files from your computer',
+  'suites.noFiles': 'No files selected. The automated runner can\'t see local files.',
+  'suites.startAutomated': 'Start automated run',
+  'suites.startManual': 'Start test',
+  'suites.stepCount': 'Steps: {count}',
+  'suites.duplicate': 'Duplicate',
+  'suites.history': 'Change history',
+  'suites.stepNumber': 'Step {number}',
+  'suites.expectedResult': 'Expected result',
+  'suites.fieldTitle': 'Title',
+  'suites.fieldPriority': 'Priority',
+  'suites.fieldDescription': 'Description',
+  'suites.fieldSteps': 'Steps',
+  'suites.stepAction': 'Action',
+  'suites.duplicateStep': 'Duplicate step',
+  'suites.deleteStep': 'Delete step',
+  'suites.addStep': 'Add step',
+
+  'review.title': 'Review generated cases',
+  'review.subtitle': 'The AI generated {count} case(s). Only the ones you accept are added to "{suite}".',
+  'review.acceptedCount': 'Accepted: {count}',
+  'review.rejectedCount': 'Rejected: {count}',
+  'review.pendingCount': 'Undecided: {count}',
+  'review.acceptRemaining': 'Accept the rest',
+  'review.empty': 'The AI didn\'t generate any cases. Add detail to the feature description and try again.',
+  'review.untitled': '(Untitled)',
+  'review.accept': 'Accept',
+  'review.reject': 'Reject',
+  'review.duplicateInSuite': 'Similar to existing case "{title}" ({similarity})',
+  'review.duplicateInBatch': 'Similar to generated case "{title}" ({similarity})',
+  'review.noSteps': 'No steps',
+  'review.missingExpected': 'Missing expected result in step(s) {steps}',
+  'review.noExpected': 'No expected result',
+  'review.pendingHint': 'Undecided cases won\'t be added.',
+  'review.confirm': 'Add {count}',
+  'review.confirmDiscard': 'Discard all generated cases? The suite won\'t be changed.',
+
+  // --- RUNNER ---
+  'runner.attachmentTooLarge': 'Files larger than 2MB can\'t be attached: {files}',
+  'runner.attachmentNotStored': 'The attachments could not be stored. Try again.',
+  'runner.attachmentStorageFull': 'The browser\'s storage is full, so the attachments could not be stored. Clear out old runs and try again.',
+  'runner.attachmentTag': '[Attachment] {name}',
+  'runner.running': 'Running: {suite}',
+  'runner.browserEngine': 'Browser automation',
+  'runner.aiSimulation': 'AI simulation',
+  'runner.caseProgress': 'Case {current} / {total}',
+  'runner.mockAssets': 'Mock assets: {files}',
+  'runner.fileCount': 'Files: {count}',
+  'runner.exitHint': 'Progress is saved; you can resume the run from the dashboard',
+  'runner.exit': 'Exit run',
+  'runner.noCases': 'There are no cases to run.',
+  'runner.priority': 'Priority: {priority}',
+  'runner.statusRunning': 'Running...',
+  'runner.statusWaiting': 'Waiting',
+  'runner.issueCreated': '{key} created',
+  'runner.createIssue': 'Create issue',
+  'runner.openIssues': 'This case is linked to unresolved issues',
+  'runner.steps': 'Steps',
+  'runner.action': 'Action',
+  'runner.expectedResult': 'Expected result',
+  'runner.skip': 'Skip',
+  'runner.attach': 'Attach',
+  'runner.actualResultRequired': 'Enter the actual result (why it failed)',
+  'runner.actualResultOptional': 'Actual result (optional)',
+  'runner.removeAttachment': 'Remove attachment',
+  'runner.notes': 'Notes',
+  'runner.notesPlaceholder': 'Notes on the whole case, such as the environment or how to reproduce',
+  'runner.automationLog': 'Automation log',
+  'runner.screenshots': 'Screenshots',
+  'runner.screenshotAlt': 'Screenshot {number}',
+  'runner.runningInBrowser': 'Running in the browser...',
+  'runner.runningWithAi': 'Running the test with AI...',
+  'runner.exportResults': 'Export results',
+  'runner.export': 'Export',
+  'runner.finishRun': 'Finish run',
+  'runner.passRest': 'Pass remaining',
+  'runner.passRestHint': 'Marks every step without a result as passed',
+  'runner.skipRestHint': 'Skips every step without a result',
+  'runner.issueModalTitle': 'Create issue for failure',
+  'runner.issueSummary': 'Summary',
+  'runner.issueDescription': 'Description',
+  'runner.issuePriority': 'Priority',
+  'runner.issueAssignee': 'Assignee',
+
+  // --- ISSUES ---
+  'issues.title': 'Issue board',
+  'issues.subtitle': 'Track bugs and tasks, Jira style',
+  'issues.mentioned': '{name} mentioned you in issue {key}: {title}',
+  'issues.statusChanged': 'Issue {key} moved to "{status}": {title}',
+  'issues.confirmDelete': 'Delete this issue?',
+  'issues.deletedSuite': 'Deleted suite',
+  'issues.deletedCase': 'Deleted test case',
+  'issues.noCreatePermission': 'You don\'t have permission to create issues',
+  'issues.create': 'Create issue',
+  'issues.linkedCaseCount': 'Cases: {count}',
+  'issues.dropHere': 'Drag items here',
+  'issues.createTitle': 'Create issue',
+  'issues.summary': 'Summary',
+  'issues.summaryPlaceholder': 'What is the issue?',
+  'issues.description': 'Description',
+  'issues.descriptionPlaceholder': 'Describe the steps to reproduce... (@name mentions a colleague)',
+  'issues.addDescriptionPlaceholder': 'Add a description... (@name mentions a colleague)',
+  'issues.titlePlaceholder': 'Issue title',
+  'issues.priority': 'Priority',
+  'issues.assignee': 'Assignee',
+  'issues.activity': 'Activity',
+  'issues.noActivity': 'No recent activity.',
+  'issues.status': 'Status',
+  'issues.blockedCases': 'Blocked test cases',
+  'issues.unlink': 'Unlink',
+  'issues.noLinkedCases': 'No linked cases',
+  'issues.created': 'Created',
+  'issues.delete': 'Delete issue',
+
+  // --- AUTH ---
+  'auth.nameRequired': 'Enter your name.',
+  'auth.invalidEmail': 'Enter a valid email address.',
+  'auth.passwordTooShort': 'Passwords need at least {min} characters.',
+  'auth.emailRegistered': 'This email is already registered.',
+  'auth.emailTaken': 'This email is already in use. Contact an administrator.',
+  'auth.invalidLogin': 'Incorrect email or password.',
+  'auth.emailLinkedElsewhere': 'An account with this email already signs in another way. Sign in the way you usually do.',
+  'auth.emailUnverified': 'A user with this email already exists, but the identity provider has not verified that you own the address. Verify it with the provider and sign in again.',
+  'auth.oidcDiscoveryFailed': 'Could not load the OIDC configuration ({status}).',
+  'auth.oidcIssuerMismatch': 'The OIDC issuer does not match the configuration.',
+  'auth.idTokenMalformed': 'The ID token is malformed.',
+  'auth.idTokenAlgorithm': 'Unsupported ID token algorithm: {alg}',
+  'auth.idTokenKeyMissing': 'The ID token signing key was not found.',
+  'auth.idTokenSignature': 'The ID token signature is invalid.',
+  'auth.idTokenIssuer': 'The ID token issuer does not match.',
+  'auth.idTokenAudience': 'The ID token audience does not match.',
+  'auth.idTokenExpired': 'The ID token has expired.',
+  'auth.idTokenNonce': 'The ID token nonce does not match.',
+  'auth.ssoDenied': 'SSO sign-in was denied: {reason}',
+  'auth.ssoStateMismatch': 'The SSO sign-in request could not be verified. Try again.',
+  'auth.tokenExchangeFailed': 'Token exchange failed ({status}).',
+  'auth.idTokenMissing': 'The identity provider did not return an ID token.',
+  'auth.ssoNotConfigured': 'SSO sign-in is not configured.',
+  'auth.serverUnreachable': 'Cannot reach the sign-in server. Please try again shortly.',
+  'auth.serverFailed': 'The sign-in server returned an error ({status}).',
+  'login.subtitle': 'Sign in to your account',
+  'login.firstAccount': 'The first account becomes the global admin',
+  'login.join': 'Join the test team!',
+  'login.name': 'Name',
+  'login.namePlaceholder': 'e.g. Jane Doe',
+  'login.email': 'Email address',
+  'login.password': 'Password',
+  'login.passwordPlaceholder': 'At least {min} characters',
+  'login.passwordConfirm': 'Confirm password',
+  'login.passwordMismatch': 'The passwords do not match.',
+  'login.avatar': 'Avatar',
+  'login.signIn': 'Sign in',
+  'login.register': 'Sign up',
+  'login.or': 'or',
+  'login.withProvider': 'Sign in with {provider}',
+  'login.noAccount': 'No account yet?',
+  'login.createAccount': 'Create one',
+  'login.haveAccount': 'Already have an account?',
+  'login.failed': 'Something went wrong while signing in. Try again in a moment.',
+
+  // --- AI AND EXECUTION ---
+  'ai.quotaExceeded': 'You have used up today\'s AI allowance. Try again tomorrow.',
+  'ai.rateLimited': 'Too many AI requests. Try again shortly.',
+  'ai.rateLimitedFor': 'Too many AI requests. Try again in {seconds} seconds.',
+  'ai.unreachable': 'Cannot reach the AI server ({provider}). Check the AI model settings and that the server is running.',
+  'ai.unauthorized': 'The AI proxy could not verify your session. Sign in again and retry.',
+  'ai.rejected': 'The AI server did not accept the request. Check the selected model.',
+  'ai.upstream': 'The AI model did not return a usable answer. Please try again shortly.',
+  'runner.simulationFailed': 'AI simulation failed',
+  'runner.simulationLimited': 'AI simulation failed: {reason}',
+  'executor.stepFailed': 'Step {step} failed: {message}',
+  'executor.stepUnsupported': 'Stopped: the action in step {step} could not be turned into a browser command.',
+  'executor.stepsUnverified': 'Every action ran, but some steps could not be verified, so the case was recorded as skipped. Steps without a checkable expected result: {steps}',
+  'executor.allPassed': 'Every step ran and was verified.',
+  'executor.unreachable': 'Cannot reach the browser executor ({url}). Start it with \'npm run executor\'.',
+  'executor.error': 'Browser executor error: {error}',
+
+  'issueDraft.heading': '[Test failure] {suite} › {title}',
+  'issueDraft.run': 'Run ID: {runId} ({time})',
+  'issueDraft.failedSteps': 'Failed steps:',
+  'issueDraft.expected': 'Expected: {text}',
+  'issueDraft.actual': 'Actual: {text}',
+  'issueDraft.summary': 'Outcome:',
+  'issueDraft.notes': 'Notes:',
+  'issueDraft.aiLog': 'AI log:',
+  'issueDraft.executionLog': 'Execution log:',
+  'issueDraft.title': '[{suite}] {title} failed',
+
+  // --- QUALITY GATES ---
+  'gate.failure.NO_SIMULATED_RESULTS': '{count} AI-simulated result(s) cannot be used for the verdict',
+  'gate.failure.MIN_PASS_RATE': 'Pass rate {rate}% is below the minimum of {min}%',
+  'gate.failure.NO_HIGH_PRIORITY_FAILURES': '{count} high-priority case(s) failed',
+  'gate.failure.MAX_SKIPPED': '{count} skipped case(s) exceed the limit of {max}',
+  'gate.rule.MIN_PASS_RATE': 'Pass rate ≥ {min}%',
+  'gate.rule.NO_HIGH_PRIORITY_FAILURES': 'No high-priority failures',
+  'gate.rule.MAX_SKIPPED': 'Skipped ≤ {max}',
+  'gate.subtitle': 'A run of {suite} passes only when every condition is met.',
+  'gate.minPassRate': 'Minimum pass rate (%)',
+  'gate.noHighPriorityFailures': 'No High priority failures',
+  'gate.noHighPriorityFailuresHint': 'The run fails if any High priority case fails.',
+  'gate.limitSkipped': 'Limit skipped cases',
+  'gate.limitSkippedHint': 'The run fails if more cases are skipped than allowed.',
+  'gate.orFewer': 'or fewer',
+
+  // --- PLANS ---
+  'plans.blocker.noSuites': 'The plan has no suites.',
+  'plans.blocker.suiteDeleted': 'The plan includes a deleted suite.',
+  'plans.blocker.notRun': '"{suite}": not run yet.',
+  'plans.blocker.notCompleted': '"{suite}": the run is not complete.',
+  'plans.blocker.gateFailed': '"{suite}": quality gates failed ({failures})',
+  'plans.blocker.openIssue': 'Open issue {key}: {title}',
+  'plans.casesAssigned': '{count} test case(s) were assigned to you in the "{plan}" plan.',
+  'plans.new': 'New plan',
+  'plans.newTitle': 'New test plan',
+  'plans.empty': 'No test plans yet.',
+  'plans.untitled': 'Untitled plan',
+  'plans.scope': '{suites} suite(s) · {cases} case(s)',
+  'plans.daysLeft': '{days} day(s) left',
+  'plans.dueToday': 'Due today',
+  'plans.overdue': '{days} day(s) overdue',
+  'plans.selectPlan': 'Select a plan to see its details.',
+  'plans.confirmDelete': 'Delete the plan "{plan}"? Runs it already created are kept.',
+  'plans.noDate': 'Not set',
+  'plans.edit': 'Edit plan',
+  'plans.delete': 'Delete plan',
+  'plans.activeRunsHint': 'Finish or abandon the runs in progress before launching again',
+  'plans.launch': 'Launch plan',
+  'plans.relaunch': 'Launch again',
+  'plans.progress': 'Progress',
+  'plans.casesDone': '{done} / {total} cases',
+  'plans.releaseReady': '{release} is ready for release',
+  'plans.releaseNotReady': '{release} is not ready for release',
+  'plans.assignments': 'Assignments',
+  'plans.unknownUser': 'Unknown user',
+  'plans.assignedCount': '{count}',
+  'plans.suites': 'Suites in the plan',
+  'plans.noSuites': 'Edit the plan to add suites.',
+  'plans.selectedCases': '{selected} / {total} cases selected',
+  'plans.allCasesCount': 'All {count} cases',
+  'plans.notRun': 'Not run',
+  'plans.inProgress': 'In progress {done} / {total}',
+  'plans.entryNoCases': 'No cases to run',
+  'plans.startRun': 'Start run',
+  'plans.name': 'Plan name',
+  'plans.namePlaceholder': 'e.g. Q2 regression',
+  'plans.milestone': 'Milestone',
+  'plans.milestonePlaceholder': 'e.g. v2.4',
+  'plans.startDate': 'Start date',
+  'plans.targetDate': 'Target date',
+  'plans.description': 'Description',
+  'plans.scopeLabel': 'Suites and case scope',
+  'plans.allCases': 'All cases',
+  'plans.someCases': 'Selected cases',
+  'plans.removeSuite': 'Remove from plan',
+  'plans.noAssignee': 'No assignee',
+  'plans.assignByCase': 'Assign by case',
+  'plans.closeCaseAssignment': 'Close case assignment',
+  'plans.suiteAssignee': 'Suite assignee',
+  'plans.selectByPriority': 'Select by priority:',
+  'plans.selectSuite': 'Select a suite...',
+
+  // --- ACCESS CONTROL ---
+  'access.title': 'Project access control',
+  'access.addUser': 'Add user',
+  'access.selectUser': 'Select a user...',
+  'access.current': 'Current access',
+  'access.empty': 'No access has been granted.',
+  'access.removeSelfConfirm': 'You are about to remove your own access. Continue?',
+
+  // --- FILES ---
+  'files.xmlUnreadable': 'The XML could not be read. Check that the file is not damaged.',
+  'report.stepFailed': 'Step {step} failed: {action}',
+  'report.step': 'Step {step}: {action}',
+  'report.notRun': 'Not run',
+  'report.junitRoot': 'JUnit XML must start with a <testsuites> or <testsuite> element.',
+  'junit.title': 'Import JUnit results',
+  'junit.subtitle': 'Saves JUnit XML from a CI pipeline as a finished run. A testcase is matched to the case with the same title.',
+  'junit.suite': 'Test suite',
+  'junit.selectFile': 'Click to select a JUnit XML file',
+  'junit.matchedCases': 'Matched cases',
+  'junit.matchSummary': 'Matched {matched} of {total} testcase(s) to {cases} case(s). When several testcases match one case, it is recorded as failed if any of them failed.',
+  'junit.unmatched': 'Unmatched testcases: {count} (not saved)',
+  'junit.save': 'Save as run',
+
+  // --- AI SETTINGS ---
+  'llm.subtitle': 'The model used to generate cases, convert data and simulate runs. Applies to your account only.',
+  'llm.provider': 'Provider',
+  'llm.provider.gemini': 'Google Gemini',
+  'llm.provider.openai': 'OpenAI-compatible server',
+  'llm.provider.fixture': 'Fixed answers (offline demo)',
+  'llm.providerHelp.gemini': 'Uses Gemini models in Google Cloud through the AI proxy server.',
+  'llm.providerHelp.openai': 'Uses a server with the OpenAI API format, such as Ollama, llama.cpp or vLLM. Works without internet access.',
+  'llm.providerHelp.fixture': 'Always returns the same results without a model. For demos and testing.',
+  'llm.baseUrl': 'Server address',
+  'llm.baseUrlHint': 'Ollama uses {ollama}; the llama.cpp server uses {llamaCpp}.',
+  'llm.apiKey': 'API key (optional)',
+  'llm.apiKeyPlaceholder': 'Local servers usually don\'t need one',
+  'llm.apiKeyHint': 'Stored in this browser only; not shared with other users or devices.',
+  'llm.model': 'Model',
+  'llm.loadModels': 'Load model list',
+  'llm.modelsFound': 'Found {count} model(s) on the server.',
+  'llm.modelsUnavailable': 'Could not load the model list from {url}. Enter the model name yourself.',
+  'llm.language': 'AI output language',
+  'llm.languageHint': 'The language of generated cases and simulation logs. A suite with its own language setting uses that instead.',
+
+  // --- IMPORT AND EXPORT ---
+  'excelImport.title': 'Import test data',
+  'excelImport.subtitle': 'Map the columns of an Excel or CSV file, or of a pasted table, to case fields. The same file always converts to the same cases.',
+  'excelImport.file': 'File',
+  'excelImport.paste': 'Paste',
+  'excelImport.upload': 'Click to upload an Excel or CSV file',
+  'excelImport.selectSheet': 'Sheet',
+  'excelImport.pastePlaceholder': 'Paste a table with column headings in the first row (tab- or comma-separated)',
+  'excelImport.sheetReadFailed': 'Could not read the sheet "{sheet}".',
+  'excelImport.fileReadFailed': 'Could not read the file. Check that it is a valid Excel or CSV file.',
+  'excelImport.aiFailed': 'AI conversion failed. Please try again.',
+  'excelImport.mapping': 'Column mapping',
+  'excelImport.unused': '(Not used)',
+  'excelImport.column': 'Column {number}',
+  'excelImport.mappingHint': 'Rows below with an empty title or the same case ID add steps to the case above. Numbered lines in one cell, like "1. ... 2. ...", become separate steps.',
+  'excelImport.aiOptional': 'If the sheet has no consistent layout, you can convert it with AI.',
+  'excelImport.aiNeeded': 'No title and step columns were found. Map the columns yourself or convert with AI.',
+  'excelImport.converting': 'Converting...',
+  'excelImport.convertWithAi': 'Convert with AI',
+  'excelImport.preview': 'Preview',
+  'excelImport.aiResult': '(AI conversion)',
+  'excelImport.caseCount': '{count} case(s)',
+  'excelImport.row': 'Row {row}',
+  'excelImport.noCases': 'No cases to import.',
+  'excelImport.empty': 'Upload a file or paste a table.',
+  'excelImport.errorRows': '{count} row(s) with errors will not be imported.',
+  'excelImport.import': 'Import {count} case(s)',
+  'caseImport.field.key': 'Case ID',
+  'caseImport.field.title': 'Title',
+  'caseImport.field.description': 'Description',
+  'caseImport.field.priority': 'Priority',
+  'caseImport.field.step': 'Step (action)',
+  'caseImport.field.expected': 'Expected result',
+  'caseImport.issue.noTitle': 'Case ID "{key}" has no title.',
+  'caseImport.issue.unknownPriority': 'The unknown priority "{value}" is imported as Medium.',
+  'caseImport.issue.orphanRow': 'This row does not belong to any case. Enter a title.',
+  'caseImport.issue.expectedWithoutAction': 'A step with an expected result but no action is not imported.',
+  'caseImport.issue.stepCountMismatch': 'The steps and expected results have different numbers of lines, so the expected results were added to the last step.',
+  'caseImport.issue.noSteps': '"{title}" has no steps.',
+  'suiteExport.subtitle': 'Excel and CSV files can be loaded again with "Import data".',
+  'suiteExport.suites': 'Suites ({selected}/{total})',
+  'suiteExport.selectAll': 'Select all',
+  'suiteExport.deselectAll': 'Deselect all',
+  'suiteExport.otherTools': 'Other tools',
+  'suiteExport.allExportable': 'Everything in the selected suites can be exported.',
+  'suiteExport.format.XLSX': 'One sheet per suite. Can be imported again.',
+  'suiteExport.format.CSV': 'All suites in one file. Can be imported again.',
+  'suiteExport.format.JSON': 'The canonical format with every field.',
+  'suiteExport.format.MARKDOWN': 'A readable test specification.',
+  'suiteExport.format.HTML': 'A specification to view or print in a browser.',
+  'suiteExport.sheet.suite': 'Suite',
+  'suiteExport.sheet.key': 'Case ID',
+  'suiteExport.sheet.title': 'Title',
+  'suiteExport.sheet.description': 'Description',
+  'suiteExport.sheet.priority': 'Priority',
+  'suiteExport.sheet.step': 'Step',
+  'suiteExport.sheet.expected': 'Expected result',
+  'suiteExport.specTitle': 'Test specification',
+  'suiteExport.caseCount': 'Test cases: {count}',
+  'suiteExport.priority': 'Priority',
+  'suiteExport.version': 'Version',
+  'suiteExport.action': 'Action',
+  'suiteExport.expected': 'Expected result',
+  'interop.importSubtitle': 'Imports TestRail, Xray, Zephyr Scale, TestLink or Gherkin files as new suites.',
+  'interop.selectFiles': 'Click to select files (several .feature files can be selected)',
+  'interop.format': 'Format',
+  'interop.selectFormat': 'Select a format',
+  'interop.formatUnknown': 'The format could not be detected. Select it yourself.',
+  'interop.readFailed': 'Could not read the file.',
+  'interop.convertFailed': 'Could not convert the file.',
+  'interop.preview': 'Preview',
+  'interop.noCases': 'No test cases to import.',
+  'interop.caseCount': '{count} case(s)',
+  'interop.allImportable': 'Everything can be imported.',
+  'interop.import': 'Import {suites} suite(s) ({cases} case(s))',
+  'interop.format.TESTRAIL_CSV': 'One row per step (Steps (Step) / Steps (Expected Result))',
+  'interop.format.TESTRAIL_XML': 'One section per suite, steps as steps_separated',
+  'interop.format.XRAY_CSV': 'Jira Xray test case import format (steps grouped by TCID)',
+  'interop.format.ZEPHYR_CSV': 'Folders and step-by-step test scripts',
+  'interop.format.TESTLINK_XML': 'testsuite / testcase tree',
+  'interop.format.GHERKIN': 'A Feature per suite and a Scenario per case. Several suites are bundled in a zip.',
+  'interop.unmapped': 'Fields not carried over: {count}',
+  'interop.dropped': 'Dropped; there is no matching field',
+  'interop.occurrences': '{count}×',
+  'interop.untitled': '(Untitled)',
+  'interop.preconditionsLabel': 'Preconditions:',
+  'interop.testDataLabel': 'Test data:',
+  'interop.columnsMissing': 'The "{title}" and "{action}" columns are required. Check the file format.',
+  'interop.testRailRoot': 'TestRail XML must start with a <suite> element.',
+  'interop.testLinkRoot': 'TestLink XML must start with a <testsuite> or <testcases> element.',
+  'interop.noFeature': 'No Feature was found. Check that this is a Gherkin .feature file.',
+  'interop.field.suiteDescription': 'Suite description',
+  'interop.field.targetConfig': 'Target app settings',
+  'interop.field.qualityGates': 'Quality gates',
+  'interop.field.aiLanguage': 'AI language',
+  'interop.field.caseVersion': 'Case version',
+  'interop.field.tag': 'Tag {tag}',
+  'interop.field.multilineAction': 'Multi-line step action',
+  'interop.note.caseVersion': 'The importing tool starts them as new cases',
+  'interop.note.unknownPriority': 'The unknown value "{value}" was imported as Medium',
+  'interop.note.untitledSkipped': 'Cases without a title were skipped',
+  'interop.note.mergedIntoDescription': 'Merged into the description',
+  'interop.note.mergedIntoAction': 'Merged into the step action',
+  'interop.note.expectedWithoutAction': 'Expected results without an action were skipped',
+  'interop.note.rule': 'The rule was dropped; only its scenarios were imported',
+  'interop.note.examples': 'Example tables were skipped, not expanded',
+  'interop.note.outline': 'Steps were imported with their <placeholders> as they are',
+  'interop.note.background': 'Added as the first steps of each scenario',
+  'interop.note.thenWithoutAction': 'Imported as a step with an empty action, since no action came before it',
+  'interop.note.appendedToStep': 'Appended as text to the step before',
+  'interop.note.joinedLines': 'Joined into one line',
+
+  // --- MY WORK ---
+  'queue.subtitle': 'Cases still to do for {name}: {count}',
+  'queue.empty': 'No runs in progress are assigned to you.',
+  'queue.targetDate': 'Target {date}',
+  'queue.started': 'Started {time}',
+  'queue.progress': '{done} / {total} done',
+  'queue.runMyCases': 'Run my cases',
+
+  // --- CASE HISTORY ---
+  'history.title': 'Change history',
+  'history.currentVersion': 'Currently v{version}',
+  'history.empty': 'No versions recorded.',
+  'history.current': 'Current',
+  'history.legacy': 'Earlier data',
+  'history.unknownAuthor': 'Unknown',
+  'history.restoredFrom': 'Restored from v{version}',
+  'history.restore': 'Restore v{version}',
+  'history.confirmRestore': 'Restore the content of v{version}? The current content stays in the history.',
+  'history.details': 'Details',
+  'history.noChanges': 'No changes',
+  'history.steps': 'Steps',
+  'history.noSteps': 'No steps',
+  'history.field.title': 'Title',
+  'history.field.description': 'Description',
+  'history.field.priority': 'Priority',
+  'history.step.ADDED': 'Added',
+  'history.step.REMOVED': 'Removed',
+  'history.step.CHANGED': 'Changed',
+  'history.step.UNCHANGED': 'Unchanged',
+
+  // --- RUN HISTORY ---
+  'runs.subtitle': 'Results of every test run so far.',
+  'runs.filters': 'Filters',
+  'runs.resetFilters': 'Reset',
+  'runs.allSuites': 'All suites',
+  'runs.executor': 'Run by',
+  'runs.allUsers': 'All users',
+  'runs.dateFrom': 'From',
+  'runs.dateTo': 'To',
+  'runs.passRate.ALL': 'All',
+  'runs.passRate.FULL': '100%',
+  'runs.passRate.ABOVE_90': '90% or more',
+  'runs.passRate.BELOW_90': 'Below 90%',
+  'runs.passRate.BELOW_50': 'Below 50%',
+  'runs.list': 'Runs',
+  'runs.count': '{shown} / {total}',
+  'runs.noMatches': 'No runs match the filters.',
+  'runs.duration': 'Duration: {minutes}m {seconds}s',
+  'runs.importedFrom': 'CI import: {file}',
+  'runs.gatePassed': 'Quality gates passed',
+  'runs.gateFailed': 'Quality gates failed',
+  'runs.newerVersion': 'The current version is v{version}',
+  'runs.caseDeleted': 'This case was deleted',
+  'runs.executionLog': 'Run log',
+  'runs.aiLog': 'AI log',
+  'runs.deletedStep': 'Deleted step',
+  'runs.actualResult': 'Actual result: {result}',
+
+  // --- AUDIT LOG ---
+  'audit.subtitle': 'Every change to suites, runs, permissions and issues. Entries can\'t be edited or deleted.',
+  'audit.user': 'User',
+  'audit.entity': 'Target',
+  'audit.allEntities': 'All targets',
+  'audit.search': 'Search names',
+  'audit.searchPlaceholder': 'Suites, cases, issues...',
+  'audit.entries': 'Changes',
+  'audit.empty': 'No changes recorded yet.',
+  'audit.noMatches': 'No entries match the filters.',
+  'audit.showMore': 'Show more ({count} left)',
+  'audit.resultField': 'Result · {case}',
+  'audit.entity.SUITE': 'Suite',
+  'audit.entity.CASE': 'Test case',
+  'audit.entity.PERMISSION': 'Permission',
+  'audit.entity.RUN': 'Run',
+  'audit.entity.ISSUE': 'Issue',
+  'audit.entity.PLAN': 'Test plan',
+  'audit.action.CREATED': 'Created',
+  'audit.action.UPDATED': 'Updated',
+  'audit.action.DELETED': 'Deleted',
+  'audit.field.name': 'Name',
+  'audit.field.title': 'Title',
+  'audit.field.description': 'Description',
+  'audit.field.priority': 'Priority',
+  'audit.field.steps': 'Steps',
+  'audit.field.qualityGates': 'Quality gates',
+  'audit.field.aiLanguage': 'AI language',
+  'audit.field.status': 'Status',
+  'audit.field.executedBy': 'Run by',
+  'audit.field.assignedTo': 'Assignee',
+  'audit.field.assignee': 'Assignee',
+  'audit.field.gatePassed': 'Gates passed',
+  'audit.field.linkedCases': 'Linked cases',
+  'audit.field.milestone': 'Milestone',
+  'audit.field.startDate': 'Start date',
+  'audit.field.targetDate': 'Target date',
+  'audit.field.entries': 'Suites',
+  'audit.field.assignments': 'Case assignments',
+  'audit.field.role': 'Role'
+};
@@ -0,0 +1,96 @@
+import { LocalizedText, UiLocale } from '../../types';
+import { ko } from './ko';
+import { en } from './en';
+
+// Interface text and locale-aware formatting. Korean is the source catalog: every key exists
+// there, and other catalogs fall back to it for keys they haven't translated yet.
+
+export type MessageKey = keyof typeof ko;
+export type Messages = Partial<Record<MessageKey, string>>;
+export type MessageParams = Record<string, string | number>;
+
+export const UI_LOCALES: { id: UiLocale; label: string; intl: string }[] = [
+  { id: 'ko', label: '한국어', intl: 'ko-KR' },
+  { id: 'en', label: 'English', intl: 'en-US' }
+];
+
+export const DEFAULT_UI_LOCALE: UiLocale = 'ko';
+
+export const CATALOGS: Record<UiLocale, Messages> = { ko, en };
+
+export const isUiLocale = (value: unknown): value is UiLocale => UI_LOCALES.some(l => l.id === value);
+
+// Used until a user picks a language, including on the login screen
+export const detectUiLocale = (): UiLocale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  const match = preferred.map(tag => tag?.split('-')[0]).find(isUiLocale);
+  return match || DEFAULT_UI_LOCALE;
+};
+
+const intlLocale = (locale: UiLocale) => (UI_LOCALES.find(l => l.id === locale) || UI_LOCALES[0]).intl;
+
+// "{name}" placeholders are replaced by params; unknown placeholders are left as they are
+export const translate = (locale: UiLocale, key: MessageKey, params?: MessageParams): string => {
+  const text = CATALOGS[locale]?.[key] ?? ko[key] ?? key;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+// Stored text with a checked key; see LocalizedText
+export const msg = (key: MessageKey, params?: LocalizedText['params']): LocalizedText =>
+  params ? { key, params } : { key };
+
+export const localize = (locale: UiLocale, text: LocalizedText): string => {
+  const params: MessageParams = {};
+  Object.entries(text.params || {}).forEach(([name, value]) => {
+    params[name] = Array.isArray(value)
+      ? value.map(item => localize(locale, item)).join(', ')
+      : typeof value === 'object' ? localize(locale, value) : value;
+  });
+  return translate(locale, text.key as MessageKey, params);
+};
+
+// Thrown by services for errors the user should read; the message is the key, for logs
+export class LocalizedError extends Error {
+  constructor(public readonly text: LocalizedText, public readonly cause?: unknown) {
+    super(text.key);
+    this.name = 'LocalizedError';
+  }
+}
+
+// --- FORMATTING ---
+
+type DateInput = string | number | Date;
+
+export const formatDate = (locale: UiLocale, value: DateInput, options?: Intl.DateTimeFormatOptions) =>
+  new Date(value).toLocaleDateString(intlLocale(locale), options);
+
+export const formatDateTime = (locale: UiLocale, value: DateInput, options?: Intl.DateTimeFormatOptions) =>
+  new Date(value).toLocaleString(intlLocale(locale), options);
+
+export const formatTime = (locale: UiLocale, value: DateInput, options?: Intl.DateTimeFormatOptions) =>
+  new Date(value).toLocaleTimeString(intlLocale(locale), options);
+
+export const formatNumber = (locale: UiLocale, value: number, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(intlLocale(locale), options);
+
+// Everything a screen needs, bound to one locale
+export interface I18n {
+  locale: UiLocale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  localize: (text: LocalizedText) => string;
+  formatDate: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatTime: (value: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export const createI18n = (locale: UiLocale): I18n => ({
+  locale,
+  t: (key, params) => translate(locale, key, params),
+  localize: text => localize(locale, text),
+  formatDate: (value, options) => formatDate(locale, value, options),
+  formatDateTime: (value, options) => formatDateTime(locale, value, options),
+  formatTime: (value, options) => formatTime(locale, value, options),
+  formatNumber: (value, options) => formatNumber(locale, value, options)
+});
@@ -0,0 +1,687 @@
+// Source catalog: the interface was written in Korean, and every key is defined here first
+export const ko = {
+  // --- COMMON ---
+  'common.loading': '불러오는 중...',
+  'common.cancel': '취소',
+  'common.save': '저장',
+  'common.create': '생성',
+  'common.edit': '편집',
+  'common.delete': '삭제',
+  'common.unassigned': '할당되지 않음',
+  'common.close': '닫기',
+  'common.add': '추가',
+  'common.yes': '예',
+  'common.no': '아니오',
+  'common.text': '{text}',
+
+  'status.PASSED': '통과',
+  'status.FAILED': '실패',
+  'status.SKIPPED': '건너뜀',
+
+  'priority.High': '높음',
+  'priority.Medium': '중간',
+  'priority.Low': '낮음',
+
+  'role.ADMIN': '관리자',
+  'role.MEMBER': '멤버',
+  'role.OBSERVER': '옵저버',
+
+  'issueStatus.TODO': '할 일',
+  'issueStatus.IN_PROGRESS': '진행 중',
+  'issueStatus.DONE': '완료',
+  'resultSource.MANUAL': '수동',
+  'resultSource.AI_SIMULATED': 'AI 시뮬레이션',
+  'resultSource.EXECUTOR': '브라우저 실행',
+  'resultSource.CI_IMPORT': 'CI 가져오기',
+
+  // --- APP ---
+  'app.storageError': '데이터 저장소({name}) 오류가 발생했습니다. 변경 사항이 저장되지 않을 수 있습니다.',
+  'app.storageFull': '데이터 저장소({name})의 용량이 가득 찼습니다. 변경 사항이 저장되지 않을 수 있으니 오래된 실행 기록을 정리하거나 IndexedDB 또는 REST 저장소로 전환하세요.',
+  'app.ssoUserNotFound': 'SSO 계정에 연결된 사용자를 찾을 수 없습니다.',
+  'app.ssoFailed': 'SSO 로그인에 실패했습니다.',
+  'app.welcome': '환영합니다 {name}님! 계정이 생성되었습니다.',
+  'app.resumeSuiteDeleted': '"{suite}" 스위트가 삭제되어 실행을 이어갈 수 없습니다.',
+  'app.resumeNoCases': '"{suite}" 실행에 남은 케이스가 없어 이어갈 수 없습니다. 대시보드에서 실행을 중단할 수 있습니다.',
+  'app.queueNoCases': '"{suite}" 실행에서 담당한 케이스가 모두 삭제되었습니다.',
+  'app.planEmpty': '"{plan}" 계획에 실행할 케이스가 없습니다.',
+  'app.planLaunched': '"{plan}" 계획을 시작했습니다. {count}개의 실행이 생성되었습니다.',
+  'app.planEntriesSkipped': '"{plan}" 계획에서 실행할 케이스가 없는 스위트 {count}개는 건너뛰었습니다.',
+  'app.planAssigned': '"{plan}" 계획이 시작되었습니다. 내 작업에 {count}건의 케이스가 있습니다.',
+  'app.queueFinished': '"{suite}"에서 배정된 케이스를 마쳤습니다. 남은 케이스가 완료되면 실행이 종료됩니다.',
+  'app.runFinished': '테스트 실행 "{suite}" {verdict} ({rate}%). {failed}건 실패.{gate}',
+  'app.gateUnmet': ' 품질 게이트 미충족: {failures}.',
+  'app.ciImported': 'CI 결과 "{file}"를 "{suite}" 실행으로 가져왔습니다 ({rate}%). {failed}건 실패.',
+  'app.issueAssigned': '이슈 {key}에 할당되었습니다: {title}',
+
+  'notifications.title': '알림',
+  'notifications.clearAll': '모두 지우기',
+  'notifications.empty': '{name}님을 위한 새로운 알림이 없습니다.',
+  'notifications.permissionGranted': '{name}님이 "{suite}" 스위트에 {role} 권한을 부여했습니다.',
+
+  // --- SIDEBAR ---
+  'nav.dashboard': '대시보드',
+  'nav.queue': '내 작업',
+  'nav.suites': '테스트 스위트',
+  'nav.plans': '테스트 계획',
+  'nav.history': '실행 이력',
+  'nav.issues': '이슈 보드',
+  'nav.audit': '감사 로그',
+
+  'sidebar.globalAdmin': '전체 관리자',
+  'sidebar.language': '언어',
+  'sidebar.aiSettings': 'AI 모델 설정',
+  'sidebar.logout': '로그아웃',
+
+  // --- DASHBOARD ---
+  'dashboard.title': '대시보드',
+  'dashboard.subtitle': '테스트 자동화 지표 개요입니다.',
+  'dashboard.excludeSimulated': 'AI 시뮬레이션 결과 제외',
+  'dashboard.lastUpdated': '마지막 업데이트: {time}',
+  'dashboard.activeRuns': '진행 중인 실행',
+  'dashboard.runTimes': '시작 {start} · 마지막 기록 {last}',
+  'dashboard.caseProgress': '{done} / {total} 케이스',
+  'dashboard.suiteDeleted': '스위트가 삭제되었습니다',
+  'dashboard.noRunPermission': '실행 권한이 없습니다',
+  'dashboard.resume': '이어서 실행',
+  'dashboard.confirmAbandon': '"{suite}" 실행을 중단하시겠습니까? 기록된 결과는 통계에 포함되지 않습니다.',
+  'dashboard.abandon': '중단',
+  'dashboard.totalRuns': '총 실행 횟수',
+  'dashboard.passRate': '통과율',
+  'dashboard.simulatedExcluded': 'AI 시뮬레이션 {count}건 제외됨',
+  'dashboard.simulatedIncluded': 'AI 시뮬레이션 {count}건 포함됨',
+  'dashboard.efficiency': '효율성',
+  'dashboard.trend': '실행 추세',
+  'dashboard.overallStatus': '전체 상태',
+  'dashboard.failureImpact': '실패 영향 분석',
+  'dashboard.priorityScope': '테스트 스위트 중요도 범위',
+  'dashboard.recentRuns': '최근 실행 이력',
+  'dashboard.viewAll': '모두 보기',
+  'dashboard.noRuns': '아직 실행된 테스트가 없습니다.',
+  'dashboard.accessTitle': '전체 접근 권한 관리',
+  'dashboard.accessSubtitle': '관리자로서 모든 테스트 스위트의 권한을 관리합니다.',
+  'dashboard.colSuite': '테스트 스위트',
+  'dashboard.colUsers': '총 사용자',
+  'dashboard.colAdmins': '관리자',
+  'dashboard.colCreated': '생성일',
+  'dashboard.colActions': '작업',
+  'dashboard.manageAccess': '권한 관리',
+
+  // --- SUITES ---
+  'suites.title': '테스트 스위트',
+  'suites.newSuiteName': '새 테스트 스위트',
+  'suites.newSuiteDescription': '테스트 스위트 설명',
+  'suites.newCaseTitle': '새 테스트 케이스',
+  'suites.copyTitle': '{title} (복사본)',
+  'suites.confirmDeleteSuite': '이 스위트를 삭제하시겠습니까?',
+  'suites.confirmDeleteCase': '이 테스트 케이스를 삭제하시겠습니까?',
+  'suites.generateFailed': '테스트 케이스 생성에 실패했습니다. 다시 시도해 주세요.',
+  'suites.importFromTool': '다른 도구에서 가져오기',
+  'suites.exportSuite': '스위트 내보내기',
+  'suites.createSuite': '새 스위트 생성',
+  'suites.noSuites': '{name}에 대한 스위트를 찾을 수 없습니다.',
+  'suites.noSuitesHint': '새로 생성하거나 관리자에게 권한을 요청하세요.',
+  'suites.caseCount': '{count} 테스트 케이스',
+  'suites.deleteSuite': '스위트 삭제',
+  'suites.aiLanguageHint': 'AI가 케이스와 시뮬레이션 로그를 작성할 언어',
+  'suites.aiLanguageUser': 'AI 언어: 사용자 설정',
+  'suites.aiLanguage': 'AI 언어: {language}',
+  'suites.qualityGates': '품질 게이트',
+  'suites.manageAccess': '권한 관리',
+  'suites.readOnly': '읽기 전용 (옵저버 모드)',
+  'suites.importData': '데이터 가져오기',
+  'suites.aiGenerate': 'AI 생성',
+  'suites.translate': '번역',
+  'translate.title': '스위트 번역',
+  'translate.subtitle': '케이스 {count}개의 제목, 설명, 단계를 번역합니다. 케이스 ID와 실행 이력은 그대로 유지되며, 번역은 새 버전으로 저장됩니다.',
+  'translate.language': '번역할 언어',
+  'translate.useForGeneration': '이후 AI 생성과 시뮬레이션도 이 언어로 작성',
+  'translate.translating': '번역 중...',
+  'translate.failed': '번역에 실패했습니다. 스위트는 변경되지 않았습니다. 다시 시도해 주세요.',
+  'suites.export': '내보내기',
+  'suites.runSuite': '스위트 실행',
+  'suites.noCases': '아직 테스트 케이스가 없습니다.',
+  'suites.noCasesHint': "'AI 생성' 또는 '데이터 가져오기'를 클릭하여 자동으로 생성해보세요.",
+  'suites.addCase': '테스트 케이스 추가',
+  'suites.selectSuite': '세부 정보를 보려면 스위트를 선택하세요.',
+  'suites.generateTitle': 'AI 테스트 케이스 생성',
+  'suites.generateSubtitle': '애플리케이션 범위와 기능을 정의하세요. AI가 {language} 테스트 케이스를 생성합니다.',
+  'suites.targetApp': '대상 애플리케이션',
+  'suites.appWeb': '웹사이트',
+  'suites.appDesktop': '데스크톱 앱',
+  'suites.websiteUrl': '웹사이트 URL',
+  'suites.programPath': '프로그램 파일 경로',
+  'suites.filePath': '파일 주소 / 경로',
+  'suites.testLogin': '테스트 이메일 / 로그인 ID (선택 사항)',
+  'suites.testAccount': '테스트 이메일 / 계정 (선택 사항)',
+  'suites.featureDescription': '기능 설명',
+  'suites.featurePlaceholder': '예: 2단계 인증이 포함된 로그인 기능...',
+  'suites.generating': '생성 중 ({language})...',
+  'suites.generate': '생성',
+  'suites.runSetupTitle': '테스트 환경 설정',
+  'suites.runSetupSubtitle': '실행 전 환경을 구성하세요.',
+  'suites.runMode': '실행 모드',
+  'suites.modeManual': '수동',
+  'suites.modeAutomated': 'AI 자동화',
+  'suites.realBrowser': '실제 브라우저',
+  'suites.aiSimulation': 'AI 시뮬레이션',
+  'suites.realBrowserHint': '로컬 실행기(npm run executor)가 헤드리스 브라우저로 각 단계를 실제 실행합니다.',
+  'suites.aiSimulationHint': 'AI가 결과를 추정합니다. 릴리스 승인 근거로 사용할 수 없습니다.',
+  'suites.aiSimulationShortHint': 'AI가 테스트 실행을 시뮬레이션합니다.',
+  'suites.appType': '애플리케이션 유형',
+  'suites.testAssets': '테스트 자산 (파일/문서)',
+  'suites.pickFiles': '시스템에서 파일 선택',
+  'suites.noFiles': '선택된 파일이 없습니다. 자동 실행기가 로컬 파일을 볼 수 없습니다.',
+  'suites.startAutomated': '자동 실행 시작',
+  'suites.startManual': '테스트 시작',
+  'suites.stepCount': '{count} 단계',
+  'suites.duplicate': '복제',
+  'suites.history': '변경 이력',
+  'suites.stepNumber': '단계 {number}',
+  'suites.expectedResult': '예상 결과',
+  'suites.fieldTitle': '제목',
+  'suites.fieldPriority': '우선순위',
+  'suites.fieldDescription': '설명',
+  'suites.fieldSteps': '단계',
+  'suites.stepAction': '동작',
+  'suites.duplicateStep': '단계 복제',
+  'suites.deleteStep': '단계 삭제',
+  'suites.addStep': '단계 추가',
+
+  'review.title': '생성된 케이스 검토',
+  'review.subtitle': 'AI가 케이스 {count}개를 생성했습니다. 수락한 케이스만 "{suite}"에 추가됩니다.',
+  'review.acceptedCount': '수락 {count}',
+  'review.rejectedCount': '거절 {count}',
+  'review.pendingCount': '미결정 {count}',
+  'review.acceptRemaining': '나머지 모두 수락',
+  'review.empty': 'AI가 케이스를 생성하지 않았습니다. 기능 설명을 보완해 다시 시도해 주세요.',
+  'review.untitled': '(제목 없음)',
+  'review.accept': '수락',
+  'review.reject': '거절',
+  'review.duplicateInSuite': '기존 케이스 "{title}"와 유사 ({similarity})',
+  'review.duplicateInBatch': '생성된 케이스 "{title}"와 유사 ({similarity})',
+  'review.noSteps': '단계가 없습니다',
+  'review.missingExpected': '예상 결과 누락: {steps}단계',
+  'review.noExpected': '예상 결과 없음',
+  'review.pendingHint': '결정하지 않은 케이스는 추가되지 않습니다.',
+  'review.confirm': '{count}개 추가',
+  'review.confirmDiscard': '생성된 케이스를 모두 버릴까요? 스위트는 변경되지 않습니다.',
+
+  // --- RUNNER ---
+  'runner.attachmentTooLarge': '2MB를 초과하는 파일은 첨부할 수 없습니다: {files}',
+  'runner.attachmentNotStored': '첨부 파일을 저장하지 못했습니다. 다시 시도하세요.',
+  'runner.attachmentStorageFull': '브라우저 저장 공간이 가득 차 첨부 파일을 저장할 수 없습니다. 오래된 실행 기록을 정리한 뒤 다시 시도하세요.',
+  'runner.attachmentTag': '[첨부] {name}',
+  'runner.running': '실행 중: {suite}',
+  'runner.browserEngine': '브라우저 자동',
+  'runner.aiSimulation': 'AI 시뮬레이션',
+  'runner.caseProgress': '케이스 {current} / {total}',
+  'runner.mockAssets': '가상 자산: {files}',
+  'runner.fileCount': '{count} 파일',
+  'runner.exitHint': '진행 상황은 저장되며 대시보드에서 이어서 실행할 수 있습니다',
+  'runner.exit': '실행 종료',
+  'runner.noCases': '실행할 케이스가 없습니다.',
+  'runner.priority': '우선순위: {priority}',
+  'runner.statusRunning': '실행 중...',
+  'runner.statusWaiting': '대기 중',
+  'runner.issueCreated': '{key} 생성됨',
+  'runner.createIssue': '이슈 생성',
+  'runner.openIssues': '해결되지 않은 이슈에 연결된 케이스입니다',
+  'runner.steps': '실행 단계',
+  'runner.action': '동작',
+  'runner.expectedResult': '예상 결과',
+  'runner.skip': '건너뛰기',
+  'runner.attach': '첨부',
+  'runner.actualResultRequired': '실제 결과를 입력하세요 (실패 원인)',
+  'runner.actualResultOptional': '실제 결과 (선택)',
+  'runner.removeAttachment': '첨부 삭제',
+  'runner.notes': '메모',
+  'runner.notesPlaceholder': '테스트 환경, 재현 조건 등 케이스 전체에 대한 메모',
+  'runner.automationLog': '자동화 실행 로그',
+  'runner.screenshots': '스크린샷',
+  'runner.screenshotAlt': '스크린샷 {number}',
+  'runner.runningInBrowser': '브라우저에서 실행 중...',
+  'runner.runningWithAi': 'AI 테스트 실행 중...',
+  'runner.exportResults': '결과 내보내기',
+  'runner.export': '내보내기',
+  'runner.finishRun': '실행 완료',
+  'runner.passRest': '나머지 통과',
+  'runner.passRestHint': '표시되지 않은 단계를 모두 통과 처리합니다',
+  'runner.skipRestHint': '표시되지 않은 단계를 모두 건너뜁니다',
+  'runner.issueModalTitle': '실패 이슈 생성',
+  'runner.issueSummary': '요약',
+  'runner.issueDescription': '설명',
+  'runner.issuePriority': '우선순위',
+  'runner.issueAssignee': '담당자',
+
+  // --- ISSUES ---
+  'issues.title': '이슈 보드',
+  'issues.subtitle': 'Jira 스타일로 버그와 작업 관리',
+  'issues.mentioned': '{name}님이 이슈 {key}에서 회원님을 언급했습니다: {title}',
+  'issues.statusChanged': '이슈 {key}의 상태가 "{status}"(으)로 변경되었습니다: {title}',
+  'issues.confirmDelete': '이 이슈를 삭제하시겠습니까?',
+  'issues.deletedSuite': '삭제된 스위트',
+  'issues.deletedCase': '삭제된 테스트 케이스',
+  'issues.noCreatePermission': '이슈를 생성할 권한이 없습니다',
+  'issues.create': '이슈 생성',
+  'issues.linkedCaseCount': '케이스 {count}',
+  'issues.dropHere': '항목을 여기로 드래그하세요',
+  'issues.createTitle': '새 이슈 생성',
+  'issues.summary': '요약',
+  'issues.summaryPlaceholder': '어떤 이슈인가요?',
+  'issues.description': '설명',
+  'issues.descriptionPlaceholder': '재현 단계를 설명하세요... (@이름으로 동료 언급)',
+  'issues.addDescriptionPlaceholder': '설명 추가... (@이름으로 동료 언급)',
+  'issues.titlePlaceholder': '이슈 제목',
+  'issues.priority': '우선순위',
+  'issues.assignee': '담당자',
+  'issues.activity': '활동',
+  'issues.noActivity': '최근 활동 없음.',
+  'issues.status': '상태',
+  'issues.blockedCases': '차단된 테스트 케이스',
+  'issues.unlink': '연결 해제',
+  'issues.noLinkedCases': '연결된 케이스 없음',
+  'issues.created': '생성일',
+  'issues.delete': '이슈 삭제',
+
+  // --- AUTH ---
+  'auth.nameRequired': '이름을 입력하세요.',
+  'auth.invalidEmail': '올바른 이메일 주소를 입력하세요.',
+  'auth.passwordTooShort': '비밀번호는 {min}자 이상이어야 합니다.',
+  'auth.emailRegistered': '이미 등록된 이메일입니다.',
+  'auth.emailTaken': '이미 사용 중인 이메일입니다. 관리자에게 문의하세요.',
+  'auth.invalidLogin': '이메일 또는 비밀번호가 올바르지 않습니다.',
+  'auth.emailLinkedElsewhere': '이 이메일을 쓰는 계정이 이미 다른 방식으로 로그인합니다. 기존 방식으로 로그인하세요.',
+  'auth.emailUnverified': '이 이메일을 쓰는 사용자가 이미 있지만 IdP가 이메일 소유를 확인하지 않았습니다. IdP에서 이메일을 인증한 뒤 다시 로그인하세요.',
+  'auth.oidcDiscoveryFailed': 'OIDC 설정을 불러오지 못했습니다 ({status}).',
+  'auth.oidcIssuerMismatch': 'OIDC 발급자 정보가 설정과 일치하지 않습니다.',
+  'auth.idTokenMalformed': 'ID 토큰 형식이 올바르지 않습니다.',
+  'auth.idTokenAlgorithm': '지원하지 않는 ID 토큰 알고리즘입니다: {alg}',
+  'auth.idTokenKeyMissing': 'ID 토큰 서명 키를 찾을 수 없습니다.',
+  'auth.idTokenSignature': 'ID 토큰 서명이 올바르지 않습니다.',
+  'auth.idTokenIssuer': 'ID 토큰 발급자가 일치하지 않습니다.',
+  'auth.idTokenAudience': 'ID 토큰 대상이 일치하지 않습니다.',
+  'auth.idTokenExpired': 'ID 토큰이 만료되었습니다.',
+  'auth.idTokenNonce': 'ID 토큰 nonce가 일치하지 않습니다.',
+  'auth.ssoDenied': 'SSO 로그인이 거부되었습니다: {reason}',
+  'auth.ssoStateMismatch': 'SSO 로그인 요청을 확인할 수 없습니다. 다시 시도하세요.',
+  'auth.tokenExchangeFailed': '토큰 교환에 실패했습니다 ({status}).',
+  'auth.idTokenMissing': 'IdP가 ID 토큰을 반환하지 않았습니다.',
+  'auth.ssoNotConfigured': 'SSO 로그인이 설정되지 않았습니다.',
+  'auth.serverUnreachable': '인증 서버에 연결할 수 없습니다. 잠시 후 다시 시도하세요.',
+  'auth.serverFailed': '인증 서버에서 오류가 발생했습니다 ({status}).',
+  'login.subtitle': '계정에 로그인하세요',
+  'login.firstAccount': '첫 계정은 전체 관리자가 됩니다',
+  'login.join': '테스트 팀에 합류하세요!',
+  'login.name': '이름',
+  'login.namePlaceholder': '예: 홍길동',
+  'login.email': '이메일 주소',
+  'login.password': '비밀번호',
+  'login.passwordPlaceholder': '{min}자 이상',
+  'login.passwordConfirm': '비밀번호 확인',
+  'login.passwordMismatch': '비밀번호가 일치하지 않습니다.',
+  'login.avatar': '아바타 선택',
+  'login.signIn': '로그인',
+  'login.register': '가입하기',
+  'login.or': '또는',
+  'login.withProvider': '{provider}(으)로 로그인',
+  'login.noAccount': '계정이 없으신가요?',
+  'login.createAccount': '계정 생성',
+  'login.haveAccount': '이미 계정이 있으신가요?',
+  'login.failed': '로그인 중 오류가 발생했습니다. 잠시 후 다시 시도하세요.',
+
+  // --- AI AND EXECUTION ---
+  'ai.quotaExceeded': '오늘의 AI 사용량을 모두 사용했습니다. 내일 다시 시도하세요.',
+  'ai.rateLimited': 'AI 요청이 너무 많습니다. 잠시 후 다시 시도하세요.',
+  'ai.rateLimitedFor': 'AI 요청이 너무 많습니다. {seconds}초 후에 다시 시도하세요.',
+  'ai.unreachable': 'AI 서버({provider})에 연결할 수 없습니다. AI 모델 설정과 서버가 실행 중인지 확인하세요.',
+  'ai.unauthorized': 'AI 프록시가 세션을 확인하지 못했습니다. 다시 로그인한 뒤 시도하세요.',
+  'ai.rejected': 'AI 서버가 요청을 받아들이지 않았습니다. 선택한 모델을 확인하세요.',
+  'ai.upstream': 'AI 모델이 올바른 응답을 주지 않았습니다. 잠시 후 다시 시도하세요.',
+  'runner.simulationFailed': 'AI 시뮬레이션 실패',
+  'runner.simulationLimited': 'AI 시뮬레이션 실패: {reason}',
+  'executor.stepFailed': '단계 {step} 실패: {message}',
+  'executor.stepUnsupported': '단계 {step}의 동작을 브라우저 명령으로 해석할 수 없어 실행을 중단했습니다.',
+  'executor.stepsUnverified': '모든 동작을 실행했지만 검증하지 못한 단계가 있어 건너뜀으로 기록했습니다. 검증 가능한 예상 결과가 없는 단계: {steps}',
+  'executor.allPassed': '모든 단계 실행 및 검증 완료.',
+  'executor.unreachable': '브라우저 실행기({url})에 연결할 수 없습니다. \'npm run executor\'로 실행기를 시작하세요.',
+  'executor.error': '브라우저 실행기 오류: {error}',
+
+  'issueDraft.heading': '[테스트 실패] {suite} › {title}',
+  'issueDraft.run': '실행 ID: {runId} ({time})',
+  'issueDraft.failedSteps': '실패한 단계:',
+  'issueDraft.expected': '예상 결과: {text}',
+  'issueDraft.actual': '실제 결과: {text}',
+  'issueDraft.summary': '실행 결과:',
+  'issueDraft.notes': '실행 메모:',
+  'issueDraft.aiLog': 'AI 로그:',
+  'issueDraft.executionLog': '실행 로그:',
+  'issueDraft.title': '[{suite}] {title} 실패',
+
+  // --- QUALITY GATES ---
+  'gate.failure.NO_SIMULATED_RESULTS': 'AI 시뮬레이션 결과 {count}건은 판정에 사용할 수 없음',
+  'gate.failure.MIN_PASS_RATE': '통과율 {rate}%가 최소 기준 {min}%에 미달',
+  'gate.failure.NO_HIGH_PRIORITY_FAILURES': 'High 우선순위 케이스 {count}건 실패',
+  'gate.failure.MAX_SKIPPED': '건너뛴 케이스 {count}건이 허용치 {max}건 초과',
+  'gate.rule.MIN_PASS_RATE': '통과율 ≥ {min}%',
+  'gate.rule.NO_HIGH_PRIORITY_FAILURES': 'High 우선순위 실패 없음',
+  'gate.rule.MAX_SKIPPED': '건너뜀 ≤ {max}건',
+  'gate.subtitle': '{suite} 실행이 통과로 판정되려면 모든 조건을 충족해야 합니다.',
+  'gate.minPassRate': '최소 통과율 (%)',
+  'gate.noHighPriorityFailures': 'High 우선순위 실패 불허',
+  'gate.noHighPriorityFailuresHint': 'High 우선순위 케이스가 하나라도 실패하면 실행을 실패로 판정합니다.',
+  'gate.limitSkipped': '건너뛴 케이스 수 제한',
+  'gate.limitSkippedHint': '허용치를 넘게 건너뛰면 실행을 실패로 판정합니다.',
+  'gate.orFewer': '건 이하',
+
+  // --- PLANS ---
+  'plans.blocker.noSuites': '계획에 포함된 스위트가 없습니다.',
+  'plans.blocker.suiteDeleted': '삭제된 스위트가 계획에 포함되어 있습니다.',
+  'plans.blocker.notRun': '"{suite}": 아직 실행되지 않았습니다.',
+  'plans.blocker.notCompleted': '"{suite}": 실행이 완료되지 않았습니다.',
+  'plans.blocker.gateFailed': '"{suite}": 품질 게이트 실패 ({failures})',
+  'plans.blocker.openIssue': '열린 이슈 {key}: {title}',
+  'plans.casesAssigned': '"{plan}" 계획에서 테스트 케이스 {count}건이 배정되었습니다.',
+  'plans.new': '새 계획',
+  'plans.newTitle': '새 테스트 계획',
+  'plans.empty': '아직 테스트 계획이 없습니다.',
+  'plans.untitled': '이름 없는 계획',
+  'plans.scope': '{suites} 스위트 · {cases} 케이스',
+  'plans.daysLeft': 'D-{days}',
+  'plans.dueToday': 'D-Day',
+  'plans.overdue': '{days}일 지남',
+  'plans.selectPlan': '세부 정보를 보려면 계획을 선택하세요.',
+  'plans.confirmDelete': '"{plan}" 계획을 삭제하시겠습니까? 이미 생성된 실행은 유지됩니다.',
+  'plans.noDate': '미정',
+  'plans.edit': '계획 편집',
+  'plans.delete': '계획 삭제',
+  'plans.activeRunsHint': '진행 중인 실행을 완료하거나 중단한 뒤 다시 실행할 수 있습니다',
+  'plans.launch': '계획 실행',
+  'plans.relaunch': '다시 실행',
+  'plans.progress': '진행률',
+  'plans.casesDone': '{done} / {total} 케이스',
+  'plans.releaseReady': '{release} 릴리스 준비 완료',
+  'plans.releaseNotReady': '{release} 릴리스 준비 미완료',
+  'plans.assignments': '담당자별 배정',
+  'plans.unknownUser': '알 수 없는 사용자',
+  'plans.assignedCount': '{count}건',
+  'plans.suites': '포함된 스위트',
+  'plans.noSuites': '계획을 편집해 스위트를 추가하세요.',
+  'plans.selectedCases': '선택된 {selected} / {total} 케이스',
+  'plans.allCasesCount': '전체 {count} 케이스',
+  'plans.notRun': '미실행',
+  'plans.inProgress': '진행 중 {done} / {total}',
+  'plans.entryNoCases': '실행할 케이스 없음',
+  'plans.startRun': '실행 시작',
+  'plans.name': '계획 이름',
+  'plans.namePlaceholder': '예: 2분기 회귀 테스트',
+  'plans.milestone': '마일스톤',
+  'plans.milestonePlaceholder': '예: v2.4',
+  'plans.startDate': '시작일',
+  'plans.targetDate': '목표일',
+  'plans.description': '설명',
+  'plans.scopeLabel': '스위트 및 케이스 범위',
+  'plans.allCases': '모든 케이스',
+  'plans.someCases': '케이스 선택',
+  'plans.removeSuite': '계획에서 제거',
+  'plans.noAssignee': '담당자 없음',
+  'plans.assignByCase': '케이스별 배정',
+  'plans.closeCaseAssignment': '케이스별 배정 닫기',
+  'plans.suiteAssignee': '스위트 담당자',
+  'plans.selectByPriority': '우선순위로 선택:',
+  'plans.selectSuite': '스위트 선택...',
+
+  // --- ACCESS CONTROL ---
+  'access.title': '프로젝트 접근 제어',
+  'access.addUser': '사용자 추가',
+  'access.selectUser': '사용자 선택...',
+  'access.current': '현재 권한',
+  'access.empty': '설정된 권한이 없습니다.',
+  'access.removeSelfConfirm': '본인의 접근 권한을 제거하려고 합니다. 계속하시겠습니까?',
+
+  // --- FILES ---
+  'files.xmlUnreadable': 'XML을 읽을 수 없습니다. 파일이 손상되지 않았는지 확인하세요.',
+  'report.stepFailed': '단계 {step} 실패: {action}',
+  'report.step': '단계 {step}: {action}',
+  'report.notRun': '실행되지 않음',
+  'report.junitRoot': 'JUnit XML은 <testsuites> 또는 <testsuite> 요소로 시작해야 합니다.',
+  'junit.title': 'JUnit 결과 가져오기',
+  'junit.subtitle': 'CI 파이프라인의 JUnit XML을 완료된 실행으로 저장합니다. testcase 이름이 케이스 제목과 같으면 연결됩니다.',
+  'junit.suite': '테스트 스위트',
+  'junit.selectFile': '클릭하여 JUnit XML 파일 선택',
+  'junit.matchedCases': '연결된 케이스',
+  'junit.matchSummary': 'testcase {total}개 중 {matched}개를 케이스 {cases}개에 연결했습니다. 여러 testcase가 한 케이스에 연결되면 하나라도 실패한 경우 실패로 기록합니다.',
+  'junit.unmatched': '연결되지 않은 testcase {count}개 (저장되지 않음)',
+  'junit.save': '실행으로 저장',
+
+  // --- AI SETTINGS ---
+  'llm.subtitle': '케이스 생성, 데이터 변환, AI 시뮬레이션에 사용할 모델입니다. 내 계정에만 적용됩니다.',
+  'llm.provider': '제공자',
+  'llm.provider.gemini': 'Google Gemini',
+  'llm.provider.openai': 'OpenAI 호환 서버',
+  'llm.provider.fixture': '고정 응답 (오프라인 데모)',
+  'llm.providerHelp.gemini': 'AI 프록시 서버를 거쳐 Google 클라우드의 Gemini 모델을 사용합니다.',
+  'llm.providerHelp.openai': 'Ollama, llama.cpp, vLLM 등 OpenAI API 형식의 서버를 사용합니다. 외부 인터넷 없이 사용할 수 있습니다.',
+  'llm.providerHelp.fixture': '모델 없이 항상 같은 결과를 돌려줍니다. 데모와 테스트용입니다.',
+  'llm.baseUrl': '서버 주소',
+  'llm.baseUrlHint': 'Ollama는 {ollama}, llama.cpp 서버는 {llamaCpp} 입니다.',
+  'llm.apiKey': 'API 키 (선택)',
+  'llm.apiKeyPlaceholder': '로컬 서버는 보통 필요 없습니다',
+  'llm.apiKeyHint': '이 브라우저에만 저장되며 다른 사용자나 기기와 공유되지 않습니다.',
+  'llm.model': '모델',
+  'llm.loadModels': '모델 목록 불러오기',
+  'llm.modelsFound': '서버에서 모델 {count}개를 찾았습니다.',
+  'llm.modelsUnavailable': '{url}에서 모델 목록을 가져오지 못했습니다. 모델 이름을 직접 입력하세요.',
+  'llm.language': 'AI 출력 언어',
+  'llm.languageHint': '생성되는 케이스와 시뮬레이션 로그의 언어입니다. 스위트에 언어가 지정되어 있으면 스위트 설정을 따릅니다.',
+
+  // --- IMPORT AND EXPORT ---
+  'excelImport.title': '테스트 데이터 가져오기',
+  'excelImport.subtitle': 'Excel, CSV 파일 또는 붙여넣은 표의 열을 케이스 항목에 연결하세요. 같은 파일은 항상 같은 결과로 변환됩니다.',
+  'excelImport.file': '파일',
+  'excelImport.paste': '붙여넣기',
+  'excelImport.upload': '클릭하여 Excel 또는 CSV 파일 업로드',
+  'excelImport.selectSheet': '시트 선택',
+  'excelImport.pastePlaceholder': '첫 행에 열 제목이 있는 표를 붙여넣으세요 (탭 또는 쉼표로 구분)',
+  'excelImport.sheetReadFailed': '시트 "{sheet}"를 읽는데 실패했습니다.',
+  'excelImport.fileReadFailed': '파일을 읽지 못했습니다. 올바른 Excel 또는 CSV 파일인지 확인하세요.',
+  'excelImport.aiFailed': 'AI 변환에 실패했습니다. 다시 시도해 주세요.',
+  'excelImport.mapping': '열 매핑',
+  'excelImport.unused': '(사용 안 함)',
+  'excelImport.column': '열 {number}',
+  'excelImport.mappingHint': '제목이 비어 있거나 케이스 ID가 같은 아래 행은 이전 케이스의 단계로 추가됩니다. 한 셀에 "1. ... 2. ..."처럼 번호가 매겨진 줄은 각각의 단계가 됩니다.',
+  'excelImport.aiOptional': '형식이 일정하지 않은 시트라면 AI 변환을 사용할 수 있습니다.',
+  'excelImport.aiNeeded': '제목과 단계 열을 찾지 못했습니다. 열을 직접 지정하거나 AI로 변환하세요.',
+  'excelImport.converting': '변환 중...',
+  'excelImport.convertWithAi': 'AI로 변환',
+  'excelImport.preview': '미리보기',
+  'excelImport.aiResult': '(AI 변환 결과)',
+  'excelImport.caseCount': '{count}개 케이스',
+  'excelImport.row': '{row}행',
+  'excelImport.noCases': '가져올 케이스가 없습니다.',
+  'excelImport.empty': '파일을 업로드하거나 표를 붙여넣으세요.',
+  'excelImport.errorRows': '오류가 있는 {count}개 행은 가져오지 않습니다.',
+  'excelImport.import': '{count}개 케이스 가져오기',
+  'caseImport.field.key': '케이스 ID',
+  'caseImport.field.title': '제목',
+  'caseImport.field.description': '설명',
+  'caseImport.field.priority': '우선순위',
+  'caseImport.field.step': '단계 (동작)',
+  'caseImport.field.expected': '예상 결과',
+  'caseImport.issue.noTitle': '케이스 ID "{key}"에 제목이 없습니다.',
+  'caseImport.issue.unknownPriority': '알 수 없는 우선순위 "{value}"는 Medium으로 가져옵니다.',
+  'caseImport.issue.orphanRow': '어느 케이스에 속하는지 알 수 없는 행입니다. 제목을 입력하세요.',
+  'caseImport.issue.expectedWithoutAction': '동작 없이 예상 결과만 있는 단계는 가져오지 않습니다.',
+  'caseImport.issue.stepCountMismatch': '단계와 예상 결과의 번호 개수가 달라 예상 결과를 마지막 단계에 합쳤습니다.',
+  'caseImport.issue.noSteps': '"{title}"에 단계가 없습니다.',
+  'suiteExport.subtitle': 'Excel과 CSV 파일은 \'데이터 가져오기\'로 다시 불러올 수 있습니다.',
+  'suiteExport.suites': '스위트 ({selected}/{total})',
+  'suiteExport.selectAll': '모두 선택',
+  'suiteExport.deselectAll': '모두 해제',
+  'suiteExport.otherTools': '다른 도구',
+  'suiteExport.allExportable': '선택한 스위트의 모든 항목을 내보낼 수 있습니다.',
+  'suiteExport.format.XLSX': '스위트마다 시트 하나. 다시 가져올 수 있습니다.',
+  'suiteExport.format.CSV': '모든 스위트를 한 파일에. 다시 가져올 수 있습니다.',
+  'suiteExport.format.JSON': '모든 필드를 담은 표준 형식입니다.',
+  'suiteExport.format.MARKDOWN': '읽기 쉬운 테스트 명세서입니다.',
+  'suiteExport.format.HTML': '브라우저에서 보거나 인쇄할 수 있는 명세서입니다.',
+  'suiteExport.sheet.suite': '스위트',
+  'suiteExport.sheet.key': '케이스 ID',
+  'suiteExport.sheet.title': '제목',
+  'suiteExport.sheet.description': '설명',
+  'suiteExport.sheet.priority': '우선순위',
+  'suiteExport.sheet.step': '단계',
+  'suiteExport.sheet.expected': '예상 결과',
+  'suiteExport.specTitle': '테스트 명세서',
+  'suiteExport.caseCount': '테스트 케이스 {count}개',
+  'suiteExport.priority': '우선순위',
+  'suiteExport.version': '버전',
+  'suiteExport.action': '동작',
+  'suiteExport.expected': '예상 결과',
+  'interop.importSubtitle': 'TestRail, Xray, Zephyr Scale, TestLink 또는 Gherkin 파일을 새 스위트로 가져옵니다.',
+  'interop.selectFiles': '클릭하여 파일 선택 (.feature 파일은 여러 개 선택 가능)',
+  'interop.format': '형식',
+  'interop.selectFormat': '형식을 선택하세요',
+  'interop.formatUnknown': '형식을 알아내지 못했습니다. 직접 선택하세요.',
+  'interop.readFailed': '파일을 읽지 못했습니다.',
+  'interop.convertFailed': '파일을 변환하지 못했습니다.',
+  'interop.preview': '미리보기',
+  'interop.noCases': '가져올 테스트 케이스가 없습니다.',
+  'interop.caseCount': '{count}개 케이스',
+  'interop.allImportable': '모든 항목을 가져올 수 있습니다.',
+  'interop.import': '스위트 {suites}개 ({cases}개 케이스) 가져오기',
+  'interop.format.TESTRAIL_CSV': '단계마다 한 행 (Steps (Step) / Steps (Expected Result))',
+  'interop.format.TESTRAIL_XML': '스위트마다 섹션 하나, 단계는 steps_separated',
+  'interop.format.XRAY_CSV': 'Jira Xray 테스트 케이스 가져오기 형식 (TCID로 단계 묶음)',
+  'interop.format.ZEPHYR_CSV': '폴더와 단계별 테스트 스크립트 (Step-by-Step)',
+  'interop.format.TESTLINK_XML': 'testsuite / testcase 트리',
+  'interop.format.GHERKIN': '스위트마다 Feature, 케이스마다 Scenario. 여러 스위트는 zip으로 묶습니다.',
+  'interop.unmapped': '옮기지 못한 항목 {count}개',
+  'interop.dropped': '대응하는 항목이 없어 버렸습니다',
+  'interop.occurrences': '{count}회',
+  'interop.untitled': '(제목 없음)',
+  'interop.preconditionsLabel': '사전 조건:',
+  'interop.testDataLabel': '테스트 데이터:',
+  'interop.columnsMissing': '"{title}" 열과 "{action}" 열이 필요합니다. 파일 형식을 확인하세요.',
+  'interop.testRailRoot': 'TestRail XML은 <suite> 요소로 시작해야 합니다.',
+  'interop.testLinkRoot': 'TestLink XML은 <testsuite> 또는 <testcases> 요소로 시작해야 합니다.',
+  'interop.noFeature': 'Feature를 찾을 수 없습니다. Gherkin .feature 파일인지 확인하세요.',
+  'interop.field.suiteDescription': '스위트 설명',
+  'interop.field.targetConfig': '대상 앱 설정',
+  'interop.field.qualityGates': '품질 게이트',
+  'interop.field.aiLanguage': 'AI 언어',
+  'interop.field.caseVersion': '케이스 버전',
+  'interop.field.tag': '태그 {tag}',
+  'interop.field.multilineAction': '여러 줄 단계 동작',
+  'interop.note.caseVersion': '가져오는 쪽에서 새 케이스로 시작합니다',
+  'interop.note.unknownPriority': '알 수 없는 값 "{value}"는 Medium으로 가져왔습니다',
+  'interop.note.untitledSkipped': '제목이 없는 케이스는 건너뛰었습니다',
+  'interop.note.mergedIntoDescription': '설명에 합쳤습니다',
+  'interop.note.mergedIntoAction': '단계 동작에 합쳤습니다',
+  'interop.note.expectedWithoutAction': '동작이 없는 예상 결과는 건너뛰었습니다',
+  'interop.note.rule': '규칙은 버리고 그 안의 시나리오만 가져왔습니다',
+  'interop.note.examples': '예시 표는 펼치지 않고 건너뛰었습니다',
+  'interop.note.outline': '<자리표시자>가 든 단계를 그대로 가져왔습니다',
+  'interop.note.background': '각 시나리오의 앞 단계로 넣었습니다',
+  'interop.note.thenWithoutAction': '앞선 동작이 없어 동작이 빈 단계로 가져왔습니다',
+  'interop.note.appendedToStep': '앞 단계에 텍스트로 붙였습니다',
+  'interop.note.joinedLines': '한 줄로 합쳤습니다',
+
+  // --- MY WORK ---
+  'queue.subtitle': '{name}님에게 배정된 케이스 중 남은 작업 {count}건',
+  'queue.empty': '배정된 진행 중 실행이 없습니다.',
+  'queue.targetDate': '목표일 {date}',
+  'queue.started': '시작 {time}',
+  'queue.progress': '{done} / {total} 완료',
+  'queue.runMyCases': '내 케이스 실행',
+
+  // --- CASE HISTORY ---
+  'history.title': '변경 이력',
+  'history.currentVersion': '현재 v{version}',
+  'history.empty': '기록된 버전이 없습니다.',
+  'history.current': '현재',
+  'history.legacy': '기존 데이터',
+  'history.unknownAuthor': '알 수 없음',
+  'history.restoredFrom': 'v{version}에서 복원',
+  'history.restore': 'v{version}(으)로 복원',
+  'history.confirmRestore': 'v{version}의 내용으로 복원하시겠습니까? 현재 내용은 이력에 남습니다.',
+  'history.details': '기본 정보',
+  'history.noChanges': '변경 없음',
+  'history.steps': '단계',
+  'history.noSteps': '단계 없음',
+  'history.field.title': '제목',
+  'history.field.description': '설명',
+  'history.field.priority': '우선순위',
+  'history.step.ADDED': '추가',
+  'history.step.REMOVED': '삭제',
+  'history.step.CHANGED': '수정',
+  'history.step.UNCHANGED': '동일',
+
+  // --- RUN HISTORY ---
+  'runs.subtitle': '지금까지의 모든 테스트 실행 결과를 조회합니다.',
+  'runs.filters': '필터',
+  'runs.resetFilters': '초기화',
+  'runs.allSuites': '전체 스위트',
+  'runs.executor': '실행자',
+  'runs.allUsers': '전체 사용자',
+  'runs.dateFrom': '시작일',
+  'runs.dateTo': '종료일',
+  'runs.passRate.ALL': '전체',
+  'runs.passRate.FULL': '100%',
+  'runs.passRate.ABOVE_90': '90% 이상',
+  'runs.passRate.BELOW_90': '90% 미만',
+  'runs.passRate.BELOW_50': '50% 미만',
+  'runs.list': '실행 목록',
+  'runs.count': '{shown} / {total}건',
+  'runs.noMatches': '필터 조건에 맞는 실행이 없습니다.',
+  'runs.duration': '소요 시간: {minutes}분 {seconds}초',
+  'runs.importedFrom': 'CI 가져오기: {file}',
+  'runs.gatePassed': '품질 게이트 통과',
+  'runs.gateFailed': '품질 게이트 실패',
+  'runs.newerVersion': '현재 버전은 v{version}입니다',
+  'runs.caseDeleted': '삭제된 케이스입니다',
+  'runs.executionLog': '실행 로그',
+  'runs.aiLog': 'AI 로그',
+  'runs.deletedStep': '삭제된 단계',
+  'runs.actualResult': '실제 결과: {result}',
+
+  // --- AUDIT LOG ---
+  'audit.subtitle': '스위트, 실행, 권한, 이슈에 대한 모든 변경 기록입니다. 기록은 수정하거나 삭제할 수 없습니다.',
+  'audit.user': '사용자',
+  'audit.entity': '대상',
+  'audit.allEntities': '전체 대상',
+  'audit.search': '이름 검색',
+  'audit.searchPlaceholder': '스위트, 케이스, 이슈...',
+  'audit.entries': '변경 기록',
+  'audit.empty': '아직 기록된 변경이 없습니다.',
+  'audit.noMatches': '필터 조건에 맞는 기록이 없습니다.',
+  'audit.showMore': '더 보기 ({count}건 남음)',
+  'audit.resultField': '결과 · {case}',
+  'audit.entity.SUITE': '스위트',
+  'audit.entity.CASE': '테스트 케이스',
+  'audit.entity.PERMISSION': '권한',
+  'audit.entity.RUN': '실행',
+  'audit.entity.ISSUE': '이슈',
+  'audit.entity.PLAN': '테스트 계획',
+  'audit.action.CREATED': '생성',
+  'audit.action.UPDATED': '수정',
+  'audit.action.DELETED': '삭제',
+  'audit.field.name': '이름',
+  'audit.field.title': '제목',
+  'audit.field.description': '설명',
+  'audit.field.priority': '우선순위',
+  'audit.field.steps': '단계',
+  'audit.field.qualityGates': '품질 게이트',
+  'audit.field.aiLanguage': 'AI 언어',
+  'audit.field.status': '상태',
+  'audit.field.executedBy': '실행자',
+  'audit.field.assignedTo': '담당자',
+  'audit.field.assignee': '담당자',
+  'audit.field.gatePassed': '게이트 통과',
+  'audit.field.linkedCases': '연결된 케이스',
+  'audit.field.milestone': '마일스톤',
+  'audit.field.startDate': '시작일',
+  'audit.field.targetDate': '목표일',
+  'audit.field.entries': '포함 스위트',
+  'audit.field.assignments': '케이스 배정',
+  'audit.field.role': '역할'
+};
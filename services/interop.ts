@@ -0,0 +1,723 @@
+import { strToU8, zipSync } from 'fflate';
+import { LocalizedText, TestCase, TestStep, TestSuite } from '../types';
+import { parseDelimitedText, toCsv } from './csv';
+import { buildSteps, parsePriority } from './caseImport';
+import { getCaseVersion } from './caseVersions';
+import { XML_DECLARATION, childElements, childText, escapeXml, parseXml, xmlElement } from './xml';
+import { toFileName } from './download';
+import { I18n, LocalizedError, msg } from './i18n';
+import type { ExportedFile } from './suiteExport';
+
+/**
+ * Converters between suites and the files of other test management tools. None of these formats
+ * line up with ours exactly, so every conversion also reports what it could not carry over.
+ */
+
+export type InteropFormat = 'TESTRAIL_CSV' | 'TESTRAIL_XML' | 'XRAY_CSV' | 'ZEPHYR_CSV' | 'TESTLINK_XML' | 'GHERKIN';
+
+// Described in the interface by the interop.format.* messages
+export interface InteropFormatInfo {
+  id: InteropFormat;
+  label: string;
+  extension: string;
+}
+
+export const INTEROP_FORMATS: InteropFormatInfo[] = [
+  { id: 'TESTRAIL_CSV', label: 'TestRail CSV', extension: 'csv' },
+  { id: 'TESTRAIL_XML', label: 'TestRail XML', extension: 'xml' },
+  { id: 'XRAY_CSV', label: 'Xray CSV', extension: 'csv' },
+  { id: 'ZEPHYR_CSV', label: 'Zephyr Scale CSV', extension: 'csv' },
+  { id: 'TESTLINK_XML', label: 'TestLink XML', extension: 'xml' },
+  { id: 'GHERKIN', label: 'Gherkin', extension: 'feature' }
+];
+
+export const isInteropFormat = (id: string): id is InteropFormat => INTEROP_FORMATS.some(f => f.id === id);
+
+// A field the conversion dropped or only partly kept, with how often it occurred. Fields named by
+// the other tool's file are kept as they are; our own fields are named in the reader's language.
+export interface UnmappedField {
+  field: string | LocalizedText;
+  count: number;
+  note?: LocalizedText;
+}
+
+export interface InteropSuite {
+  name: string;
+  description: string;
+  cases: TestCase[];
+}
+
+export interface InteropImportResult {
+  suites: InteropSuite[];
+  unmapped: UnmappedField[];
+}
+
+export interface InteropExportResult {
+  file: ExportedFile;
+  unmapped: UnmappedField[];
+}
+
+// Nested sections, folders and test suites become one flat suite named by their path
+const SUITE_PATH_SEPARATOR = ' / ';
+
+// Text an import writes into cases, in the importing user's language
+interface ImportLabels {
+  untitled: string;
+  preconditions: string;
+  testData: string;
+}
+
+// --- REPORT ---
+
+const createReport = () => {
+  const fields = new Map<string, UnmappedField>();
+  return {
+    add: (field: string | LocalizedText, note?: LocalizedText, count = 1) => {
+      const key = JSON.stringify([field, note ?? null]);
+      const entry = fields.get(key);
+      if (entry) entry.count += count;
+      else fields.set(key, { field, count, note });
+    },
+    list: () => Array.from(fields.values())
+  };
+};
+
+type Report = ReturnType<typeof createReport>;
+
+// Suite and case data that has no place in the target format
+const reportDroppedFields = (suites: TestSuite[], report: Report, keepsSuiteDescription: boolean) => {
+  suites.forEach(suite => {
+    if (!keepsSuiteDescription && suite.description) report.add(msg('interop.field.suiteDescription'));
+    if (suite.targetConfig) report.add(msg('interop.field.targetConfig'));
+    if (suite.qualityGates) report.add(msg('interop.field.qualityGates'));
+    if (suite.aiLanguage) report.add(msg('interop.field.aiLanguage'));
+    suite.cases.forEach(c => {
+      if (getCaseVersion(c) > 1) report.add(msg('interop.field.caseVersion'), msg('interop.note.caseVersion'));
+    });
+  });
+};
+
+// --- SHARED ---
+
+const newCase = (title: string, description: string, priority: TestCase['priority'], labels: ImportLabels): TestCase => ({
+  id: crypto.randomUUID(),
+  title: title || labels.untitled,
+  description,
+  priority,
+  steps: []
+});
+
+const newStep = (action: string, expectedResult = ''): TestStep => ({ id: crypto.randomUUID(), action, expectedResult });
+
+const readPriority = (value: string, field: string, report: Report): TestCase['priority'] => {
+  if (!value) return 'Medium';
+  const priority = parsePriority(value);
+  if (!priority) report.add(field, msg('interop.note.unknownPriority', { value }));
+  return priority || 'Medium';
+};
+
+// Preconditions have no field of their own, so they are kept at the end of the description
+const withPreconditions = (description: string, preconditions: string, labels: ImportLabels) =>
+  preconditions ? [description, `${labels.preconditions}\n${preconditions}`].filter(Boolean).join('\n\n') : description;
+
+const toSuitePath = (path: string) => path.split('/').map(part => part.trim()).filter(Boolean).join(SUITE_PATH_SEPARATOR);
+
+const fromSuitePath = (name: string) => name.split(SUITE_PATH_SEPARATOR).join('/');
+
+const addSuite = (suites: InteropSuite[], suite: InteropSuite) => {
+  const existing = suites.find(s => s.name === suite.name);
+  if (existing) existing.cases.push(...suite.cases);
+  else suites.push(suite);
+};
+
+// --- CSV FORMATS (TestRail, Xray, Zephyr Scale) ---
+
+// Column names by field; the first name is written on export, all of them are accepted on import
+interface CsvLayout {
+  suite: string[];
+  key: string[];
+  title: string[];
+  description: string[];
+  preconditions?: string[];
+  priority: string[];
+  action: string[];
+  data?: string[];
+  expected: string[];
+  exportKey: boolean; // Whether step rows are tied to their case by ID (otherwise by an empty title)
+  folderPath: boolean; // Whether the suite column holds a "/"-separated folder path
+  fixed: Record<string, string>; // Columns written with a constant value
+  priorities: Record<TestCase['priority'], string>;
+}
+
+const CSV_LAYOUTS: Record<'TESTRAIL_CSV' | 'XRAY_CSV' | 'ZEPHYR_CSV', CsvLayout> = {
+  TESTRAIL_CSV: {
+    suite: ['Section', 'Section Hierarchy'],
+    key: ['ID'],
+    title: ['Title'],
+    description: ['Preconditions'],
+    priority: ['Priority'],
+    action: ['Steps (Step)', 'Steps'],
+    expected: ['Steps (Expected Result)', 'Expected Result'],
+    exportKey: false,
+    folderPath: false,
+    fixed: { Template: 'Test Case (Steps)' },
+    priorities: { High: 'High', Medium: 'Medium', Low: 'Low' }
+  },
+  XRAY_CSV: {
+    suite: ['Test Repository Path', 'Repository Path', 'Folder'],
+    key: ['TCID', 'Test ID', 'Issue ID', 'Issue Key'],
+    title: ['Summary'],
+    description: ['Description'],
+    priority: ['Priority'],
+    action: ['Action', 'Step'],
+    data: ['Data', 'Test Data'],
+    expected: ['Expected Result', 'Result'],
+    exportKey: true,
+    folderPath: true,
+    fixed: { 'Test Type': 'Manual' },
+    priorities: { High: 'High', Medium: 'Medium', Low: 'Low' }
+  },
+  ZEPHYR_CSV: {
+    suite: ['Folder'],
+    key: ['Key'],
+    title: ['Name'],
+    description: ['Objective'],
+    preconditions: ['Precondition'],
+    priority: ['Priority'],
+    action: ['Test Script (Step-by-Step) - Step'],
+    data: ['Test Script (Step-by-Step) - Test Data'],
+    expected: ['Test Script (Step-by-Step) - Expected Result'],
+    exportKey: false,
+    folderPath: true,
+    fixed: {},
+    priorities: { High: 'High', Medium: 'Normal', Low: 'Low' }
+  }
+};
+
+const importCsv = (layout: CsvLayout, text: string, fallbackSuite: string, labels: ImportLabels): InteropImportResult => {
+  const report = createReport();
+  const [headers = [], ...rows] = parseDelimitedText(text.replace(/^\uFEFF/, ''));
+  const findColumn = (names?: string[]) =>
+    names ? headers.findIndex(header => names.some(name => name.toLowerCase() === header.trim().toLowerCase())) : -1;
+
+  const columns = {
+    suite: findColumn(layout.suite),
+    key: findColumn(layout.key),
+    title: findColumn(layout.title),
+    description: findColumn(layout.description),
+    preconditions: findColumn(layout.preconditions),
+    priority: findColumn(layout.priority),
+    action: findColumn(layout.action),
+    data: findColumn(layout.data),
+    expected: findColumn(layout.expected)
+  };
+  if (columns.title === -1 || columns.action === -1) {
+    throw new LocalizedError(msg('interop.columnsMissing', { title: layout.title[0], action: layout.action[0] }));
+  }
+  const knownColumns = new Set([...Object.values(columns), ...Object.keys(layout.fixed).map(name => findColumn([name]))]);
+
+  const suites: InteropSuite[] = [];
+  let current: TestCase | null = null;
+  let currentKey = '';
+
+  rows.forEach(row => {
+    if (!row.some(cell => cell.trim())) return;
+    const read = (index: number) => (index === -1 ? '' : row[index] || '').trim();
+
+    const key = read(columns.key);
+    const title = read(columns.title);
+    if (key ? key !== currentKey : !!title) {
+      currentKey = key;
+      if (!title) {
+        report.add(headers[columns.title], msg('interop.note.untitledSkipped'));
+        current = null;
+        return;
+      }
+      const suitePath = read(columns.suite);
+      const preconditions = read(columns.preconditions);
+      if (preconditions) report.add(headers[columns.preconditions], msg('interop.note.mergedIntoDescription'));
+      current = newCase(
+        title,
+        withPreconditions(read(columns.description), preconditions, labels),
+        readPriority(read(columns.priority), headers[columns.priority], report),
+        labels
+      );
+      addSuite(suites, {
+        name: (layout.folderPath ? toSuitePath(suitePath) : suitePath) || fallbackSuite,
+        description: '',
+        cases: [current]
+      });
+    }
+    if (!current) return;
+
+    headers.forEach((header, i) => {
+      if (!knownColumns.has(i) && header.trim() && (row[i] || '').trim()) report.add(header.trim());
+    });
+
+    const data = read(columns.data);
+    if (data) report.add(headers[columns.data], msg('interop.note.mergedIntoAction'));
+    const action = [read(columns.action), data && `${labels.testData} ${data}`].filter(Boolean).join('\n');
+    const expected = read(columns.expected);
+    if (!action) {
+      if (expected) report.add(headers[columns.expected], msg('interop.note.expectedWithoutAction'));
+      return;
+    }
+    current.steps.push(...buildSteps(action, expected).steps);
+  });
+
+  return { suites, unmapped: report.list() };
+};
+
+const exportCsv = (layout: CsvLayout, suites: TestSuite[], report: Report): string => {
+  const fixedColumns = Object.keys(layout.fixed);
+  const header = [
+    layout.suite[0],
+    ...(layout.exportKey ? [layout.key[0]] : []),
+    layout.title[0],
+    layout.description[0],
+    layout.priority[0],
+    layout.action[0],
+    layout.expected[0],
+    ...fixedColumns
+  ];
+  let caseIndex = 0;
+  const rows = suites.flatMap(suite => suite.cases.flatMap(testCase => {
+    const key = layout.exportKey ? [`TC-${++caseIndex}`] : [];
+    const suitePath = layout.folderPath ? fromSuitePath(suite.name) : suite.name;
+    const steps = testCase.steps.length > 0 ? testCase.steps : [newStep('')];
+    return steps.map((step, i) => i === 0
+      ? [suitePath, ...key, testCase.title, testCase.description || '', layout.priorities[testCase.priority], step.action, step.expectedResult, ...fixedColumns.map(c => layout.fixed[c])]
+      : ['', ...key, '', '', '', step.action, step.expectedResult, ...fixedColumns.map(() => '')]);
+  }));
+  reportDroppedFields(suites, report, false);
+  return toCsv([header, ...rows]);
+};
+
+// --- XML FORMATS (TestRail, TestLink) ---
+
+const reportOtherChildren = (parent: Element, known: string[], report: Report, prefix = '') => {
+  childElements(parent).forEach(child => {
+    if (!known.includes(child.tagName) && child.textContent?.trim()) report.add(prefix + child.tagName);
+  });
+};
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// TestLink keeps rich text as HTML; only line breaks survive as plain text
+const htmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] !== '#') return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+      return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+    })
+    .split('\n').map(line => line.trim()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const textToHtml = (text: string) => text ? cdata(`<p>${escapeXml(text).split(/\r?\n/).join('<br />')}</p>`) : '';
+
+// TestRail: <suite><sections><section><cases><case>, sections nest through their own <sections>
+const readTestRailCase = (el: Element, report: Report, labels: ImportLabels): TestCase => {
+  const custom = childElements(el, 'custom')[0];
+  const testCase = newCase(
+    childText(el, 'title'),
+    custom ? childText(custom, 'preconds') : '',
+    readPriority(childText(el, 'priority'), 'priority', report),
+    labels
+  );
+  reportOtherChildren(el, ['title', 'priority', 'template', 'custom'], report);
+  if (!custom) return testCase;
+
+  reportOtherChildren(custom, ['preconds', 'steps', 'expected', 'steps_separated'], report, 'custom.');
+  const separated = childElements(custom, 'steps_separated').flatMap(s => childElements(s, 'step'));
+  if (separated.length > 0) {
+    testCase.steps = separated.map(step => {
+      reportOtherChildren(step, ['index', 'content', 'expected'], report, 'steps_separated.');
+      return newStep(childText(step, 'content'), childText(step, 'expected'));
+    });
+  } else {
+    testCase.steps = buildSteps(childText(custom, 'steps'), childText(custom, 'expected')).steps;
+  }
+  return testCase;
+};
+
+const importTestRailXml = (text: string, fallbackSuite: string, labels: ImportLabels): InteropImportResult => {
+  const report = createReport();
+  const root = parseXml(text);
+  if (root.tagName !== 'suite') throw new LocalizedError(msg('interop.testRailRoot'));
+
+  const suites: InteropSuite[] = [];
+  const readSections = (parent: Element, path: string[]) => {
+    childElements(parent, 'sections').flatMap(s => childElements(s, 'section')).forEach(section => {
+      const sectionPath = [...path, childText(section, 'name') || fallbackSuite];
+      const cases = childElements(section, 'cases').flatMap(c => childElements(c, 'case')).map(c => readTestRailCase(c, report, labels));
+      if (cases.length > 0) {
+        addSuite(suites, { name: sectionPath.join(SUITE_PATH_SEPARATOR), description: childText(section, 'description'), cases });
+      }
+      readSections(section, sectionPath);
+    });
+  };
+  readSections(root, []);
+  return { suites, unmapped: report.list() };
+};
+
+const exportTestRailXml = (suites: TestSuite[], report: Report): string => {
+  const caseXml = (testCase: TestCase) => [
+    '        <case>',
+    `          ${xmlElement('title', testCase.title)}`,
+    '          <template>Test Case (Steps)</template>',
+    `          ${xmlElement('priority', testCase.priority)}`,
+    '          <custom>',
+    `            ${xmlElement('preconds', testCase.description || '')}`,
+    '            <steps_separated>',
+    ...testCase.steps.map((step, i) =>
+      `              <step>${xmlElement('index', String(i + 1))}${xmlElement('content', step.action)}${xmlElement('expected', step.expectedResult)}</step>`),
+    '            </steps_separated>',
+    '          </custom>',
+    '        </case>'
+  ].join('\n');
+
+  const sections = suites.map(suite => [
+    '    <section>',
+    `      ${xmlElement('name', suite.name)}`,
+    `      ${xmlElement('description', suite.description)}`,
+    '      <cases>',
+    ...suite.cases.map(caseXml),
+    '      </cases>',
+    '    </section>'
+  ].join('\n'));
+
+  reportDroppedFields(suites, report, true);
+  return [
+    XML_DECLARATION,
+    '<suite>',
+    `  ${xmlElement('name', suites.length === 1 ? suites[0].name : 'AutoTest AI')}`,
+    '  <sections>',
+    ...sections,
+    '  </sections>',
+    '</suite>',
+    ''
+  ].join('\n');
+};
+
+// TestLink: nested <testsuite name> elements holding <testcase name> elements
+const TESTLINK_IMPORTANCE: Record<string, TestCase['priority']> = { '3': 'High', '2': 'Medium', '1': 'Low' };
+const TESTLINK_IMPORTANCE_BY_PRIORITY: Record<TestCase['priority'], string> = { High: '3', Medium: '2', Low: '1' };
+
+const readTestLinkCase = (el: Element, report: Report, labels: ImportLabels): TestCase => {
+  const importance = childText(el, 'importance');
+  if (importance && !TESTLINK_IMPORTANCE[importance]) report.add('importance', msg('interop.note.unknownPriority', { value: importance }));
+  const preconditions = htmlToText(childText(el, 'preconditions'));
+  if (preconditions) report.add('preconditions', msg('interop.note.mergedIntoDescription'));
+
+  const testCase = newCase(
+    el.getAttribute('name') || '',
+    withPreconditions(htmlToText(childText(el, 'summary')), preconditions, labels),
+    TESTLINK_IMPORTANCE[importance] || 'Medium',
+    labels
+  );
+  reportOtherChildren(el, ['summary', 'preconditions', 'importance', 'steps', 'node_order'], report);
+  testCase.steps = childElements(el, 'steps').flatMap(s => childElements(s, 'step')).map(step => {
+    reportOtherChildren(step, ['step_number', 'actions', 'expectedresults'], report, 'step.');
+    return newStep(htmlToText(childText(step, 'actions')), htmlToText(childText(step, 'expectedresults')));
+  });
+  return testCase;
+};
+
+const importTestLinkXml = (text: string, fallbackSuite: string, labels: ImportLabels): InteropImportResult => {
+  const report = createReport();
+  const root = parseXml(text);
+  if (root.tagName !== 'testsuite' && root.tagName !== 'testcases') {
+    throw new LocalizedError(msg('interop.testLinkRoot'));
+  }
+
+  const suites: InteropSuite[] = [];
+  const readSuite = (el: Element, path: string[]) => {
+    const name = el.getAttribute('name');
+    const suitePath = name ? [...path, name] : path;
+    reportOtherChildren(el, ['testsuite', 'testcase', 'details', 'node_order'], report, 'testsuite.');
+    const cases = childElements(el, 'testcase').map(c => readTestLinkCase(c, report, labels));
+    if (cases.length > 0) {
+      addSuite(suites, { name: suitePath.join(SUITE_PATH_SEPARATOR) || fallbackSuite, description: htmlToText(childText(el, 'details')), cases });
+    }
+    childElements(el, 'testsuite').forEach(child => readSuite(child, suitePath));
+  };
+  readSuite(root, []);
+  return { suites, unmapped: report.list() };
+};
+
+const exportTestLinkXml = (suites: TestSuite[], report: Report): string => {
+  const caseXml = (testCase: TestCase) => [
+    `    <testcase name="${escapeXml(testCase.title)}">`,
+    `      <summary>${textToHtml(testCase.description || '')}</summary>`,
+    `      <importance>${TESTLINK_IMPORTANCE_BY_PRIORITY[testCase.priority]}</importance>`,
+    '      <steps>',
+    ...testCase.steps.map((step, i) => [
+      '        <step>',
+      `          <step_number>${i + 1}</step_number>`,
+      `          <actions>${textToHtml(step.action)}</actions>`,
+      `          <expectedresults>${textToHtml(step.expectedResult)}</expectedresults>`,
+      '        </step>'
+    ].join('\n')),
+    '      </steps>',
+    '    </testcase>'
+  ].join('\n');
+
+  const testSuites = suites.map(suite => [
+    `  <testsuite name="${escapeXml(suite.name)}">`,
+    `    <details>${textToHtml(suite.description)}</details>`,
+    ...suite.cases.map(caseXml),
+    '  </testsuite>'
+  ].join('\n'));
+
+  reportDroppedFields(suites, report, true);
+  return [XML_DECLARATION, '<testsuite name="">', ...testSuites, '</testsuite>', ''].join('\n');
+};
+
+// --- GHERKIN ---
+
+/**
+ * Given and When lines become step actions and Then lines the expected result of the step before.
+ * And/But continue whichever came last. "When" is implied on export, so it is dropped on import
+ * while the other keywords stay in the action text.
+ */
+const GHERKIN_HEADER = /^(Feature|Background|Rule|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+const GHERKIN_STEP = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const GHERKIN_ACTION_PREFIX = /^(Given|When|And|But)\s/;
+const PRIORITY_TAG_PREFIX = /^priority[-:_=]?/i;
+
+const priorityFromTags = (tags: string[], report: Report): TestCase['priority'] => {
+  let priority: TestCase['priority'] | undefined;
+  tags.forEach(tag => {
+    const value = parsePriority(tag.slice(1).replace(PRIORITY_TAG_PREFIX, ''));
+    if (value && !priority) priority = value;
+    else report.add(msg('interop.field.tag', { tag }));
+  });
+  return priority || 'Medium';
+};
+
+const importGherkin = (text: string, fallbackSuite: string, labels: ImportLabels): InteropImportResult => {
+  const report = createReport();
+  const suites: InteropSuite[] = [];
+  let suite: InteropSuite | null = null;
+  let current: TestCase | null = null;
+  let background: TestStep[] = [];
+  let section: 'FEATURE' | 'BACKGROUND' | 'SCENARIO' | 'EXAMPLES' | 'RULE' = 'FEATURE';
+  let lastPart: 'ACTION' | 'EXPECTED' = 'ACTION';
+  let tags: string[] = [];
+  let docStringDelimiter: string | null = null;
+
+  const currentSteps = () => section === 'BACKGROUND' ? background : current?.steps;
+  const ensureSuite = () => {
+    if (!suite) {
+      suite = { name: fallbackSuite, description: '', cases: [] };
+      suites.push(suite);
+    }
+    return suite;
+  };
+  // Doc strings and data tables have no structure of their own here, so they stay as text
+  const appendToLastStep = (line: string) => {
+    const last = currentSteps()?.slice(-1)[0];
+    if (!last) return;
+    if (lastPart === 'EXPECTED') last.expectedResult = [last.expectedResult, line].filter(Boolean).join('\n');
+    else last.action = [last.action, line].filter(Boolean).join('\n');
+  };
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(raw => {
+    const line = raw.trim();
+    if (docStringDelimiter) {
+      if (line === docStringDelimiter) docStringDelimiter = null;
+      else appendToLastStep(line);
+      return;
+    }
+    if (!line || line.startsWith('#')) return;
+    if (line.startsWith('@')) {
+      tags.push(...line.split(/\s+/).filter(tag => tag.startsWith('@')));
+      return;
+    }
+
+    const header = line.match(GHERKIN_HEADER);
+    if (header) {
+      const [, keyword, name] = header;
+      if (keyword === 'Feature') {
+        suite = { name: name || fallbackSuite, description: '', cases: [] };
+        suites.push(suite);
+        tags.forEach(tag => report.add(msg('interop.field.tag', { tag })));
+        background = [];
+        current = null;
+        section = 'FEATURE';
+      } else if (keyword === 'Background') {
+        background = [];
+        section = 'BACKGROUND';
+      } else if (keyword === 'Rule') {
+        report.add('Rule', msg('interop.note.rule'));
+        section = 'RULE';
+      } else if (keyword === 'Examples' || keyword === 'Scenarios') {
+        report.add('Examples', msg('interop.note.examples'));
+        section = 'EXAMPLES';
+      } else {
+        if (keyword === 'Scenario Outline' || keyword === 'Scenario Template') {
+          report.add('Scenario Outline', msg('interop.note.outline'));
+        }
+        if (background.length > 0) report.add('Background', msg('interop.note.background'));
+        current = newCase(name, '', priorityFromTags(tags, report), labels);
+        current.steps = background.map(step => ({ ...step, id: crypto.randomUUID() }));
+        ensureSuite().cases.push(current);
+        section = 'SCENARIO';
+        lastPart = 'ACTION';
+      }
+      tags = [];
+      return;
+    }
+
+    const step = line.match(GHERKIN_STEP);
+    const steps = currentSteps();
+    if (step && steps) {
+      const [, keyword, body] = step;
+      const part = keyword === 'Then' ? 'EXPECTED' : keyword === 'Given' || keyword === 'When' ? 'ACTION' : lastPart;
+      const last = steps[steps.length - 1];
+      if (part === 'ACTION') {
+        steps.push(newStep(keyword === 'When' ? body : `${keyword} ${body}`));
+      } else if (last) {
+        last.expectedResult = [last.expectedResult, body].filter(Boolean).join('\n');
+      } else {
+        report.add('Then', msg('interop.note.thenWithoutAction'));
+        steps.push(newStep('', body));
+      }
+      lastPart = part;
+      return;
+    }
+
+    if (line.startsWith('"""') || line.startsWith('```')) {
+      docStringDelimiter = line.slice(0, 3);
+      report.add('Doc String', msg('interop.note.appendedToStep'));
+      return;
+    }
+    if (line.startsWith('|')) {
+      if (section !== 'EXAMPLES') {
+        report.add('Data Table', msg('interop.note.appendedToStep'));
+        appendToLastStep(line);
+      }
+      return;
+    }
+
+    // Free text under a Feature or Scenario line is its description
+    if (section === 'FEATURE') {
+      const target = ensureSuite();
+      target.description = [target.description, line].filter(Boolean).join('\n');
+    } else if (section === 'SCENARIO' && current) {
+      current.description = [current.description, line].filter(Boolean).join('\n');
+    }
+  });
+
+  if (suites.length === 0) throw new LocalizedError(msg('interop.noFeature'));
+  return { suites, unmapped: report.list() };
+};
+
+const toFeature = (suite: TestSuite, report: Report): string => {
+  const lines = [`Feature: ${suite.name}`];
+  const pushText = (text: string, indent: string) => {
+    text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => lines.push(indent + line));
+  };
+  pushText(suite.description, '  ');
+
+  suite.cases.forEach(testCase => {
+    lines.push('', `  @priority-${testCase.priority.toLowerCase()}`, `  Scenario: ${testCase.title}`);
+    pushText(testCase.description || '', '    ');
+    testCase.steps.forEach(step => {
+      const actionLines = step.action.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+      if (actionLines.length > 1) report.add(msg('interop.field.multilineAction'), msg('interop.note.joinedLines'));
+      const action = actionLines.join(' ');
+      if (action) lines.push(`    ${GHERKIN_ACTION_PREFIX.test(action) ? action : `When ${action}`}`);
+      step.expectedResult.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+        .forEach((line, i) => lines.push(`    ${i === 0 ? 'Then' : 'And'} ${line}`));
+    });
+  });
+  return lines.join('\n') + '\n';
+};
+
+// One .feature file per suite; several suites are zipped together
+const exportGherkin = (suites: TestSuite[], baseName: string, report: Report): ExportedFile => {
+  reportDroppedFields(suites, report, true);
+  if (suites.length === 1) {
+    return { fileName: `${baseName}.feature`, content: toFeature(suites[0], report), type: 'text/plain;charset=utf-8;' };
+  }
+  const files: Record<string, Uint8Array> = {};
+  suites.forEach(suite => {
+    const base = toFileName(suite.name);
+    let name = `${base}.feature`;
+    for (let n = 2; files[name]; n++) name = `${base} (${n}).feature`;
+    files[name] = strToU8(toFeature(suite, report));
+  });
+  return { fileName: `${baseName}.zip`, content: zipSync(files), type: 'application/zip' };
+};
+
+// --- ENTRY POINTS ---
+
+const IMPORTERS: Record<InteropFormat, (text: string, fallbackSuite: string, labels: ImportLabels) => InteropImportResult> = {
+  TESTRAIL_CSV: (text, fallbackSuite, labels) => importCsv(CSV_LAYOUTS.TESTRAIL_CSV, text, fallbackSuite, labels),
+  XRAY_CSV: (text, fallbackSuite, labels) => importCsv(CSV_LAYOUTS.XRAY_CSV, text, fallbackSuite, labels),
+  ZEPHYR_CSV: (text, fallbackSuite, labels) => importCsv(CSV_LAYOUTS.ZEPHYR_CSV, text, fallbackSuite, labels),
+  TESTRAIL_XML: importTestRailXml,
+  TESTLINK_XML: importTestLinkXml,
+  GHERKIN: importGherkin
+};
+
+// Guesses the format from the file name and its first line or root element
+export const detectInteropFormat = (fileName: string, text: string): InteropFormat | null => {
+  if (/\.feature$/i.test(fileName) || /^\s*Feature:/m.test(text)) return 'GHERKIN';
+  if (/<testsuite[\s>]|<testcases[\s>]/.test(text)) return 'TESTLINK_XML';
+  if (/<suite[\s>]/.test(text)) return 'TESTRAIL_XML';
+  const header = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0].toLowerCase();
+  if (header.includes('test script (step-by-step)')) return 'ZEPHYR_CSV';
+  if (header.includes('tcid') || header.includes('test repository path')) return 'XRAY_CSV';
+  if (header.includes('steps (step)') || header.includes('section')) return 'TESTRAIL_CSV';
+  return null;
+};
+
+// Suites with the same name across files are merged; the file name names suites the file leaves unnamed
+export const importInteropFiles = (format: InteropFormat, files: { name: string; text: string }[], { t }: I18n): InteropImportResult => {
+  const report = createReport();
+  const labels: ImportLabels = {
+    untitled: t('interop.untitled'),
+    preconditions: t('interop.preconditionsLabel'),
+    testData: t('interop.testDataLabel')
+  };
+  const suites: InteropSuite[] = [];
+  files.forEach(file => {
+    const result = IMPORTERS[format](file.text, file.name.replace(/\.[^.]+$/, '') || file.name, labels);
+    result.suites.forEach(suite => addSuite(suites, suite));
+    result.unmapped.forEach(field => report.add(field.field, field.note, field.count));
+  });
+  return { suites, unmapped: report.list() };
+};
+
+export const exportInterop = (format: InteropFormat, suites: TestSuite[], baseName: string): InteropExportResult => {
+  const report = createReport();
+  const info = INTEROP_FORMATS.find(f => f.id === format)!;
+  const fileName = `${baseName}.${info.extension}`;
+  let file: ExportedFile;
+  switch (format) {
+    case 'TESTRAIL_CSV':
+    case 'XRAY_CSV':
+    case 'ZEPHYR_CSV':
+      // Byte order mark so Excel reads non-ASCII text as UTF-8
+      file = { fileName, content: '\uFEFF' + exportCsv(CSV_LAYOUTS[format], suites, report), type: 'text/csv;charset=utf-8;' };
+      break;
+    case 'TESTRAIL_XML':
+      file = { fileName, content: exportTestRailXml(suites, report), type: 'application/xml' };
+      break;
+    case 'TESTLINK_XML':
+      file = { fileName, content: exportTestLinkXml(suites, report), type: 'application/xml' };
+      break;
+    case 'GHERKIN':
+      file = exportGherkin(suites, baseName, report);
+      break;
+  }
+  return { file, unmapped: report.list() };
+};
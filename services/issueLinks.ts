@@ -0,0 +1,64 @@
+import { Issue, IssuePriority, TestCase, TestResult, TestSuite } from '../types';
+import { I18n } from './i18n';
+
+export type IssueDraft = Pick<Issue, 'title' | 'description' | 'priority' | 'assignee' | 'linkedCases'>;
+
+export const nextIssueKey = (issues: Issue[]): string => {
+  const maxId = issues.reduce((max, issue) => {
+    const num = parseInt(issue.key.split('-')[1]);
+    return num > max ? num : max;
+  }, 0);
+  return `ISS-${maxId + 1}`;
+};
+
+export const isOpenIssue = (issue: Issue) => issue.status !== 'DONE';
+
+export const getLinkedIssues = (issues: Issue[], suiteId: string, caseId: string): Issue[] =>
+  issues.filter(issue => issue.linkedCases?.some(link => link.suiteId === suiteId && link.caseId === caseId));
+
+const PRIORITY_BY_CASE: Record<TestCase['priority'], IssuePriority> = {
+  High: 'High',
+  Medium: 'Medium',
+  Low: 'Low'
+};
+
+// Pre-fills an issue from a failed result so the tester only has to review it. Written in the
+// tester's language, since the draft becomes the issue's own text.
+export const buildFailureIssueDraft = (
+  suite: TestSuite,
+  testCase: TestCase,
+  result: TestResult,
+  runId: string,
+  { t, localize, formatDateTime }: I18n
+): IssueDraft => {
+  const sections: string[] = [
+    t('issueDraft.heading', { suite: suite.name, title: testCase.title }),
+    t('issueDraft.run', { runId, time: formatDateTime(result.timestamp) })
+  ];
+
+  const failedSteps = testCase.steps
+    .map((step, idx) => ({ step, idx, stepResult: result.stepResults?.find(r => r.stepId === step.id) }))
+    .filter(({ stepResult }) => stepResult?.status === 'FAILED');
+  if (failedSteps.length > 0) {
+    sections.push([
+      t('issueDraft.failedSteps'),
+      ...failedSteps.map(({ step, idx, stepResult }) => [
+        `${idx + 1}. ${step.action}`,
+        `   ${t('issueDraft.expected', { text: step.expectedResult })}`,
+        stepResult?.actualResult ? `   ${t('issueDraft.actual', { text: stepResult.actualResult })}` : ''
+      ].filter(Boolean).join('\n'))
+    ].join('\n'));
+  }
+
+  if (result.summary) sections.push(`${t('issueDraft.summary')}\n${localize(result.summary)}`);
+  if (result.notes) sections.push(`${t('issueDraft.notes')}\n${result.notes}`);
+  if (result.aiLog) sections.push(`${t('issueDraft.aiLog')}\n${result.aiLog}`);
+  if (result.executionLog) sections.push(`${t('issueDraft.executionLog')}\n${result.executionLog}`);
+
+  return {
+    title: t('issueDraft.title', { suite: suite.name, title: testCase.title }),
+    description: sections.join('\n\n'),
+    priority: PRIORITY_BY_CASE[testCase.priority] || 'Medium',
+    linkedCases: [{ suiteId: suite.id, caseId: testCase.id, runId }]
+  };
+};
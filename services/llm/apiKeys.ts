@@ -0,0 +1,11 @@
+// API keys for OpenAI-compatible servers stay in this browser. The llmSettings collection is shared
+// with every client under STORAGE_BACKEND=rest, so a key stored there could be read by anyone.
+const apiKeyStorageKey = (userId: string) => `autotest_llm_api_key_${userId}`;
+
+export const getStoredApiKey = (userId: string): string | undefined =>
+  localStorage.getItem(apiKeyStorageKey(userId)) || undefined;
+
+export const storeApiKey = (userId: string, apiKey: string | undefined) => {
+  if (apiKey) localStorage.setItem(apiKeyStorageKey(userId), apiKey);
+  else localStorage.removeItem(apiKeyStorageKey(userId));
+};
@@ -0,0 +1,209 @@
+import { AiLanguage } from '../../types';
+import { GenerateCasesInput, LlmProvider, LlmRequest, SimulationInput, TranslateCasesInput } from './types';
+
+export const FIXTURE_MODEL = 'fixture';
+
+// FNV-1a; the same input always gives the same answer
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+interface FixturePhrases {
+  defaultSubject: string;
+  cases: (subject: string) => { title: string; description: string; priority: string; steps: [string, string][] }[];
+  noSteps: string;
+  header: string;
+  passed: (action: string, expected: string) => string;
+  failed: (action: string) => string;
+  failureReason: (expected: string) => string;
+}
+
+const PHRASES: Record<AiLanguage, FixturePhrases> = {
+  // i18n-ignore-start: model output in the requested AI language, not interface text
+  ko: {
+    defaultSubject: '기능',
+    cases: subject => [
+      {
+        title: `${subject} - 정상 흐름`,
+        description: `${subject}의 기본 동작을 확인합니다.`,
+        priority: 'High',
+        steps: [
+          [`${subject} 화면으로 이동한다`, '화면이 오류 없이 표시된다'],
+          ['유효한 값을 입력하고 실행한다', '요청이 처리되고 완료 메시지가 표시된다']
+        ]
+      },
+      {
+        title: `${subject} - 잘못된 입력`,
+        description: '유효하지 않은 입력을 거부하는지 확인합니다.',
+        priority: 'Medium',
+        steps: [
+          [`${subject} 화면으로 이동한다`, '화면이 오류 없이 표시된다'],
+          ['필수 값을 비운 채 실행한다', '입력 오류 메시지가 표시되고 처리되지 않는다']
+        ]
+      },
+      {
+        title: `${subject} - 경계값`,
+        description: '허용 범위의 최솟값과 최댓값을 확인합니다.',
+        priority: 'Low',
+        steps: [
+          ['허용 범위의 최댓값을 입력하고 실행한다', '정상적으로 처리된다'],
+          ['허용 범위를 1 넘는 값을 입력하고 실행한다', '범위 초과 오류 메시지가 표시된다']
+        ]
+      }
+    ],
+    noSteps: '[fixture] 실행할 단계가 없습니다.',
+    header: '[fixture] 고정 응답으로 시뮬레이션했습니다.',
+    passed: (action, expected) => `${action} → 확인: ${expected}`,
+    failed: action => `${action} → 실패: 예상 결과와 다름`,
+    failureReason: expected => `"${expected}" 대신 오류 화면이 표시됨`
+  },
+  // i18n-ignore-end
+  en: {
+    defaultSubject: 'Feature',
+    cases: subject => [
+      {
+        title: `${subject} - happy path`,
+        description: `Checks the basic behaviour of ${subject}.`,
+        priority: 'High',
+        steps: [
+          [`Open the ${subject} screen`, 'The screen is shown without errors'],
+          ['Enter valid values and submit', 'The request is processed and a confirmation is shown']
+        ]
+      },
+      {
+        title: `${subject} - invalid input`,
+        description: 'Checks that invalid input is rejected.',
+        priority: 'Medium',
+        steps: [
+          [`Open the ${subject} screen`, 'The screen is shown without errors'],
+          ['Leave a required field empty and submit', 'A validation error is shown and nothing is processed']
+        ]
+      },
+      {
+        title: `${subject} - boundary values`,
+        description: 'Checks the smallest and largest allowed values.',
+        priority: 'Low',
+        steps: [
+          ['Enter the largest allowed value and submit', 'The request is processed'],
+          ['Enter one more than the largest allowed value and submit', 'An out-of-range error is shown']
+        ]
+      }
+    ],
+    noSteps: '[fixture] The case has no steps to run.',
+    header: '[fixture] Simulated with fixed answers.',
+    passed: (action, expected) => `${action} → OK: ${expected}`,
+    failed: action => `${action} → FAILED: result differs from the expectation`,
+    failureReason: expected => `An error screen was shown instead of "${expected}"`
+  },
+  ja: {
+    defaultSubject: '機能',
+    cases: subject => [
+      {
+        title: `${subject} - 正常系`,
+        description: `${subject}の基本動作を確認します。`,
+        priority: 'High',
+        steps: [
+          [`${subject}画面に移動する`, '画面がエラーなく表示される'],
+          ['有効な値を入力して実行する', 'リクエストが処理され、完了メッセージが表示される']
+        ]
+      },
+      {
+        title: `${subject} - 不正な入力`,
+        description: '不正な入力が拒否されることを確認します。',
+        priority: 'Medium',
+        steps: [
+          [`${subject}画面に移動する`, '画面がエラーなく表示される'],
+          ['必須項目を空のまま実行する', '入力エラーが表示され、処理されない']
+        ]
+      },
+      {
+        title: `${subject} - 境界値`,
+        description: '許容範囲の最小値と最大値を確認します。',
+        priority: 'Low',
+        steps: [
+          ['許容範囲の最大値を入力して実行する', '正常に処理される'],
+          ['許容範囲を1超える値を入力して実行する', '範囲外エラーが表示される']
+        ]
+      }
+    ],
+    noSteps: '[fixture] 実行するステップがありません。',
+    header: '[fixture] 固定の応答でシミュレーションしました。',
+    passed: (action, expected) => `${action} → 確認: ${expected}`,
+    failed: action => `${action} → 失敗: 期待結果と異なる`,
+    failureReason: expected => `「${expected}」ではなくエラー画面が表示された`
+  }
+};
+
+const phrasesFor = (language: AiLanguage) => PHRASES[language] || PHRASES.ko;
+
+const toSubject = (text: string, fallback: string) => {
+  const line = text.split('\n').map(l => l.trim()).find(Boolean) || fallback;
+  return line.length > 40 ? `${line.slice(0, 40)}…` : line;
+};
+
+const generateCases = ({ featureDescription, language }: GenerateCasesInput) => {
+  const phrases = phrasesFor(language);
+  return {
+    testCases: phrases.cases(toSubject(featureDescription, phrases.defaultSubject)).map(c => ({
+      ...c,
+      steps: c.steps.map(([action, expectedResult]) => ({ action, expectedResult }))
+    }))
+  };
+};
+
+// About one case in five fails, at a step picked from the case content
+const simulate = ({ testCase, language }: SimulationInput) => {
+  const phrases = phrasesFor(language);
+  const { steps } = testCase;
+  if (steps.length === 0) {
+    return { status: 'SKIPPED', logs: phrases.noSteps, failedStep: 0 };
+  }
+  const seed = hash(JSON.stringify([testCase.title, steps]));
+  const failedStep = seed % 5 === 0 ? (seed >>> 3) % steps.length + 1 : 0;
+  const lines = steps.slice(0, failedStep || steps.length).map((step, i) =>
+    `[${i + 1}] ${i + 1 === failedStep ? phrases.failed(step.action) : phrases.passed(step.action, step.expectedResult)}`
+  );
+  return {
+    status: failedStep ? 'FAILED' : 'PASSED',
+    logs: [phrases.header, ...lines].join('\n'),
+    failedStep,
+    ...(failedStep ? { failureReason: phrases.failureReason(steps[failedStep - 1].expectedResult) } : {})
+  };
+};
+
+// Marks the text with the target language instead of translating it; a previous mark is replaced
+const translateCases = ({ cases, language }: TranslateCasesInput) => {
+  const mark = (text: string) => text && `[${language}] ${text.replace(/^\[(ko|en|ja)\] /, '')}`;
+  return {
+    testCases: cases.map(c => ({
+      title: mark(c.title),
+      description: mark(c.description),
+      steps: c.steps.map(step => ({ action: mark(step.action), expectedResult: mark(step.expectedResult) }))
+    }))
+  };
+};
+
+/**
+ * Answers from fixed templates without any model or network, so the AI features can be demoed
+ * offline and tested with stable results.
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly id = 'fixture';
+
+  async generateJson(request: LlmRequest): Promise<unknown> {
+    switch (request.task) {
+      case 'simulate': return simulate(request.input);
+      case 'translateCases': return translateCases(request.input);
+      default: return generateCases(request.input);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    return [FIXTURE_MODEL];
+  }
+}
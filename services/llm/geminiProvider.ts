@@ -0,0 +1,93 @@
+import { LlmError, LlmFailure, LlmLimit, LlmProvider, LlmRequest } from './types';
+import {
+  AI_PROXY_PATHS,
+  AI_PROXY_SESSION_PATH,
+  AiProxyError,
+  AiProxyErrorCode,
+  AiProxyModels,
+  AiProxyResponse,
+  AiProxySession
+} from '../aiProxyProtocol';
+import { getStoredSessionToken } from '../auth/sessions';
+import { getStorageConfig } from '../storage';
+
+const AI_PROXY_URL = (process.env.AI_PROXY_URL || 'http://localhost:4330').replace(/\/+$/, '');
+const TOKEN_RENEW_MARGIN_MS = 60 * 1000;
+
+// Shared by every provider instance; settings changes create new ones
+let issuedToken: AiProxySession | null = null;
+
+const LIMITS: Partial<Record<AiProxyErrorCode, LlmLimit>> = { RATE_LIMITED: 'RATE', QUOTA_EXCEEDED: 'QUOTA' };
+
+// The proxy's own messages are English, for logs; the app explains failures from the code
+const FAILURES: Partial<Record<AiProxyErrorCode, LlmFailure>> = {
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  BAD_REQUEST: 'REJECTED',
+  UPSTREAM_ERROR: 'UPSTREAM'
+};
+
+/**
+ * Gemini through the AI proxy (server/aiProxy.ts), which holds the API key and applies per-user
+ * limits. Only the task input goes over the wire; the proxy builds the prompt itself.
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+
+  constructor(private readonly model: string) {}
+
+  // With shared storage the auth server's session token says who is asking. Otherwise nothing in the
+  // browser can prove that, so the proxy issues a token of its own.
+  private async token(): Promise<string> {
+    if (getStorageConfig().backend === 'rest') return getStoredSessionToken() || '';
+    if (issuedToken && new Date(issuedToken.expiresAt).getTime() - TOKEN_RENEW_MARGIN_MS > Date.now()) {
+      return issuedToken.token;
+    }
+    const response = await fetch(`${AI_PROXY_URL}${AI_PROXY_SESSION_PATH}`, { method: 'POST' });
+    if (!response.ok) {
+      throw new LlmError(`AI proxy returned ${response.status} for a session token`, this.id, undefined, undefined, undefined, 'UNAUTHORIZED');
+    }
+    issuedToken = await response.json() as AiProxySession;
+    return issuedToken.token;
+  }
+
+  private async send(request: LlmRequest): Promise<Response> {
+    try {
+      return await fetch(`${AI_PROXY_URL}${AI_PROXY_PATHS[request.task]}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await this.token()}` },
+        body: JSON.stringify({ model: this.model, input: request.input })
+      });
+    } catch (error) {
+      if (error instanceof LlmError) throw error;
+      throw new LlmError(`AI proxy unreachable at ${AI_PROXY_URL}`, this.id, error, undefined, undefined, 'UNREACHABLE');
+    }
+  }
+
+  async generateJson(request: LlmRequest): Promise<unknown> {
+    let response = await this.send(request);
+    if (response.status === 401 && issuedToken) {
+      // The proxy restarted with a new secret; one fresh token is worth a retry
+      issuedToken = null;
+      response = await this.send(request);
+    }
+    if (!response.ok) {
+      const body: Partial<AiProxyError> = await response.json().catch(() => ({}));
+      const limit = body.code ? LIMITS[body.code] : undefined;
+      const failure = body.code ? FAILURES[body.code] : 'UPSTREAM';
+      throw new LlmError(body.error || `AI proxy returned ${response.status}`, this.id, undefined, limit, body.retryAfterSeconds, failure);
+    }
+    const body: AiProxyResponse = await response.json();
+    return body.result;
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${AI_PROXY_URL}/models`);
+      if (!response.ok) return [];
+      const body: AiProxyModels = await response.json();
+      return body.models;
+    } catch {
+      return [];
+    }
+  }
+}
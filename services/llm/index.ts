@@ -0,0 +1,68 @@
+import { LlmProvider, LlmProviderId, LlmSettings, UserLlmSettings } from './types';
+import { GeminiProvider } from './geminiProvider';
+import { GEMINI_MODELS } from '../aiProxyProtocol';
+import { OpenAiCompatibleProvider } from './openAiProvider';
+import { FIXTURE_MODEL, FixtureProvider } from './fixtureProvider';
+
+export type {
+  GenerateCasesInput,
+  JsonSchema,
+  LlmFailure,
+  LlmLimit,
+  LlmProvider,
+  LlmProviderId,
+  LlmRequest,
+  LlmSettings,
+  LlmTask,
+  LlmTaskInput,
+  SimulationInput,
+  TranslatableCase,
+  TranslateCasesInput,
+  UserLlmSettings
+} from './types';
+export { LlmError } from './types';
+export { getStoredApiKey, storeApiKey } from './apiKeys';
+
+// Named in the interface by the llm.provider.* messages
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  defaultModel: string;
+}
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export const LLM_PROVIDERS: LlmProviderInfo[] = [
+  { id: 'gemini', defaultModel: GEMINI_MODELS[0] },
+  { id: 'openai', defaultModel: 'llama3.1' },
+  { id: 'fixture', defaultModel: FIXTURE_MODEL }
+];
+
+const isProviderId = (value: string): value is LlmProviderId => LLM_PROVIDERS.some(p => p.id === value);
+
+// Installation-wide default, used until a user picks their own provider
+export const getDefaultLlmSettings = (): LlmSettings => {
+  const configured = (process.env.LLM_PROVIDER || '').toLowerCase();
+  const provider = isProviderId(configured) ? configured : 'gemini';
+  const info = LLM_PROVIDERS.find(p => p.id === provider)!;
+  return {
+    provider,
+    model: process.env.LLM_MODEL || info.defaultModel,
+    ...(provider === 'openai' ? { baseUrl: process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL } : {})
+  };
+};
+
+// The API key is not part of the stored settings; it is added from this browser (see apiKeys.ts)
+export const resolveLlmSettings = (all: UserLlmSettings[], userId: string, apiKey?: string): LlmSettings => {
+  const own = all.find(s => s.userId === userId);
+  if (!own) return getDefaultLlmSettings();
+  const { provider, model, baseUrl, language } = own;
+  return { provider, model, baseUrl, language, ...(provider === 'openai' && apiKey ? { apiKey } : {}) };
+};
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai': return new OpenAiCompatibleProvider(settings.baseUrl || DEFAULT_OPENAI_BASE_URL, settings.model, settings.apiKey);
+    case 'fixture': return new FixtureProvider();
+    default: return new GeminiProvider(settings.model || GEMINI_MODELS[0]);
+  }
+};
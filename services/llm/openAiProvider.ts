@@ -0,0 +1,74 @@
+import { LlmError, LlmProvider, LlmRequest } from './types';
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself, or a local Ollama
+ * (`http://localhost:11434/v1`), llama.cpp server or vLLM for installations without internet access.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey?: string
+  ) {}
+
+  private url(path: string) {
+    return `${this.baseUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+    };
+  }
+
+  async generateJson(request: LlmRequest): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(this.url('/chat/completions'), {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+            { role: 'user', content: request.prompt }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.task, schema: request.schema }
+          }
+        })
+      });
+    } catch (error) {
+      throw new LlmError(`LLM server unreachable at ${this.baseUrl}`, this.id, error, undefined, undefined, 'UNREACHABLE');
+    }
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LlmError(`LLM server returned ${response.status}: ${body.slice(0, 200)}`, this.id, undefined, undefined, undefined, 'REJECTED');
+    }
+
+    const body = await response.json();
+    const content: string | undefined = body.choices?.[0]?.message?.content;
+    if (!content) throw new LlmError('LLM server returned an empty response', this.id, undefined, undefined, undefined, 'UPSTREAM');
+    try {
+      // Smaller local models sometimes wrap the JSON in a code fence despite the response format
+      return JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch (error) {
+      throw new LlmError('LLM server returned invalid JSON', this.id, error, undefined, undefined, 'UPSTREAM');
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(this.url('/models'), { headers: this.headers() });
+      if (!response.ok) return [];
+      const body = await response.json();
+      return (body.data || []).map((m: { id: string }) => m.id).filter(Boolean).sort();
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { AiLanguage } from '../../types';
+
+export type LlmProviderId = 'gemini' | 'openai' | 'fixture';
+
+// Which model answers a user's AI requests; kept per user in the `llmSettings` collection
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible only, e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // OpenAI-compatible only; local servers usually need none. Kept per browser, never stored
+  language?: AiLanguage; // Output language for suites that don't set one
+}
+
+export interface UserLlmSettings extends Omit<LlmSettings, 'apiKey'> {
+  userId: string;
+  updatedAt: string;
+}
+
+// The subset of JSON Schema that every provider can enforce on its output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export type LlmTask = 'generateCases' | 'simulate' | 'translateCases';
+
+export interface GenerateCasesInput {
+  featureDescription: string;
+  contextInfo?: string;
+  language: AiLanguage;
+}
+
+export interface SimulationInput {
+  testCase: { title: string; steps: { action: string; expectedResult: string }[] };
+  contextInfo: string;
+  language: AiLanguage;
+}
+
+export interface TranslatableCase {
+  title: string;
+  description: string;
+  steps: { action: string; expectedResult: string }[];
+}
+
+export interface TranslateCasesInput {
+  cases: TranslatableCase[];
+  language: AiLanguage; // Target language
+}
+
+// The inputs of each task as data. The AI proxy rebuilds the prompt from them, and the fixture
+// provider answers from them without reading the prompt.
+export type LlmTaskInput =
+  | { task: 'generateCases'; input: GenerateCasesInput }
+  | { task: 'simulate'; input: SimulationInput }
+  | { task: 'translateCases'; input: TranslateCasesInput };
+
+export type LlmRequest = LlmTaskInput & {
+  prompt: string;
+  systemInstruction?: string;
+  schema: JsonSchema;
+};
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  // Resolves to the parsed JSON answer, which should match request.schema
+  generateJson(request: LlmRequest): Promise<unknown>;
+  // Models the user can pick from; may be empty when the server can't list them
+  listModels(): Promise<string[]>;
+}
+
+// RATE: too many requests in a short time. QUOTA: the usage allowance is spent.
+export type LlmLimit = 'RATE' | 'QUOTA';
+
+// Why a request failed otherwise, so the interface can explain it; the message is for logs.
+// UNREACHABLE: no answer from the server. UNAUTHORIZED: the AI proxy refused the session token.
+// REJECTED: the server refused the request itself. UPSTREAM: the model's answer was missing or unusable.
+export type LlmFailure = 'UNREACHABLE' | 'UNAUTHORIZED' | 'REJECTED' | 'UPSTREAM';
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LlmProviderId,
+    public readonly cause?: unknown,
+    public readonly limit?: LlmLimit, // Set when the request was refused by a usage limit
+    public readonly retryAfterSeconds?: number, // RATE limits only
+    public readonly failure?: LlmFailure
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
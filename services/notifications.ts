@@ -0,0 +1,30 @@
+import { Notification, NotificationInput, Role, TestSuite, User } from '../types';
+import { msg } from './i18n';
+
+// Older entries beyond this are dropped per inbox so stored data stays small
+export const MAX_NOTIFICATIONS_PER_USER = 100;
+
+export const addToInbox = (notifications: Notification[], notification: Notification): Notification[] => {
+  let kept = 0;
+  return [notification, ...notifications].filter(n => {
+    if (n.recipientId !== notification.recipientId) return true;
+    kept += 1;
+    return kept <= MAX_NOTIFICATIONS_PER_USER;
+  });
+};
+
+// Users whose "@name" appears in the new text but not in the old one
+export const findNewMentions = (before: string, after: string, users: User[]): User[] =>
+  users.filter(u => u.name && after.includes(`@${u.name}`) && !before.includes(`@${u.name}`));
+
+export const buildPermissionGrantedNotification = (
+  suite: TestSuite,
+  userId: string,
+  role: Role,
+  grantedBy: User
+): NotificationInput => ({
+  recipientId: userId,
+  type: 'PERMISSION_GRANTED',
+  message: msg('notifications.permissionGranted', { name: grantedBy.name, suite: suite.name, role: msg(`role.${role}`) }),
+  link: { kind: 'SUITE', suiteId: suite.id }
+});
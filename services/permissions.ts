@@ -0,0 +1,75 @@
+import { Issue, Role, TestSuite, User } from '../types';
+import { isGlobalAdmin } from './auth';
+
+/**
+ * Single source of truth for who may do what. Components ask for a capability instead of
+ * comparing roles, so changing what a role allows only touches ROLE_CAPABILITIES.
+ */
+export type Capability =
+  | 'suite.view'
+  | 'suite.editCases'
+  | 'suite.run'
+  | 'suite.delete'
+  | 'suite.manageAccess'
+  | 'issue.view'
+  | 'issue.create'
+  | 'issue.edit'
+  | 'issue.triage' // Status, priority, assignee and linked cases
+  | 'issue.delete';
+
+export type EffectiveRole = Role | 'NONE';
+
+// Most access first; the interface names them with the role.* messages
+export const ROLES: Role[] = ['ADMIN', 'MEMBER', 'OBSERVER'];
+
+export const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  ADMIN: [
+    'suite.view', 'suite.editCases', 'suite.run', 'suite.delete', 'suite.manageAccess',
+    'issue.view', 'issue.create', 'issue.edit', 'issue.triage', 'issue.delete'
+  ],
+  MEMBER: ['suite.view', 'suite.editCases', 'suite.run', 'issue.view', 'issue.create', 'issue.edit', 'issue.triage'],
+  OBSERVER: ['suite.view', 'issue.view', 'issue.create']
+};
+
+const ROLE_RANK: Record<EffectiveRole, number> = { NONE: 0, OBSERVER: 1, MEMBER: 2, ADMIN: 3 };
+
+const highestRole = (roles: EffectiveRole[]): EffectiveRole =>
+  roles.reduce<EffectiveRole>((best, role) => ROLE_RANK[role] > ROLE_RANK[best] ? role : best, 'NONE');
+
+export const hasCapability = (role: EffectiveRole, capability: Capability) =>
+  role !== 'NONE' && ROLE_CAPABILITIES[role].includes(capability);
+
+export const getSuiteRole = (user: User, suite: TestSuite): EffectiveRole => {
+  if (isGlobalAdmin(user)) return 'ADMIN';
+  return suite.permissions?.[user.id] || 'NONE';
+};
+
+// Highest role held on any suite; governs actions that don't belong to one suite
+export const getWorkspaceRole = (user: User, suites: TestSuite[]): EffectiveRole =>
+  isGlobalAdmin(user) ? 'ADMIN' : highestRole(suites.map(s => getSuiteRole(user, s)));
+
+// Issues inherit access from the suites of the cases they block; unlinked issues from the workspace
+export const getIssueRole = (user: User, issue: Issue, suites: TestSuite[]): EffectiveRole => {
+  const linkedSuites = suites.filter(s => issue.linkedCases?.some(l => l.suiteId === s.id));
+  return linkedSuites.length > 0 ? highestRole(linkedSuites.map(s => getSuiteRole(user, s))) : getWorkspaceRole(user, suites);
+};
+
+export const canOnSuite = (user: User, suite: TestSuite, capability: Capability) =>
+  hasCapability(getSuiteRole(user, suite), capability);
+
+export const canInWorkspace = (user: User, suites: TestSuite[], capability: Capability) =>
+  hasCapability(getWorkspaceRole(user, suites), capability);
+
+export const canOnIssue = (user: User, issue: Issue, suites: TestSuite[], capability: Capability) => {
+  // Reporters can always reword what they filed
+  if (capability === 'issue.edit' && issue.reporterId === user.id) return true;
+  return hasCapability(getIssueRole(user, issue, suites), capability);
+};
+
+// Returns the suite with the user's role set, or removed when role is null
+export const setSuiteRole = (suite: TestSuite, userId: string, role: Role | null): TestSuite => {
+  const permissions = { ...suite.permissions };
+  if (role) permissions[userId] = role;
+  else delete permissions[userId];
+  return { ...suite, permissions };
+};
@@ -0,0 +1,75 @@
+import { GateFailure, GateVerdict, LocalizedText, QualityGates, TestResult, TestRun, TestSuite } from '../types';
+import { getRunStats, formatPassRate, isSimulatedResult } from './runStats';
+import { msg } from './i18n';
+
+// Matches the fixed 90% threshold used before gates were configurable
+export const DEFAULT_QUALITY_GATES: QualityGates = {
+  minPassRate: 90,
+  noHighPriorityFailures: false
+};
+
+export const getQualityGates = (suite?: TestSuite): QualityGates => ({
+  ...DEFAULT_QUALITY_GATES,
+  ...suite?.qualityGates
+});
+
+// Gates are judged on real results only. AI-simulated results are left out of every count and,
+// when present, fail the run, so a release can't be approved on invented outcomes.
+export const evaluateQualityGates = (run: TestRun, suite?: TestSuite): GateVerdict => {
+  const gates = getQualityGates(suite);
+  const results = Object.values(run.results) as TestResult[];
+  const { passRate, skipped } = getRunStats(run, { excludeSimulated: true });
+  const simulated = results.filter(isSimulatedResult).length;
+  const failures: GateFailure[] = [];
+
+  if (simulated > 0) {
+    failures.push({
+      gate: 'NO_SIMULATED_RESULTS',
+      message: msg('gate.failure.NO_SIMULATED_RESULTS', { count: simulated })
+    });
+  }
+
+  if (passRate < gates.minPassRate) {
+    failures.push({
+      gate: 'MIN_PASS_RATE',
+      message: msg('gate.failure.MIN_PASS_RATE', { rate: formatPassRate(passRate), min: gates.minPassRate })
+    });
+  }
+
+  if (gates.noHighPriorityFailures) {
+    // Priority comes from the suite; cases deleted since the run can't be judged
+    const highFailures = results.filter(r =>
+      r.status === 'FAILED' && !isSimulatedResult(r) && suite?.cases.find(c => c.id === r.caseId)?.priority === 'High'
+    );
+    if (highFailures.length > 0) {
+      failures.push({
+        gate: 'NO_HIGH_PRIORITY_FAILURES',
+        message: msg('gate.failure.NO_HIGH_PRIORITY_FAILURES', { count: highFailures.length })
+      });
+    }
+  }
+
+  if (gates.maxSkipped !== undefined && skipped > gates.maxSkipped) {
+    failures.push({
+      gate: 'MAX_SKIPPED',
+      message: msg('gate.failure.MAX_SKIPPED', { count: skipped, max: gates.maxSkipped })
+    });
+  }
+
+  return { passed: failures.length === 0, passRate, failures, gates };
+};
+
+// Runs completed before gates existed carry no verdict; judge them against the suite's current gates.
+// Verdicts saved before simulated results were excluded are judged again when the run has any.
+export const getRunVerdict = (run: TestRun, suites: TestSuite[]): GateVerdict => {
+  const saved = run.gateVerdict;
+  const simulatedIgnored = saved?.passed
+    && (Object.values(run.results) as TestResult[]).some(isSimulatedResult);
+  return saved && !simulatedIgnored ? saved : evaluateQualityGates(run, suites.find(s => s.id === run.suiteId));
+};
+
+export const describeQualityGates = (gates: QualityGates): LocalizedText[] => [
+  msg('gate.rule.MIN_PASS_RATE', { min: gates.minPassRate }),
+  ...(gates.noHighPriorityFailures ? [msg('gate.rule.NO_HIGH_PRIORITY_FAILURES')] : []),
+  ...(gates.maxSkipped !== undefined ? [msg('gate.rule.MAX_SKIPPED', { max: gates.maxSkipped })] : [])
+];
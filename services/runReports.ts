@@ -0,0 +1,287 @@
+import { CaseVersion, TestCase, TestResult, TestRun, TestStatus, TestSuite } from '../types';
+import { getCaseAtVersion, getCaseVersion } from './caseVersions';
+import { XML_DECLARATION, childElements, childText, escapeXml, parseXml } from './xml';
+import { I18n, LocalizedError, msg } from './i18n';
+
+/**
+ * Runs in the report formats CI systems read (JUnit XML, CTRF JSON), and JUnit reports from
+ * automated pipelines read back as runs so they sit next to manual results. Exported reports are
+ * written in the exporting user's language.
+ */
+
+interface ReportEntry {
+  result: TestResult;
+  testCase?: TestCase; // As it was when the result was recorded; unset if it can't be found
+}
+
+// Suite order first, then results for cases deleted since the run
+const getReportEntries = (run: TestRun, suite: TestSuite | undefined, caseVersions: CaseVersion[]): ReportEntry[] => {
+  const current = new Map<string, TestCase>((suite?.cases || []).map(c => [c.id, c]));
+  const ordered = [
+    ...(suite?.cases || []).map(c => run.results[c.id]).filter(Boolean),
+    ...(Object.values(run.results) as TestResult[]).filter(r => !current.has(r.caseId))
+  ] as TestResult[];
+  return ordered.map(result => ({
+    result,
+    testCase: getCaseAtVersion(caseVersions, result.caseId, result.caseVersion, current.get(result.caseId))
+  }));
+};
+
+const entryName = (entry: ReportEntry) => entry.testCase?.title || entry.result.caseId;
+
+const entryLog = (entry: ReportEntry) => entry.result.executionLog || entry.result.aiLog || '';
+
+const resultText = (result: TestResult, { localize }: I18n) =>
+  (result.summary && localize(result.summary)) || result.notes?.split('\n')[0];
+
+const failureMessage = ({ result, testCase }: ReportEntry, i18n: I18n) => {
+  const step = testCase && result.failedStepIndex !== undefined ? testCase.steps[result.failedStepIndex] : undefined;
+  return step
+    ? i18n.t('report.stepFailed', { step: result.failedStepIndex! + 1, action: step.action })
+    : resultText(result, i18n) || i18n.t('status.FAILED');
+};
+
+// Every failed step with what was expected and what happened, then the outcome and tester's notes
+const failureDetails = ({ result, testCase }: ReportEntry, { t, localize }: I18n) => {
+  const steps = (result.stepResults || []).filter(s => s.status === 'FAILED').map(stepResult => {
+    const index = testCase ? testCase.steps.findIndex(step => step.id === stepResult.stepId) : -1;
+    if (index === -1) return '';
+    const step = testCase!.steps[index];
+    return [
+      t('report.step', { step: index + 1, action: step.action }),
+      `  ${t('issueDraft.expected', { text: step.expectedResult })}`,
+      `  ${t('issueDraft.actual', { text: stepResult.actualResult || '' })}`
+    ].join('\n');
+  });
+  return [...steps, result.summary && localize(result.summary), result.notes].filter(Boolean).join('\n');
+};
+
+const getRunDurationMs = (run: TestRun) =>
+  run.endTime ? Math.max(0, new Date(run.endTime).getTime() - new Date(run.startTime).getTime()) : 0;
+
+const countStatus = (entries: ReportEntry[], status: TestStatus) => entries.filter(e => e.result.status === status).length;
+
+// --- EXPORT ---
+
+export const toJUnitXml = (run: TestRun, suite: TestSuite | undefined, caseVersions: CaseVersion[], i18n: I18n): string => {
+  const entries = getReportEntries(run, suite, caseVersions);
+  // JUnit has no "not run" state; such cases are reported as skipped
+  const skipped = countStatus(entries, 'SKIPPED') + countStatus(entries, 'IDLE');
+  const summary = `name="${escapeXml(run.suiteName)}" tests="${entries.length}" failures="${countStatus(entries, 'FAILED')}" errors="0" skipped="${skipped}" time="${(getRunDurationMs(run) / 1000).toFixed(3)}"`;
+
+  const testcases = entries.map(entry => {
+    const { result, testCase } = entry;
+    const properties = [
+      ['caseId', result.caseId],
+      ['caseVersion', result.caseVersion?.toString()],
+      ['priority', testCase?.priority],
+      ['source', result.source]
+    ].filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `<property name="${name}" value="${escapeXml(value!)}"/>`);
+
+    const lines = [
+      `    <testcase name="${escapeXml(entryName(entry))}" classname="${escapeXml(run.suiteName)}">`,
+      `      <properties>${properties.join('')}</properties>`
+    ];
+    if (result.status === 'FAILED') {
+      lines.push(`      <failure message="${escapeXml(failureMessage(entry, i18n))}">${escapeXml(failureDetails(entry, i18n))}</failure>`);
+    } else if (result.status === 'SKIPPED') {
+      lines.push(`      <skipped message="${escapeXml(resultText(result, i18n) || i18n.t('status.SKIPPED'))}"/>`);
+    } else if (result.status === 'IDLE') {
+      lines.push(`      <skipped message="${escapeXml(i18n.t('report.notRun'))}"/>`);
+    }
+    if (entryLog(entry)) lines.push(`      <system-out>${escapeXml(entryLog(entry))}</system-out>`);
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  });
+
+  return [
+    XML_DECLARATION,
+    `<testsuites ${summary}>`,
+    `  <testsuite ${summary} timestamp="${run.startTime}">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+};
+
+const CTRF_STATUS: Record<TestStatus, string> = { PASSED: 'passed', FAILED: 'failed', SKIPPED: 'skipped', IDLE: 'pending' };
+
+// Common Test Report Format, https://ctrf.io
+export const toCtrfJson = (run: TestRun, suite: TestSuite | undefined, caseVersions: CaseVersion[], i18n: I18n): string => {
+  const entries = getReportEntries(run, suite, caseVersions);
+  const start = new Date(run.startTime).getTime();
+
+  const tests = entries.map(entry => {
+    const { result, testCase } = entry;
+    return {
+      name: entryName(entry),
+      status: CTRF_STATUS[result.status],
+      duration: 0, // Per-case durations aren't recorded
+      suite: run.suiteName,
+      rawStatus: result.status,
+      ...(result.status === 'FAILED' ? { message: failureMessage(entry, i18n), trace: failureDetails(entry, i18n) } : {}),
+      ...(testCase && testCase.steps.length > 0 ? {
+        steps: testCase.steps.map(step => ({
+          name: step.action,
+          status: CTRF_STATUS[result.stepResults?.find(s => s.stepId === step.id)?.status || 'IDLE']
+        }))
+      } : {}),
+      extra: {
+        caseId: result.caseId,
+        caseVersion: result.caseVersion,
+        priority: testCase?.priority,
+        source: result.source,
+        summary: result.summary && i18n.localize(result.summary),
+        notes: result.notes,
+        log: entryLog(entry) || undefined
+      }
+    };
+  });
+
+  return JSON.stringify({
+    reportFormat: 'CTRF',
+    specVersion: '0.0.0',
+    results: {
+      tool: { name: 'AutoTest AI' },
+      summary: {
+        tests: entries.length,
+        passed: countStatus(entries, 'PASSED'),
+        failed: countStatus(entries, 'FAILED'),
+        skipped: countStatus(entries, 'SKIPPED'),
+        pending: countStatus(entries, 'IDLE'),
+        other: 0,
+        start,
+        stop: start + getRunDurationMs(run)
+      },
+      tests,
+      extra: { runId: run.id, suiteId: run.suiteId, gateVerdict: run.gateVerdict }
+    }
+  }, null, 2);
+};
+
+// --- JUNIT IMPORT ---
+
+export interface JUnitTestCase {
+  name: string;
+  classname: string;
+  status: TestStatus;
+  message: string;
+  log: string;
+  time: number; // Seconds
+  caseId?: string; // Present in reports this app exported
+}
+
+export interface JUnitReport {
+  timestamp?: string;
+  time: number; // Seconds
+  testcases: JUnitTestCase[];
+}
+
+export interface JUnitRunImport {
+  run: TestRun;
+  unmatched: JUnitTestCase[]; // Testcases with no case of the same name in the suite
+}
+
+const readTestCase = (el: Element): JUnitTestCase => {
+  const failure = childElements(el, 'failure')[0] || childElements(el, 'error')[0];
+  const skipped = childElements(el, 'skipped')[0];
+  const detail = failure || skipped;
+  const caseId = childElements(el, 'properties')
+    .flatMap(p => childElements(p, 'property'))
+    .find(p => p.getAttribute('name') === 'caseId')
+    ?.getAttribute('value');
+  return {
+    name: el.getAttribute('name') || '',
+    classname: el.getAttribute('classname') || '',
+    status: failure ? 'FAILED' : skipped ? 'SKIPPED' : 'PASSED',
+    message: detail ? [detail.getAttribute('message'), detail.textContent?.trim()].filter(Boolean).join('\n') : '',
+    log: ['system-out', 'system-err'].map(tag => childText(el, tag)).filter(Boolean).join('\n'),
+    time: Number(el.getAttribute('time')) || 0,
+    caseId: caseId || undefined
+  };
+};
+
+export const parseJUnitXml = (text: string): JUnitReport => {
+  const root = parseXml(text);
+  if (root.tagName !== 'testsuites' && root.tagName !== 'testsuite') {
+    throw new LocalizedError(msg('report.junitRoot'));
+  }
+  const testcases: JUnitTestCase[] = [];
+  let timestamp: string | undefined;
+  const readSuite = (el: Element) => {
+    timestamp = timestamp || el.getAttribute('timestamp') || undefined;
+    childElements(el, 'testcase').forEach(tc => testcases.push(readTestCase(tc)));
+    childElements(el, 'testsuite').forEach(readSuite);
+  };
+  readSuite(root);
+  return {
+    timestamp,
+    time: Number(root.getAttribute('time'))
+      || childElements(root, 'testsuite').reduce((sum, el) => sum + (Number(el.getAttribute('time')) || 0), 0)
+      || testcases.reduce((sum, tc) => sum + tc.time, 0),
+    testcases
+  };
+};
+
+// "test_login_succeeds[chrome]" and "Login succeeds" name the same case
+const normalizeName = (name: string) =>
+  name.replace(/\s*\[[^\]]*\]$/, '').toLowerCase().replace(/[\s_\-.]+/g, ' ').trim().replace(/^test /, '');
+
+// A failure anywhere fails the case when several testcases (e.g. parameterised ones) match it
+const STATUS_RANK: Record<TestStatus, number> = { FAILED: 3, PASSED: 2, SKIPPED: 1, IDLE: 0 };
+
+const joinText = (...parts: (string | undefined)[]) => parts.filter(Boolean).join('\n') || undefined;
+
+/**
+ * Converts a JUnit report into a completed run of the suite. Testcases match cases by a caseId
+ * property first, then by name against the case title; testcases that match nothing are returned.
+ */
+export const buildRunFromJUnit = (report: JUnitReport, suite: TestSuite, fileName: string, executedBy: string): JUnitRunImport => {
+  const byTitle = new Map<string, TestCase>();
+  suite.cases.forEach(c => {
+    const key = normalizeName(c.title);
+    if (!byTitle.has(key)) byTitle.set(key, c);
+  });
+
+  const parsedStart = report.timestamp ? Date.parse(report.timestamp) : NaN;
+  const start = Number.isNaN(parsedStart) ? Date.now() : parsedStart;
+  const endTime = new Date(start + report.time * 1000).toISOString();
+  const results: Record<string, TestResult> = {};
+  const unmatched: JUnitTestCase[] = [];
+
+  report.testcases.forEach(tc => {
+    const testCase = suite.cases.find(c => c.id === tc.caseId) || byTitle.get(normalizeName(tc.name));
+    if (!testCase) {
+      unmatched.push(tc);
+      return;
+    }
+    const existing = results[testCase.id];
+    results[testCase.id] = {
+      caseId: testCase.id,
+      caseVersion: getCaseVersion(testCase),
+      status: existing && STATUS_RANK[existing.status] > STATUS_RANK[tc.status] ? existing.status : tc.status,
+      source: 'CI_IMPORT',
+      notes: joinText(existing?.notes, tc.message),
+      executionLog: joinText(existing?.executionLog, tc.log && `[${tc.classname ? `${tc.classname} › ` : ''}${tc.name}]\n${tc.log}`),
+      timestamp: endTime
+    };
+  });
+
+  return {
+    run: {
+      id: crypto.randomUUID(),
+      suiteId: suite.id,
+      suiteName: suite.name,
+      startTime: new Date(start).toISOString(),
+      endTime,
+      status: 'COMPLETED',
+      results,
+      executedBy,
+      caseIds: Object.keys(results),
+      importedFrom: fileName
+    },
+    unmatched
+  };
+};
@@ -0,0 +1,34 @@
+import { TestRun, TestResult } from '../types';
+
+export interface RunStats {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  passRate: number; // 0-100
+}
+
+export interface RunStatsOptions {
+  excludeSimulated?: boolean; // Leave AI-simulated results out of every count
+}
+
+export const isSimulatedResult = (result: TestResult) => result.source === 'AI_SIMULATED';
+
+export const getRunStats = (run: TestRun, options: RunStatsOptions = {}): RunStats => {
+  const results = (Object.values(run.results) as TestResult[])
+    .filter(r => !(options.excludeSimulated && isSimulatedResult(r)));
+  const total = results.length;
+  const passed = results.filter(r => r.status === 'PASSED').length;
+  const failed = results.filter(r => r.status === 'FAILED').length;
+  const skipped = results.filter(r => r.status === 'SKIPPED').length;
+  return {
+    total,
+    passed,
+    failed,
+    skipped,
+    passRate: total > 0 ? (passed / total) * 100 : 0
+  };
+};
+
+export const formatPassRate = (passRate: number): string =>
+  passRate % 1 === 0 ? passRate.toFixed(0) : passRate.toFixed(1);
@@ -0,0 +1,45 @@
+import { StepResult, TestCase, TestStatus } from '../types';
+
+// A failing step fails the case. Otherwise the case stays IDLE until every step
+// is marked, and only passes when every step passed.
+export const deriveCaseStatus = (testCase: TestCase, stepResults: StepResult[] = []): TestStatus => {
+  const statusByStep = new Map(stepResults.map(r => [r.stepId, r.status]));
+  const statuses = testCase.steps.map(step => statusByStep.get(step.id) || 'IDLE');
+
+  if (statuses.includes('FAILED')) return 'FAILED';
+  if (statuses.length === 0 || statuses.includes('IDLE')) return 'IDLE';
+  return statuses.every(s => s === 'PASSED') ? 'PASSED' : 'SKIPPED';
+};
+
+export const getFailedStepIndex = (testCase: TestCase, stepResults: StepResult[] = []): number | undefined => {
+  const failedIds = new Set(stepResults.filter(r => r.status === 'FAILED').map(r => r.stepId));
+  const index = testCase.steps.findIndex(step => failedIds.has(step.id));
+  return index === -1 ? undefined : index;
+};
+
+export const upsertStepResult = (
+  stepResults: StepResult[] = [],
+  stepId: string,
+  changes: Partial<Omit<StepResult, 'stepId'>>
+): StepResult[] => {
+  const existing = stepResults.find(r => r.stepId === stepId);
+  if (!existing) return [...stepResults, { stepId, status: 'IDLE', ...changes }];
+  return stepResults.map(r => r.stepId === stepId ? { ...r, ...changes } : r);
+};
+
+// Automated engines only report the case outcome and, on failure, which step broke.
+// Steps before the failure are taken as passed and the rest as not run.
+export const stepResultsFromOutcome = (
+  testCase: TestCase,
+  status: TestStatus,
+  failedStepIndex?: number,
+  failureMessage?: string
+): StepResult[] => testCase.steps.map((step, idx) => {
+  if (status === 'FAILED') {
+    if (failedStepIndex === undefined) return { stepId: step.id, status: 'IDLE' };
+    if (idx < failedStepIndex) return { stepId: step.id, status: 'PASSED' };
+    if (idx === failedStepIndex) return { stepId: step.id, status: 'FAILED', actualResult: failureMessage };
+    return { stepId: step.id, status: 'SKIPPED' };
+  }
+  return { stepId: step.id, status };
+});
@@ -0,0 +1,76 @@
+import { StorageError } from './types';
+import { BLOB_STORE_NAME, openDatabase, promisifyRequest, transactionDone } from './indexedDbAdapter';
+
+/**
+ * Screenshots and attachments are kept apart from the collections, which only hold a reference to
+ * them. Inline in a run they were rewritten with every save and filled localStorage's ~5 MB within a
+ * few automated runs. A reference is a key into the blob store, or the data: URL itself for runs
+ * saved before the store existed and for shared storage.
+ */
+export interface BlobStore {
+  readonly name: string;
+  // Resolves to the reference to keep in place of the data
+  put(dataUrl: string): Promise<string>;
+  // The data: URL, or null when the blob is gone
+  get(ref: string): Promise<string | null>;
+  remove(ref: string): Promise<void>;
+}
+
+export const isInlineBlob = (ref: string) => ref.startsWith('data:');
+
+// Used with browser storage, whether the collections are in localStorage or IndexedDB
+export class IndexedDbBlobStore implements BlobStore {
+  readonly name = 'IndexedDB';
+
+  async put(dataUrl: string): Promise<string> {
+    const ref = crypto.randomUUID();
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(BLOB_STORE_NAME, 'readwrite');
+      tx.objectStore(BLOB_STORE_NAME).put(dataUrl, ref);
+      await transactionDone(tx);
+    } catch (error) {
+      throw error instanceof StorageError ? error : new StorageError('Failed to store a file in IndexedDB', undefined, error);
+    }
+    return ref;
+  }
+
+  async get(ref: string): Promise<string | null> {
+    if (isInlineBlob(ref)) return ref;
+    try {
+      const db = await openDatabase();
+      const value = await promisifyRequest(db.transaction(BLOB_STORE_NAME, 'readonly').objectStore(BLOB_STORE_NAME).get(ref));
+      return typeof value === 'string' ? value : null;
+    } catch (error) {
+      throw error instanceof StorageError ? error : new StorageError('Failed to load a file from IndexedDB', undefined, error);
+    }
+  }
+
+  async remove(ref: string): Promise<void> {
+    if (isInlineBlob(ref)) return;
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(BLOB_STORE_NAME, 'readwrite');
+      tx.objectStore(BLOB_STORE_NAME).delete(ref);
+      await transactionDone(tx);
+    } catch (error) {
+      throw error instanceof StorageError ? error : new StorageError('Failed to delete a file from IndexedDB', undefined, error);
+    }
+  }
+}
+
+// Shared storage keeps files inline: the other clients need them too, and the server has no browser
+// quota to run into
+export class InlineBlobStore implements BlobStore {
+  readonly name = 'inline';
+
+  async put(dataUrl: string): Promise<string> {
+    return dataUrl;
+  }
+
+  async get(ref: string): Promise<string | null> {
+    return isInlineBlob(ref) ? ref : null;
+  }
+
+  async remove(): Promise<void> {}
+}
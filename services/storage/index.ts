@@ -0,0 +1,52 @@
+import { CollectionKey, StorageAdapter, StorageError } from './types';
+import { LocalStorageAdapter } from './localStorageAdapter';
+import { IndexedDbAdapter } from './indexedDbAdapter';
+import { RestAdapter } from './restAdapter';
+import { BlobStore, IndexedDbBlobStore, InlineBlobStore } from './blobStore';
+import { migrateStoredValue, wrapForStorage } from './migrations';
+
+export type { CollectionKey, StorageAdapter, StoredEnvelope } from './types';
+export { StorageError, isQuotaExceeded } from './types';
+export type { BlobStore } from './blobStore';
+export { isInlineBlob } from './blobStore';
+export { CURRENT_SCHEMA_VERSION } from './migrations';
+
+export type StorageBackend = 'local' | 'indexeddb' | 'rest';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  url?: string; // Base URL for the REST backend
+}
+
+export const getStorageConfig = (): StorageConfig => {
+  const backend = (process.env.STORAGE_BACKEND || 'local').toLowerCase();
+  if (backend === 'indexeddb' || backend === 'rest') {
+    return { backend, url: process.env.STORAGE_URL || 'http://localhost:3001' };
+  }
+  return { backend: 'local' };
+};
+
+export const createStorageAdapter = (config: StorageConfig = getStorageConfig()): StorageAdapter => {
+  switch (config.backend) {
+    case 'indexeddb': return new IndexedDbAdapter();
+    case 'rest': return new RestAdapter(config.url || 'http://localhost:3001');
+    default: return new LocalStorageAdapter();
+  }
+};
+
+export const createBlobStore = (config: StorageConfig = getStorageConfig()): BlobStore =>
+  config.backend === 'rest' ? new InlineBlobStore() : new IndexedDbBlobStore();
+
+// Resolves to null when nothing has been stored yet
+export const loadCollection = async <T>(adapter: StorageAdapter, key: CollectionKey): Promise<T[] | null> => {
+  const stored = await adapter.load(key);
+  if (stored === null || stored === undefined) return null;
+  try {
+    return migrateStoredValue(key, stored) as T[];
+  } catch (error) {
+    throw new StorageError(`Failed to migrate stored "${key}" data`, key, error);
+  }
+};
+
+export const saveCollection = <T>(adapter: StorageAdapter, key: CollectionKey, data: T[]): Promise<void> =>
+  adapter.save(key, wrapForStorage(data));
@@ -0,0 +1,74 @@
+import { CollectionKey, StorageAdapter, StoredEnvelope, StorageError } from './types';
+import { readLocalStorageValue } from './localStorageAdapter';
+
+const DB_NAME = 'autotest';
+const DB_VERSION = 2;
+const STORE_NAME = 'collections';
+export const BLOB_STORE_NAME = 'blobs'; // Added in v2 for screenshots and attachments (see blobStore.ts)
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// A write can succeed and still be rolled back when the transaction commits, e.g. over quota
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// The collections and the blob store share one database, opened once per page
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new StorageError('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [STORE_NAME, BLOB_STORE_NAME].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new StorageError('Failed to open IndexedDB', undefined, request.error));
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export class IndexedDbAdapter implements StorageAdapter {
+  readonly name = 'IndexedDB';
+
+  async load(key: CollectionKey): Promise<unknown | null> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const value = await promisifyRequest(tx.objectStore(STORE_NAME).get(key));
+      if (value !== undefined) return value;
+    } catch (error) {
+      throw error instanceof StorageError ? error : new StorageError(`Failed to load "${key}" from IndexedDB`, key, error);
+    }
+    // First start on IndexedDB: pick up whatever the localStorage backend saved before
+    return readLocalStorageValue(key);
+  }
+
+  async save(key: CollectionKey, envelope: StoredEnvelope): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      await promisifyRequest(tx.objectStore(STORE_NAME).put(envelope, key));
+    } catch (error) {
+      throw error instanceof StorageError ? error : new StorageError(`Failed to save "${key}" to IndexedDB`, key, error);
+    }
+  }
+}
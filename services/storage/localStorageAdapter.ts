@@ -0,0 +1,33 @@
+import { CollectionKey, StorageAdapter, StoredEnvelope, StorageError } from './types';
+
+// Keys match the ones the app used before the storage layer existed, so old data keeps loading.
+export const localStorageKey = (key: CollectionKey) => `autotest_${key}`;
+
+export const readLocalStorageValue = (key: CollectionKey): unknown | null => {
+  const raw = localStorage.getItem(localStorageKey(key));
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    // Keep the unreadable payload around instead of silently overwriting it on the next save
+    localStorage.setItem(`${localStorageKey(key)}__corrupt`, raw);
+    throw new StorageError(`Stored "${key}" data is not valid JSON`, key, error);
+  }
+};
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  async load(key: CollectionKey): Promise<unknown | null> {
+    return readLocalStorageValue(key);
+  }
+
+  async save(key: CollectionKey, envelope: StoredEnvelope): Promise<void> {
+    try {
+      localStorage.setItem(localStorageKey(key), JSON.stringify(envelope));
+    } catch (error) {
+      // Usually QuotaExceededError once run histories get large
+      throw new StorageError(`Failed to save "${key}" to localStorage`, key, error);
+    }
+  }
+}
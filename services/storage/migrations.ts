@@ -0,0 +1,230 @@
+import { CollectionKey, StoredEnvelope } from './types';
+
+/**
+ * Bump CURRENT_SCHEMA_VERSION and add a migration to each affected collection
+ * whenever the shape of a stored entity changes. Migrations run in order on load,
+ * starting from the version the data was saved with (bare arrays are version 0).
+ */
+export const CURRENT_SCHEMA_VERSION = 8;
+
+// Stored data is untrusted until migrated, so each step narrows what it reads
+type Migration = (data: unknown[]) => unknown[];
+type StoredObject = Record<string, unknown>;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const isObject = (value: unknown): value is StoredObject => typeof value === 'object' && value !== null;
+const objects = (value: unknown): StoredObject[] => asArray(value).filter(isObject);
+const nowIso = () => new Date().toISOString();
+// Placeholder for versions that leave a collection alone but precede one that changes it
+const unchanged: Migration = data => data;
+
+// v0 -> v1: data saved before versioning existed. Fill in fields older builds didn't always write
+// and drop entries too broken to render.
+const normalizeSuitesV1: Migration = data =>
+  data.filter(isObject).map(suite => ({
+    ...suite,
+    id: String(suite.id ?? crypto.randomUUID()),
+    name: suite.name ?? '',
+    description: suite.description ?? '',
+    createdAt: suite.createdAt ?? nowIso(),
+    cases: objects(suite.cases).map(c => ({
+      ...c,
+      id: String(c.id ?? crypto.randomUUID()),
+      title: c.title ?? '',
+      priority: c.priority === 'Low' || c.priority === 'Medium' || c.priority === 'High' ? c.priority : 'Medium',
+      steps: objects(c.steps).map(step => ({
+        ...step,
+        id: String(step.id ?? crypto.randomUUID()),
+        action: step.action ?? '',
+        expectedResult: step.expectedResult ?? ''
+      }))
+    }))
+  }));
+
+const normalizeRunsV1: Migration = data =>
+  data.filter(isObject).filter(run => run.suiteId).map(run => {
+    const results: Record<string, StoredObject> = {};
+    Object.entries(isObject(run.results) ? run.results : {}).forEach(([caseId, result]) => {
+      if (!isObject(result)) return;
+      results[caseId] = {
+        ...result,
+        caseId: result.caseId ?? caseId,
+        status: result.status ?? 'IDLE',
+        timestamp: result.timestamp ?? run.startTime ?? nowIso()
+      };
+    });
+    return {
+      ...run,
+      id: String(run.id ?? crypto.randomUUID()),
+      suiteName: run.suiteName ?? '',
+      startTime: run.startTime ?? nowIso(),
+      status: run.status ?? 'COMPLETED',
+      results
+    };
+  });
+
+const normalizeIssuesV1: Migration = data =>
+  data.filter(isObject).map((issue, index) => ({
+    ...issue,
+    id: String(issue.id ?? crypto.randomUUID()),
+    key: issue.key ?? `ISS-${index + 1}`,
+    title: issue.title ?? '',
+    description: issue.description ?? '',
+    status: issue.status ?? 'TODO',
+    priority: issue.priority ?? 'Medium',
+    createdAt: issue.createdAt ?? nowIso()
+  }));
+
+const normalizeUsersV1: Migration = data =>
+  data.filter(isObject).filter(user => user.id).map(user => ({
+    ...user,
+    name: user.name ?? '',
+    email: user.email ?? '',
+    avatar: user.avatar ?? '👤'
+  }));
+
+// v1 -> v2: results gained a source. Older results only tell us through which log they carry.
+const addResultSourceV2: Migration = data =>
+  data.filter(isObject).map(run => {
+    const results: Record<string, StoredObject> = {};
+    Object.entries(isObject(run.results) ? run.results : {}).forEach(([caseId, result]) => {
+      if (!isObject(result)) return;
+      const source = result.source
+        ?? (result.status === 'IDLE' ? undefined : result.executionLog ? 'EXECUTOR' : result.aiLog ? 'AI_SIMULATED' : 'MANUAL');
+      results[caseId] = source ? { ...result, source } : result;
+    });
+    return { ...run, results };
+  });
+
+// v2 -> v3: admin rights moved from a hard-coded email address to an explicit role
+const addGlobalRoleV3: Migration = data =>
+  data.filter(isObject).map(user => ({
+    ...user,
+    globalRole: user.globalRole ?? (user.email === 'administrator@autotest.ai' ? 'ADMIN' : 'USER')
+  }));
+
+// v3 -> v4: cases are versioned; existing content becomes version 1
+const addCaseVersionV4: Migration = data =>
+  data.filter(isObject).map(suite => ({
+    ...suite,
+    cases: objects(suite.cases).map(c => ({ ...c, version: c.version ?? 1 }))
+  }));
+
+// v4 -> v5: plan runs are matched to entries by suite, so duplicate suite entries are merged
+// the way mergePlanEntries (services/testPlans.ts) does
+const mergePlanEntriesV5: Migration = data =>
+  data.filter(isObject).map(plan => {
+    const bySuite = new Map<unknown, StoredObject>();
+    objects(plan.entries).forEach(entry => {
+      const existing = bySuite.get(entry.suiteId);
+      if (!existing) {
+        bySuite.set(entry.suiteId, entry);
+        return;
+      }
+      bySuite.set(entry.suiteId, {
+        ...existing,
+        caseIds: Array.isArray(existing.caseIds) && Array.isArray(entry.caseIds)
+          ? [...new Set([...existing.caseIds, ...entry.caseIds])]
+          : undefined,
+        assigneeId: existing.assigneeId || entry.assigneeId
+      });
+    });
+    return { ...plan, entries: [...bySuite.values()] };
+  });
+
+// v5 -> v6: API keys no longer belong in shared storage, where every client could read them.
+// They are dropped; users enter them again and they stay in their browser.
+const dropApiKeysV6: Migration = data =>
+  data.filter(isObject).map(({ apiKey: _apiKey, ...settings }) => settings);
+
+// v6 -> v7: text the app writes for later readers is stored as a message key and params (see
+// LocalizedText in types.ts). Gate failures were written in Korean from a fixed set of sentences,
+// so their numbers are read back out; anything else is kept word for word.
+const verbatimText = (text: unknown) => ({ key: 'common.text', params: { text: String(text ?? '') } });
+
+const GATE_FAILURE_PARAMS: Record<string, string[]> = {
+  NO_SIMULATED_RESULTS: ['count'],
+  MIN_PASS_RATE: ['rate', 'min'],
+  NO_HIGH_PRIORITY_FAILURES: ['count'],
+  MAX_SKIPPED: ['count', 'max']
+};
+
+const localizeGateFailure = (failure: StoredObject) => {
+  if (typeof failure.message !== 'string') return failure;
+  const names = GATE_FAILURE_PARAMS[String(failure.gate)];
+  const numbers = failure.message.match(/\d+(?:\.\d+)?/g) || [];
+  if (!names || numbers.length !== names.length) return { ...failure, message: verbatimText(failure.message) };
+  const params = Object.fromEntries(names.map((name, i) => [name, name === 'rate' ? numbers[i] : Number(numbers[i])]));
+  return { ...failure, message: { key: `gate.failure.${failure.gate}`, params } };
+};
+
+const localizeGateFailuresV7: Migration = data =>
+  data.filter(isObject).map(run => isObject(run.gateVerdict)
+    ? { ...run, gateVerdict: { ...run.gateVerdict, failures: objects(run.gateVerdict.failures).map(localizeGateFailure) } }
+    : run);
+
+const localizeNotificationsV7: Migration = data =>
+  data.filter(isObject).map(notification => typeof notification.message === 'string'
+    ? { ...notification, message: verbatimText(notification.message) }
+    : notification);
+
+// v7 -> v8: step attachments refer to the blob store instead of holding a data: URL. A data: URL
+// is itself a valid reference, so older attachments only change field name and stay inline.
+const renameAttachmentData = ({ dataUrl, ...attachment }: StoredObject) => ({ ...attachment, blob: attachment.blob ?? dataUrl ?? '' });
+
+const renameAttachmentDataV8: Migration = data =>
+  data.filter(isObject).map(run => {
+    const results: Record<string, unknown> = {};
+    Object.entries(isObject(run.results) ? run.results : {}).forEach(([caseId, result]) => {
+      if (!isObject(result) || !Array.isArray(result.stepResults)) {
+        results[caseId] = result;
+        return;
+      }
+      const stepResults = objects(result.stepResults).map(step => Array.isArray(step.attachments)
+        ? { ...step, attachments: objects(step.attachments).map(renameAttachmentData) }
+        : step);
+      results[caseId] = { ...result, stepResults };
+    });
+    return { ...run, results };
+  });
+
+// migrations[key][n] upgrades data from version n to version n + 1.
+// Collections without an entry for a version are unchanged by it.
+const MIGRATIONS: Record<CollectionKey, Migration[]> = {
+  suites: [normalizeSuitesV1, unchanged, unchanged, addCaseVersionV4],
+  runs: [normalizeRunsV1, addResultSourceV2, unchanged, unchanged, unchanged, unchanged, localizeGateFailuresV7, renameAttachmentDataV8],
+  issues: [normalizeIssuesV1],
+  users: [normalizeUsersV1, unchanged, addGlobalRoleV3],
+  plans: [unchanged, unchanged, unchanged, unchanged, mergePlanEntriesV5], // Introduced at v2
+  notifications: [unchanged, unchanged, unchanged, unchanged, unchanged, unchanged, localizeNotificationsV7], // Introduced at v2
+  credentials: [], // Introduced at v3
+  sessions: [], // Introduced at v3
+  audit: [], // Introduced at v3
+  caseVersions: [], // Introduced at v4
+  llmSettings: [unchanged, unchanged, unchanged, unchanged, unchanged, dropApiKeysV6], // Introduced at v4
+};
+
+const isEnvelope = (value: unknown): value is StoredEnvelope =>
+  isObject(value) && typeof value.schemaVersion === 'number' && 'data' in value;
+
+export const wrapForStorage = <T>(data: T): StoredEnvelope<T> => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  savedAt: nowIso(),
+  data
+});
+
+export const migrateStoredValue = (key: CollectionKey, stored: unknown): unknown[] => {
+  const fromVersion = isEnvelope(stored) ? stored.schemaVersion : 0;
+  let data = asArray(isEnvelope(stored) ? stored.data : stored);
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    // Written by a newer build; use it as-is rather than guessing at a downgrade
+    console.warn(`Stored "${key}" uses schema v${fromVersion}, newer than supported v${CURRENT_SCHEMA_VERSION}.`);
+    return data;
+  }
+
+  MIGRATIONS[key].slice(fromVersion, CURRENT_SCHEMA_VERSION).forEach(migrate => {
+    data = migrate(data);
+  });
+  return data;
+};
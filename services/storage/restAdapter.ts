@@ -0,0 +1,74 @@
+import { CollectionKey, StorageAdapter, StoredEnvelope, StorageError } from './types';
+
+const SAVE_DEBOUNCE_MS = 500;
+
+interface PendingSave {
+  envelope: StoredEnvelope;
+  timer: ReturnType<typeof setTimeout>;
+  waiters: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * Stores each collection as a single JSON document at `${baseUrl}/${key}`.
+ * Works with json-server when db.json declares each collection as an object, e.g. { "suites": {} }.
+ */
+export class RestAdapter implements StorageAdapter {
+  readonly name = 'REST';
+  private pending = new Map<CollectionKey, PendingSave>();
+
+  constructor(private readonly baseUrl: string) {}
+
+  private url(key: CollectionKey) {
+    return `${this.baseUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  async load(key: CollectionKey): Promise<unknown | null> {
+    let response: Response;
+    try {
+      response = await fetch(this.url(key), { headers: { Accept: 'application/json' } });
+    } catch (error) {
+      throw new StorageError(`Storage server unreachable while loading "${key}"`, key, error);
+    }
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new StorageError(`Storage server returned ${response.status} while loading "${key}"`, key);
+    }
+    const body = await response.json().catch(error => {
+      throw new StorageError(`Storage server sent invalid JSON for "${key}"`, key, error);
+    });
+    // json-server seeds empty collections as {}
+    if (body === null || (typeof body === 'object' && !Array.isArray(body) && Object.keys(body).length === 0)) return null;
+    return body;
+  }
+
+  // Edits arrive on every keystroke, so writes per collection are coalesced before hitting the server
+  save(key: CollectionKey, envelope: StoredEnvelope): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const existing = this.pending.get(key);
+      if (existing) clearTimeout(existing.timer);
+      const waiters = [...(existing?.waiters || []), { resolve, reject }];
+      const timer = setTimeout(() => this.flush(key), SAVE_DEBOUNCE_MS);
+      this.pending.set(key, { envelope, timer, waiters });
+    });
+  }
+
+  private async flush(key: CollectionKey) {
+    const entry = this.pending.get(key);
+    if (!entry) return;
+    this.pending.delete(key);
+    try {
+      const response = await fetch(this.url(key), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(entry.envelope)
+      });
+      if (!response.ok) {
+        throw new StorageError(`Storage server returned ${response.status} while saving "${key}"`, key);
+      }
+      entry.waiters.forEach(w => w.resolve());
+    } catch (error) {
+      const wrapped = error instanceof StorageError ? error : new StorageError(`Storage server unreachable while saving "${key}"`, key, error);
+      entry.waiters.forEach(w => w.reject(wrapped));
+    }
+  }
+}
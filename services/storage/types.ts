@@ -0,0 +1,30 @@
+export type CollectionKey = 'suites' | 'runs' | 'issues' | 'users' | 'plans' | 'notifications' | 'credentials' | 'sessions' | 'audit' | 'caseVersions' | 'llmSettings';
+
+// Shape written by every adapter. Older builds stored the bare array instead.
+export interface StoredEnvelope<T = unknown> {
+  schemaVersion: number;
+  savedAt: string;
+  data: T;
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+  // Returns the raw stored value (an envelope, or a legacy bare value) or null when nothing is stored
+  load(key: CollectionKey): Promise<unknown | null>;
+  save(key: CollectionKey, envelope: StoredEnvelope): Promise<void>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly key?: CollectionKey, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+// Browsers report a full storage as a DOMException (older Firefox under its own name), which adapters wrap
+const QUOTA_ERROR_NAMES = ['QuotaExceededError', 'NS_ERROR_DOM_QUOTA_REACHED'];
+
+export const isQuotaExceeded = (error: unknown): boolean => {
+  const cause = error instanceof StorageError ? error.cause : error;
+  return typeof DOMException !== 'undefined' && cause instanceof DOMException && QUOTA_ERROR_NAMES.includes(cause.name);
+};
@@ -0,0 +1,190 @@
+import { TestSuite } from '../types';
+import { toCsv } from './csv';
+import { buildXlsx, XLSX_MIME_TYPE } from './xlsx';
+import { escapeXml } from './xml';
+import { getCaseVersion } from './caseVersions';
+import { I18n } from './i18n';
+
+/**
+ * Suite exports. Spreadsheet formats use one row per step with the importer's column names,
+ * so an exported file can be imported again without changing the mapping.
+ */
+
+export type SuiteExportFormat = 'XLSX' | 'CSV' | 'JSON' | 'MARKDOWN' | 'HTML';
+
+export interface ExportedFile {
+  fileName: string;
+  content: BlobPart;
+  type: string;
+}
+
+// Described in the interface by the suiteExport.format.* messages
+export const SUITE_EXPORT_FORMATS: { id: SuiteExportFormat; label: string; extension: string }[] = [
+  { id: 'XLSX', label: 'Excel', extension: 'xlsx' },
+  { id: 'CSV', label: 'CSV', extension: 'csv' },
+  { id: 'JSON', label: 'JSON', extension: 'json' },
+  { id: 'MARKDOWN', label: 'Markdown', extension: 'md' },
+  { id: 'HTML', label: 'HTML', extension: 'html' }
+];
+
+// Names the importer recognises in either language; see HEADER_ALIASES in caseImport.ts
+const sheetHeaders = ({ t }: I18n) => [
+  t('suiteExport.sheet.suite'),
+  t('suiteExport.sheet.key'),
+  t('suiteExport.sheet.title'),
+  t('suiteExport.sheet.description'),
+  t('suiteExport.sheet.priority'),
+  t('suiteExport.sheet.step'),
+  t('suiteExport.sheet.expected')
+];
+const SHEET_COLUMN_WIDTHS = [20, 12, 40, 40, 10, 50, 50];
+
+export const SUITE_EXPORT_FORMAT_VERSION = 1;
+
+// Canonical JSON document; permissions are left out on purpose since they refer to local user ids
+export interface SuiteExportDocument {
+  format: 'autotest-ai/suites';
+  formatVersion: number;
+  exportedAt: string;
+  suites: {
+    id: string;
+    name: string;
+    description: string;
+    createdAt: string;
+    targetConfig?: TestSuite['targetConfig'];
+    qualityGates?: TestSuite['qualityGates'];
+    aiLanguage?: TestSuite['aiLanguage'];
+    cases: {
+      id: string;
+      title: string;
+      description: string;
+      priority: string;
+      version: number;
+      steps: { action: string; expectedResult: string }[];
+    }[];
+  }[];
+}
+
+const caseKey = (index: number) => `TC-${index + 1}`;
+
+// Case IDs continue across suites so rows of neighbouring suites never merge on import
+const toSheetRows = (suites: TestSuite[]): string[][] => {
+  let caseIndex = 0;
+  return suites.flatMap(suite => suite.cases.flatMap(testCase => {
+    const key = caseKey(caseIndex++);
+    const steps = testCase.steps.length > 0 ? testCase.steps : [{ action: '', expectedResult: '' }];
+    return steps.map((step, i) => i === 0
+      ? [suite.name, key, testCase.title, testCase.description || '', testCase.priority, step.action, step.expectedResult]
+      : [suite.name, key, '', '', '', step.action, step.expectedResult]);
+  }));
+};
+
+export const toSuiteExportDocument = (suites: TestSuite[]): SuiteExportDocument => ({
+  format: 'autotest-ai/suites',
+  formatVersion: SUITE_EXPORT_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  suites: suites.map(suite => ({
+    id: suite.id,
+    name: suite.name,
+    description: suite.description,
+    createdAt: suite.createdAt,
+    targetConfig: suite.targetConfig,
+    qualityGates: suite.qualityGates,
+    aiLanguage: suite.aiLanguage,
+    cases: suite.cases.map(c => ({
+      id: c.id,
+      title: c.title,
+      description: c.description || '',
+      priority: c.priority,
+      version: getCaseVersion(c),
+      steps: c.steps.map(s => ({ action: s.action, expectedResult: s.expectedResult }))
+    }))
+  }))
+});
+
+// --- SPECIFICATION (Markdown / HTML) ---
+
+const escapeMarkdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>') || ' ';
+
+export const toMarkdown = (suites: TestSuite[], { t }: I18n): string => suites.map(suite => {
+  const lines = [`# ${suite.name}`, ''];
+  if (suite.description) lines.push(suite.description, '');
+  lines.push(t('suiteExport.caseCount', { count: suite.cases.length }), '');
+  suite.cases.forEach((testCase, i) => {
+    lines.push(`## ${caseKey(i)} ${testCase.title}`, '');
+    lines.push(
+      `- ${t('suiteExport.priority')}: ${t(`priority.${testCase.priority}`)}`,
+      `- ${t('suiteExport.version')}: v${getCaseVersion(testCase)}`,
+      ''
+    );
+    if (testCase.description) lines.push(testCase.description, '');
+    if (testCase.steps.length > 0) {
+      lines.push(`| # | ${t('suiteExport.action')} | ${t('suiteExport.expected')} |`, '|---|---|---|');
+      testCase.steps.forEach((step, n) => {
+        lines.push(`| ${n + 1} | ${escapeMarkdownCell(step.action)} | ${escapeMarkdownCell(step.expectedResult)} |`);
+      });
+      lines.push('');
+    }
+  });
+  return lines.join('\n');
+}).join('\n---\n\n');
+
+const HTML_STYLE = `body{font-family:-apple-system,'Segoe UI','Malgun Gothic',sans-serif;color:#1e293b;max-width:960px;margin:40px auto;padding:0 24px}
+h1{border-bottom:2px solid #e2e8f0;padding-bottom:8px}h2{font-size:18px;margin-top:32px}
+.meta{color:#64748b;font-size:13px}table{border-collapse:collapse;width:100%;font-size:14px}
+th,td{border:1px solid #e2e8f0;padding:6px 10px;text-align:left;vertical-align:top;white-space:pre-wrap}
+th{background:#f8fafc}section{page-break-after:always}`;
+
+export const toHtml = (suites: TestSuite[], { t, locale }: I18n): string => {
+  const body = suites.map(suite => {
+    const cases = suite.cases.map((testCase, i) => `
+<h2>${caseKey(i)} ${escapeXml(testCase.title)}</h2>
+<p class="meta">${t('suiteExport.priority')}: ${t(`priority.${testCase.priority}`)} · ${t('suiteExport.version')}: v${getCaseVersion(testCase)}</p>
+${testCase.description ? `<p>${escapeXml(testCase.description)}</p>` : ''}
+${testCase.steps.length > 0 ? `<table><thead><tr><th>#</th><th>${t('suiteExport.action')}</th><th>${t('suiteExport.expected')}</th></tr></thead><tbody>
+${testCase.steps.map((step, n) => `<tr><td>${n + 1}</td><td>${escapeXml(step.action)}</td><td>${escapeXml(step.expectedResult)}</td></tr>`).join('\n')}
+</tbody></table>` : ''}`).join('\n');
+    return `<section>
+<h1>${escapeXml(suite.name)}</h1>
+${suite.description ? `<p>${escapeXml(suite.description)}</p>` : ''}
+<p class="meta">${t('suiteExport.caseCount', { count: suite.cases.length })}</p>${cases}
+</section>`;
+  }).join('\n');
+  const title = suites.length === 1 ? suites[0].name : t('suiteExport.specTitle');
+  return `<!doctype html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeXml(title)}</title><style>${HTML_STYLE}</style></head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+// --- FILES ---
+
+export const exportSuites = (suites: TestSuite[], format: SuiteExportFormat, baseName: string, i18n: I18n): ExportedFile => {
+  const extension = SUITE_EXPORT_FORMATS.find(f => f.id === format)!.extension;
+  const fileName = `${baseName}.${extension}`;
+  switch (format) {
+    case 'XLSX':
+      return {
+        fileName,
+        content: buildXlsx(suites.map(suite => ({
+          name: suite.name,
+          rows: [sheetHeaders(i18n), ...toSheetRows([suite])],
+          columnWidths: SHEET_COLUMN_WIDTHS
+        }))),
+        type: XLSX_MIME_TYPE
+      };
+    case 'CSV':
+      // Byte order mark so Excel reads non-ASCII text as UTF-8
+      return { fileName, content: '\uFEFF' + toCsv([sheetHeaders(i18n), ...toSheetRows(suites)]), type: 'text/csv;charset=utf-8;' };
+    case 'JSON':
+      return { fileName, content: JSON.stringify(toSuiteExportDocument(suites), null, 2), type: 'application/json' };
+    case 'MARKDOWN':
+      return { fileName, content: toMarkdown(suites, i18n), type: 'text/markdown;charset=utf-8;' };
+    case 'HTML':
+      return { fileName, content: toHtml(suites, i18n), type: 'text/html;charset=utf-8;' };
+  }
+};
@@ -0,0 +1,148 @@
+import { GateVerdict, Issue, LocalizedText, TestCase, TestPlan, TestPlanEntry, TestResult, TestRun, TestSuite } from '../types';
+import { getRunVerdict } from './qualityGates';
+import { getLinkedIssues, isOpenIssue } from './issueLinks';
+import { msg } from './i18n';
+
+export interface PlanEntryProgress {
+  entry: TestPlanEntry;
+  suite?: TestSuite; // Unset when the suite has been deleted
+  cases: TestCase[];
+  run?: TestRun; // Latest non-abandoned run launched for this entry
+  executed: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  verdict?: GateVerdict; // Only for completed runs
+}
+
+export interface PlanProgress {
+  entries: PlanEntryProgress[];
+  totalCases: number;
+  executed: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  percentComplete: number; // 0-100
+}
+
+export interface ReleaseReadiness {
+  ready: boolean;
+  blockers: LocalizedText[];
+}
+
+// Runs are matched to plan entries by suite, so a plan holds one entry per suite. Entries for the same
+// suite are merged: their cases are combined, and an entry that covers the whole suite wins.
+export const mergePlanEntries = (entries: TestPlanEntry[]): TestPlanEntry[] => {
+  const bySuite = new Map<string, TestPlanEntry>();
+  entries.forEach(entry => {
+    const existing = bySuite.get(entry.suiteId);
+    if (!existing) {
+      bySuite.set(entry.suiteId, entry);
+      return;
+    }
+    bySuite.set(entry.suiteId, {
+      ...existing,
+      caseIds: existing.caseIds && entry.caseIds ? [...new Set([...existing.caseIds, ...entry.caseIds])] : undefined,
+      assigneeId: existing.assigneeId || entry.assigneeId
+    });
+  });
+  return [...bySuite.values()];
+};
+
+export const getEntryCases = (entry: TestPlanEntry, suite?: TestSuite): TestCase[] => {
+  if (!suite) return [];
+  return entry.caseIds ? suite.cases.filter(c => entry.caseIds!.includes(c.id)) : suite.cases;
+};
+
+// The runner only knows about suites, so plan runs get a suite narrowed to their cases
+export const scopeSuiteToRun = (suite: TestSuite, run: TestRun): TestSuite =>
+  run.caseIds ? { ...suite, cases: suite.cases.filter(c => run.caseIds!.includes(c.id)) } : suite;
+
+export const buildPlanRuns = (plan: TestPlan, suites: TestSuite[]): TestRun[] => {
+  const startTime = new Date().toISOString();
+  return plan.entries.flatMap(entry => {
+    const suite = suites.find(s => s.id === entry.suiteId);
+    if (!suite || getEntryCases(entry, suite).length === 0) return [];
+    return [{
+      id: crypto.randomUUID(),
+      suiteId: suite.id,
+      suiteName: suite.name,
+      startTime,
+      status: 'IN_PROGRESS' as const,
+      results: {},
+      planId: plan.id,
+      caseIds: entry.caseIds,
+      assignedTo: entry.assigneeId
+    }];
+  });
+};
+
+const getLatestEntryRun = (plan: TestPlan, entry: TestPlanEntry, runs: TestRun[]): TestRun | undefined =>
+  runs
+    .filter(r => r.planId === plan.id && r.suiteId === entry.suiteId && r.status !== 'ABANDONED')
+    .sort((a, b) => b.startTime.localeCompare(a.startTime))[0];
+
+export const hasActivePlanRuns = (plan: TestPlan, runs: TestRun[]) =>
+  runs.some(r => r.planId === plan.id && r.status === 'IN_PROGRESS');
+
+export const getPlanProgress = (plan: TestPlan, suites: TestSuite[], runs: TestRun[]): PlanProgress => {
+  const entries = plan.entries.map(entry => {
+    const suite = suites.find(s => s.id === entry.suiteId);
+    const cases = getEntryCases(entry, suite);
+    const run = getLatestEntryRun(plan, entry, runs);
+    const results = cases.map(c => run?.results[c.id]).filter(Boolean) as TestResult[];
+    return {
+      entry,
+      suite,
+      cases,
+      run,
+      executed: results.filter(r => r.status !== 'IDLE').length,
+      passed: results.filter(r => r.status === 'PASSED').length,
+      failed: results.filter(r => r.status === 'FAILED').length,
+      skipped: results.filter(r => r.status === 'SKIPPED').length,
+      verdict: run?.status === 'COMPLETED' ? getRunVerdict(run, suite ? [suite] : []) : undefined
+    };
+  });
+
+  const sum = (pick: (e: PlanEntryProgress) => number) => entries.reduce((total, e) => total + pick(e), 0);
+  const totalCases = sum(e => e.cases.length);
+  const executed = sum(e => e.executed);
+  return {
+    entries,
+    totalCases,
+    executed,
+    passed: sum(e => e.passed),
+    failed: sum(e => e.failed),
+    skipped: sum(e => e.skipped),
+    percentComplete: totalCases > 0 ? (executed / totalCases) * 100 : 0
+  };
+};
+
+// A release is ready once every entry has a completed run that passed its suite's gates
+// and none of the plan's cases is blocked by an open issue.
+export const getReleaseReadiness = (plan: TestPlan, progress: PlanProgress, issues: Issue[]): ReleaseReadiness => {
+  const blockers: LocalizedText[] = [];
+
+  if (progress.entries.length === 0) blockers.push(msg('plans.blocker.noSuites'));
+
+  progress.entries.forEach(({ suite, run, verdict }) => {
+    if (!suite) {
+      blockers.push(msg('plans.blocker.suiteDeleted'));
+    } else if (!run) {
+      blockers.push(msg('plans.blocker.notRun', { suite: suite.name }));
+    } else if (run.status !== 'COMPLETED') {
+      blockers.push(msg('plans.blocker.notCompleted', { suite: suite.name }));
+    } else if (verdict && !verdict.passed) {
+      blockers.push(msg('plans.blocker.gateFailed', { suite: suite.name, failures: verdict.failures.map(f => f.message) }));
+    }
+  });
+
+  const blockingIssues = new Map<string, Issue>();
+  progress.entries.forEach(({ suite, cases }) => {
+    if (!suite) return;
+    cases.forEach(c => getLinkedIssues(issues, suite.id, c.id).filter(isOpenIssue).forEach(i => blockingIssues.set(i.id, i)));
+  });
+  blockingIssues.forEach(issue => blockers.push(msg('plans.blocker.openIssue', { key: issue.key, title: issue.title })));
+
+  return { ready: blockers.length === 0, blockers };
+};
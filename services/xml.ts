@@ -0,0 +1,28 @@
+import { LocalizedError, msg } from './i18n';
+
+// Small helpers for reading and writing the XML formats other tools exchange
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+export const escapeXml = (value: string) =>
+  value
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const xmlElement = (tagName: string, text: string) => `<${tagName}>${escapeXml(text)}</${tagName}>`;
+
+export const parseXml = (text: string): Element => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new LocalizedError(msg('files.xmlUnreadable'));
+  return doc.documentElement;
+};
+
+export const childElements = (parent: Element, tagName?: string): Element[] =>
+  Array.from(parent.childNodes).filter((node): node is Element =>
+    node.nodeType === 1 && (!tagName || (node as Element).tagName === tagName));
+
+export const childText = (parent: Element, tagName: string) => childElements(parent, tagName)[0]?.textContent?.trim() || '';
@@ -0,0 +1,72 @@
+import { TestCase, TestRun, TestSuite } from '../types';
+
+// Text that trips up naive writers: separators, quotes, markup and non-ASCII characters
+export const sampleSuite = (): TestSuite => ({
+  id: 'suite-checkout',
+  name: 'Checkout',
+  description: 'Paying for the cart',
+  createdAt: '2026-01-05T09:00:00.000Z',
+  cases: [
+    {
+      id: 'case-card',
+      title: 'Pay by card, then see the receipt',
+      description: 'Card "4242" is accepted',
+      priority: 'High',
+      version: 3,
+      steps: [
+        { id: 'step-card-1', action: 'Open the cart', expectedResult: 'The cart lists 2 items' },
+        { id: 'step-card-2', action: 'Pay with card "4242"; confirm', expectedResult: 'The receipt shows <total> & tax' }
+      ]
+    },
+    {
+      id: 'case-empty',
+      title: 'Empty cart',
+      description: '',
+      priority: 'Low',
+      version: 1,
+      steps: [
+        { id: 'step-empty-1', action: 'Remove every item', expectedResult: 'Checkout is disabled – naïve café check' }
+      ]
+    }
+  ]
+});
+
+// What a format is expected to carry: ids and versions are the app's own and are not compared
+export const caseContent = (testCase: TestCase) => ({
+  title: testCase.title,
+  description: testCase.description || '',
+  priority: testCase.priority,
+  steps: testCase.steps.map(s => ({ action: s.action, expectedResult: s.expectedResult }))
+});
+
+export const completedRun = (suite: TestSuite): TestRun => ({
+  id: 'run-1',
+  suiteId: suite.id,
+  suiteName: suite.name,
+  startTime: '2026-01-06T10:00:00.000Z',
+  endTime: '2026-01-06T10:05:00.000Z',
+  status: 'COMPLETED',
+  executedBy: 'user-1',
+  results: {
+    'case-card': {
+      caseId: 'case-card',
+      caseVersion: 3,
+      status: 'FAILED',
+      source: 'MANUAL',
+      notes: 'Receipt total was wrong',
+      failedStepIndex: 1,
+      stepResults: [
+        { stepId: 'step-card-1', status: 'PASSED' },
+        { stepId: 'step-card-2', status: 'FAILED', actualResult: 'Total missing' }
+      ],
+      timestamp: '2026-01-06T10:03:00.000Z'
+    },
+    'case-empty': {
+      caseId: 'case-empty',
+      caseVersion: 1,
+      status: 'PASSED',
+      source: 'MANUAL',
+      timestamp: '2026-01-06T10:04:00.000Z'
+    }
+  }
+});
@@ -0,0 +1,20 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { INTEROP_FORMATS, detectInteropFormat, exportInterop, importInteropFiles } from '../services/interop';
+import { createI18n } from '../services/i18n';
+import { caseContent, sampleSuite } from './fixtures';
+
+const i18n = createI18n('en');
+
+describe('interop formats', () => {
+  it.each(INTEROP_FORMATS.map(f => f.id))('reads a %s export back in', format => {
+    const suite = sampleSuite();
+    const { file } = exportInterop(format, [suite], 'checkout');
+    const text = String(file.content).replace(/^﻿/, '');
+
+    expect(detectInteropFormat(file.fileName, text)).toBe(format);
+    const result = importInteropFiles(format, [{ name: file.fileName, text }], i18n);
+    expect(result.suites.map(s => s.name)).toEqual([suite.name]);
+    expect(result.suites[0].cases.map(caseContent)).toEqual(suite.cases.map(caseContent));
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { TestPlan, TestRun, TestSuite, User } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateStoredValue, wrapForStorage } from '../services/storage/migrations';
+
+const envelope = (schemaVersion: number, data: unknown[]) => ({ schemaVersion, savedAt: '2026-01-01T00:00:00.000Z', data });
+
+describe('storage migrations', () => {
+  it('leaves data saved by the current build alone', () => {
+    const suites = [{ id: 's1', name: 'Suite', description: '', createdAt: '2026-01-01', cases: [] }];
+    expect(migrateStoredValue('suites', wrapForStorage(suites))).toEqual(suites);
+    expect(wrapForStorage(suites).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('uses data from a newer build as it is', () => {
+    const data = [{ id: 's1', shape: 'from the future' }];
+    expect(migrateStoredValue('suites', envelope(CURRENT_SCHEMA_VERSION + 1, data))).toEqual(data);
+  });
+
+  // v1: bare arrays from before versioning
+  it('fills in suites saved as a bare array and versions their cases', () => {
+    const [suite] = migrateStoredValue('suites', [
+      { id: 's1', name: 'Login', cases: [{ id: 'c1', title: 'Valid login', priority: 'Urgent', steps: [{ action: 'Sign in' }, 'broken'] }] },
+      'not a suite'
+    ]) as TestSuite[];
+
+    expect(suite).toMatchObject({ id: 's1', name: 'Login', description: '' });
+    expect(suite.cases[0]).toMatchObject({ priority: 'Medium', version: 1 });
+    expect(suite.cases[0].steps).toEqual([{ id: expect.any(String), action: 'Sign in', expectedResult: '' }]);
+  });
+
+  it('drops runs without a suite and fills in their results', () => {
+    const runs = migrateStoredValue('runs', [
+      { id: 'r1', suiteId: 's1', startTime: '2026-01-01T00:00:00.000Z', results: { c1: { status: 'PASSED' }, c2: 'broken' } },
+      { id: 'r2' }
+    ]) as TestRun[];
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ status: 'COMPLETED', suiteName: '' });
+    expect(runs[0].results).toEqual({
+      c1: { caseId: 'c1', status: 'PASSED', source: 'MANUAL', timestamp: '2026-01-01T00:00:00.000Z' }
+    });
+  });
+
+  // v2: result sources, read from the log a result carries
+  it('gives results the source their logs point to', () => {
+    const [run] = migrateStoredValue('runs', envelope(1, [{
+      id: 'r1',
+      suiteId: 's1',
+      results: {
+        browser: { caseId: 'browser', status: 'FAILED', executionLog: 'log' },
+        ai: { caseId: 'ai', status: 'PASSED', aiLog: 'log' },
+        manual: { caseId: 'manual', status: 'SKIPPED' },
+        idle: { caseId: 'idle', status: 'IDLE' },
+        ci: { caseId: 'ci', status: 'PASSED', source: 'CI_IMPORT' }
+      }
+    }])) as TestRun[];
+
+    expect(Object.fromEntries(Object.entries(run.results).map(([id, r]) => [id, r.source]))).toEqual({
+      browser: 'EXECUTOR', ai: 'AI_SIMULATED', manual: 'MANUAL', idle: undefined, ci: 'CI_IMPORT'
+    });
+  });
+
+  // v3: global roles
+  it('makes the former hard-coded administrator an admin', () => {
+    const users = migrateStoredValue('users', [
+      { id: 'u1', name: 'Admin', email: 'administrator@autotest.ai' },
+      { id: 'u2', name: 'Tester', email: 'tester@example.com' },
+      { name: 'No id' }
+    ]) as User[];
+
+    expect(users.map(u => [u.id, u.globalRole, u.avatar])).toEqual([['u1', 'ADMIN', '👤'], ['u2', 'USER', '👤']]);
+  });
+
+  // v5: one plan entry per suite
+  it('merges plan entries for the same suite', () => {
+    const [plan] = migrateStoredValue('plans', envelope(4, [{
+      id: 'p1',
+      entries: [
+        { suiteId: 's1', caseIds: ['c1'] },
+        { suiteId: 's2' },
+        { suiteId: 's1', caseIds: ['c2', 'c1'], assigneeId: 'u1' },
+        { suiteId: 's2', caseIds: ['c3'] }
+      ]
+    }])) as TestPlan[];
+
+    expect(plan.entries).toEqual([
+      { suiteId: 's1', caseIds: ['c1', 'c2'], assigneeId: 'u1' },
+      { suiteId: 's2', caseIds: undefined, assigneeId: undefined }
+    ]);
+  });
+
+  // v6: API keys leave shared storage
+  it('drops stored API keys', () => {
+    const settings = migrateStoredValue('llmSettings', envelope(5, [{ userId: 'u1', provider: 'openai', apiKey: 'sk-secret' }]));
+    expect(settings).toEqual([{ userId: 'u1', provider: 'openai' }]);
+  });
+
+  // v7: stored text becomes message keys
+  it('reads gate failure numbers back out of the old sentences', () => {
+    // i18n-ignore-start: gate failures as older builds stored them
+    const failures = [
+      { gate: 'MIN_PASS_RATE', message: '통과율 85.5%가 기준 90%에 미달합니다' },
+      { gate: 'MAX_SKIPPED', message: '건너뛴 케이스 4개가 허용치 2개를 초과합니다' },
+      { gate: 'NO_HIGH_PRIORITY_FAILURES', message: '높은 우선순위 실패가 있습니다' }
+    ];
+    // i18n-ignore-end
+    const [run] = migrateStoredValue('runs', envelope(6, [{ id: 'r1', suiteId: 's1', results: {}, gateVerdict: { passed: false, failures } }])) as TestRun[];
+
+    expect(run.gateVerdict?.failures.map(f => f.message)).toEqual([
+      { key: 'gate.failure.MIN_PASS_RATE', params: { rate: '85.5', min: 90 } },
+      { key: 'gate.failure.MAX_SKIPPED', params: { count: 4, max: 2 } },
+      { key: 'common.text', params: { text: failures[2].message } }
+    ]);
+  });
+
+  it('keeps old notification text word for word', () => {
+    const notifications = migrateStoredValue('notifications', envelope(6, [
+      { id: 'n1', message: 'Run finished' },
+      { id: 'n2', message: { key: 'app.welcome', params: { name: 'Kim' } } }
+    ]));
+    expect(notifications).toEqual([
+      { id: 'n1', message: { key: 'common.text', params: { text: 'Run finished' } } },
+      { id: 'n2', message: { key: 'app.welcome', params: { name: 'Kim' } } }
+    ]);
+  });
+
+  // v8: attachments refer to the blob store; inline data URLs stay valid references
+  it('turns inline attachment data into blob references', () => {
+    const [run] = migrateStoredValue('runs', envelope(7, [{
+      id: 'r1',
+      suiteId: 's1',
+      results: {
+        c1: {
+          caseId: 'c1',
+          status: 'FAILED',
+          stepResults: [{ stepId: 'st1', status: 'FAILED', attachments: [{ name: 'shot.png', type: 'image/png', dataUrl: 'data:image/png;base64,AAAA' }] }]
+        },
+        c2: { caseId: 'c2', status: 'PASSED' }
+      }
+    }])) as TestRun[];
+
+    expect(run.results.c1.stepResults?.[0].attachments).toEqual([{ name: 'shot.png', type: 'image/png', blob: 'data:image/png;base64,AAAA' }]);
+    expect(run.results.c2).toEqual({ caseId: 'c2', status: 'PASSED' });
+  });
+});
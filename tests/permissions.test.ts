@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, User } from '../types';
+import { canInWorkspace, canOnIssue, canOnSuite, getSuiteRole, setSuiteRole } from '../services/permissions';
+import { sampleSuite } from './fixtures';
+
+const user = (id: string, globalRole: User['globalRole'] = 'USER'): User => ({ id, name: id, email: `${id}@example.com`, avatar: '👤', globalRole });
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'i1',
+  key: 'ISS-1',
+  title: 'Receipt total missing',
+  description: '',
+  status: 'TODO',
+  priority: 'High',
+  createdAt: '2026-01-06T10:10:00.000Z',
+  ...overrides
+});
+
+describe('permissions', () => {
+  const suite = setSuiteRole(setSuiteRole(sampleSuite(), 'member', 'MEMBER'), 'observer', 'OBSERVER');
+  const other = { ...sampleSuite(), id: 'suite-other', permissions: { observer: 'ADMIN' as const } };
+
+  it('grants each suite role its capabilities', () => {
+    expect(canOnSuite(user('member'), suite, 'suite.run')).toBe(true);
+    expect(canOnSuite(user('member'), suite, 'suite.delete')).toBe(false);
+    expect(canOnSuite(user('observer'), suite, 'suite.view')).toBe(true);
+    expect(canOnSuite(user('observer'), suite, 'suite.editCases')).toBe(false);
+    expect(canOnSuite(user('stranger'), suite, 'suite.view')).toBe(false);
+  });
+
+  it('lets global admins do anything and removes a role that is set to null', () => {
+    expect(getSuiteRole(user('boss', 'ADMIN'), suite)).toBe('ADMIN');
+    expect(getSuiteRole(user('member'), setSuiteRole(suite, 'member', null))).toBe('NONE');
+  });
+
+  it('uses the highest role on any suite for workspace actions', () => {
+    expect(canInWorkspace(user('observer'), [suite, other], 'suite.manageAccess')).toBe(true);
+    expect(canInWorkspace(user('member'), [suite, other], 'suite.manageAccess')).toBe(false);
+  });
+
+  it('gives linked issues the access of their suites and lets reporters edit their own', () => {
+    const linked = issue({ linkedCases: [{ suiteId: suite.id, caseId: 'case-card', runId: 'run-1' }] });
+
+    expect(canOnIssue(user('member'), linked, [suite, other], 'issue.triage')).toBe(true);
+    // Admin on another suite gives nothing on an issue linked only to this one
+    expect(canOnIssue(user('observer'), linked, [suite, other], 'issue.triage')).toBe(false);
+    expect(canOnIssue(user('stranger'), issue({ reporterId: 'stranger' }), [suite], 'issue.edit')).toBe(true);
+    expect(canOnIssue(user('stranger'), issue({ reporterId: 'stranger' }), [suite], 'issue.delete')).toBe(false);
+  });
+});
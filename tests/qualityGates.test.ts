@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { TestRun } from '../types';
+import { evaluateQualityGates, getRunVerdict } from '../services/qualityGates';
+import { completedRun, sampleSuite } from './fixtures';
+
+const gateIds = (run: TestRun, suite = sampleSuite()) => evaluateQualityGates(run, suite).failures.map(f => f.gate);
+
+describe('quality gates', () => {
+  it('fails a half-passed run on the default 90% pass rate', () => {
+    const verdict = evaluateQualityGates(completedRun(sampleSuite()), sampleSuite());
+    expect(verdict.passed).toBe(false);
+    expect(verdict.passRate).toBe(50);
+    expect(verdict.failures).toEqual([{ gate: 'MIN_PASS_RATE', message: { key: 'gate.failure.MIN_PASS_RATE', params: { rate: '50', min: 90 } } }]);
+  });
+
+  it('checks high-priority failures and skipped cases when the suite asks for it', () => {
+    const suite = { ...sampleSuite(), qualityGates: { minPassRate: 0, noHighPriorityFailures: true, maxSkipped: 0 } };
+    const run = completedRun(suite);
+    run.results['case-empty'] = { ...run.results['case-empty'], status: 'SKIPPED' };
+
+    expect(gateIds(run, suite)).toEqual(['NO_HIGH_PRIORITY_FAILURES', 'MAX_SKIPPED']);
+  });
+
+  it('leaves AI-simulated results out of the counts and fails the run for them', () => {
+    const suite = sampleSuite();
+    const run = completedRun(suite);
+    run.results['case-card'] = { ...run.results['case-card'], status: 'PASSED', source: 'AI_SIMULATED' };
+    const verdict = evaluateQualityGates(run, suite);
+
+    expect(verdict.passRate).toBe(100);
+    expect(verdict.failures.map(f => f.gate)).toEqual(['NO_SIMULATED_RESULTS']);
+  });
+
+  it('judges a saved passing verdict again when the run holds simulated results', () => {
+    const suite = sampleSuite();
+    const run = completedRun(suite);
+    run.results['case-card'] = { ...run.results['case-card'], status: 'PASSED', source: 'AI_SIMULATED' };
+    run.gateVerdict = { passed: true, passRate: 100, failures: [], gates: { minPassRate: 90, noHighPriorityFailures: false } };
+
+    expect(getRunVerdict(run, [suite]).passed).toBe(false);
+  });
+});
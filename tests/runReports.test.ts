@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { buildRunFromJUnit, parseJUnitXml, toCtrfJson, toJUnitXml } from '../services/runReports';
+import { createI18n } from '../services/i18n';
+import { completedRun, sampleSuite } from './fixtures';
+
+const i18n = createI18n('en');
+
+describe('run reports', () => {
+  it('reads an exported JUnit report back in as the same run', () => {
+    const suite = sampleSuite();
+    const run = completedRun(suite);
+    const report = parseJUnitXml(toJUnitXml(run, suite, [], i18n));
+
+    expect(report.timestamp).toBe(run.startTime);
+    expect(report.time).toBe(300);
+    expect(report.testcases.map(tc => [tc.caseId, tc.name, tc.status])).toEqual([
+      ['case-card', 'Pay by card, then see the receipt', 'FAILED'],
+      ['case-empty', 'Empty cart', 'PASSED']
+    ]);
+    expect(report.testcases[0].message).toContain('Pay with card "4242"; confirm');
+
+    const { run: imported, unmatched } = buildRunFromJUnit(report, suite, 'report.xml', 'user-2');
+    expect(unmatched).toEqual([]);
+    expect(imported.startTime).toBe(run.startTime);
+    expect(imported.endTime).toBe(run.endTime);
+    expect(Object.values(imported.results).map(r => [r.caseId, r.status, r.caseVersion, r.source])).toEqual([
+      ['case-card', 'FAILED', 3, 'CI_IMPORT'],
+      ['case-empty', 'PASSED', 1, 'CI_IMPORT']
+    ]);
+  });
+
+  it('matches testcases by name when the report has no case ids', () => {
+    const suite = sampleSuite();
+    const xml = `<testsuite name="ci" time="1.5">
+      <testcase name="test_empty_cart[chrome]" time="0.5"/>
+      <testcase name="Empty cart [firefox]" time="0.5"><failure message="boom"/></testcase>
+      <testcase name="Unknown case" time="0.5"><skipped/></testcase>
+    </testsuite>`;
+    const { run, unmatched } = buildRunFromJUnit(parseJUnitXml(xml), suite, 'ci.xml', 'user-2');
+
+    expect(run.results['case-empty'].status).toBe('FAILED');
+    expect(run.caseIds).toEqual(['case-empty']);
+    expect(unmatched.map(tc => tc.name)).toEqual(['Unknown case']);
+  });
+
+  it('refuses XML that is not a JUnit report', () => {
+    expect(() => parseJUnitXml('<html/>')).toThrow();
+  });
+
+  it('writes a CTRF report with the run totals and step states', () => {
+    const suite = sampleSuite();
+    const report = JSON.parse(toCtrfJson(completedRun(suite), suite, [], i18n));
+
+    expect(report.reportFormat).toBe('CTRF');
+    expect(report.results.summary).toMatchObject({ tests: 2, passed: 1, failed: 1, skipped: 0, pending: 0 });
+    expect(report.results.summary.stop - report.results.summary.start).toBe(300_000);
+    expect(report.results.tests[0].steps.map((s: { status: string }) => s.status)).toEqual(['passed', 'failed']);
+    expect(report.results.tests[0].extra).toMatchObject({ caseId: 'case-card', caseVersion: 3, priority: 'High' });
+  });
+});
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { exportSuites, toSuiteExportDocument, SUITE_EXPORT_FORMAT_VERSION } from '../services/suiteExport';
+import { buildCasesFromSheet, guessColumnMapping, readSheet } from '../services/caseImport';
+import { createI18n } from '../services/i18n';
+import { caseContent, sampleSuite } from './fixtures';
+
+const importFile = async (file: File) => {
+  const sheet = await readSheet(file);
+  return buildCasesFromSheet(sheet, guessColumnMapping(sheet.headers));
+};
+
+describe('suite export', () => {
+  // The XLSX reader parses the sheet XML with the browser's DOMParser. A full jsdom environment
+  // can't be used: its typed arrays come from another realm, and fflate then writes empty zips.
+  beforeAll(() => {
+    globalThis.DOMParser = new JSDOM().window.DOMParser;
+  });
+
+  // Spreadsheet exports use the importer's column names, so they import again without remapping
+  it.each(['ko', 'en'] as const)('reads a CSV export back in (%s headers)', async locale => {
+    const suite = sampleSuite();
+    const exported = exportSuites([suite], 'CSV', 'checkout', createI18n(locale));
+    const result = await importFile(new File([exported.content], exported.fileName));
+
+    expect(result.issues).toEqual([]);
+    expect(result.cases.map(c => caseContent(c.testCase))).toEqual(suite.cases.map(caseContent));
+  });
+
+  it('reads an XLSX export back in', async () => {
+    const suite = sampleSuite();
+    const exported = exportSuites([suite], 'XLSX', 'checkout', createI18n('en'));
+    const result = await importFile(new File([exported.content], exported.fileName));
+
+    expect(result.issues).toEqual([]);
+    expect(result.cases.map(c => caseContent(c.testCase))).toEqual(suite.cases.map(caseContent));
+  });
+
+  it('keeps two suites apart in one CSV', async () => {
+    const first = sampleSuite();
+    const second = { ...sampleSuite(), id: 'suite-2', name: 'Refunds' };
+    const exported = exportSuites([first, second], 'CSV', 'all', createI18n('en'));
+    const result = await importFile(new File([exported.content], exported.fileName));
+
+    expect(result.cases).toHaveLength(first.cases.length + second.cases.length);
+  });
+
+  it('writes the JSON document with its format version', () => {
+    const suite = sampleSuite();
+    const exported = exportSuites([suite], 'JSON', 'checkout', createI18n('en'));
+    const document = JSON.parse(String(exported.content));
+
+    expect(document.format).toBe('autotest-ai/suites');
+    expect(document.formatVersion).toBe(SUITE_EXPORT_FORMAT_VERSION);
+    expect(document.suites[0].cases.map((c: { version: number }) => c.version)).toEqual([3, 1]);
+    expect(JSON.parse(JSON.stringify(toSuiteExportDocument([suite]))).suites).toEqual(document.suites);
+  });
+});
@@ -1,5 +1,8 @@
 export type TestStatus = 'IDLE' | 'PASSED' | 'FAILED' | 'SKIPPED';
 
+// Who decided a result: a human tester, the AI simulation, the real browser executor, or a CI report
+export type ResultSource = 'MANUAL' | 'AI_SIMULATED' | 'EXECUTOR' | 'CI_IMPORT';
+
 export interface TestStep {
   id: string;
   action: string;
@@ -12,8 +15,38 @@ export interface TestCase {
   description?: string;
   steps: TestStep[];
   priority: 'Low' | 'Medium' | 'High';
+  version?: number; // Bumped on every content change; unset counts as 1
+}
+
+// Content of a test case as it was at one version
+export interface CaseVersion {
+  id: string;
+  suiteId: string;
+  caseId: string;
+  version: number;
+  snapshot: Omit<TestCase, 'version'>;
+  authorId?: string; // Unset for content that predates version tracking
+  createdAt: string;
+  restoredFrom?: number; // Set when the content matches an earlier version
 }
 
+// Language the AI writes cases and simulation logs in
+export type AiLanguage = 'ko' | 'en' | 'ja';
+
+// Languages the interface itself is available in
+export type UiLocale = 'ko' | 'en';
+
+// Text the app writes for someone to read later (run results, gate verdicts, notifications). It is
+// kept as a message key and translated when shown, so it follows the reader's language rather
+// than the writer's.
+export interface LocalizedText {
+  key: string; // Key in services/i18n/ko.ts
+  params?: Record<string, LocalizedParam>;
+}
+
+// Nested text is translated too; a list is joined with commas
+export type LocalizedParam = string | number | LocalizedText | LocalizedText[];
+
 export type Role = 'ADMIN' | 'MEMBER' | 'OBSERVER';
 
 export interface TestSuite {
@@ -28,14 +61,59 @@ export interface TestSuite {
     appAddress: string;
     testEmail?: string;
     executionMode?: 'MANUAL' | 'AUTOMATED';
+    automationEngine?: 'BROWSER' | 'AI_SIMULATION'; // AUTOMATED web runs only; desktop runs are always simulated
     mockAssets?: string[]; // List of file names available in the virtual file system
   };
+  qualityGates?: QualityGates; // Defaults apply when unset
+  aiLanguage?: AiLanguage; // Unset follows each user's AI settings
+}
+
+export interface QualityGates {
+  minPassRate: number; // 0-100
+  noHighPriorityFailures: boolean;
+  maxSkipped?: number; // Unset means any number of skipped cases is allowed
+}
+
+// NO_SIMULATED_RESULTS is not configurable: AI-simulated results never count as evidence for a release
+export type QualityGateId = 'MIN_PASS_RATE' | 'NO_HIGH_PRIORITY_FAILURES' | 'MAX_SKIPPED' | 'NO_SIMULATED_RESULTS';
+
+export interface GateFailure {
+  gate: QualityGateId;
+  message: LocalizedText;
+}
+
+export interface GateVerdict {
+  passed: boolean;
+  passRate: number;
+  failures: GateFailure[]; // Empty when every gate passed
+  gates: QualityGates; // Gates as configured when the run was evaluated
+}
+
+export interface StepAttachment {
+  name: string;
+  type: string; // MIME type
+  blob: string; // Reference into the blob store (services/storage/blobStore.ts)
+}
+
+export interface StepResult {
+  stepId: string;
+  status: TestStatus;
+  actualResult?: string;
+  attachments?: StepAttachment[];
 }
 
 export interface TestResult {
   caseId: string;
-  status: TestStatus;
-  notes?: string;
+  caseVersion?: number; // Version of the case the result was recorded against
+  status: TestStatus; // Derived from stepResults when the case has steps
+  source?: ResultSource; // Unset while the case has not been executed
+  notes?: string; // Free text from the tester or an imported CI report
+  summary?: LocalizedText; // Outcome reported by the executor or the AI simulation
+  stepResults?: StepResult[];
+  failedStepIndex?: number; // 0-based index of the first failing step
+  aiLog?: string; // Execution log produced by the AI simulation
+  executionLog?: string; // Log from the browser executor
+  screenshots?: string[]; // data: URLs captured by the browser executor
   timestamp: string;
 }
 
@@ -45,13 +123,51 @@ export interface TestRun {
   suiteName: string;
   startTime: string;
   endTime?: string;
-  status: 'IN_PROGRESS' | 'COMPLETED';
+  status: 'IN_PROGRESS' | 'COMPLETED' | 'ABANDONED'; // Only COMPLETED runs count towards statistics
   results: Record<string, TestResult>; // Map caseId to result
+  executedBy?: string; // userId of the tester who ran it
+  assignedTo?: string; // userId responsible for the run's unassigned cases
+  gateVerdict?: GateVerdict; // Set when the run completes
+  planId?: string; // Set when the run was launched from a test plan
+  caseIds?: string[]; // Subset of the suite's cases covered by this run; unset means all
+  importedFrom?: string; // File name of the CI report the run was imported from
+}
+
+// A plan has at most one entry per suite (see mergePlanEntries)
+export interface TestPlanEntry {
+  suiteId: string;
+  caseIds?: string[]; // Unset runs every case in the suite
+  assigneeId?: string; // Default tester for this suite's run
+}
+
+export interface CaseAssignment {
+  suiteId: string;
+  caseId: string;
+  userId: string;
+}
+
+export interface TestPlan {
+  id: string;
+  name: string;
+  description: string;
+  milestone: string; // Release the plan signs off, e.g. "v2.4"
+  startDate?: string; // YYYY-MM-DD
+  targetDate?: string; // YYYY-MM-DD
+  entries: TestPlanEntry[];
+  assignments?: CaseAssignment[]; // Per-case overrides of the entry assignee
+  createdAt: string;
+  lastLaunchedAt?: string;
 }
 
 export type IssueStatus = 'TODO' | 'IN_PROGRESS' | 'DONE';
 export type IssuePriority = 'Low' | 'Medium' | 'High' | 'Critical';
 
+export interface IssueCaseLink {
+  suiteId: string;
+  caseId: string;
+  runId: string; // Run in which the failure was recorded
+}
+
 export interface Issue {
   id: string;
   key: string; // e.g. ISS-1
@@ -60,22 +176,72 @@ export interface Issue {
   status: IssueStatus;
   priority: IssuePriority;
   assignee?: string; // Stores user.name
+  reporterId?: string; // userId of whoever opened the issue
+  linkedCases?: IssueCaseLink[]; // Test cases blocked by this issue
   createdAt: string;
 }
 
+export type NotificationType =
+  | 'ASSIGNMENT'
+  | 'RUN_COMPLETED'
+  | 'GATE_FAILED'
+  | 'ISSUE_STATUS_CHANGED'
+  | 'MENTIONED'
+  | 'PERMISSION_GRANTED'
+  | 'SYSTEM';
+
+// What a notification opens when clicked
+export type NotificationLink =
+  | { kind: 'SUITE'; suiteId: string }
+  | { kind: 'RUN'; runId: string }
+  | { kind: 'ISSUE'; issueId: string }
+  | { kind: 'PLAN'; planId: string };
+
 export interface Notification {
   id: string;
-  message: string;
-  type: 'ASSIGNMENT' | 'SYSTEM';
+  recipientId: string; // userId of the inbox this belongs to
+  type: NotificationType;
+  message: LocalizedText; // Translated for the recipient, who may use another language than the sender
+  link?: NotificationLink;
   read: boolean;
   timestamp: string;
 }
 
+export type NotificationInput = Pick<Notification, 'recipientId' | 'type' | 'message' | 'link'>;
+
+export type AuditEntityType = 'SUITE' | 'CASE' | 'PERMISSION' | 'RUN' | 'ISSUE' | 'PLAN';
+export type AuditAction = 'CREATED' | 'UPDATED' | 'DELETED';
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditChange {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+// Append-only; entries are never edited or removed once written
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actorId: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName: string;
+  parentId?: string; // Suite the case, permission or run belongs to
+  changes: AuditChange[];
+}
+
+// Applies across every suite, unlike the per-suite Role
+export type GlobalRole = 'ADMIN' | 'USER';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   avatar: string; // Emoji or URL
+  globalRole: GlobalRole;
+  locale?: UiLocale; // Unset follows the browser language
 }
 
-export type ViewState = 'DASHBOARD' | 'SUITES' | 'RUNNER' | 'HISTORY' | 'ISSUES';
\ No newline at end of file
+export type ViewState = 'DASHBOARD' | 'QUEUE' | 'SUITES' | 'PLANS' | 'RUNNER' | 'HISTORY' | 'ISSUES' | 'AUDIT';
\ No newline at end of file
@@ -11,8 +11,18 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND ?? ''),
+        'process.env.STORAGE_URL': JSON.stringify(env.STORAGE_URL ?? ''),
+        'process.env.EXECUTOR_URL': JSON.stringify(env.EXECUTOR_URL ?? ''),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL ?? ''),
+        'process.env.AUTH_SERVER_URL': JSON.stringify(env.AUTH_SERVER_URL ?? ''),
+        'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER ?? ''),
+        'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID ?? ''),
+        'process.env.OIDC_REDIRECT_URI': JSON.stringify(env.OIDC_REDIRECT_URI ?? ''),
+        'process.env.OIDC_LABEL': JSON.stringify(env.OIDC_LABEL ?? ''),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER ?? ''),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL ?? ''),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL ?? '')
       },
       resolve: {
         alias: {